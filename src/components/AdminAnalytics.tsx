@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import UserPicker from "@/components/UserPicker";
+import { BarChart3, Loader2 } from "lucide-react";
+import {
+  dailySeries,
+  distinctUsers,
+  errorRate,
+  formatCount,
+  istToday,
+  RANGE_PRESETS,
+  rangeEnding,
+  topCounts,
+  usageByRequestType,
+  type ActivityDayRow,
+  type UsageDayRow,
+} from "@/lib/analytics";
+import { formatIsoDate } from "@/lib/case-calendar";
+
+interface AnalyticsData {
+  usage: UsageDayRow[];
+  activity: ActivityDayRow[];
+  categories: { category: string | null; cases: number | null }[];
+  offences: { offence: string | null; cases: number | null }[];
+}
+
+const ALL_USERS = "all";
+
+// The admin_* views return rows only to admins, one per IST day and user
+const fetchAnalytics = async (from: string, to: string, userId: string): Promise<AnalyticsData> => {
+  let usage = supabase
+    .from("admin_ai_usage_daily")
+    .select("day, user_id, request_type, requests, errors, pending, prompt_tokens, completion_tokens")
+    .gte("day", from)
+    .lte("day", to);
+  let activity = supabase.from("admin_activity_daily").select("day, user_id, analyses, chat_messages").gte("day", from).lte("day", to);
+  let categories = supabase.from("admin_case_categories_daily").select("category, cases").gte("day", from).lte("day", to);
+  let offences = supabase.from("admin_case_offences_daily").select("offence, cases").gte("day", from).lte("day", to);
+  if (userId !== ALL_USERS) {
+    usage = usage.eq("user_id", userId);
+    activity = activity.eq("user_id", userId);
+    categories = categories.eq("user_id", userId);
+    offences = offences.eq("user_id", userId);
+  }
+
+  const [usageRows, activityRows, categoryRows, offenceRows] = await Promise.all([usage, activity, categories, offences]);
+  return { usage: usageRows.data ?? [], activity: activityRows.data ?? [], categories: categoryRows.data ?? [], offences: offenceRows.data ?? [] };
+};
+
+const activityConfig = {
+  analyses: { label: "Analyses", color: "hsl(var(--primary))" },
+  chatMessages: { label: "Chat messages", color: "hsl(var(--gold-muted))" },
+} satisfies ChartConfig;
+
+const usersConfig = {
+  activeUsers: { label: "Active users", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const requestsConfig = {
+  requests: { label: "AI requests", color: "hsl(var(--gold-muted))" },
+  errors: { label: "Errors", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const tokensConfig = {
+  promptTokens: { label: "Prompt tokens", color: "hsl(var(--gold-muted))" },
+  completionTokens: { label: "Completion tokens", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const casesConfig = {
+  cases: { label: "Cases", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const shortDay = (iso: string) => formatIsoDate(iso, { day: "numeric", month: "short" });
+
+const ChartCard = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="bg-card border border-border rounded-lg p-4">
+    <h3 className="text-sm font-medium text-foreground mb-3">{title}</h3>
+    {children}
+  </div>
+);
+
+const Tile = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-card border border-border rounded-lg p-4">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="text-2xl font-serif font-bold text-foreground mt-1">{value}</div>
+  </div>
+);
+
+/** Usage analytics for the global admin, filterable by date range and user. */
+const AdminAnalytics = () => {
+  const [range, setRange] = useState("30");
+  const [userId, setUserId] = useState(ALL_USERS);
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [fetching, setFetching] = useState(true);
+  const { from, to } = rangeEnding(istToday(), Number(range));
+
+  useEffect(() => {
+    setFetching(true);
+    fetchAnalytics(from, to, userId).then((result) => {
+      setData(result);
+      setFetching(false);
+    });
+  }, [from, to, userId]);
+
+  const series = data ? dailySeries(from, to, data.usage, data.activity) : [];
+  const totals = series.reduce(
+    (sum, p) => ({
+      analyses: sum.analyses + p.analyses,
+      chatMessages: sum.chatMessages + p.chatMessages,
+      tokens: sum.tokens + p.promptTokens + p.completionTokens,
+    }),
+    { analyses: 0, chatMessages: 0, tokens: 0 },
+  );
+  const byType = data ? usageByRequestType(data.usage) : [];
+  const categories = data ? topCounts(data.categories, "category") : [];
+  const offences = data ? topCounts(data.offences, "offence") : [];
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <BarChart3 className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-serif font-bold text-foreground mr-auto">Usage Analytics</h2>
+        {fetching && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        <Select value={range} onValueChange={setRange}>
+          <SelectTrigger className="w-[150px] bg-input border-border text-foreground">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-card border-border">
+            {RANGE_PRESETS.map((r) => (
+              <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <UserPicker value={userId} allValue={ALL_USERS} allLabel="All users" onChange={setUserId} />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <Tile label="Analyses" value={formatCount(totals.analyses)} />
+        <Tile label="Chat messages" value={formatCount(totals.chatMessages)} />
+        <Tile label="Active users" value={data ? formatCount(distinctUsers(data.usage, data.activity)) : "—"} />
+        <Tile label="AI error rate" value={data ? `${(errorRate(data.usage) * 100).toFixed(1)}%` : "—"} />
+        <Tile label="Tokens" value={formatCount(totals.tokens)} />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <ChartCard title="Analyses and chat messages per day">
+          <ChartContainer config={activityConfig} className="h-56 w-full">
+            <AreaChart data={series}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={shortDay} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => shortDay(String(day))} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Area dataKey="analyses" type="monotone" stroke="var(--color-analyses)" fill="var(--color-analyses)" fillOpacity={0.25} />
+              <Area dataKey="chatMessages" type="monotone" stroke="var(--color-chatMessages)" fill="var(--color-chatMessages)" fillOpacity={0.25} />
+            </AreaChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Active users per day">
+          <ChartContainer config={usersConfig} className="h-56 w-full">
+            <BarChart data={series}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={shortDay} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => shortDay(String(day))} />} />
+              <Bar dataKey="activeUsers" fill="var(--color-activeUsers)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="AI requests and errors per day">
+          <ChartContainer config={requestsConfig} className="h-56 w-full">
+            <BarChart data={series}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={shortDay} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => shortDay(String(day))} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="requests" fill="var(--color-requests)" radius={2} />
+              <Bar dataKey="errors" fill="var(--color-errors)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Token usage per day">
+          <ChartContainer config={tokensConfig} className="h-56 w-full">
+            <BarChart data={series}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={shortDay} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis tickFormatter={formatCount} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => shortDay(String(day))} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="promptTokens" stackId="tokens" fill="var(--color-promptTokens)" />
+              <Bar dataKey="completionTokens" stackId="tokens" fill="var(--color-completionTokens)" radius={[2, 2, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Top case categories">
+          {categories.length === 0 ? (
+            <div className="h-56 flex items-center justify-center text-sm text-muted-foreground">No cases in this period.</div>
+          ) : (
+            <ChartContainer config={casesConfig} className="h-56 w-full">
+              <BarChart data={categories} layout="vertical" margin={{ left: 8 }}>
+                <XAxis type="number" allowDecimals={false} hide />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={110} />
+                <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                <Bar dataKey="cases" fill="var(--color-cases)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </ChartCard>
+
+        <ChartCard title="Top offence types">
+          {offences.length === 0 ? (
+            <div className="h-56 flex items-center justify-center text-sm text-muted-foreground">No offences recorded in this period.</div>
+          ) : (
+            <ChartContainer config={casesConfig} className="h-56 w-full">
+              <BarChart data={offences} layout="vertical" margin={{ left: 8 }}>
+                <XAxis type="number" allowDecimals={false} hide />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={110} />
+                <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                <Bar dataKey="cases" fill="var(--color-cases)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </ChartCard>
+      </div>
+
+      <ChartCard title="AI requests by type">
+        {byType.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No AI requests in this period.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Requests</TableHead>
+                <TableHead>Errors</TableHead>
+                <TableHead>Error Rate</TableHead>
+                <TableHead>Tokens</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {byType.map((t) => (
+                <TableRow key={t.type}>
+                  <TableCell className="font-medium text-foreground">{t.label}</TableCell>
+                  <TableCell className="text-muted-foreground">{t.requests}</TableCell>
+                  <TableCell className="text-muted-foreground">{t.errors}</TableCell>
+                  <TableCell className="text-muted-foreground">{t.requests ? `${((t.errors / t.requests) * 100).toFixed(1)}%` : "—"}</TableCell>
+                  <TableCell className="text-muted-foreground">{formatCount(t.tokens)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </ChartCard>
+    </div>
+  );
+};
+
+export default AdminAnalytics;
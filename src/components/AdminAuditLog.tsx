@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import UserPicker from "@/components/UserPicker";
+import { Download, Loader2, ScrollText, ShieldAlert, ShieldCheck } from "lucide-react";
+import { ACTOR_ROLE_LABELS, actionLabel, AUDIT_COLUMNS, AUDIT_TABLES, auditCsv, describeChanges, istDayBounds, type AuditEntry } from "@/lib/audit-log";
+import { istToday, RANGE_PRESETS, rangeEnding } from "@/lib/analytics";
+
+type UserNames = Record<string, { name: string; username: string }>;
+
+interface AuditFilters {
+  range: string;
+  actorId: string;
+  table: string;
+  targetUserId: string;
+}
+
+const ALL = "all";
+
+/** The viewer shows the newest entries first, up to this many; the export covers every match. */
+const ENTRY_LIMIT = 500;
+
+/** Entries fetched per request while exporting. */
+const EXPORT_PAGE_SIZE = 1000;
+
+/** Ids per profiles request when naming actors and targets, keeping the request URL short. */
+const NAME_BATCH = 100;
+
+// Newest first, up to `limit` entries older than `beforeId` when given
+const entriesQuery = ({ range, actorId, table, targetUserId }: AuditFilters, limit: number, beforeId?: number) => {
+  const { from, to } = rangeEnding(istToday(), Number(range));
+  const bounds = istDayBounds(from, to);
+  let query = supabase
+    .from("admin_audit_log")
+    .select(AUDIT_COLUMNS)
+    .gte("occurred_at", bounds.from)
+    .lt("occurred_at", bounds.before)
+    .order("id", { ascending: false })
+    .limit(limit);
+  if (actorId !== ALL) query = query.eq("actor_id", actorId);
+  if (table !== ALL) query = query.eq("target_table", table);
+  if (targetUserId !== ALL) query = query.eq("target_user_id", targetUserId);
+  if (beforeId !== undefined) query = query.lt("id", beforeId);
+  return query;
+};
+
+const fetchEntries = async (filters: AuditFilters): Promise<AuditEntry[]> => {
+  const { data } = await entriesQuery(filters, ENTRY_LIMIT);
+  return data ?? [];
+};
+
+// Every matching entry, a page at a time; null if any page fails, so a partial log is never exported
+const fetchAllEntries = async (filters: AuditFilters): Promise<AuditEntry[] | null> => {
+  const all: AuditEntry[] = [];
+  for (;;) {
+    const { data, error } = await entriesQuery(filters, EXPORT_PAGE_SIZE, all[all.length - 1]?.id);
+    if (error) return null;
+    all.push(...data);
+    if (data.length < EXPORT_PAGE_SIZE) return all;
+  }
+};
+
+// Names of the actors and targets in `entries` that still have an account
+const fetchNames = async (entries: AuditEntry[]): Promise<UserNames> => {
+  const ids = [...new Set(entries.flatMap((e) => [e.actor_id, e.target_user_id]).filter((id): id is string => !!id))];
+  const batches = [];
+  for (let i = 0; i < ids.length; i += NAME_BATCH) {
+    batches.push(supabase.from("profiles").select("user_id, name, username").in("user_id", ids.slice(i, i + NAME_BATCH)));
+  }
+  const results = await Promise.all(batches);
+  return Object.fromEntries(results.flatMap(({ data }) => data ?? []).map((p) => [p.user_id, p]));
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-IN", { timeZone: "Asia/Kolkata", day: "numeric", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+/** The append-only admin audit log for the global admin, with a chain check and CSV export. */
+const AdminAuditLog = () => {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditFilters>({ range: "30", actorId: ALL, table: ALL, targetUserId: ALL });
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [names, setNames] = useState<UserNames>({});
+  const [fetching, setFetching] = useState(true);
+  const [verifying, setVerifying] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [verification, setVerification] = useState<{ checked: number; firstInvalidId: number | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFetching(true);
+    fetchEntries(filters).then(async (result) => {
+      const resultNames = await fetchNames(result);
+      if (cancelled) return;
+      setEntries(result);
+      setNames(resultNames);
+      setFetching(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const nameIn = (known: UserNames) => (userId: string | null) => {
+    const user = userId ? known[userId] : undefined;
+    return user ? user.name || user.username : "";
+  };
+  const nameOf = nameIn(names);
+
+  // Deleted accounts no longer have a profile; their deletion entry among `pool` kept the name
+  const targetNameIn = (pool: AuditEntry[], known: UserNames) => (e: AuditEntry) => {
+    const name = nameIn(known)(e.target_user_id);
+    if (name || !e.target_user_id) return name;
+    const deleted = pool.find((d) => d.action === "user.delete" && d.target_user_id === e.target_user_id);
+    const before = deleted?.before as { name?: string; username?: string } | null | undefined;
+    return before?.name || before?.username || `${e.target_user_id.slice(0, 8)}…`;
+  };
+  const targetName = targetNameIn(entries, names);
+
+  const verify = async () => {
+    setVerifying(true);
+    const { data, error } = await supabase.rpc("verify_admin_audit_log");
+    setVerifying(false);
+    if (error || !data?.[0]) {
+      toast({ title: "Error", description: "Could not verify the audit log", variant: "destructive" });
+      return;
+    }
+    setVerification({ checked: data[0].checked, firstInvalidId: data[0].first_invalid_id });
+  };
+
+  const exportCsv = async () => {
+    setExporting(true);
+    const all = await fetchAllEntries(filters);
+    const allNames = all ? await fetchNames(all) : {};
+    setExporting(false);
+    if (!all) {
+      toast({ title: "Error", description: "Could not export the audit log", variant: "destructive" });
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([auditCsv(all, nameIn(allNames), targetNameIn(all, allNames))], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `admin-audit-log-${istToday()}.csv`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const filterSelect = (key: keyof AuditFilters, allLabel: string, options: { value: string; label: string }[], width = "w-[180px]") => (
+    <Select value={filters[key]} onValueChange={(value) => setFilters({ ...filters, [key]: value })}>
+      <SelectTrigger className={`${width} bg-input border-border text-foreground`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-card border-border">
+        {allLabel && <SelectItem value={ALL}>{allLabel}</SelectItem>}
+        {options.map((o) => (
+          <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const userPicker = (key: "actorId" | "targetUserId", allLabel: string) => (
+    <UserPicker value={filters[key]} allValue={ALL} allLabel={allLabel} onChange={(value) => setFilters({ ...filters, [key]: value })} />
+  );
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <ScrollText className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-serif font-bold text-foreground mr-auto">Audit Log</h2>
+        {fetching && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        {verification &&
+          (verification.firstInvalidId === null ? (
+            <span className="flex items-center gap-1 text-xs font-medium text-green-400">
+              <ShieldCheck className="w-4 h-4" /> Chain intact ({verification.checked} entries)
+            </span>
+          ) : (
+            <span className="flex items-center gap-1 text-xs font-medium text-destructive">
+              <ShieldAlert className="w-4 h-4" /> Chain broken at entry #{verification.firstInvalidId}
+            </span>
+          ))}
+        <Button variant="outline" size="sm" onClick={verify} disabled={verifying} className="border-border text-muted-foreground hover:text-foreground">
+          {verifying ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <ShieldCheck className="w-3 h-3 mr-1" />} Verify
+        </Button>
+        <Button size="sm" onClick={exportCsv} disabled={exporting || entries.length === 0} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+          {exporting ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Download className="w-3 h-3 mr-1" />} Export CSV
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {filterSelect("range", "", RANGE_PRESETS, "w-[150px]")}
+        {userPicker("actorId", "All actors")}
+        {filterSelect("table", "All areas", AUDIT_TABLES)}
+        {userPicker("targetUserId", "All target users")}
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground text-sm">{fetching ? "Loading…" : "No admin actions match these filters."}</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>When (IST)</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((e) => (
+                <TableRow key={e.id}>
+                  <TableCell className="text-xs text-muted-foreground">{e.id}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{formatTime(e.occurred_at)}</TableCell>
+                  <TableCell className="text-sm">
+                    <div className="text-foreground">{nameOf(e.actor_id) || (e.actor_id ? `${e.actor_id.slice(0, 8)}…` : "—")}</div>
+                    <div className="text-xs text-muted-foreground">{ACTOR_ROLE_LABELS[e.actor_role] ?? e.actor_role}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-foreground whitespace-nowrap">{actionLabel(e.action)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{targetName(e) || e.target_id || "—"}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-md break-words">{describeChanges(e) || "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {entries.length === ENTRY_LIMIT && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Showing the latest {ENTRY_LIMIT} entries; narrow the filters to see older ones. The export includes every matching entry.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminAuditLog;
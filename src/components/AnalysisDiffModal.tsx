@@ -0,0 +1,144 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitCompare } from "lucide-react";
+import type { AnalysisData } from "@/components/AnalysisResults";
+import { diffLines, diffLists, normalizeAnalysis, type DiffStatus } from "@/lib/analysis-diff";
+
+interface AnalysisVersion {
+  id: string;
+  version: number;
+  analysis_data: AnalysisData;
+  input_prompt: string;
+  model: string | null;
+  created_at: string;
+}
+
+interface AnalysisDiffModalProps {
+  open: boolean;
+  onClose: () => void;
+  versions: AnalysisVersion[];
+}
+
+const statusStyles: Record<DiffStatus, string> = {
+  added: "bg-green-500/10 border-green-500/40",
+  removed: "bg-destructive/10 border-destructive/40 line-through",
+  changed: "bg-primary/10 border-primary/40",
+  unchanged: "border-border",
+};
+
+const versionLabel = (v: AnalysisVersion) =>
+  `v${v.version} · ${new Date(v.created_at).toLocaleString()}${v.model ? ` · ${v.model}` : ""}`;
+
+const AnalysisDiffModal = ({ open, onClose, versions }: AnalysisDiffModalProps) => {
+  const [leftId, setLeftId] = useState<string>("");
+  const [rightId, setRightId] = useState<string>("");
+
+  // Default to comparing the two most recent versions
+  useEffect(() => {
+    if (!open || versions.length === 0) return;
+    const sorted = [...versions].sort((a, b) => b.version - a.version);
+    setRightId(sorted[0].id);
+    setLeftId((sorted[1] ?? sorted[0]).id);
+  }, [open, versions]);
+
+  const left = versions.find((v) => v.id === leftId);
+  const right = versions.find((v) => v.id === rightId);
+
+  const diff = useMemo(() => {
+    if (!left || !right) return null;
+    // Versions backfilled from older cases may not match the current schema
+    const a = normalizeAnalysis(left.analysis_data);
+    const b = normalizeAnalysis(right.analysis_data);
+    return {
+      sections: diffLists(a.legalSections, b.legalSections, (s) => s.section, (x, y) => x.description === y.description),
+      precedents: diffLists(a.casePrecedents, b.casePrecedents, (c) => c.name, (x, y) => x.relevance === y.relevance),
+      document: diffLines(a.courtDocument, b.courtDocument),
+    };
+  }, [left, right]);
+
+  const versionSelect = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="bg-input border-border text-foreground text-xs">
+        <SelectValue placeholder="Select version" />
+      </SelectTrigger>
+      <SelectContent className="bg-card border-border">
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[85vh] bg-card border-border text-foreground overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-xl text-primary flex items-center gap-2">
+            <GitCompare className="w-5 h-5" /> Compare Analyses
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 shrink-0">
+          {versionSelect(leftId, setLeftId)}
+          {versionSelect(rightId, setRightId)}
+        </div>
+
+        {diff && (
+          <div className="overflow-y-auto flex-1 pr-2 space-y-6">
+            <section>
+              <h3 className="text-sm font-semibold text-primary mb-2">Applicable Legal Sections</h3>
+              <div className="space-y-1.5">
+                {diff.sections.map((entry) => (
+                  <div key={entry.key} className="grid grid-cols-2 gap-4 text-sm">
+                    <div className={`rounded border px-3 py-1.5 ${entry.before ? statusStyles[entry.status === "added" ? "unchanged" : entry.status] : "border-transparent"}`}>
+                      {entry.before && <><strong>{entry.before.section}</strong> – {entry.before.description}</>}
+                    </div>
+                    <div className={`rounded border px-3 py-1.5 ${entry.after ? statusStyles[entry.status === "removed" ? "unchanged" : entry.status] : "border-transparent"}`}>
+                      {entry.after && <><strong>{entry.after.section}</strong> – {entry.after.description}</>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-primary mb-2">Relevant Case Precedents</h3>
+              <div className="space-y-1.5">
+                {diff.precedents.map((entry) => (
+                  <div key={entry.key} className="grid grid-cols-2 gap-4 text-sm">
+                    <div className={`rounded border px-3 py-1.5 ${entry.before ? statusStyles[entry.status === "added" ? "unchanged" : entry.status] : "border-transparent"}`}>
+                      {entry.before && <><strong>{entry.before.name}</strong> – {entry.before.relevance}</>}
+                    </div>
+                    <div className={`rounded border px-3 py-1.5 ${entry.after ? statusStyles[entry.status === "removed" ? "unchanged" : entry.status] : "border-transparent"}`}>
+                      {entry.after && <><strong>{entry.after.name}</strong> – {entry.after.relevance}</>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-primary mb-2">Court-Ready Document</h3>
+              <div className="rounded border border-border font-mono text-xs">
+                {diff.document.map((line, i) => (
+                  <div key={i} className="grid grid-cols-2">
+                    <pre className={`whitespace-pre-wrap px-3 py-0.5 ${line.status === "removed" ? "bg-destructive/15" : ""}`}>
+                      {line.status !== "added" ? line.text : ""}
+                    </pre>
+                    <pre className={`whitespace-pre-wrap px-3 py-0.5 border-l border-border ${line.status === "added" ? "bg-green-500/15" : ""}`}>
+                      {line.status !== "removed" ? line.text : ""}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AnalysisDiffModal;
+export type { AnalysisVersion };
@@ -1,28 +1,44 @@
 import { FileText, Gavel, Shield, BookOpen, Scale } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CitedText, SectionEquivalents } from "@/components/StatuteCitations";
 
-interface AnalysisData {
+// A type alias (not an interface) so it is assignable to the JSONB `Json` column type
+type AnalysisData = {
   legalSections: { section: string; description: string }[];
   punishmentRange: string;
   presentationStrategy: string;
   casePrecedents: { name: string; relevance: string }[];
   courtDocument: string;
-}
+};
 
 interface AnalysisResultsProps {
-  data: AnalysisData;
+  // Partial while an analysis is streaming; missing sections render as placeholders
+  data: Partial<AnalysisData>;
   onViewDocument: () => void;
 }
 
+const SectionPlaceholder = () => (
+  <div className="space-y-2">
+    <Skeleton className="h-3 w-full" />
+    <Skeleton className="h-3 w-5/6" />
+    <Skeleton className="h-3 w-2/3" />
+  </div>
+);
+
 const AnalysisResults = ({ data, onViewDocument }: AnalysisResultsProps) => {
   const cards = [
     {
       number: 1,
       title: "Applicable Legal Sections",
       icon: Scale,
-      content: (
+      ready: !!data.legalSections,
+      content: () => (
         <ul className="space-y-1.5 text-sm text-secondary-foreground">
           {data.legalSections.map((s, i) => (
-            <li key={i}>• {s.section} – {s.description}</li>
+            <li key={i}>
+              • <CitedText text={s.section} />
+              <SectionEquivalents text={s.section} /> – <CitedText text={s.description} />
+            </li>
           ))}
         </ul>
       ),
@@ -31,22 +47,25 @@ const AnalysisResults = ({ data, onViewDocument }: AnalysisResultsProps) => {
       number: 2,
       title: "Punishment / Sentence Range",
       icon: Gavel,
-      content: <p className="text-sm text-secondary-foreground">{data.punishmentRange}</p>,
+      ready: !!data.punishmentRange,
+      content: () => <p className="text-sm text-secondary-foreground"><CitedText text={data.punishmentRange} /></p>,
     },
     {
       number: 3,
       title: "Court Presentation Strategy",
       icon: Shield,
-      content: <p className="text-sm text-secondary-foreground">{data.presentationStrategy}</p>,
+      ready: !!data.presentationStrategy,
+      content: () => <p className="text-sm text-secondary-foreground"><CitedText text={data.presentationStrategy} /></p>,
     },
     {
       number: 4,
       title: "Relevant Case Precedents",
       icon: BookOpen,
-      content: (
+      ready: !!data.casePrecedents,
+      content: () => (
         <ul className="space-y-1.5 text-sm text-secondary-foreground">
           {data.casePrecedents.map((c, i) => (
-            <li key={i}>• {c.name} – {c.relevance}</li>
+            <li key={i}>• {c.name} – <CitedText text={c.relevance} /></li>
           ))}
         </ul>
       ),
@@ -55,7 +74,8 @@ const AnalysisResults = ({ data, onViewDocument }: AnalysisResultsProps) => {
       number: 5,
       title: "Court-Ready Documentation",
       icon: FileText,
-      content: (
+      ready: !!data.courtDocument,
+      content: () => (
         <div>
           <p className="text-sm text-secondary-foreground mb-3">
             Auto-generated brief with headings, facts, legal grounds, and prayer clause (PDF export ready).
@@ -84,7 +104,7 @@ const AnalysisResults = ({ data, onViewDocument }: AnalysisResultsProps) => {
               {card.number}. {card.title}
             </h3>
           </div>
-          {card.content}
+          {card.ready ? card.content() : <SectionPlaceholder />}
         </div>
       ))}
     </div>
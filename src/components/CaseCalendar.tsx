@@ -0,0 +1,306 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, Check, Gavel, Loader2, Plus, Trash2 } from "lucide-react";
+import LimitationCalculator from "@/components/LimitationCalculator";
+import { localToday, type CaseSummary } from "@/lib/case-metadata";
+import {
+  agendaEntries,
+  DEADLINE_COLUMNS,
+  DEADLINE_KINDS,
+  formatIsoDate,
+  isoToLocalDate,
+  upcomingEntries,
+  type AgendaEntry,
+  type CaseDeadline,
+  type CourtHoliday,
+} from "@/lib/case-calendar";
+
+interface CaseCalendarProps {
+  cases: CaseSummary[];
+  onOpenCase: (caseId: string) => void;
+}
+
+const UPCOMING_DAYS = 30;
+
+const fetchOpenDeadlines = () =>
+  supabase.from("case_deadlines").select(DEADLINE_COLUMNS).is("completed_at", null).order("due_date");
+
+const fetchHolidays = () => supabase.from("court_holidays").select("id, holiday_date, name").order("holiday_date");
+
+export const AgendaList = ({
+  entries,
+  holidays = [],
+  onOpenCase,
+  onComplete,
+  onDelete,
+}: {
+  entries: AgendaEntry[];
+  holidays?: CourtHoliday[];
+  onOpenCase: (caseId: string) => void;
+  onComplete?: (deadline: CaseDeadline) => void;
+  onDelete?: (deadline: CaseDeadline) => void;
+}) => {
+  const today = localToday();
+  return (
+    <ul className="divide-y divide-border">
+      {holidays.map((h) => (
+        <li key={h.id} className="py-2 text-sm text-muted-foreground">Court holiday: {h.name}</li>
+      ))}
+      {entries.map((e) => (
+        <li key={e.key} className="py-2 flex items-center gap-3 group">
+          {e.type === "hearing" ? <Gavel className="w-4 h-4 text-primary shrink-0" /> : <CalendarDays className="w-4 h-4 text-blue-400 shrink-0" />}
+          <button onClick={() => onOpenCase(e.caseId)} className="flex-1 min-w-0 text-left">
+            <span className="block text-sm text-foreground truncate">{e.label}</span>
+            <span className="block text-xs text-muted-foreground truncate">{e.caseTitle}</span>
+          </button>
+          <span className={`text-xs shrink-0 ${e.date < today ? "text-destructive" : "text-muted-foreground"}`}>
+            {formatIsoDate(e.date, { day: "numeric", month: "short" })}
+          </span>
+          {e.deadline && onComplete && (
+            <button onClick={() => onComplete(e.deadline!)} className="text-muted-foreground hover:text-green-400" title="Mark as done">
+              <Check className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {e.deadline && onDelete && (
+            <button onClick={() => onDelete(e.deadline!)} className="text-muted-foreground hover:text-destructive" title="Delete deadline">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/** The next week's hearings and deadlines, shown on the dashboard before a case is opened. */
+export const UpcomingAgenda = ({ cases, onOpenCase, onOpenCalendar }: CaseCalendarProps & { onOpenCalendar: () => void }) => {
+  const [deadlines, setDeadlines] = useState<CaseDeadline[]>([]);
+
+  useEffect(() => {
+    fetchOpenDeadlines().then(({ data }) => setDeadlines(data ?? []));
+  }, []);
+
+  const upcoming = upcomingEntries(agendaEntries(cases, deadlines), localToday(), 7);
+  if (!upcoming.length) return null;
+
+  return (
+    <div className="w-full max-w-md bg-card border border-border rounded-lg p-4 text-left">
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-medium text-foreground flex-1">Coming up this week</h3>
+        <button onClick={onOpenCalendar} className="text-xs text-primary hover:text-gold-bright">Open calendar</button>
+      </div>
+      <AgendaList entries={upcoming} onOpenCase={onOpenCase} />
+    </div>
+  );
+};
+
+const CaseCalendar = ({ cases, onOpenCase }: CaseCalendarProps) => {
+  const { toast } = useToast();
+  const [deadlines, setDeadlines] = useState<CaseDeadline[]>([]);
+  const [holidays, setHolidays] = useState<CourtHoliday[]>([]);
+  const [selected, setSelected] = useState<Date | undefined>(new Date());
+  const [showAdd, setShowAdd] = useState(false);
+  const [form, setForm] = useState({ caseId: "", title: "", date: "", kind: "filing" });
+  const [saving, setSaving] = useState(false);
+
+  const loadDeadlines = async () => {
+    const { data } = await fetchOpenDeadlines();
+    setDeadlines(data ?? []);
+  };
+
+  useEffect(() => {
+    fetchOpenDeadlines().then(({ data }) => setDeadlines(data ?? []));
+    fetchHolidays().then(({ data }) => setHolidays(data ?? []));
+  }, []);
+
+  const entries = agendaEntries(cases, deadlines);
+  const selectedIso = selected ? localToday(selected) : null;
+  const dayEntries = selectedIso ? entries.filter((e) => e.date === selectedIso) : [];
+  const dayHolidays = selectedIso ? holidays.filter((h) => h.holiday_date === selectedIso) : [];
+
+  const datesOf = (type: AgendaEntry["type"]) => entries.filter((e) => e.type === type).map((e) => isoToLocalDate(e.date));
+
+  const completeDeadline = async (deadline: CaseDeadline) => {
+    const { error } = await supabase.from("case_deadlines").update({ completed_at: new Date().toISOString() }).eq("id", deadline.id);
+    if (error) {
+      toast({ title: "Error", description: "Could not update the deadline", variant: "destructive" });
+      return;
+    }
+    setDeadlines((prev) => prev.filter((d) => d.id !== deadline.id));
+  };
+
+  const deleteDeadline = async (deadline: CaseDeadline) => {
+    const { error } = await supabase.from("case_deadlines").delete().eq("id", deadline.id);
+    if (error) {
+      toast({ title: "Error", description: "Could not delete the deadline", variant: "destructive" });
+      return;
+    }
+    setDeadlines((prev) => prev.filter((d) => d.id !== deadline.id));
+  };
+
+  const openAdd = () => {
+    setForm({ caseId: "", title: "", date: selectedIso ?? "", kind: "filing" });
+    setShowAdd(true);
+  };
+
+  const addDeadline = async () => {
+    if (!form.caseId || !form.title.trim() || !form.date) return;
+    setSaving(true);
+    const { error } = await supabase.from("case_deadlines").insert({
+      case_id: form.caseId,
+      title: form.title.trim(),
+      due_date: form.date,
+      kind: form.kind,
+    });
+    setSaving(false);
+    if (error) {
+      toast({ title: "Error", description: "Could not save the deadline", variant: "destructive" });
+      return;
+    }
+    setShowAdd(false);
+    loadDeadlines();
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-serif font-bold text-foreground flex-1">Hearings &amp; Deadlines</h2>
+          <Button size="sm" onClick={openAdd} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+            <Plus className="w-4 h-4 mr-1" /> Add Deadline
+          </Button>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-[auto_1fr]">
+          <div className="bg-card border border-border rounded-lg self-start">
+            <Calendar
+              mode="single"
+              selected={selected}
+              onSelect={setSelected}
+              modifiers={{
+                hearing: datesOf("hearing"),
+                deadline: datesOf("deadline"),
+                holiday: holidays.map((h) => isoToLocalDate(h.holiday_date)),
+              }}
+              modifiersClassNames={{
+                hearing: "font-bold text-primary",
+                deadline: "underline decoration-blue-400 decoration-2 underline-offset-4",
+                holiday: "text-destructive/80",
+              }}
+            />
+            <div className="px-4 pb-3 flex flex-wrap gap-3 text-[11px] text-muted-foreground">
+              <span className="text-primary font-bold">Hearing</span>
+              <span className="underline decoration-blue-400 decoration-2 underline-offset-4">Deadline</span>
+              <span className="text-destructive/80">Court holiday</span>
+            </div>
+          </div>
+
+          <div className="space-y-6 min-w-0">
+            <div className="bg-card border border-border rounded-lg p-4">
+              <h3 className="text-sm font-medium text-foreground">{selectedIso ? formatIsoDate(selectedIso, { weekday: "long", day: "numeric", month: "long" }) : "Select a day"}</h3>
+              {selectedIso && dayEntries.length === 0 && dayHolidays.length === 0 && (
+                <p className="text-xs text-muted-foreground pt-2">Nothing listed for this day.</p>
+              )}
+              <AgendaList entries={dayEntries} holidays={dayHolidays} onOpenCase={onOpenCase} onComplete={completeDeadline} onDelete={deleteDeadline} />
+            </div>
+
+            <div className="bg-card border border-border rounded-lg p-4">
+              <h3 className="text-sm font-medium text-foreground">Next {UPCOMING_DAYS} days</h3>
+              {upcomingEntries(entries, localToday(), UPCOMING_DAYS).length === 0 && (
+                <p className="text-xs text-muted-foreground pt-2">No hearings or deadlines coming up.</p>
+              )}
+              <AgendaList
+                entries={upcomingEntries(entries, localToday(), UPCOMING_DAYS)}
+                onOpenCase={onOpenCase}
+                onComplete={completeDeadline}
+                onDelete={deleteDeadline}
+              />
+            </div>
+          </div>
+        </div>
+
+        <LimitationCalculator cases={cases} holidays={holidays} onDeadlineSaved={loadDeadlines} />
+      </div>
+
+      {/* Add Deadline Dialog */}
+      <Dialog open={showAdd} onOpenChange={setShowAdd}>
+        <DialogContent className="max-w-md bg-card border-border text-foreground">
+          <DialogHeader>
+            <DialogTitle className="text-primary font-serif">Add Deadline</DialogTitle>
+            <DialogDescription className="text-muted-foreground">A filing or compliance date to track for a case.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Case</Label>
+              <Select value={form.caseId} onValueChange={(caseId) => setForm({ ...form, caseId })}>
+                <SelectTrigger className="bg-input border-border text-foreground">
+                  <SelectValue placeholder="Choose a case" />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {cases.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="deadline-title" className="text-xs text-muted-foreground">What is due</Label>
+              <Input
+                id="deadline-title"
+                value={form.title}
+                placeholder="e.g. File rejoinder"
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                className="bg-input border-border text-foreground"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="deadline-date" className="text-xs text-muted-foreground">Due on</Label>
+                <Input
+                  id="deadline-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  className="bg-input border-border text-foreground"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Type</Label>
+                <Select value={form.kind} onValueChange={(kind) => setForm({ ...form, kind })}>
+                  <SelectTrigger className="bg-input border-border text-foreground">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {DEADLINE_KINDS.map((k) => (
+                      <SelectItem key={k.value} value={k.value}>{k.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAdd(false)} className="border-border">Cancel</Button>
+            <Button
+              onClick={addDeadline}
+              disabled={saving || !form.caseId || !form.title.trim() || !form.date}
+              className="bg-primary text-primary-foreground hover:bg-gold-bright"
+            >
+              {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />} Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CaseCalendar;
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, Loader2, Tags } from "lucide-react";
+import { CASE_STATUSES, caseStatus, parseTags, type CaseSummary } from "@/lib/case-metadata";
+
+interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_at: string;
+}
+
+interface CaseDetailsHeaderProps {
+  caseItem: CaseSummary;
+  onUpdated: (patch: Partial<CaseSummary>) => void;
+  /** Members without edit rights see the details and history but cannot change them */
+  readOnly?: boolean;
+}
+
+const fetchStatusHistory = (caseId: string) =>
+  supabase
+    .from("case_status_history")
+    .select("id, from_status, to_status, changed_at")
+    .eq("case_id", caseId)
+    .order("changed_at", { ascending: false });
+
+const CaseDetailsHeader = ({ caseItem, onUpdated, readOnly = false }: CaseDetailsHeaderProps) => {
+  const { toast } = useToast();
+  const [showDetails, setShowDetails] = useState(false);
+  const [form, setForm] = useState({ client: "", court: "", hearing: "", tags: "" });
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const changeStatus = async (status: string) => {
+    // The status history row is written by a trigger on cases
+    const { error } = await supabase.from("cases").update({ status }).eq("id", caseItem.id);
+    if (error) {
+      toast({ title: "Error", description: "Could not change the case status", variant: "destructive" });
+      return;
+    }
+    onUpdated({ status });
+  };
+
+  const openDetails = async () => {
+    setForm({
+      client: caseItem.client_name ?? "",
+      court: caseItem.court ?? "",
+      hearing: caseItem.next_hearing_date ?? "",
+      tags: caseItem.tags.join(", "),
+    });
+    setShowDetails(true);
+    const { data } = await fetchStatusHistory(caseItem.id);
+    setHistory(data ?? []);
+  };
+
+  const saveDetails = async () => {
+    setSaving(true);
+    const patch = {
+      client_name: form.client.trim() || null,
+      court: form.court.trim() || null,
+      next_hearing_date: form.hearing || null,
+      tags: parseTags(form.tags),
+    };
+    const { error } = await supabase.from("cases").update(patch).eq("id", caseItem.id);
+    setSaving(false);
+    if (error) {
+      toast({ title: "Error", description: "Could not save the case details", variant: "destructive" });
+      return;
+    }
+    onUpdated(patch);
+    setShowDetails(false);
+  };
+
+  return (
+    <>
+      <Select value={caseStatus(caseItem.status).value} onValueChange={changeStatus} disabled={readOnly}>
+        <SelectTrigger className={`w-[130px] h-8 border-border text-xs font-medium ${caseStatus(caseItem.status).className}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-card border-border">
+          {CASE_STATUSES.map((s) => (
+            <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" onClick={openDetails} className="border-border text-muted-foreground hover:text-foreground">
+        <Tags className="w-3 h-3 mr-1" /> Details
+      </Button>
+      {caseItem.next_hearing_date && (
+        <span className="text-xs text-muted-foreground flex items-center gap-1">
+          <CalendarDays className="w-3 h-3" /> Next hearing {new Date(`${caseItem.next_hearing_date}T00:00:00`).toLocaleDateString()}
+        </span>
+      )}
+
+      {/* Case Details Dialog */}
+      <Dialog open={showDetails} onOpenChange={setShowDetails}>
+        <DialogContent className="max-w-lg bg-card border-border text-foreground">
+          <DialogHeader>
+            <DialogTitle className="text-primary font-serif">Case Details</DialogTitle>
+            <DialogDescription className="text-muted-foreground">Used to filter and group cases in the sidebar.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="case-client" className="text-xs text-muted-foreground">Client</Label>
+              <Input
+                id="case-client"
+                value={form.client}
+                readOnly={readOnly}
+                onChange={(e) => setForm({ ...form, client: e.target.value })}
+                className="bg-input border-border text-foreground"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="case-court" className="text-xs text-muted-foreground">Court</Label>
+              <Input
+                id="case-court"
+                value={form.court}
+                readOnly={readOnly}
+                onChange={(e) => setForm({ ...form, court: e.target.value })}
+                className="bg-input border-border text-foreground"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="case-hearing" className="text-xs text-muted-foreground">Next hearing</Label>
+              <Input
+                id="case-hearing"
+                type="date"
+                value={form.hearing}
+                readOnly={readOnly}
+                onChange={(e) => setForm({ ...form, hearing: e.target.value })}
+                className="bg-input border-border text-foreground"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="case-tags" className="text-xs text-muted-foreground">Tags, separated by commas</Label>
+              <Input
+                id="case-tags"
+                value={form.tags}
+                readOnly={readOnly}
+                placeholder="e.g. bail, NDPS, urgent"
+                onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                className="bg-input border-border text-foreground"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Status history</span>
+              <ul className="rounded-lg border border-border divide-y divide-border max-h-40 overflow-y-auto text-sm">
+                {history.length === 0 && <li className="p-2.5 text-muted-foreground">No status changes yet.</li>}
+                {history.map((h) => (
+                  <li key={h.id} className="p-2.5 flex items-center gap-2">
+                    <span className="flex-1">
+                      {h.from_status ? `${caseStatus(h.from_status).label} → ${caseStatus(h.to_status).label}` : `Opened as ${caseStatus(h.to_status).label}`}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{new Date(h.changed_at).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDetails(false)} className="border-border">{readOnly ? "Close" : "Cancel"}</Button>
+            {!readOnly && (
+              <Button onClick={saveDetails} disabled={saving} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+                {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />} Save
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CaseDetailsHeader;
@@ -0,0 +1,257 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Upload, Loader2, Trash2, AlertCircle, ExternalLink, RotateCw } from "lucide-react";
+import { uploadBlock, type SubscriptionBlock } from "@/lib/subscriptions";
+import { documentStoragePath } from "@/lib/case-sharing";
+
+type DocumentType = "fir" | "charge_sheet" | "judgment" | "other";
+
+interface CaseDocument {
+  id: string;
+  file_name: string;
+  storage_path: string;
+  mime_type: string | null;
+  size_bytes: number;
+  doc_type: string;
+  extraction_status: string;
+  extraction_error: string | null;
+  created_at: string;
+}
+
+interface CaseDocumentsProps {
+  caseId: string;
+  /** Members without edit rights can read and preview documents only */
+  readOnly?: boolean;
+  /** Called when the uploader's plan refuses an upload, instead of a toast */
+  onLimitReached?: (block: SubscriptionBlock) => void;
+}
+
+const DOCUMENT_TYPES: { value: DocumentType; label: string }[] = [
+  { value: "fir", label: "FIR" },
+  { value: "charge_sheet", label: "Charge Sheet" },
+  { value: "judgment", label: "Judgment" },
+  { value: "other", label: "Other" },
+];
+
+const ACCEPTED = ".pdf,.docx,.txt,.md";
+const MAX_BYTES = 10 * 1024 * 1024;
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const typeLabel = (value: string) => DOCUMENT_TYPES.find((t) => t.value === value)?.label ?? "Other";
+
+// Extracted text is only fetched for previews
+const fetchDocuments = (caseId: string) =>
+  supabase
+    .from("case_documents")
+    .select("id, file_name, storage_path, mime_type, size_bytes, doc_type, extraction_status, extraction_error, created_at")
+    .eq("case_id", caseId)
+    .order("created_at", { ascending: true });
+
+const CaseDocuments = ({ caseId, readOnly = false, onLimitReached }: CaseDocumentsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [documents, setDocuments] = useState<CaseDocument[]>([]);
+  const [docType, setDocType] = useState<DocumentType>("fir");
+  const [uploading, setUploading] = useState(false);
+  const [extractingId, setExtractingId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ doc: CaseDocument; text: string | null; url: string | null } | null>(null);
+
+  const loadDocuments = async () => {
+    const { data } = await fetchDocuments(caseId);
+    setDocuments(data ?? []);
+  };
+
+  useEffect(() => {
+    fetchDocuments(caseId).then(({ data }) => setDocuments(data ?? []));
+  }, [caseId]);
+
+  const extract = async (documentId: string) => {
+    setExtractingId(documentId);
+    const { error } = await supabase.functions.invoke("extract-document", { body: { documentId } });
+    if (error) toast({ title: "Extraction Error", description: "Could not extract text from the document", variant: "destructive" });
+    setExtractingId(null);
+    await loadDocuments();
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length || !user) return;
+    setUploading(true);
+
+    for (const file of Array.from(files)) {
+      if (file.size > MAX_BYTES) {
+        toast({ title: "File Too Large", description: `${file.name} exceeds the 10 MB limit`, variant: "destructive" });
+        continue;
+      }
+
+      const path = documentStoragePath(user.id, caseId, file.name);
+      const { error: uploadError } = await supabase.storage
+        .from("case-documents")
+        .upload(path, file, { contentType: file.type || undefined });
+      if (uploadError) {
+        toast({ title: "Upload Failed", description: `${file.name}: ${uploadError.message}`, variant: "destructive" });
+        continue;
+      }
+
+      const { data: doc, error } = await supabase
+        .from("case_documents")
+        .insert({ case_id: caseId, file_name: file.name, storage_path: path, mime_type: file.type || null, size_bytes: file.size, doc_type: docType })
+        .select("id")
+        .single();
+      if (error || !doc) {
+        await supabase.storage.from("case-documents").remove([path]);
+        // The rest of the batch would be refused for the same reason
+        const block = error ? uploadBlock(error) : null;
+        if (block && onLimitReached) {
+          onLimitReached(block);
+          break;
+        }
+        toast({ title: "Upload Failed", description: file.name, variant: "destructive" });
+        continue;
+      }
+
+      await loadDocuments();
+      await extract(doc.id);
+    }
+
+    setUploading(false);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const openPreview = async (doc: CaseDocument) => {
+    const [{ data: row }, { data: signed }] = await Promise.all([
+      supabase.from("case_documents").select("extracted_text").eq("id", doc.id).single(),
+      supabase.storage.from("case-documents").createSignedUrl(doc.storage_path, 300),
+    ]);
+    setPreview({ doc, text: row?.extracted_text ?? null, url: signed?.signedUrl ?? null });
+  };
+
+  const deleteDocument = async (doc: CaseDocument) => {
+    await supabase.storage.from("case-documents").remove([doc.storage_path]);
+    await supabase.from("case_documents").delete().eq("id", doc.id);
+    setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+            <FileText className="w-4 h-4 text-primary" /> Case Documents
+          </h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            PDF, DOCX or text files. Extracted text is used by case chat and the next re-analysis.
+          </p>
+        </div>
+        {!readOnly && (
+          <div className="flex items-center gap-2">
+            <Select value={docType} onValueChange={(v) => setDocType(v as DocumentType)}>
+              <SelectTrigger className="w-[140px] h-8 bg-input border-border text-foreground text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {DOCUMENT_TYPES.map((t) => (
+                  <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED}
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <Button
+              size="sm"
+              disabled={uploading}
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-primary text-primary-foreground hover:bg-gold-bright"
+            >
+              {uploading ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Upload className="w-3 h-3 mr-1" />} Upload
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {documents.length > 0 && (
+        <ul className="divide-y divide-border">
+          {documents.map((doc) => (
+            <li key={doc.id} className="flex items-center gap-3 py-2 text-sm">
+              <button onClick={() => openPreview(doc)} className="flex-1 min-w-0 text-left group">
+                <span className="block truncate text-foreground group-hover:text-primary">{doc.file_name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {typeLabel(doc.doc_type)} · {formatSize(doc.size_bytes)}
+                  {doc.extraction_status === "pending" && " · extracting…"}
+                </span>
+              </button>
+              {doc.extraction_status === "failed" && (
+                <span className="flex items-center gap-1 text-xs text-destructive" title={doc.extraction_error ?? undefined}>
+                  <AlertCircle className="w-3 h-3" /> No text
+                </span>
+              )}
+              {doc.extraction_status !== "done" && !readOnly && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={extractingId === doc.id}
+                  onClick={() => extract(doc.id)}
+                  className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                  title="Retry extraction"
+                >
+                  {extractingId === doc.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCw className="w-3 h-3" />}
+                </Button>
+              )}
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteDocument(doc)}
+                  className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                  title="Delete document"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Document Preview Dialog */}
+      <Dialog open={!!preview} onOpenChange={() => setPreview(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] bg-card border-border text-foreground overflow-hidden flex flex-col">
+          <DialogHeader className="flex flex-row items-center justify-between gap-4">
+            <DialogTitle className="font-serif text-lg text-primary truncate">{preview?.doc.file_name}</DialogTitle>
+            {preview?.url && (
+              <Button size="sm" variant="outline" asChild className="border-border shrink-0">
+                <a href={preview.url} target="_blank" rel="noreferrer">
+                  <ExternalLink className="w-3 h-3 mr-1" /> Open original
+                </a>
+              </Button>
+            )}
+          </DialogHeader>
+          <div className="overflow-y-auto flex-1 pr-2">
+            {preview?.text ? (
+              <pre className="whitespace-pre-wrap font-sans text-sm text-foreground/90 leading-relaxed">{preview.text}</pre>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {preview?.doc.extraction_error ?? "No extracted text is available for this document yet."}
+              </p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CaseDocuments;
@@ -0,0 +1,97 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CASE_GROUPINGS,
+  CASE_STATUSES,
+  distinctValues,
+  NO_FILTERS,
+  type CaseFilters,
+  type CaseGrouping,
+  type CaseStatus,
+  type CaseSummary,
+} from "@/lib/case-metadata";
+
+interface CaseFilterBarProps {
+  cases: CaseSummary[];
+  filters: CaseFilters;
+  onFiltersChange: (filters: CaseFilters) => void;
+  grouping: CaseGrouping;
+  onGroupingChange: (grouping: CaseGrouping) => void;
+}
+
+// Radix Select items cannot have an empty value, so "any" stands for no filter
+const ANY = "__any";
+
+const FilterSelect = ({
+  value,
+  placeholder,
+  options,
+  onChange,
+}: {
+  value: string | null;
+  placeholder: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string | null) => void;
+}) => (
+  <Select value={value ?? ANY} onValueChange={(v) => onChange(v === ANY ? null : v)}>
+    <SelectTrigger className={`h-7 text-xs bg-input border-border ${value ? "text-primary" : "text-muted-foreground"}`}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent className="bg-card border-border">
+      <SelectItem value={ANY}>{placeholder}</SelectItem>
+      {options.map((o) => (
+        <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const CaseFilterBar = ({ cases, filters, onFiltersChange, grouping, onGroupingChange }: CaseFilterBarProps) => {
+  const asOptions = (values: string[]) => values.map((v) => ({ value: v, label: v }));
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="px-4 pb-2 grid grid-cols-2 gap-1.5">
+      <FilterSelect
+        value={filters.status}
+        placeholder="Any status"
+        options={CASE_STATUSES}
+        onChange={(status) => onFiltersChange({ ...filters, status: status as CaseStatus | null })}
+      />
+      <FilterSelect
+        value={filters.tag}
+        placeholder="Any tag"
+        options={asOptions(distinctValues(cases, "tags"))}
+        onChange={(tag) => onFiltersChange({ ...filters, tag })}
+      />
+      <FilterSelect
+        value={filters.client}
+        placeholder="Any client"
+        options={asOptions(distinctValues(cases, "client_name"))}
+        onChange={(client) => onFiltersChange({ ...filters, client })}
+      />
+      <FilterSelect
+        value={filters.court}
+        placeholder="Any court"
+        options={asOptions(distinctValues(cases, "court"))}
+        onChange={(court) => onFiltersChange({ ...filters, court })}
+      />
+      <Select value={grouping} onValueChange={(v) => onGroupingChange(v as CaseGrouping)}>
+        <SelectTrigger className="h-7 text-xs bg-input border-border text-muted-foreground">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-card border-border">
+          {CASE_GROUPINGS.map((g) => (
+            <SelectItem key={g.value} value={g.value}>{g.value === "none" ? g.label : `Group by ${g.label.toLowerCase()}`}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {hasFilters && (
+        <button onClick={() => onFiltersChange(NO_FILTERS)} className="text-xs text-primary hover:text-gold-bright text-left px-1">
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CaseFilterBar;
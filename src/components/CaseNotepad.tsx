@@ -1,8 +1,11 @@
 import { useState } from "react";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Scale, RotateCcw, Loader2 } from "lucide-react";
+import { Scale, RotateCcw, Loader2, Save, X } from "lucide-react";
+import { CUSTODY_STATUSES, emptyIntake, type CaseIntake, type CustodyStatus } from "@/lib/case-intake";
 
 const CASE_CATEGORIES = [
   "Criminal", "Civil", "Constitutional", "Family", "Cyber Crime",
@@ -16,83 +19,268 @@ const OFFENCE_TYPES = [
 ];
 
 interface CaseNotepadProps {
-  onAnalyze: (description: string, category: string, offence: string) => void;
+  onAnalyze: (intake: CaseIntake) => void;
   isLoading: boolean;
+  /** Prefills the form when editing the intake of an existing case */
+  initialIntake?: CaseIntake;
+  /** Shows a "Save Intake" action that stores changes without re-running the analysis */
+  onSave?: (intake: CaseIntake) => void;
 }
 
-const CaseNotepad = ({ onAnalyze, isLoading }: CaseNotepadProps) => {
-  const [description, setDescription] = useState("");
-  const [category, setCategory] = useState("");
-  const [offence, setOffence] = useState("");
+const fieldClass = "bg-input border-border text-foreground placeholder:text-muted-foreground";
+
+// Names are entered one per line
+const toLines = (value: string[]) => value.join("\n");
+const fromLines = (value: string) => value.split("\n").map((v) => v.trim()).filter(Boolean);
+
+const CaseNotepad = ({ onAnalyze, isLoading, initialIntake, onSave }: CaseNotepadProps) => {
+  const [intake, setIntake] = useState<CaseIntake>(initialIntake ?? emptyIntake());
+  const [accused, setAccused] = useState(toLines(intake.parties.accused));
+  const [witnesses, setWitnesses] = useState(toLines(intake.parties.witnesses));
+  const [customOffence, setCustomOffence] = useState("");
+
+  const update = <K extends keyof CaseIntake>(key: K, value: CaseIntake[K]) =>
+    setIntake((prev) => ({ ...prev, [key]: value }));
+
+  const toggleOffence = (offence: string) =>
+    update("offences", intake.offences.includes(offence)
+      ? intake.offences.filter((o) => o !== offence)
+      : [...intake.offences, offence]);
+
+  const addCustomOffence = () => {
+    const offence = customOffence.trim();
+    if (offence && !intake.offences.includes(offence)) update("offences", [...intake.offences, offence]);
+    setCustomOffence("");
+  };
+
+  const collect = (): CaseIntake => ({
+    ...intake,
+    description: intake.description.trim(),
+    parties: { ...intake.parties, accused: fromLines(accused), witnesses: fromLines(witnesses) },
+  });
 
   const handleAnalyze = () => {
-    if (!description.trim()) return;
-    onAnalyze(description, category, offence);
+    if (!intake.description.trim()) return;
+    onAnalyze(collect());
   };
 
   const handleReset = () => {
-    setDescription("");
-    setCategory("");
-    setOffence("");
+    const reset = initialIntake ?? emptyIntake();
+    setIntake(reset);
+    setAccused(toLines(reset.parties.accused));
+    setWitnesses(toLines(reset.parties.witnesses));
+    setCustomOffence("");
   };
 
+  const customOffences = intake.offences.filter((o) => !OFFENCE_TYPES.includes(o));
+
   return (
-    <section className="rounded-xl border border-border bg-card p-6 space-y-4">
+    <section className="rounded-xl border border-border bg-card p-6 space-y-5">
       <div>
-        <h2 className="text-xl font-serif font-bold text-foreground">Case Notepad</h2>
+        <h2 className="text-xl font-serif font-bold text-foreground">{initialIntake ? "Case Intake" : "Case Notepad"}</h2>
         <p className="text-sm text-muted-foreground mt-1">
-          Describe the case briefly (max two sentences). Select filters to narrow legal accuracy.
+          Record the facts and the particulars you have. Only the facts are required; every other detail sharpens the analysis.
         </p>
       </div>
 
-      <Textarea
-        placeholder="Example: A person intentionally caused the death of another individual due to personal enmity."
-        value={description}
-        onChange={(e) => setDescription(e.target.value)}
-        className="min-h-[120px] bg-input border-border text-foreground placeholder:text-muted-foreground resize-none focus:ring-1 focus:ring-primary"
-      />
+      <div className="space-y-1.5">
+        <Label htmlFor="intake-description">Facts of the Case</Label>
+        <Textarea
+          id="intake-description"
+          placeholder="Example: A person intentionally caused the death of another individual due to personal enmity."
+          value={intake.description}
+          onChange={(e) => update("description", e.target.value)}
+          className={`min-h-[120px] resize-y focus:ring-1 focus:ring-primary ${fieldClass}`}
+        />
+      </div>
 
-      <div className="flex flex-wrap gap-3 items-center">
-        <Select value={category} onValueChange={setCategory}>
-          <SelectTrigger className="w-[180px] bg-input border-border text-foreground">
-            <SelectValue placeholder="Case Category" />
-          </SelectTrigger>
-          <SelectContent className="bg-card border-border">
-            {CASE_CATEGORIES.map((c) => (
-              <SelectItem key={c} value={c}>{c}</SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-
-        <Select value={offence} onValueChange={setOffence}>
-          <SelectTrigger className="w-[200px] bg-input border-border text-foreground">
-            <SelectValue placeholder="Offence Type" />
-          </SelectTrigger>
-          <SelectContent className="bg-card border-border">
-            {OFFENCE_TYPES.map((o) => (
-              <SelectItem key={o} value={o}>{o}</SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label>Case Category</Label>
+          <Select value={intake.category} onValueChange={(v) => update("category", v)}>
+            <SelectTrigger className="bg-input border-border text-foreground">
+              <SelectValue placeholder="Case Category" />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {CASE_CATEGORIES.map((c) => (
+                <SelectItem key={c} value={c}>{c}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
 
+        <div className="space-y-1.5">
+          <Label>Custody Status</Label>
+          <Select value={intake.custodyStatus} onValueChange={(v) => update("custodyStatus", v as CustodyStatus)}>
+            <SelectTrigger className="bg-input border-border text-foreground">
+              <SelectValue placeholder="Custody Status" />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {CUSTODY_STATUSES.map((s) => (
+                <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Offences</Label>
+        <div className="flex flex-wrap gap-2">
+          {[...OFFENCE_TYPES, ...customOffences].map((o) => {
+            const selected = intake.offences.includes(o);
+            return (
+              <button
+                key={o}
+                type="button"
+                onClick={() => toggleOffence(o)}
+                className={`text-xs rounded-full border px-3 py-1 transition-colors ${
+                  selected
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "border-border text-muted-foreground hover:text-foreground hover:border-primary"
+                }`}
+              >
+                {o}
+                {selected && customOffences.includes(o) && <X className="w-3 h-3 ml-1 inline" />}
+              </button>
+            );
+          })}
+        </div>
+        <Input
+          placeholder="Other offence or section, then press Enter"
+          value={customOffence}
+          onChange={(e) => setCustomOffence(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") { e.preventDefault(); addCustomOffence(); }
+          }}
+          className={fieldClass}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="intake-accused">Accused</Label>
+          <Textarea
+            id="intake-accused"
+            placeholder="One name per line"
+            value={accused}
+            onChange={(e) => setAccused(e.target.value)}
+            className={`min-h-[72px] resize-none ${fieldClass}`}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="intake-complainant">Complainant</Label>
+          <Input
+            id="intake-complainant"
+            value={intake.parties.complainant}
+            onChange={(e) => update("parties", { ...intake.parties, complainant: e.target.value })}
+            className={fieldClass}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="intake-witnesses">Witnesses</Label>
+          <Textarea
+            id="intake-witnesses"
+            placeholder="One name per line"
+            value={witnesses}
+            onChange={(e) => setWitnesses(e.target.value)}
+            className={`min-h-[72px] resize-none ${fieldClass}`}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="intake-date">Date of Occurrence</Label>
+          <Input
+            id="intake-date"
+            type="date"
+            value={intake.occurrence.date}
+            onChange={(e) => update("occurrence", { ...intake.occurrence, date: e.target.value })}
+            className={fieldClass}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="intake-place">Place of Occurrence</Label>
+          <Input
+            id="intake-place"
+            value={intake.occurrence.place}
+            onChange={(e) => update("occurrence", { ...intake.occurrence, place: e.target.value })}
+            className={fieldClass}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="intake-fir">FIR Number</Label>
+          <Input
+            id="intake-fir"
+            placeholder="e.g. 123/2024"
+            value={intake.fir.number}
+            onChange={(e) => update("fir", { ...intake.fir, number: e.target.value })}
+            className={fieldClass}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="intake-ps">Police Station</Label>
+          <Input
+            id="intake-ps"
+            value={intake.fir.policeStation}
+            onChange={(e) => update("fir", { ...intake.fir, policeStation: e.target.value })}
+            className={fieldClass}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="intake-court">Court</Label>
+          <Input
+            id="intake-court"
+            placeholder="e.g. Court of Sessions Judge"
+            value={intake.court.name}
+            onChange={(e) => update("court", { ...intake.court, name: e.target.value })}
+            className={fieldClass}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="intake-jurisdiction">Jurisdiction</Label>
+          <Input
+            id="intake-jurisdiction"
+            placeholder="e.g. Pune, Maharashtra"
+            value={intake.court.jurisdiction}
+            onChange={(e) => update("court", { ...intake.court, jurisdiction: e.target.value })}
+            className={fieldClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center">
         <Button
           onClick={handleAnalyze}
-          disabled={!description.trim() || isLoading}
+          disabled={!intake.description.trim() || isLoading}
           className="bg-primary text-primary-foreground hover:bg-gold-bright font-semibold px-6"
         >
           {isLoading ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Scale className="w-4 h-4 mr-2" />}
-          Analyze Case
+          {initialIntake ? "Save & Re-analyze" : "Analyze Case"}
         </Button>
-      </div>
 
-      <Button
-        variant="outline"
-        onClick={handleReset}
-        className="border-border text-muted-foreground hover:text-foreground hover:border-primary"
-      >
-        <RotateCcw className="w-4 h-4 mr-2" />
-        Reset
-      </Button>
+        {onSave && (
+          <Button
+            variant="outline"
+            onClick={() => onSave(collect())}
+            disabled={!intake.description.trim() || isLoading}
+            className="border-border text-foreground hover:border-primary"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save Intake
+          </Button>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={handleReset}
+          className="border-border text-muted-foreground hover:text-foreground hover:border-primary"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+      </div>
     </section>
   );
 };
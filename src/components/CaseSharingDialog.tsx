@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, UserMinus, UserPlus } from "lucide-react";
+import { inviteErrorMessage, MEMBER_ROLES, roleLabel, type CaseRole, type MemberRole } from "@/lib/case-sharing";
+
+interface CaseMember {
+  user_id: string;
+  name: string | null;
+  username: string | null;
+  role: string;
+}
+
+interface CaseSharingDialogProps {
+  caseId: string;
+  caseTitle?: string;
+  /** The signed-in user's role on the case; only the owner manages members */
+  role: CaseRole;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a member removes themselves from the case */
+  onLeft: () => void;
+}
+
+const fetchMembers = (caseId: string) => supabase.rpc("list_case_members", { _case_id: caseId });
+
+const CaseSharingDialog = ({ caseId, caseTitle, role, open, onOpenChange, onLeft }: CaseSharingDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [members, setMembers] = useState<CaseMember[]>([]);
+  const [username, setUsername] = useState("");
+  const [inviteRole, setInviteRole] = useState<MemberRole>("viewer");
+  const [inviting, setInviting] = useState(false);
+  const isOwner = role === "owner";
+
+  const loadMembers = async () => {
+    const { data } = await fetchMembers(caseId);
+    setMembers(data ?? []);
+  };
+
+  useEffect(() => {
+    if (open) fetchMembers(caseId).then(({ data }) => setMembers(data ?? []));
+  }, [open, caseId]);
+
+  const invite = async () => {
+    if (!username.trim()) return;
+    setInviting(true);
+    const { error } = await supabase.rpc("invite_case_member", { _case_id: caseId, _username: username.trim(), _role: inviteRole });
+    setInviting(false);
+    if (error) {
+      toast({ title: "Error", description: inviteErrorMessage(error), variant: "destructive" });
+      return;
+    }
+    setUsername("");
+    await loadMembers();
+  };
+
+  const changeRole = async (userId: string, newRole: string) => {
+    const { error } = await supabase.from("case_members").update({ role: newRole }).eq("case_id", caseId).eq("user_id", userId);
+    if (error) {
+      toast({ title: "Error", description: "Could not change the role", variant: "destructive" });
+      return;
+    }
+    setMembers((prev) => prev.map((m) => (m.user_id === userId ? { ...m, role: newRole } : m)));
+  };
+
+  const removeMember = async (userId: string) => {
+    const { error } = await supabase.from("case_members").delete().eq("case_id", caseId).eq("user_id", userId);
+    if (error) {
+      toast({ title: "Error", description: "Could not remove the member", variant: "destructive" });
+      return;
+    }
+    if (userId === user?.id) {
+      onOpenChange(false);
+      onLeft();
+      return;
+    }
+    setMembers((prev) => prev.filter((m) => m.user_id !== userId));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-card border-border text-foreground">
+        <DialogHeader>
+          <DialogTitle className="text-primary font-serif">Share Case</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {isOwner
+              ? `Invite colleagues to ${caseTitle ? `"${caseTitle}"` : "this case"} by their username.`
+              : `You are a ${roleLabel(role).toLowerCase()} on this case.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={username}
+                placeholder="Username"
+                onChange={(e) => setUsername(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && invite()}
+                className="flex-1 bg-input border-border text-foreground"
+              />
+              <Select value={inviteRole} onValueChange={(v) => setInviteRole(v as MemberRole)}>
+                <SelectTrigger className="w-[130px] bg-input border-border text-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {MEMBER_ROLES.map((r) => (
+                    <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={invite} disabled={inviting || !username.trim()} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+                {inviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{MEMBER_ROLES.find((r) => r.value === inviteRole)?.description}.</p>
+          </div>
+        )}
+
+        <ul className="rounded-lg border border-border divide-y divide-border max-h-64 overflow-y-auto text-sm">
+          {members.map((m) => (
+            <li key={m.user_id} className="p-2.5 flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <span className="block truncate text-foreground">
+                  {m.name || m.username || "Unknown user"}
+                  {m.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                </span>
+                {m.username && <span className="block truncate text-xs text-muted-foreground">{m.username}</span>}
+              </div>
+              {isOwner && m.role !== "owner" ? (
+                <>
+                  <Select value={m.role} onValueChange={(v) => changeRole(m.user_id, v)}>
+                    <SelectTrigger className="w-[120px] h-8 bg-input border-border text-foreground text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border">
+                      {MEMBER_ROLES.map((r) => (
+                        <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <button onClick={() => removeMember(m.user_id)} className="text-muted-foreground hover:text-destructive" title="Remove from case">
+                    <UserMinus className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <span className="text-xs text-muted-foreground">{roleLabel(m.role)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <DialogFooter>
+          {!isOwner && (
+            <Button
+              variant="outline"
+              onClick={() => user && removeMember(user.id)}
+              className="border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground sm:mr-auto"
+            >
+              Leave case
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="border-border">Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CaseSharingDialog;
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ArrowLeftRight, Loader2, Search } from "lucide-react";
+import { ACT_NAMES, citationKey, type ActCode } from "@/lib/citations";
+import { ACT_ABBREVIATIONS, counterparts, formatReference, SUCCESSOR_ACTS, type Counterpart } from "@/lib/concordance";
+
+interface ConcordancePanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ACTS: ActCode[] = ["IPC", "CRPC", "IEA", "BNS", "BNSS", "BSA"];
+
+const ConcordancePanel = ({ open, onClose }: ConcordancePanelProps) => {
+  const [act, setAct] = useState<ActCode>("IPC");
+  const [section, setSection] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ act: ActCode; query: string; matches: Counterpart[] } | null>(null);
+
+  const lookup = async () => {
+    // Sub-sections are matched on their base section, as in the statute corpus
+    const base = section.trim().replace(/^(?:section|sec\.?|s\.)\s*/i, "").replace(/\(.*$/, "").toUpperCase();
+    if (!base) return;
+
+    setIsLoading(true);
+    setError(null);
+    const key = citationKey(act, base);
+    const { data, error } = await supabase.rpc("lookup_concordance", { _refs: [key] });
+    setIsLoading(false);
+
+    if (error) {
+      setError("Could not look up the concordance. Please try again.");
+      return;
+    }
+    setResult({ act, query: formatReference(act, base), matches: counterparts(data ?? [], key) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="bg-card border-border text-foreground max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-primary font-serif flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5" /> Section Concordance
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Find the BNS, BNSS or BSA section that replaced an IPC, CrPC or Evidence Act section, or the reverse.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={act} onValueChange={(v) => setAct(v as ActCode)}>
+            <SelectTrigger className="w-28 bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ACTS.map((code) => (
+                <SelectItem key={code} value={code}>{ACT_ABBREVIATIONS[code]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Section, e.g. 302 or 498A"
+            value={section}
+            onChange={(e) => setSection(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && lookup()}
+            className="bg-input border-border text-foreground"
+          />
+          <Button
+            onClick={lookup}
+            disabled={!section.trim() || isLoading}
+            size="icon"
+            className="bg-primary text-primary-foreground hover:bg-gold-bright shrink-0"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {result && result.matches.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No mapping found for {result.query}. The concordance covers commonly cited sections; check the
+              official {ACT_NAMES[SUCCESSOR_ACTS[result.act]]} correspondence table for others.
+            </p>
+          )}
+          {result?.matches.map((match, i) => (
+            <div key={i} className="rounded-lg border border-border bg-secondary/40 p-3 space-y-1">
+              <p className="text-sm">
+                <span className="text-foreground">{result.query}</span>
+                <span className="text-muted-foreground"> → </span>
+                <span className="font-semibold text-primary">
+                  {match.act ? formatReference(match.act, match.section) : "No equivalent provision"}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">{match.subject}</p>
+              {match.notes && <p className="text-sm text-secondary-foreground">{match.notes}</p>}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConcordancePanel;
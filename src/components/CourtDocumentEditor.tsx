@@ -0,0 +1,480 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertTriangle, Bold, Check, History, Italic, Languages, List, ListOrdered, Loader2, RotateCcw, Save, Sparkles, X,
+} from "lucide-react";
+import { diffWords } from "@/lib/analysis-diff";
+import { readFunctionError } from "@/lib/function-error";
+import { LANGUAGES, languageLabel, type LanguageCode } from "@/lib/languages";
+import {
+  applyFormat,
+  joinDocumentSections,
+  splitDocumentSections,
+  STANDARD_SECTIONS,
+  type DocumentSection,
+  type FormatAction,
+} from "@/lib/document-sections";
+
+interface DraftRevision {
+  id: string;
+  revision: number;
+  content: string;
+  source: string;
+  restored_from: number | null;
+  analysis_version_id: string | null;
+  /** Target language of a whole-document translation */
+  language: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CourtDocumentEditorProps {
+  caseId: string;
+  /** The generated document of the case's current analysis */
+  original: string;
+  analysisVersionId: string | null;
+  /** Receives the document as edited, for the preview and export */
+  onChange: (content: string) => void;
+}
+
+const FUNC_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-case`;
+
+type RewriteAction = "rewrite" | "shorten" | "strengthen" | "translate";
+
+interface Suggestion {
+  action: RewriteAction;
+  label: string;
+  /** The section body the suggestion was made from */
+  before: string;
+  after: string;
+}
+
+const REWRITE_ACTIONS: { action: Exclude<RewriteAction, "translate">; label: string }[] = [
+  { action: "rewrite", label: "Rewrite" },
+  { action: "shorten", label: "Shorten" },
+  { action: "strengthen", label: "Strengthen" },
+];
+
+type RevisionSource = "edit" | "restore" | "ai" | "translation";
+
+const DRAFT_COLUMNS = "id, revision, content, source, restored_from, analysis_version_id, language, created_at, updated_at";
+const AUTOSAVE_DELAY_MS = 1500;
+// Autosaves within this window update the latest revision instead of starting a new one
+const REVISION_WINDOW_MS = 10 * 60 * 1000;
+
+const SECTION_LABELS: Record<string, string> = {
+  title: "Title",
+  ...Object.fromEntries(STANDARD_SECTIONS.map((s) => [s.key, s.heading])),
+  other: "Section",
+};
+
+const SOURCE_LABELS: Record<string, string> = { edit: "Edited", restore: "Restored", ai: "AI text", translation: "Translated" };
+
+const fetchRevisions = async (caseId: string) => {
+  const { data } = await supabase
+    .from("case_documents_drafts")
+    .select(DRAFT_COLUMNS)
+    .eq("case_id", caseId)
+    .order("revision", { ascending: false });
+  return (data ?? []) as DraftRevision[];
+};
+
+const insertRevision = (
+  caseId: string,
+  content: string,
+  source: RevisionSource,
+  analysisVersionId: string | null,
+  restoredFrom: number | null = null,
+  language: string | null = null,
+) =>
+  supabase
+    .from("case_documents_drafts")
+    .insert({ case_id: caseId, content, source, analysis_version_id: analysisVersionId, restored_from: restoredFrom, language })
+    .select(DRAFT_COLUMNS)
+    .single();
+
+const FORMAT_BUTTONS: { action: FormatAction; icon: typeof Bold; label: string }[] = [
+  { action: "bold", icon: Bold, label: "Bold" },
+  { action: "italic", icon: Italic, label: "Italic" },
+  { action: "bullet", icon: List, label: "Bulleted list" },
+  { action: "numbered", icon: ListOrdered, label: "Numbered list" },
+];
+
+const CourtDocumentEditor = ({ caseId, original, analysisVersionId, onChange }: CourtDocumentEditorProps) => {
+  const { session } = useAuth();
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<DraftRevision[]>([]);
+  const [sections, setSections] = useState<DocumentSection[]>([]);
+  const [savedContent, setSavedContent] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<"saved" | "saving" | "error">("saved");
+  const [showHistory, setShowHistory] = useState(false);
+  // AI suggestions per section index, shown as tracked changes until accepted or rejected
+  const [suggestions, setSuggestions] = useState<Record<number, Suggestion>>({});
+  const [rewriting, setRewriting] = useState<number | null>(null);
+  const [customFor, setCustomFor] = useState<number | null>(null);
+  const [customNote, setCustomNote] = useState("");
+  const [translating, setTranslating] = useState(false);
+  const textareas = useRef<(HTMLTextAreaElement | null)[]>([]);
+  const focused = useRef<number | null>(null);
+
+  // The latest revision if the case has one, otherwise the generated text
+  useEffect(() => {
+    let cancelled = false;
+    fetchRevisions(caseId).then((rows) => {
+      if (cancelled) return;
+      const content = rows[0]?.content ?? original;
+      setRevisions(rows);
+      setSections(splitDocumentSections(content));
+      setSavedContent(joinDocumentSections(splitDocumentSections(content)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [caseId, original]);
+
+  const content = useMemo(() => joinDocumentSections(sections), [sections]);
+  const latest = revisions[0];
+  const loaded = savedContent !== null;
+
+  useEffect(() => {
+    if (loaded) onChange(content);
+  }, [loaded, content, onChange]);
+
+  useEffect(() => {
+    if (!loaded || content === savedContent) return;
+    const timer = setTimeout(async () => {
+      setSaveState("saving");
+      const continuing = latest?.source === "edit" && Date.now() - new Date(latest.created_at).getTime() < REVISION_WINDOW_MS;
+      const { data, error } = continuing
+        ? await supabase.from("case_documents_drafts").update({ content }).eq("id", latest.id).select(DRAFT_COLUMNS).single()
+        : await insertRevision(caseId, content, "edit", latest ? latest.analysis_version_id : analysisVersionId, null, latest?.language ?? null);
+      if (error || !data) {
+        setSaveState("error");
+        return;
+      }
+      setRevisions((prev) => [data as DraftRevision, ...prev.filter((r) => r.id !== data.id)]);
+      setSavedContent(content);
+      setSaveState("saved");
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [loaded, content, savedContent, latest, caseId, analysisVersionId]);
+
+  const updateSection = (index: number, patch: Partial<DocumentSection>) =>
+    setSections((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  const format = (action: FormatAction) => {
+    const index = focused.current;
+    const textarea = index === null ? null : textareas.current[index];
+    if (index === null || !textarea) return;
+    const edit = applyFormat(textarea.value, textarea.selectionStart, textarea.selectionEnd, action);
+    updateSection(index, { body: edit.value });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const requestRewrite = async (index: number, action: RewriteAction, label: string, options: { language?: string; note?: string } = {}) => {
+    const section = sections[index];
+    if (!section?.body.trim() || rewriting !== null) return;
+    setRewriting(index);
+    setCustomFor(null);
+    try {
+      const resp = await fetch(FUNC_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session?.access_token}` },
+        body: JSON.stringify({
+          type: "rewrite",
+          caseId,
+          rewrite: { action, heading: section.heading, body: section.body, ...options },
+        }),
+      });
+      if (!resp.ok) throw await readFunctionError(resp, "Rewrite failed");
+      const { rewrite } = await resp.json();
+      setSuggestions((prev) => ({ ...prev, [index]: { action, label, before: section.body, after: rewrite } }));
+    } catch (e) {
+      toast({ title: "Rewrite Failed", description: e instanceof Error ? e.message : "Rewrite failed", variant: "destructive" });
+    }
+    setRewriting(null);
+  };
+
+  const resolveSuggestion = (index: number, accept: boolean) => {
+    const suggestion = suggestions[index];
+    if (accept && suggestion) updateSection(index, { body: suggestion.after });
+    setSuggestions(({ [index]: _resolved, ...rest }) => rest);
+  };
+
+  // Restoring, resetting and snapshotting all add a revision, so nothing in the history is lost
+  const addRevision = async (text: string, source: RevisionSource, versionId: string | null, restoredFrom?: number, language?: string | null) => {
+    const { data, error } = await insertRevision(caseId, text, source, versionId, restoredFrom, language ?? null);
+    if (error || !data) {
+      toast({ title: "Error", description: "Could not save the revision", variant: "destructive" });
+      return;
+    }
+    const next = splitDocumentSections(text);
+    setRevisions((prev) => [data as DraftRevision, ...prev]);
+    setSections(next);
+    setSuggestions({});
+    setSavedContent(joinDocumentSections(next));
+    setSaveState("saved");
+  };
+
+  // The whole document in another language, as a new revision so the original stays in the history
+  const translateDocument = async (language: LanguageCode) => {
+    if (!content.trim() || translating) return;
+    setTranslating(true);
+    try {
+      const resp = await fetch(FUNC_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session?.access_token}` },
+        body: JSON.stringify({ type: "translate", caseId, translate: { language, content } }),
+      });
+      if (!resp.ok) throw await readFunctionError(resp, "Translation failed");
+      const { translation } = await resp.json();
+      await addRevision(translation, "translation", latest ? latest.analysis_version_id : analysisVersionId, undefined, language);
+    } catch (e) {
+      toast({ title: "Translation Failed", description: e instanceof Error ? e.message : "Translation failed", variant: "destructive" });
+    }
+    setTranslating(false);
+  };
+
+  if (!loaded) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground py-8 justify-center">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading draft…
+      </div>
+    );
+  }
+
+  const stale = !!latest && !!analysisVersionId && latest.analysis_version_id !== analysisVersionId;
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-1 border-b border-border pb-2 sticky top-0 bg-card z-10">
+        {FORMAT_BUTTONS.map(({ action, icon: Icon, label }) => (
+          <Button
+            key={action}
+            size="icon"
+            variant="ghost"
+            title={label}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => format(action)}
+            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+        <div className="flex-1" />
+        <span className="text-xs text-muted-foreground flex items-center gap-1 mr-2">
+          {saveState === "saving" || content !== savedContent ? (
+            <><Loader2 className="w-3 h-3 animate-spin" /> Saving…</>
+          ) : saveState === "error" ? (
+            <span className="text-destructive">Not saved</span>
+          ) : latest ? (
+            <><Check className="w-3 h-3" /> Saved as revision {latest.revision}</>
+          ) : (
+            "AI text, not edited yet"
+          )}
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => addRevision(content, "edit", latest ? latest.analysis_version_id : analysisVersionId)}
+          className="border-border h-8"
+        >
+          <Save className="w-3.5 h-3.5 mr-1" /> Save Revision
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline" disabled={translating || !content.trim()} className="border-border h-8">
+              {translating ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <Languages className="w-3.5 h-3.5 mr-1" />} Translate
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="bg-card border-border">
+            {LANGUAGES.map((l) => (
+              <DropdownMenuItem key={l.code} onClick={() => translateDocument(l.code)}>
+                {l.label} <span className="ml-auto pl-3 text-muted-foreground">{l.native}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button size="sm" variant="outline" onClick={() => setShowHistory(!showHistory)} className="border-border h-8">
+          <History className="w-3.5 h-3.5 mr-1" /> History ({revisions.length})
+        </Button>
+      </div>
+
+      {stale && (
+        <div className="rounded-lg border border-primary/40 bg-primary/10 p-3 text-sm flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 text-primary shrink-0 mt-0.5" />
+          <span className="flex-1">This draft was started from an earlier analysis of the case.</span>
+          <Button size="sm" variant="outline" onClick={() => addRevision(original, "ai", analysisVersionId)} className="border-border h-7">
+            Start from latest AI text
+          </Button>
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="rounded-lg border border-border divide-y divide-border max-h-56 overflow-y-auto">
+          {revisions.length === 0 && <p className="p-3 text-sm text-muted-foreground">No revisions yet. Edits are saved automatically.</p>}
+          {revisions.map((r, i) => (
+            <div key={r.id} className="flex items-center gap-3 p-2.5 text-sm">
+              <span className="font-medium text-foreground w-10">#{r.revision}</span>
+              <span className="text-muted-foreground flex-1 truncate">
+                {SOURCE_LABELS[r.source] ?? r.source}
+                {r.source === "translation" && r.language ? ` to ${languageLabel(r.language)}` : ""}
+                {r.restored_from ? ` from #${r.restored_from}` : ""} · {new Date(r.updated_at).toLocaleString()}
+              </span>
+              {i > 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => addRevision(r.content, "restore", r.analysis_version_id, r.revision, r.language)}
+                  className="h-7 text-primary hover:text-gold-bright"
+                >
+                  <RotateCcw className="w-3.5 h-3.5 mr-1" /> Restore
+                </Button>
+              )}
+            </div>
+          ))}
+          {revisions.length > 0 && (
+            <div className="p-2.5 flex justify-end">
+              <Button size="sm" variant="ghost" onClick={() => addRevision(original, "ai", analysisVersionId)} className="h-7 text-muted-foreground">
+                Revert to AI text
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Sections */}
+      {sections.map((section, i) => {
+        const suggestion = suggestions[i];
+        return (
+          <div key={i} className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <span className="text-xs uppercase tracking-wide text-muted-foreground w-32 shrink-0">{SECTION_LABELS[section.key]}</span>
+              <Input
+                value={section.heading}
+                placeholder={section.key === "title" ? "e.g. IN THE COURT OF THE SESSIONS JUDGE" : "Heading"}
+                onChange={(e) => updateSection(i, { heading: e.target.value })}
+                className="bg-input border-border text-foreground h-8 font-serif font-semibold"
+              />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!section.body.trim() || rewriting !== null}
+                    className="border-border h-8 text-primary shrink-0"
+                  >
+                    {rewriting === i ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <Sparkles className="w-3.5 h-3.5 mr-1" />}
+                    AI
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="bg-card border-border">
+                  {REWRITE_ACTIONS.map(({ action, label }) => (
+                    <DropdownMenuItem key={action} onClick={() => requestRewrite(i, action, label)}>{label}</DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>Translate</DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent className="bg-card border-border">
+                      {LANGUAGES.map(({ code, label }) => (
+                        <DropdownMenuItem key={code} onClick={() => requestRewrite(i, "translate", `Translate to ${label}`, { language: label })}>
+                          {label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => { setCustomFor(i); setCustomNote(""); }}>Custom instruction…</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+
+            {customFor === i && (
+              <div className="flex gap-2">
+                <Input
+                  autoFocus
+                  value={customNote}
+                  placeholder="e.g. Emphasise that the accused has no prior record"
+                  onChange={(e) => setCustomNote(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && customNote.trim()) requestRewrite(i, "rewrite", "Custom rewrite", { note: customNote });
+                    if (e.key === "Escape") setCustomFor(null);
+                  }}
+                  className="bg-input border-border text-foreground h-8 text-sm"
+                />
+                <Button
+                  size="sm"
+                  disabled={!customNote.trim()}
+                  onClick={() => requestRewrite(i, "rewrite", "Custom rewrite", { note: customNote })}
+                  className="bg-primary text-primary-foreground hover:bg-gold-bright h-8"
+                >
+                  Ask
+                </Button>
+              </div>
+            )}
+
+            <Textarea
+              ref={(el) => (textareas.current[i] = el)}
+              value={section.body}
+              onFocus={() => (focused.current = i)}
+              onChange={(e) => updateSection(i, { body: e.target.value })}
+              rows={Math.min(Math.max(section.body.split("\n").length + 1, 3), 16)}
+              placeholder={section.key === "title" ? "Cause title or opening lines (optional)" : `Write the ${SECTION_LABELS[section.key].toLowerCase()}…`}
+              className="bg-input border-border text-foreground text-sm leading-relaxed"
+            />
+
+            {/* Tracked Suggestion */}
+            {suggestion && (
+              <div className="rounded-lg border border-primary/40 bg-primary/5 p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Sparkles className="w-3.5 h-3.5 text-primary" />
+                  <span className="text-xs font-semibold uppercase tracking-wide text-primary flex-1">Suggested: {suggestion.label}</span>
+                  <Button size="sm" onClick={() => resolveSuggestion(i, true)} className="h-7 bg-primary text-primary-foreground hover:bg-gold-bright">
+                    <Check className="w-3.5 h-3.5 mr-1" /> Accept
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => resolveSuggestion(i, false)} className="h-7 border-border">
+                    <X className="w-3.5 h-3.5 mr-1" /> Reject
+                  </Button>
+                </div>
+                {suggestion.before !== section.body && (
+                  <p className="text-xs text-muted-foreground">The section has been edited since this suggestion; accepting replaces it.</p>
+                )}
+                <p className="text-sm whitespace-pre-wrap leading-relaxed max-h-72 overflow-y-auto">
+                  {diffWords(suggestion.before, suggestion.after).map((part, k) =>
+                    part.status === "added" ? (
+                      <ins key={k} className="no-underline bg-green-500/15 text-green-400">{part.text}</ins>
+                    ) : part.status === "removed" ? (
+                      <del key={k} className="bg-destructive/10 text-destructive line-through">{part.text}</del>
+                    ) : (
+                      <span key={k} className="text-secondary-foreground">{part.text}</span>
+                    ),
+                  )}
+                </p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CourtDocumentEditor;
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CalendarOff, Plus, Trash2 } from "lucide-react";
+import { localToday } from "@/lib/case-metadata";
+import { formatIsoDate, type CourtHoliday } from "@/lib/case-calendar";
+
+const fetchHolidays = () => supabase.from("court_holidays").select("id, holiday_date, name").order("holiday_date");
+
+/** Admin list of court holidays, which the limitation calculator skips when a period ends on one. */
+const CourtHolidaysManager = () => {
+  const { toast } = useToast();
+  const [holidays, setHolidays] = useState<CourtHoliday[]>([]);
+  const [showPast, setShowPast] = useState(false);
+  const [form, setForm] = useState({ date: "", name: "" });
+
+  useEffect(() => {
+    fetchHolidays().then(({ data }) => setHolidays(data ?? []));
+  }, []);
+
+  const addHoliday = async () => {
+    if (!form.date || !form.name.trim()) return;
+    const { data, error } = await supabase
+      .from("court_holidays")
+      .insert({ holiday_date: form.date, name: form.name.trim() })
+      .select("id, holiday_date, name")
+      .single();
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.code === "23505" ? "That date is already listed" : "Could not add the holiday",
+        variant: "destructive",
+      });
+      return;
+    }
+    setHolidays((prev) => [...prev, data].sort((a, b) => a.holiday_date.localeCompare(b.holiday_date)));
+    setForm({ date: "", name: "" });
+  };
+
+  const removeHoliday = async (id: string) => {
+    const { error } = await supabase.from("court_holidays").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error", description: "Could not remove the holiday", variant: "destructive" });
+      return;
+    }
+    setHolidays((prev) => prev.filter((h) => h.id !== id));
+  };
+
+  const today = localToday();
+  const listed = showPast ? holidays : holidays.filter((h) => h.holiday_date >= today);
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarOff className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-serif font-bold text-foreground">Court Holidays</h2>
+        <button onClick={() => setShowPast(!showPast)} className="text-xs text-muted-foreground hover:text-foreground ml-auto">
+          {showPast ? "Hide past dates" : "Show past dates"}
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        A limitation period ending on one of these days runs to the next working day. Sundays are always treated as closed.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Input
+          type="date"
+          value={form.date}
+          onChange={(e) => setForm({ ...form, date: e.target.value })}
+          className="w-[170px] bg-input border-border text-foreground"
+        />
+        <Input
+          value={form.name}
+          placeholder="e.g. Diwali"
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && addHoliday()}
+          className="flex-1 min-w-[160px] bg-input border-border text-foreground"
+        />
+        <Button onClick={addHoliday} disabled={!form.date || !form.name.trim()} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+          <Plus className="w-4 h-4 mr-1" /> Add
+        </Button>
+      </div>
+
+      {listed.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground text-sm">No upcoming holidays listed.</div>
+      ) : (
+        <ul className="divide-y divide-border max-h-72 overflow-y-auto">
+          {listed.map((h) => (
+            <li key={h.id} className="py-2 flex items-center gap-3 text-sm">
+              <span className="w-32 text-muted-foreground">{formatIsoDate(h.holiday_date, { weekday: "short", day: "numeric", month: "short", year: "numeric" })}</span>
+              <span className="flex-1 text-foreground">{h.name}</span>
+              <button onClick={() => removeHoliday(h.id)} className="text-muted-foreground hover:text-destructive" title="Remove holiday">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CourtHolidaysManager;
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FilePlus2, Loader2, Trash2 } from "lucide-react";
+import { CitedMarkdown } from "@/components/StatuteCitations";
+import DocumentModal from "@/components/DocumentModal";
+import type { CaseIntake } from "@/lib/case-intake";
+import { readFunctionError } from "@/lib/function-error";
+import { readEventStream } from "@/lib/sse";
+import {
+  DOCUMENT_TYPES,
+  documentType,
+  fieldsFromIntake,
+  missingFields,
+  type GeneratedDocumentType,
+} from "@/lib/document-types";
+
+interface GeneratedDocument {
+  id: string;
+  doc_type: string;
+  title: string;
+  content: string;
+  created_at: string;
+}
+
+interface DocumentGeneratorProps {
+  caseId: string;
+  intake: CaseIntake | null;
+  caseTitle?: string;
+  // Entitlement and quota refusals are handled by the dashboard, which owns those dialogs
+  onError: (e: unknown) => void;
+  // Members without edit rights can open saved documents but not draft or delete them
+  readOnly?: boolean;
+}
+
+const FUNC_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-case`;
+
+const fetchGenerated = (caseId: string) =>
+  supabase
+    .from("generated_documents")
+    .select("id, doc_type, title, content, created_at")
+    .eq("case_id", caseId)
+    .order("created_at", { ascending: false });
+
+const DocumentGenerator = ({ caseId, intake, caseTitle, onError, readOnly = false }: DocumentGeneratorProps) => {
+  const { session } = useAuth();
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<GeneratedDocument[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [typeId, setTypeId] = useState<GeneratedDocumentType>("regular_bail");
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [generating, setGenerating] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [viewing, setViewing] = useState<GeneratedDocument | null>(null);
+
+  const type = documentType(typeId);
+  const missing = type ? missingFields(type, fields) : [];
+
+  useEffect(() => {
+    fetchGenerated(caseId).then(({ data }) => setDocuments(data ?? []));
+  }, [caseId]);
+
+  const openForm = () => {
+    setFields(fieldsFromIntake(documentType(typeId), intake));
+    setDraft("");
+    setShowForm(true);
+  };
+
+  const changeType = (id: GeneratedDocumentType) => {
+    setTypeId(id);
+    setFields(fieldsFromIntake(documentType(id), intake));
+  };
+
+  const generate = async () => {
+    if (!type || missing.length || generating) return;
+    setGenerating(true);
+    setDraft("");
+
+    try {
+      // Drafted server-side from the stored case facts, analysis and source documents
+      const resp = await fetch(FUNC_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session?.access_token}` },
+        body: JSON.stringify({ type: "document", caseId, document: { type: type.id, fields } }),
+      });
+      if (!resp.ok || !resp.body) throw await readFunctionError(resp, "Document generation failed");
+
+      let content = "";
+      await readEventStream(resp.body, (payload) => {
+        const delta = (payload as { choices?: { delta?: { content?: string } }[] }).choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          setDraft(content);
+        }
+      });
+      if (!content.trim()) throw new Error("The model returned an empty document");
+
+      const title = caseTitle ? `${type.label} - ${caseTitle}` : type.label;
+      const { data, error } = await supabase
+        .from("generated_documents")
+        .insert({ case_id: caseId, doc_type: type.id, title, fields, content })
+        .select("id, doc_type, title, content, created_at")
+        .single();
+      if (error || !data) {
+        toast({ title: "Error", description: "The document was generated but could not be saved", variant: "destructive" });
+        return;
+      }
+      setDocuments((prev) => [data, ...prev]);
+      setShowForm(false);
+      setViewing(data);
+    } catch (e) {
+      onError(e);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const deleteDocument = async (doc: GeneratedDocument) => {
+    const { error } = await supabase.from("generated_documents").delete().eq("id", doc.id);
+    if (error) {
+      toast({ title: "Error", description: "Could not delete the document", variant: "destructive" });
+      return;
+    }
+    setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+            <FilePlus2 className="w-4 h-4 text-primary" /> Drafted Documents
+          </h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Bail applications, replies, written statements, legal notices and appeal memos drafted from this case.
+          </p>
+        </div>
+        {!readOnly && (
+          <Button size="sm" onClick={openForm} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+            <FilePlus2 className="w-3 h-3 mr-1" /> New Document
+          </Button>
+        )}
+      </div>
+
+      {documents.length > 0 && (
+        <ul className="divide-y divide-border">
+          {documents.map((doc) => (
+            <li key={doc.id} className="flex items-center gap-3 py-2 text-sm">
+              <button onClick={() => setViewing(doc)} className="flex-1 min-w-0 text-left group">
+                <span className="block truncate text-foreground group-hover:text-primary">{doc.title}</span>
+                <span className="text-xs text-muted-foreground">
+                  {documentType(doc.doc_type)?.label ?? "Document"} · {new Date(doc.created_at).toLocaleString()}
+                </span>
+              </button>
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteDocument(doc)}
+                  className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                  title="Delete document"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Generate Document Dialog */}
+      <Dialog open={showForm} onOpenChange={(open) => !generating && setShowForm(open)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-card border-border text-foreground">
+          <DialogHeader>
+            <DialogTitle className="text-primary font-serif">Draft a Document</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              The document is drafted from the case facts, its latest analysis and uploaded source documents.
+            </DialogDescription>
+          </DialogHeader>
+
+          {generating || draft ? (
+            <div className="prose prose-sm prose-invert max-w-none max-h-[55vh] overflow-y-auto">
+              {draft ? <CitedMarkdown>{draft}</CitedMarkdown> : <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Document type</Label>
+                <Select value={typeId} onValueChange={(v) => changeType(v as GeneratedDocumentType)}>
+                  <SelectTrigger className="bg-input border-border text-foreground">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {DOCUMENT_TYPES.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {type && <p className="text-xs text-muted-foreground">{type.description}</p>}
+              </div>
+              {type?.fields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`doc-field-${field.key}`} className="text-xs text-muted-foreground">
+                    {field.label}{field.required && " *"}
+                  </Label>
+                  {field.multiline ? (
+                    <Textarea
+                      id={`doc-field-${field.key}`}
+                      rows={3}
+                      value={fields[field.key] ?? ""}
+                      placeholder={field.placeholder}
+                      onChange={(e) => setFields((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                      className="bg-input border-border text-foreground"
+                    />
+                  ) : (
+                    <Input
+                      id={`doc-field-${field.key}`}
+                      value={fields[field.key] ?? ""}
+                      placeholder={field.placeholder}
+                      onChange={(e) => setFields((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                      className="bg-input border-border text-foreground"
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-2 pt-2">
+            {missing.length > 0 && !generating && !draft && (
+              <span className="text-xs text-muted-foreground mr-auto">Required: {missing.join(", ")}</span>
+            )}
+            {draft && !generating ? (
+              <Button variant="outline" onClick={() => setDraft("")} className="border-border">
+                Back to details
+              </Button>
+            ) : (
+              <Button
+                onClick={generate}
+                disabled={generating || missing.length > 0}
+                className="bg-primary text-primary-foreground hover:bg-gold-bright"
+              >
+                {generating ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FilePlus2 className="w-4 h-4 mr-1" />} Generate
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Generated Document Modal */}
+      {viewing && (
+        <DocumentModal
+          open={!!viewing}
+          onClose={() => setViewing(null)}
+          document={viewing.content}
+          intake={intake}
+          title={viewing.title}
+          heading={documentType(viewing.doc_type)?.label}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DocumentGenerator;
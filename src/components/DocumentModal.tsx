@@ -1,45 +1,86 @@
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { Download, X } from "lucide-react";
-import ReactMarkdown from "react-markdown";
+import { Download } from "lucide-react";
+import { CitedMarkdown } from "@/components/StatuteCitations";
+import CourtDocumentEditor from "@/components/CourtDocumentEditor";
+import ExportDocumentDialog from "@/components/ExportDocumentDialog";
+import type { CaseIntake } from "@/lib/case-intake";
 
 interface DocumentModalProps {
   open: boolean;
   onClose: () => void;
   document: string;
+  // Prefills the cause title of exports; absent for documents without a saved case
+  intake?: CaseIntake | null;
+  title?: string;
+  // Dialog heading; generated bail applications, notices etc. show their document type
+  heading?: string;
+  // Saved cases get the editor with revisions; set only while the case's current analysis is shown
+  caseId?: string | null;
+  analysisVersionId?: string | null;
 }
 
-const DocumentModal = ({ open, onClose, document }: DocumentModalProps) => {
-  const handleExport = () => {
-    const printWindow = window.open("", "_blank");
-    if (!printWindow) return;
-    printWindow.document.write(`
-      <html><head><title>Court-Ready Document</title>
-      <style>body{font-family:Georgia,serif;max-width:800px;margin:40px auto;padding:20px;line-height:1.8;color:#1a1a1a}h1,h2,h3{margin-top:24px}h1{text-align:center;border-bottom:2px solid #333;padding-bottom:10px}</style>
-      </head><body>${document.replace(/\n/g, "<br/>")}</body></html>
-    `);
-    printWindow.document.close();
-    printWindow.print();
-  };
+const DocumentModal = ({ open, onClose, document, intake, title, heading = "Court-Ready Document", caseId, analysisVersionId }: DocumentModalProps) => {
+  const [showExport, setShowExport] = useState(false);
+  // The edited document once the editor has loaded the case's draft; exports use this
+  const [content, setContent] = useState(document);
+
+  useEffect(() => setContent(document), [document, caseId]);
+
+  const preview = (
+    <div className="prose prose-sm prose-invert max-w-none">
+      <CitedMarkdown>{content}</CitedMarkdown>
+    </div>
+  );
 
   return (
-    <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="max-w-3xl max-h-[80vh] bg-card border-border text-foreground overflow-hidden flex flex-col">
-        <DialogHeader className="flex flex-row items-center justify-between">
-          <DialogTitle className="font-serif text-xl text-primary">Court-Ready Document</DialogTitle>
-          <div className="flex gap-2">
-            <Button size="sm" onClick={handleExport} className="bg-primary text-primary-foreground hover:bg-gold-bright">
-              <Download className="w-4 h-4 mr-1" /> Export / Print
-            </Button>
-          </div>
-        </DialogHeader>
-        <div className="overflow-y-auto flex-1 pr-2">
-          <div className="prose prose-sm prose-invert max-w-none">
-            <ReactMarkdown>{document}</ReactMarkdown>
-          </div>
-        </div>
-      </DialogContent>
-    </Dialog>
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="max-w-3xl max-h-[85vh] bg-card border-border text-foreground overflow-hidden flex flex-col">
+          <DialogHeader className="flex flex-row items-center justify-between">
+            <DialogTitle className="font-serif text-xl text-primary">{heading}</DialogTitle>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => setShowExport(true)} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+                <Download className="w-4 h-4 mr-1" /> Export PDF / DOCX
+              </Button>
+            </div>
+          </DialogHeader>
+          {caseId ? (
+            <Tabs defaultValue="edit" className="flex-1 flex flex-col overflow-hidden">
+              <TabsList className="self-start">
+                <TabsTrigger value="edit">Edit</TabsTrigger>
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+              </TabsList>
+              {/* Kept mounted so switching tabs does not reload the draft or drop a pending autosave */}
+              <TabsContent value="edit" forceMount className="overflow-y-auto flex-1 pr-2 data-[state=inactive]:hidden">
+                <CourtDocumentEditor
+                  caseId={caseId}
+                  original={document}
+                  analysisVersionId={analysisVersionId ?? null}
+                  onChange={setContent}
+                />
+              </TabsContent>
+              <TabsContent value="preview" className="overflow-y-auto flex-1 pr-2">
+                {preview}
+              </TabsContent>
+            </Tabs>
+          ) : (
+            <div className="overflow-y-auto flex-1 pr-2">{preview}</div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Export Dialog */}
+      <ExportDocumentDialog
+        open={showExport}
+        onClose={() => setShowExport(false)}
+        document={content}
+        intake={intake}
+        title={title}
+      />
+    </>
   );
 };
 
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { FileDown, FileText, Loader2 } from "lucide-react";
+import type { CaseIntake } from "@/lib/case-intake";
+import { readFunctionError } from "@/lib/function-error";
+import {
+  COURT_TEMPLATES,
+  exportDetailsFromIntake,
+  exportFileName,
+  templateForCourt,
+  type CourtTemplateId,
+  type ExportDetails,
+  type ExportFormat,
+} from "@/lib/court-export";
+
+const EXPORT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-document`;
+
+interface ExportDocumentDialogProps {
+  open: boolean;
+  onClose: () => void;
+  document: string;
+  intake?: CaseIntake | null;
+  title?: string;
+}
+
+const FIELDS: { key: keyof ExportDetails; label: string; placeholder?: string; wide?: boolean }[] = [
+  { key: "court", label: "Court", placeholder: "High Court of Delhi at New Delhi", wide: true },
+  { key: "jurisdiction", label: "Jurisdiction", placeholder: "Criminal Original Jurisdiction" },
+  { key: "caseNumber", label: "Case number", placeholder: "Bail Application No. ___ of 2026" },
+  { key: "petitioner", label: "Petitioner" },
+  { key: "petitionerRole", label: "Described as", placeholder: "Petitioner / Applicant" },
+  { key: "respondent", label: "Respondent" },
+  { key: "respondentRole", label: "Described as", placeholder: "Respondent" },
+  { key: "firNumber", label: "FIR number" },
+  { key: "policeStation", label: "Police station" },
+  { key: "advocateName", label: "Advocate" },
+  { key: "enrolmentNumber", label: "Enrolment number", placeholder: "D/1234/2015" },
+  { key: "place", label: "Place" },
+  { key: "date", label: "Date" },
+];
+
+const ExportDocumentDialog = ({ open, onClose, document, intake, title }: ExportDocumentDialogProps) => {
+  const { session, profile } = useAuth();
+  const { toast } = useToast();
+  const [template, setTemplate] = useState<CourtTemplateId>("district_court");
+  const [details, setDetails] = useState<ExportDetails>(() => exportDetailsFromIntake(intake));
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  // Prefill from the case each time the dialog opens, so saved cases export with their own cause title
+  useEffect(() => {
+    if (!open) return;
+    setDetails(exportDetailsFromIntake(intake, profile?.name ?? ""));
+    setTemplate(templateForCourt(intake?.court.name ?? ""));
+  }, [open, intake, profile?.name]);
+
+  const update = (key: keyof ExportDetails, value: string) => setDetails((prev) => ({ ...prev, [key]: value }));
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const resp = await fetch(EXPORT_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session?.access_token}` },
+        body: JSON.stringify({ document, template, format, details }),
+      });
+      if (!resp.ok) throw await readFunctionError(resp, "Export failed");
+
+      const url = URL.createObjectURL(await resp.blob());
+      const link = window.document.createElement("a");
+      link.href = url;
+      link.download = exportFileName(title, format);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (e) {
+      toast({ title: "Export Failed", description: e instanceof Error ? e.message : "Export failed", variant: "destructive" });
+    }
+    setExporting(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="bg-card border-border text-foreground max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-primary font-serif">Export Court Document</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Choose a court format and check the cause title before downloading.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Template</Label>
+          <Select value={template} onValueChange={(v) => setTemplate(v as CourtTemplateId)}>
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COURT_TEMPLATES.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{COURT_TEMPLATES.find((t) => t.id === template)?.description}</p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {FIELDS.map((field) => (
+            <div key={field.key} className={`space-y-1.5 ${field.wide ? "sm:col-span-2" : ""}`}>
+              <Label htmlFor={`export-${field.key}`} className="text-xs text-muted-foreground">{field.label}</Label>
+              <Input
+                id={`export-${field.key}`}
+                value={details[field.key]}
+                placeholder={field.placeholder}
+                onChange={(e) => update(field.key, e.target.value)}
+                className="bg-input border-border text-foreground"
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => handleExport("docx")} disabled={!!exporting} className="border-border">
+            {exporting === "docx" ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FileText className="w-4 h-4 mr-1" />}
+            Download DOCX
+          </Button>
+          <Button onClick={() => handleExport("pdf")} disabled={!!exporting} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+            {exporting === "pdf" ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FileDown className="w-4 h-4 mr-1" />}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDocumentDialog;
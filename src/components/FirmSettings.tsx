@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2, Loader2, MailPlus, UserMinus, UserPlus, X } from "lucide-react";
+import { CASE_VISIBILITIES, FIRM_ROLES, firmMemberErrorMessage, isLastFirmAdmin, type FirmRole } from "@/lib/firms";
+
+interface FirmMember {
+  user_id: string;
+  role: string;
+  name: string | null;
+  username: string | null;
+}
+
+interface PendingInvitation {
+  id: string;
+  username: string;
+  role: string;
+}
+
+interface FirmSettingsProps {
+  firmId: string;
+  /** Called after the firm's name or membership changes */
+  onChanged?: () => void;
+}
+
+const fetchFirm = (firmId: string) => supabase.from("firms").select("id, name, case_visibility").eq("id", firmId).maybeSingle();
+
+// Profiles of other members are readable to firm admins and global admins through RLS
+const fetchMembers = async (firmId: string): Promise<FirmMember[]> => {
+  const { data: rows } = await supabase.from("firm_members").select("user_id, role, created_at").eq("firm_id", firmId).order("created_at");
+  if (!rows?.length) return [];
+  const { data: profiles } = await supabase.from("profiles").select("user_id, name, username").in("user_id", rows.map((r) => r.user_id));
+  const byId = new Map((profiles ?? []).map((p) => [p.user_id, p]));
+  return rows.map((r) => ({ user_id: r.user_id, role: r.role, name: byId.get(r.user_id)?.name ?? null, username: byId.get(r.user_id)?.username ?? null }));
+};
+
+const fetchInvitations = async (firmId: string): Promise<PendingInvitation[]> => {
+  const { data } = await supabase.from("firm_invitations").select("id, username, role").eq("firm_id", firmId).order("created_at");
+  return data ?? [];
+};
+
+/**
+ * Firm name, case visibility and membership. Firm admins invite users, who join once they accept;
+ * global admins add users directly.
+ */
+const FirmSettings = ({ firmId, onChanged }: FirmSettingsProps) => {
+  const { user, isAdmin, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [savedName, setSavedName] = useState("");
+  const [visibility, setVisibility] = useState("private");
+  const [members, setMembers] = useState<FirmMember[]>([]);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [username, setUsername] = useState("");
+  const [newRole, setNewRole] = useState<FirmRole>("member");
+  const [adding, setAdding] = useState(false);
+
+  const loadMembers = async () => setMembers(await fetchMembers(firmId));
+
+  useEffect(() => {
+    fetchFirm(firmId).then(({ data }) => {
+      setName(data?.name ?? "");
+      setSavedName(data?.name ?? "");
+      setVisibility(data?.case_visibility ?? "private");
+    });
+    fetchMembers(firmId).then(setMembers);
+    fetchInvitations(firmId).then(setInvitations);
+  }, [firmId]);
+
+  const updateFirm = async (patch: { name?: string; case_visibility?: string }) => {
+    const { error } = await supabase.from("firms").update(patch).eq("id", firmId);
+    if (error) {
+      toast({ title: "Error", description: "Could not update the firm", variant: "destructive" });
+      return false;
+    }
+    onChanged?.();
+    await refreshProfile();
+    return true;
+  };
+
+  const saveName = async () => {
+    if (!name.trim() || name.trim() === savedName) return;
+    if (await updateFirm({ name: name.trim() })) setSavedName(name.trim());
+  };
+
+  const changeVisibility = async (value: string) => {
+    if (await updateFirm({ case_visibility: value })) {
+      setVisibility(value);
+      toast({ title: "Updated", description: "Case visibility saved" });
+    }
+  };
+
+  const addMember = async () => {
+    if (!username.trim()) return;
+    setAdding(true);
+    const args = { _firm_id: firmId, _username: username.trim(), _role: newRole };
+    const { error } = isAdmin ? await supabase.rpc("add_firm_member", args) : await supabase.rpc("invite_firm_member", args);
+    setAdding(false);
+    if (error) {
+      toast({ title: "Error", description: firmMemberErrorMessage(error), variant: "destructive" });
+      return;
+    }
+    setUsername("");
+    if (isAdmin) {
+      await loadMembers();
+      onChanged?.();
+    } else {
+      setInvitations(await fetchInvitations(firmId));
+      toast({ title: "Invited", description: "They join the firm once they accept the invitation" });
+    }
+  };
+
+  const withdrawInvitation = async (id: string) => {
+    const { error } = await supabase.from("firm_invitations").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error", description: "Could not withdraw the invitation", variant: "destructive" });
+      return;
+    }
+    setInvitations((prev) => prev.filter((i) => i.id !== id));
+  };
+
+  const changeRole = async (userId: string, role: string) => {
+    const { error } = await supabase.from("firm_members").update({ role }).eq("firm_id", firmId).eq("user_id", userId);
+    if (error) {
+      toast({ title: "Error", description: error.code === "22023" ? error.message : "Could not change the role", variant: "destructive" });
+      return;
+    }
+    setMembers((prev) => prev.map((m) => (m.user_id === userId ? { ...m, role } : m)));
+  };
+
+  const removeMember = async (userId: string) => {
+    const { error } = await supabase.from("firm_members").delete().eq("firm_id", firmId).eq("user_id", userId);
+    if (error) {
+      toast({ title: "Error", description: error.code === "22023" ? error.message : "Could not remove the member", variant: "destructive" });
+      return;
+    }
+    setMembers((prev) => prev.filter((m) => m.user_id !== userId));
+    onChanged?.();
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="firm-name" className="text-xs text-muted-foreground">Firm name</Label>
+          <Input
+            id="firm-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={saveName}
+            onKeyDown={(e) => e.key === "Enter" && saveName()}
+            className="bg-input border-border text-foreground"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Case visibility</Label>
+          <Select value={visibility} onValueChange={changeVisibility}>
+            <SelectTrigger className="bg-input border-border text-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {CASE_VISIBILITIES.map((v) => (
+                <SelectItem key={v.value} value={v.value}>{v.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{CASE_VISIBILITIES.find((v) => v.value === visibility)?.description}.</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Building2 className="w-4 h-4 text-primary" />
+          <span className="text-sm font-medium text-foreground flex-1">Members</span>
+          <span className="text-xs text-muted-foreground">{members.length}</span>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={username}
+            placeholder="Username"
+            onChange={(e) => setUsername(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addMember()}
+            className="flex-1 bg-input border-border text-foreground"
+          />
+          <Select value={newRole} onValueChange={(v) => setNewRole(v as FirmRole)}>
+            <SelectTrigger className="w-[130px] bg-input border-border text-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {FIRM_ROLES.map((r) => (
+                <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={addMember}
+            disabled={adding || !username.trim()}
+            title={isAdmin ? "Add member" : "Invite member"}
+            className="bg-primary text-primary-foreground hover:bg-gold-bright"
+          >
+            {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : isAdmin ? <UserPlus className="w-4 h-4" /> : <MailPlus className="w-4 h-4" />}
+          </Button>
+        </div>
+        <ul className="rounded-lg border border-border divide-y divide-border max-h-72 overflow-y-auto text-sm">
+          {members.length === 0 && <li className="p-2.5 text-muted-foreground">No members yet.</li>}
+          {members.map((m) => {
+            // The firm's last admin stays one; promote someone else first
+            const locked = m.user_id === user?.id || isLastFirmAdmin(members, m.user_id);
+            return (
+              <li key={m.user_id} className="p-2.5 flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <span className="block truncate text-foreground">
+                    {m.name || m.username || "Unknown user"}
+                    {m.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                  </span>
+                  {m.username && <span className="block truncate text-xs text-muted-foreground">{m.username}</span>}
+                </div>
+                <Select value={m.role} onValueChange={(v) => changeRole(m.user_id, v)} disabled={locked}>
+                  <SelectTrigger className="w-[120px] h-8 bg-input border-border text-foreground text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {FIRM_ROLES.map((r) => (
+                      <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!locked && (
+                  <button onClick={() => removeMember(m.user_id)} className="text-muted-foreground hover:text-destructive" title="Remove from firm">
+                    <UserMinus className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        {invitations.length > 0 && (
+          <ul className="rounded-lg border border-dashed border-border divide-y divide-border text-sm">
+            {invitations.map((i) => (
+              <li key={i.id} className="p-2.5 flex items-center gap-2">
+                <span className="flex-1 min-w-0 truncate text-muted-foreground">{i.username}</span>
+                <span className="text-xs text-muted-foreground">
+                  Invited as {FIRM_ROLES.find((r) => r.value === i.role)?.label.toLowerCase() ?? i.role}
+                </span>
+                <button onClick={() => withdrawInvitation(i.id)} className="text-muted-foreground hover:text-destructive" title="Withdraw invitation">
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FirmSettings;
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Building2, Loader2, Plus, Settings2, Trash2 } from "lucide-react";
+import FirmSettings from "@/components/FirmSettings";
+import { CASE_VISIBILITIES, firmMemberErrorMessage } from "@/lib/firms";
+
+interface FirmRow {
+  id: string;
+  name: string;
+  case_visibility: string;
+  members: number;
+  admins: number;
+}
+
+interface FirmsOverviewProps {
+  /** Called when membership changes, so the user table can refresh its firm column */
+  onChanged: () => void;
+}
+
+const fetchFirms = async (): Promise<FirmRow[]> => {
+  const [{ data: firms }, { data: members }] = await Promise.all([
+    supabase.from("firms").select("id, name, case_visibility").order("name"),
+    supabase.from("firm_members").select("firm_id, role"),
+  ]);
+  return (firms ?? []).map((f) => ({
+    ...f,
+    members: (members ?? []).filter((m) => m.firm_id === f.id).length,
+    admins: (members ?? []).filter((m) => m.firm_id === f.id && m.role === "admin").length,
+  }));
+};
+
+/** Every firm, for the global admin: create firms with their first admin and manage any of them. */
+const FirmsOverview = ({ onChanged }: FirmsOverviewProps) => {
+  const { toast } = useToast();
+  const [firms, setFirms] = useState<FirmRow[]>([]);
+  const [form, setForm] = useState({ name: "", admin: "" });
+  const [creating, setCreating] = useState(false);
+  const [managing, setManaging] = useState<FirmRow | null>(null);
+
+  const loadFirms = async () => setFirms(await fetchFirms());
+
+  useEffect(() => {
+    fetchFirms().then(setFirms);
+  }, []);
+
+  const createFirm = async () => {
+    if (!form.name.trim() || !form.admin.trim()) return;
+    setCreating(true);
+    const { data: firm, error } = await supabase.from("firms").insert({ name: form.name.trim() }).select("id").single();
+    if (error) {
+      setCreating(false);
+      toast({ title: "Error", description: "Could not create the firm", variant: "destructive" });
+      return;
+    }
+    const { error: memberError } = await supabase.rpc("add_firm_member", { _firm_id: firm.id, _username: form.admin.trim(), _role: "admin" });
+    setCreating(false);
+    if (memberError) {
+      // A firm without an admin could not be managed by anyone but us, so undo it
+      await supabase.from("firms").delete().eq("id", firm.id);
+      toast({ title: "Error", description: firmMemberErrorMessage(memberError), variant: "destructive" });
+      return;
+    }
+    setForm({ name: "", admin: "" });
+    await loadFirms();
+    onChanged();
+  };
+
+  const deleteFirm = async (id: string) => {
+    const { error } = await supabase.from("firms").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error", description: "Could not delete the firm", variant: "destructive" });
+      return;
+    }
+    setFirms((prev) => prev.filter((f) => f.id !== id));
+    onChanged();
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Building2 className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-serif font-bold text-foreground">Firms</h2>
+        <span className="text-xs text-muted-foreground ml-auto">{firms.length} firms</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Input
+          value={form.name}
+          placeholder="Firm or chambers name"
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          className="flex-1 min-w-[180px] bg-input border-border text-foreground"
+        />
+        <Input
+          value={form.admin}
+          placeholder="Username of its admin"
+          onChange={(e) => setForm({ ...form, admin: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && createFirm()}
+          className="flex-1 min-w-[180px] bg-input border-border text-foreground"
+        />
+        <Button onClick={createFirm} disabled={creating || !form.name.trim() || !form.admin.trim()} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+          {creating ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />} Create Firm
+        </Button>
+      </div>
+
+      {firms.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground text-sm">No firms yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead>Case Visibility</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {firms.map((f) => (
+                <TableRow key={f.id}>
+                  <TableCell className="font-medium text-foreground">{f.name}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {f.members} <span className="text-xs">({f.admins} {f.admins === 1 ? "admin" : "admins"})</span>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{CASE_VISIBILITIES.find((v) => v.value === f.case_visibility)?.label ?? f.case_visibility}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setManaging(f)} className="border-border text-muted-foreground hover:text-foreground">
+                        <Settings2 className="w-3 h-3 mr-1" /> Manage
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteFirm(f.id)}
+                        className="border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Manage Firm Dialog */}
+      <Dialog open={!!managing} onOpenChange={(open) => { if (!open) { setManaging(null); loadFirms(); } }}>
+        <DialogContent className="max-w-2xl bg-card border-border text-foreground">
+          <DialogHeader>
+            <DialogTitle className="text-primary font-serif">{managing?.name}</DialogTitle>
+            <DialogDescription className="text-muted-foreground">Members, their roles and how cases are shared within the firm.</DialogDescription>
+          </DialogHeader>
+          {managing && <FirmSettings firmId={managing.id} onChanged={onChanged} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default FirmsOverview;
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, Loader2 } from "lucide-react";
+import { computeLimitation, PROCEEDINGS, proceeding } from "@/lib/limitation";
+import { formatIsoDate, type CourtHoliday } from "@/lib/case-calendar";
+import type { CaseSummary } from "@/lib/case-metadata";
+
+interface LimitationCalculatorProps {
+  cases: CaseSummary[];
+  holidays: CourtHoliday[];
+  /** Preselects the case the deadline is saved to */
+  defaultCaseId?: string | null;
+  onDeadlineSaved: () => void;
+}
+
+const LimitationCalculator = ({ cases, holidays, defaultCaseId, onDeadlineSaved }: LimitationCalculatorProps) => {
+  const { toast } = useToast();
+  const [proceedingId, setProceedingId] = useState(PROCEEDINGS[0].id);
+  const [orderDate, setOrderDate] = useState("");
+  const [copyDays, setCopyDays] = useState("");
+  const [caseId, setCaseId] = useState(defaultCaseId ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const type = proceeding(proceedingId)!;
+  const holidayNames = new Map(holidays.map((h) => [h.holiday_date, h.name]));
+  const result = orderDate
+    ? computeLimitation(orderDate, type, { copyDays: Number(copyDays) || 0, holidays: holidayNames.keys() })
+    : null;
+
+  const saveDeadline = async () => {
+    if (!result || !caseId) return;
+    setSaving(true);
+    const { error } = await supabase.from("case_deadlines").insert({
+      case_id: caseId,
+      title: `Last date: ${type.label}`,
+      due_date: result.lastDate,
+      kind: "limitation",
+      proceeding: type.id,
+      order_date: orderDate,
+      notes: type.basis,
+    });
+    setSaving(false);
+    if (error) {
+      toast({ title: "Error", description: "Could not save the deadline", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Deadline saved", description: `${formatIsoDate(result.lastDate)} added to the calendar` });
+    onDeadlineSaved();
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Calculator className="w-4 h-4 text-primary" />
+        <h3 className="font-serif font-semibold text-foreground">Limitation Calculator</h3>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1 sm:col-span-3">
+          <Label className="text-xs text-muted-foreground">Proceeding</Label>
+          <Select value={proceedingId} onValueChange={setProceedingId}>
+            <SelectTrigger className="bg-input border-border text-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {PROCEEDINGS.map((p) => (
+                <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="limitation-order-date" className="text-xs text-muted-foreground">{type.runsFrom}</Label>
+          <Input
+            id="limitation-order-date"
+            type="date"
+            value={orderDate}
+            onChange={(e) => setOrderDate(e.target.value)}
+            className="bg-input border-border text-foreground"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="limitation-copy-days" className="text-xs text-muted-foreground">Days obtaining certified copy</Label>
+          <Input
+            id="limitation-copy-days"
+            type="number"
+            min={0}
+            value={copyDays}
+            placeholder="0"
+            disabled={!type.courtFiling}
+            onChange={(e) => setCopyDays(e.target.value)}
+            className="bg-input border-border text-foreground"
+          />
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-border p-3 space-y-1.5 text-sm">
+        {!type.period ? (
+          <p className="text-muted-foreground">{type.basis}</p>
+        ) : !result ? (
+          <p className="text-muted-foreground">
+            {type.period.amount} {type.period.unit === "days" ? "days" : type.period.amount === 1 ? "month" : "months"} · {type.basis}. Enter the date to compute the last date.
+          </p>
+        ) : (
+          <>
+            <p className="text-foreground">
+              Last date to file: <span className="font-semibold text-primary">{formatIsoDate(result.lastDate, { weekday: "long", day: "numeric", month: "long", year: "numeric" })}</span>
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {type.period.amount} {type.period.unit === "days" ? "days" : type.period.amount === 1 ? "month" : "months"} under {type.basis}, excluding the day itself
+              {Number(copyDays) > 0 && ` and ${Math.floor(Number(copyDays))} days obtaining the certified copy`}.
+            </p>
+            {result.skipped.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                The period expires on {formatIsoDate(result.expiry)}, when the court is closed (
+                {result.skipped.map((s) => `${formatIsoDate(s.date, { day: "numeric", month: "short" })}: ${holidayNames.get(s.date) ?? s.reason}`).join("; ")}
+                ), so it runs to the next working day under Section 4.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {result && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={caseId} onValueChange={setCaseId}>
+            <SelectTrigger className="flex-1 min-w-[180px] bg-input border-border text-foreground">
+              <SelectValue placeholder="Choose a case" />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {cases.map((c) => (
+                <SelectItem key={c.id} value={c.id}>{c.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={saveDeadline} disabled={!caseId || saving} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+            {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />} Add to case deadlines
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LimitationCalculator;
@@ -0,0 +1,280 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import ReactMarkdown from "react-markdown";
+import { supabase } from "@/integrations/supabase/client";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { AlertTriangle, ArrowLeftRight, BookMarked } from "lucide-react";
+import {
+  ACT_NAMES,
+  CITATION_HREF_PREFIX,
+  citationKey,
+  linkCitations,
+  parseCitations,
+  splitCitations,
+  type ActCode,
+} from "@/lib/citations";
+import {
+  counterpartKey,
+  counterparts,
+  formatReference,
+  isOldAct,
+  missingCounterparts,
+  type ConcordanceEntry,
+} from "@/lib/concordance";
+
+interface Statute {
+  act: string;
+  section: string;
+  title: string;
+  content: string;
+}
+
+interface CitationContextValue {
+  /** Statute per citation key; null once looked up and not found. Missing keys are still loading. */
+  statutes: Map<string, Statute | null>;
+  /** Concordance rows per citation key; empty when the section has no mapping */
+  concordance: Map<string, ConcordanceEntry[]>;
+  open: (key: string, label: string) => void;
+}
+
+const CitationContext = createContext<CitationContextValue | null>(null);
+
+interface CitationProviderProps {
+  /** Every text on screen that may contain citations (analysis fields, chat messages, documents) */
+  texts: string[];
+  children: ReactNode;
+}
+
+/**
+ * Looks up the citations found in `texts` against the statute corpus and the IPC/BNS concordance, and
+ * hosts the section side panel.
+ */
+export const CitationProvider = ({ texts, children }: CitationProviderProps) => {
+  const [statutes, setStatutes] = useState<Map<string, Statute | null>>(new Map());
+  const [selected, setSelected] = useState<{ key: string; label: string } | null>(null);
+
+  const wanted = useMemo(() => {
+    const keys = new Set<string>();
+    for (const text of texts) {
+      for (const c of parseCitations(text)) keys.add(citationKey(c.act, c.section));
+    }
+    return [...keys].sort().join(",");
+  }, [texts]);
+
+  const [concordance, setConcordance] = useState<Map<string, ConcordanceEntry[]>>(new Map());
+
+  useEffect(() => {
+    const missing = wanted.split(",").filter((key) => key && !concordance.has(key));
+    if (missing.length === 0) return;
+
+    supabase.rpc("lookup_concordance", { _refs: missing }).then(({ data, error }) => {
+      if (error) return;
+      setConcordance((prev) => {
+        const next = new Map(prev);
+        for (const key of missing) next.set(key, (data ?? []).filter((entry) => counterparts([entry], key).length > 0));
+        return next;
+      });
+    });
+  }, [wanted, concordance]);
+
+  // Equivalent sections are looked up too, so they can be opened from the panel and the analysis
+  const lookupKeys = useMemo(() => {
+    const keys = new Set(wanted.split(",").filter(Boolean));
+    for (const [key, entries] of concordance) {
+      for (const counterpart of counterparts(entries, key)) {
+        const counterpartCiteKey = counterpartKey(counterpart);
+        if (counterpartCiteKey) keys.add(counterpartCiteKey);
+      }
+    }
+    return [...keys].sort().join(",");
+  }, [wanted, concordance]);
+
+  // Only keys not looked up yet are fetched, so streaming text does not refetch known sections
+  useEffect(() => {
+    const missing = lookupKeys.split(",").filter((key) => key && !statutes.has(key));
+    if (missing.length === 0) return;
+
+    const acts = [...new Set(missing.map((key) => key.split(":")[0]))];
+    const sections = [...new Set(missing.map((key) => key.split(":")[1]))];
+    supabase
+      .from("statutes")
+      .select("act, section, title, content")
+      .in("act", acts)
+      .in("section", sections)
+      .then(({ data, error }) => {
+        if (error) return;
+        setStatutes((prev) => {
+          const next = new Map(prev);
+          for (const key of missing) next.set(key, null);
+          for (const row of data ?? []) {
+            const key = `${row.act}:${row.section}`;
+            if (next.has(key)) next.set(key, row);
+          }
+          return next;
+        });
+      });
+  }, [lookupKeys, statutes]);
+
+  const statute = selected ? statutes.get(selected.key) : undefined;
+  const act = selected?.key.split(":")[0] as ActCode | undefined;
+  const equivalents = selected ? counterparts(concordance.get(selected.key) ?? [], selected.key) : [];
+  const open = (key: string, label: string) => setSelected({ key, label });
+
+  return (
+    <CitationContext.Provider value={{ statutes, concordance, open }}>
+      {children}
+
+      {/* Statute Side Panel */}
+      <Sheet open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <SheetContent className="bg-card border-border text-foreground overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="font-serif text-primary flex items-center gap-2">
+              <BookMarked className="w-5 h-5" /> {selected?.label}
+            </SheetTitle>
+            <SheetDescription className="text-muted-foreground">{act ? ACT_NAMES[act] : ""}</SheetDescription>
+          </SheetHeader>
+          <div className="mt-4 space-y-3">
+            {statute ? (
+              <>
+                <h3 className="text-sm font-semibold text-foreground">
+                  Section {statute.section} — {statute.title}
+                </h3>
+                <p className="text-sm text-secondary-foreground whitespace-pre-line leading-relaxed">{statute.content}</p>
+              </>
+            ) : statute === null ? (
+              <div className="rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-sm flex gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                <span>
+                  This section was not found in the statute corpus. It may not exist, may be misnumbered, or may
+                  simply not be loaded yet — verify it against the bare Act before relying on it.
+                </span>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Looking up section…</p>
+            )}
+
+            {equivalents.length > 0 && (
+              <div className="border-t border-border pt-3 space-y-2">
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground flex items-center gap-1.5">
+                  <ArrowLeftRight className="w-3.5 h-3.5" /> {act && isOldAct(act) ? "Replaced by" : "Replaces"}
+                </h4>
+                {equivalents.map((equivalent, i) => {
+                  const equivalentKey = counterpartKey(equivalent);
+                  return (
+                    <div key={i} className="rounded-lg border border-border bg-secondary/40 p-3 text-sm space-y-1">
+                      {equivalentKey ? (
+                        <button
+                          type="button"
+                          onClick={() => open(equivalentKey, formatReference(equivalent.act, equivalent.section))}
+                          className="font-medium text-primary hover:text-gold-bright underline decoration-dotted underline-offset-2"
+                        >
+                          {formatReference(equivalent.act, equivalent.section)}
+                        </button>
+                      ) : (
+                        <p className="font-medium text-foreground">No equivalent provision</p>
+                      )}
+                      {equivalent.notes && <p className="text-xs text-secondary-foreground">{equivalent.notes}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </CitationContext.Provider>
+  );
+};
+
+interface CitationLinkProps {
+  citeKey: string;
+  children: ReactNode;
+}
+
+/** A citation chip: opens the section text, or is flagged when the corpus has no such section. */
+export const CitationLink = ({ citeKey, children }: CitationLinkProps) => {
+  const context = useContext(CitationContext);
+  if (!context) return <>{children}</>;
+
+  const statute = context.statutes.get(citeKey);
+  const label = typeof children === "string" ? children : citeKey.replace(":", " ");
+  const unmatched = statute === null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => context.open(citeKey, label)}
+      title={unmatched ? "Not found in the statute corpus — verify manually" : statute ? statute.title : undefined}
+      className={`inline underline decoration-dotted underline-offset-2 transition-colors ${
+        unmatched ? "text-destructive decoration-destructive" : "text-primary hover:text-gold-bright"
+      }`}
+    >
+      {children}
+      {unmatched && <AlertTriangle className="w-3 h-3 ml-0.5 inline align-baseline" />}
+    </button>
+  );
+};
+
+/** Plain text with its citations rendered as citation chips. */
+export const CitedText = ({ text }: { text: string }) => (
+  <>
+    {splitCitations(text).map((segment, i) =>
+      typeof segment === "string" ? (
+        segment
+      ) : (
+        <CitationLink key={i} citeKey={citationKey(segment.act, segment.section)}>
+          {text.slice(segment.start, segment.end)}
+        </CitationLink>
+      ),
+    )}
+  </>
+);
+
+/**
+ * The old or new numbers of the sections cited in `text` that it does not already mention, e.g.
+ * "now Section 103(1) BNS" after "Section 302 IPC".
+ */
+export const SectionEquivalents = ({ text }: { text: string }) => {
+  const context = useContext(CitationContext);
+  if (!context) return null;
+
+  const entries = parseCitations(text).flatMap((c) => context.concordance.get(citationKey(c.act, c.section)) ?? []);
+  const missing = missingCounterparts(text, entries);
+  if (missing.length === 0) return null;
+
+  return (
+    <span className="text-xs text-muted-foreground">
+      {missing.map((counterpart, i) => {
+        const key = counterpartKey(counterpart);
+        return (
+          <span key={i} title={counterpart.notes || undefined}>
+            {" · "}
+            {key ? (
+              <>
+                {isOldAct(counterpart.act) ? "formerly " : "now "}
+                <CitationLink citeKey={key}>{formatReference(counterpart.act, counterpart.section)}</CitationLink>
+              </>
+            ) : (
+              "no equivalent in the new code"
+            )}
+          </span>
+        );
+      })}
+    </span>
+  );
+};
+
+/** Markdown with its citations rendered as citation chips. */
+export const CitedMarkdown = ({ children }: { children: string }) => (
+  <ReactMarkdown
+    components={{
+      a: ({ node: _node, href, children: label, ...props }) =>
+        href?.startsWith(CITATION_HREF_PREFIX) ? (
+          <CitationLink citeKey={href.slice(CITATION_HREF_PREFIX.length)}>{label}</CitationLink>
+        ) : (
+          <a href={href} {...props}>{label}</a>
+        ),
+    }}
+  >
+    {linkCitations(children)}
+  </ReactMarkdown>
+);
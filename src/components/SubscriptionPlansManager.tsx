@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CreditCard } from "lucide-react";
+import { PLAN_COLUMNS, type SubscriptionPlan } from "@/lib/subscriptions";
+
+type PlanField = "duration_days" | "daily_analysis_limit" | "daily_chat_limit" | "daily_upload_limit";
+
+const FIELDS: { field: PlanField; label: string }[] = [
+  { field: "duration_days", label: "Days" },
+  { field: "daily_analysis_limit", label: "Analyses / day" },
+  { field: "daily_chat_limit", label: "Chats / day" },
+  { field: "daily_upload_limit", label: "Uploads / day" },
+];
+
+const fetchPlans = () => supabase.from("subscription_plans").select(PLAN_COLUMNS).order("sort_order");
+
+/** Admin table of subscription plans; each value is saved when its field loses focus. */
+const SubscriptionPlansManager = () => {
+  const { toast } = useToast();
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchPlans().then(({ data }) => setPlans(data ?? []));
+  }, []);
+
+  const savePlan = async (plan: SubscriptionPlan, field: PlanField) => {
+    const key = `${plan.id}:${field}`;
+    if (drafts[key] === undefined) return;
+    const value = Number(drafts[key]);
+    setDrafts(({ [key]: _, ...rest }) => rest);
+    if (!Number.isInteger(value) || value < (field === "duration_days" ? 1 : 0) || value === plan[field]) return;
+
+    const { error } = await supabase.from("subscription_plans").update({ [field]: value }).eq("id", plan.id);
+    if (error) {
+      toast({ title: "Error", description: "Could not update the plan", variant: "destructive" });
+      return;
+    }
+    setPlans((prev) => prev.map((p) => (p.id === plan.id ? { ...p, [field]: value } : p)));
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <CreditCard className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-serif font-bold text-foreground">Subscription Plans</h2>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Limits apply to every user on the plan unless they have their own quota override. New accounts start on the trial.
+      </p>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Plan</TableHead>
+              {FIELDS.map((f) => (
+                <TableHead key={f.field}>{f.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plans.map((plan) => (
+              <TableRow key={plan.id}>
+                <TableCell className="font-medium text-foreground">{plan.name}</TableCell>
+                {FIELDS.map(({ field }) => (
+                  <TableCell key={field}>
+                    <Input
+                      type="number"
+                      min={field === "duration_days" ? 1 : 0}
+                      value={drafts[`${plan.id}:${field}`] ?? plan[field]}
+                      onChange={(e) => setDrafts((prev) => ({ ...prev, [`${plan.id}:${field}`]: e.target.value }))}
+                      onBlur={() => savePlan(plan, field)}
+                      onKeyDown={(e) => e.key === "Enter" && savePlan(plan, field)}
+                      className="w-24 h-8 bg-input border-border text-foreground"
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default SubscriptionPlansManager;
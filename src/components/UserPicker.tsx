@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown, Loader2 } from "lucide-react";
+import { USER_SEARCH_DELAY_MS } from "@/lib/user-admin";
+import { cn } from "@/lib/utils";
+
+interface UserPickerProps {
+  /** The chosen user's id, or `allValue` for no user filter */
+  value: string;
+  allValue: string;
+  allLabel: string;
+  onChange: (userId: string) => void;
+  className?: string;
+}
+
+type FoundUser = { user_id: string; name: string; username: string };
+
+const findUsers = (search: string) => supabase.rpc("admin_find_users", { _search: search, _limit: 10 });
+
+const userLabel = (u: FoundUser) => u.name || u.username;
+
+/** Picks one account for a filter, searching by name or username in the database as the admin types. */
+const UserPicker = ({ value, allValue, allLabel, onChange, className }: UserPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<FoundUser[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [chosen, setChosen] = useState<FoundUser | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const { data, error } = await findUsers(search.trim());
+      if (cancelled) return;
+      if (error) console.error("User search failed:", error.message);
+      setResults(data ?? []);
+      setSearching(false);
+    }, USER_SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, search]);
+
+  const pick = (user: FoundUser | null) => {
+    setChosen(user);
+    onChange(user?.user_id ?? allValue);
+    setOpen(false);
+  };
+
+  const label = value === allValue ? allLabel : chosen?.user_id === value ? userLabel(chosen) : `${value.slice(0, 8)}…`;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className={cn("w-[200px] justify-between bg-input border-border text-foreground font-normal", className)}>
+          <span className="truncate">{label}</span>
+          <ChevronsUpDown className="w-4 h-4 ml-2 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[260px] p-0 bg-card border-border" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput value={search} onValueChange={setSearch} placeholder="Search name or email…" />
+          <CommandList>
+            <CommandGroup>
+              <CommandItem value={allValue} onSelect={() => pick(null)}>
+                <Check className={cn("w-4 h-4 mr-2", value === allValue ? "opacity-100" : "opacity-0")} />
+                {allLabel}
+              </CommandItem>
+              {results.map((u) => (
+                <CommandItem key={u.user_id} value={u.user_id} onSelect={() => pick(u)}>
+                  <Check className={cn("w-4 h-4 mr-2", value === u.user_id ? "opacity-100" : "opacity-0")} />
+                  <div className="min-w-0">
+                    <div className="truncate">{userLabel(u)}</div>
+                    {u.name && <div className="truncate text-xs text-muted-foreground">{u.username}</div>}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {searching && results.length === 0 && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {!searching && results.length === 0 && <div className="py-4 text-center text-sm text-muted-foreground">No users found.</div>}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default UserPicker;
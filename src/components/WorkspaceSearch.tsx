@@ -0,0 +1,116 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Loader2, Search, X } from "lucide-react";
+import {
+  MIN_QUERY_LENGTH,
+  RESULT_KIND_LABELS,
+  snippetSegments,
+  type SearchResult,
+  type SearchResultKind,
+} from "@/lib/search";
+
+interface WorkspaceSearchProps {
+  onSelect: (result: SearchResult) => void;
+  /** Shown while there is no query, i.e. the normal case list */
+  children: ReactNode;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+const searchWorkspace = (query: string) => supabase.rpc("search_workspace", { _query: query, _limit: 40 });
+
+const WorkspaceSearch = ({ onSelect, children }: WorkspaceSearchProps) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  const trimmed = query.trim();
+  const active = trimmed.length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const { data, error } = await searchWorkspace(trimmed);
+      if (cancelled) return;
+      if (error) console.error("Search failed:", error.message);
+      setResults(data ?? []);
+      setSearching(false);
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed]);
+
+  return (
+    <>
+      <div className="px-4 pt-3">
+        <div className="relative">
+          <Search className="w-3.5 h-3.5 text-muted-foreground absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setQuery("")}
+            placeholder="Search cases, chats, analyses…"
+            className="h-8 pl-8 pr-8 text-xs bg-input border-border text-foreground placeholder:text-muted-foreground"
+          />
+          {query && (
+            <button
+              onClick={() => setQuery("")}
+              className="absolute right-2.5 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              title="Clear search"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!active ? (
+        children
+      ) : (
+        <div className="flex-1 overflow-y-auto px-2 py-2 space-y-1">
+          {searching && !results && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-4 h-4 animate-spin text-primary" />
+            </div>
+          )}
+          {results?.length === 0 && !searching && (
+            <p className="text-center text-muted-foreground text-xs py-8">No matches for "{trimmed}"</p>
+          )}
+          {results?.map((r) => (
+            <button
+              key={`${r.kind}-${r.message_id ?? r.case_id}`}
+              onClick={() => onSelect(r)}
+              className="w-full text-left rounded-lg px-3 py-2 hover:bg-secondary/50 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-foreground truncate flex-1">{r.title}</span>
+                <span className="text-[10px] uppercase tracking-wide text-muted-foreground shrink-0">
+                  {RESULT_KIND_LABELS[r.kind as SearchResultKind] ?? r.kind}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-0.5 line-clamp-3 break-words">
+                {snippetSegments(r.snippet).map((segment, i) =>
+                  segment.match ? (
+                    <mark key={i} className="bg-primary/25 text-foreground rounded-sm px-0.5">{segment.text}</mark>
+                  ) : (
+                    <span key={i}>{segment.text}</span>
+                  ),
+                )}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default WorkspaceSearch;
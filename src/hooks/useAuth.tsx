@@ -1,6 +1,8 @@
 import { createContext, useContext, useEffect, useState, useRef, type ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { User, Session } from "@supabase/supabase-js";
+import type { FirmMembership } from "@/lib/firms";
+import type { UserSubscription } from "@/lib/subscriptions";
 
 interface Profile {
   name: string;
@@ -8,13 +10,18 @@ interface Profile {
   phone: string | null;
   access_enabled: boolean;
   subscription_active: boolean;
+  preferred_language: string;
 }
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   profile: Profile | null;
+  /** The user's plan and its dates; accounts created before plans existed may have none */
+  subscription: UserSubscription | null;
   isAdmin: boolean;
+  /** The user's firm and their role in it, if they belong to one */
+  firm: FirmMembership | null;
   loading: boolean;
   signUp: (email: string, password: string, name: string, phone: string) => Promise<string | null>;
   signIn: (email: string, password: string) => Promise<{ error: string | null; isAdmin: boolean }>;
@@ -29,17 +36,32 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [subscription, setSubscription] = useState<UserSubscription | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [firm, setFirm] = useState<FirmMembership | null>(null);
   const [loading, setLoading] = useState(true);
   const initializedRef = useRef(false);
 
   const fetchProfile = async (userId: string) => {
+    const [{ data }, { data: sub }] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select("name, username, phone, access_enabled, subscription_active, preferred_language")
+        .eq("user_id", userId)
+        .maybeSingle(),
+      supabase.from("user_subscriptions").select("plan_id, starts_on, ends_on, plan:subscription_plans(name)").eq("user_id", userId).maybeSingle(),
+    ]);
+    setProfile(data);
+    setSubscription(sub);
+  };
+
+  const fetchFirm = async (userId: string) => {
     const { data } = await supabase
-      .from("profiles")
-      .select("name, username, phone, access_enabled, subscription_active")
+      .from("firm_members")
+      .select("role, firm:firms(id, name, case_visibility)")
       .eq("user_id", userId)
       .maybeSingle();
-    setProfile(data);
+    setFirm(data?.firm ? (data as FirmMembership) : null);
   };
 
   const fetchRole = async (userId: string) => {
@@ -56,6 +78,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     if (user) {
       await fetchProfile(user.id);
       await fetchRole(user.id);
+      await fetchFirm(user.id);
     }
   };
 
@@ -70,11 +93,14 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         setTimeout(async () => {
           await fetchProfile(sess.user.id);
           await fetchRole(sess.user.id);
+          await fetchFirm(sess.user.id);
           setLoading(false);
         }, 0);
       } else {
         setProfile(null);
+        setSubscription(null);
         setIsAdmin(false);
+        setFirm(null);
         setLoading(false);
       }
     });
@@ -155,11 +181,13 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setUser(null);
     setSession(null);
     setProfile(null);
+    setSubscription(null);
     setIsAdmin(false);
+    setFirm(null);
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, profile, isAdmin, loading, signUp, signIn, verifyOtp, signOut, refreshProfile }}>
+    <AuthContext.Provider value={{ user, session, profile, subscription, isAdmin, firm, loading, signUp, signIn, verifyOtp, signOut, refreshProfile }}>
       {children}
     </AuthContext.Provider>
   );
@@ -14,56 +14,653 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_deletions: {
+        Row: {
+          pending_files: string[]
+          previous_access: boolean
+          purge_after: string
+          purged_at: string | null
+          requested_at: string
+          requested_by: string | null
+          user_id: string
+        }
+        Insert: {
+          pending_files?: string[]
+          previous_access?: boolean
+          purge_after: string
+          purged_at?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          user_id: string
+        }
+        Update: {
+          pending_files?: string[]
+          previous_access?: boolean
+          purge_after?: string
+          purged_at?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_role: string
+          after: Json | null
+          before: Json | null
+          hash: string
+          id: number
+          occurred_at: string
+          prev_hash: string
+          target_id: string | null
+          target_table: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_role: string
+          after?: Json | null
+          before?: Json | null
+          hash: string
+          id?: number
+          occurred_at?: string
+          prev_hash: string
+          target_id?: string | null
+          target_table: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_role?: string
+          after?: Json | null
+          before?: Json | null
+          hash?: string
+          id?: number
+          occurred_at?: string
+          prev_hash?: string
+          target_id?: string | null
+          target_table?: string
+          target_user_id?: string | null
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          completion_tokens: number | null
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          kind: string
+          model: string | null
+          prompt_tokens: number | null
+          request_type: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number | null
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          kind: string
+          model?: string | null
+          prompt_tokens?: number | null
+          request_type?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number | null
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          kind?: string
+          model?: string | null
+          prompt_tokens?: number | null
+          request_type?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      analysis_versions: {
+        Row: {
+          analysis_data: Json
+          case_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          input_prompt: string
+          model: string | null
+          version: number
+        }
+        Insert: {
+          analysis_data: Json
+          case_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          input_prompt: string
+          model?: string | null
+          version?: number
+        }
+        Update: {
+          analysis_data?: Json
+          case_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          input_prompt?: string
+          model?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_versions_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_deadlines: {
+        Row: {
+          case_id: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          due_date: string
+          id: string
+          kind: string
+          notes: string | null
+          order_date: string | null
+          proceeding: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          case_id: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_date: string
+          id?: string
+          kind?: string
+          notes?: string | null
+          order_date?: string | null
+          proceeding?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          case_id?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_date?: string
+          id?: string
+          kind?: string
+          notes?: string | null
+          order_date?: string | null
+          proceeding?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_deadlines_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_documents: {
+        Row: {
+          case_id: string
+          created_at: string
+          doc_type: string
+          extracted_text: string | null
+          extraction_error: string | null
+          extraction_status: string
+          file_name: string
+          id: string
+          mime_type: string | null
+          size_bytes: number
+          storage_path: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          doc_type?: string
+          extracted_text?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
+          file_name: string
+          id?: string
+          mime_type?: string | null
+          size_bytes?: number
+          storage_path: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          doc_type?: string
+          extracted_text?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
+          file_name?: string
+          id?: string
+          mime_type?: string | null
+          size_bytes?: number
+          storage_path?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_documents_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_documents_drafts: {
+        Row: {
+          analysis_version_id: string | null
+          case_id: string
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          language: string | null
+          restored_from: number | null
+          revision: number
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          analysis_version_id?: string | null
+          case_id: string
+          content: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          language?: string | null
+          restored_from?: number | null
+          revision?: number
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          analysis_version_id?: string | null
+          case_id?: string
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          language?: string | null
+          restored_from?: number | null
+          revision?: number
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_documents_drafts_analysis_version_id_fkey"
+            columns: ["analysis_version_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "case_documents_drafts_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_members: {
+        Row: {
+          case_id: string
+          created_at: string
+          id: string
+          invited_by: string | null
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_members_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_status_history: {
+        Row: {
+          case_id: string
+          changed_at: string
+          changed_by: string | null
+          from_status: string | null
+          id: string
+          to_status: string
+        }
+        Insert: {
+          case_id: string
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: string | null
+          id?: string
+          to_status: string
+        }
+        Update: {
+          case_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: string | null
+          id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_status_history_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cases: {
         Row: {
           analysis_data: Json | null
+          category: string | null
+          client_name: string | null
+          court: string | null
           created_at: string
+          description: string | null
           id: string
+          intake: Json | null
+          language: string | null
+          next_hearing_date: string | null
+          offence: string | null
+          search: unknown
+          status: string
+          tags: string[]
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
           analysis_data?: Json | null
+          category?: string | null
+          client_name?: string | null
+          court?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          intake?: Json | null
+          language?: string | null
+          next_hearing_date?: string | null
+          offence?: string | null
+          status?: string
+          tags?: string[]
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          analysis_data?: Json | null
+          category?: string | null
+          client_name?: string | null
+          court?: string | null
           created_at?: string
+          description?: string | null
           id?: string
+          intake?: Json | null
+          language?: string | null
+          next_hearing_date?: string | null
+          offence?: string | null
+          status?: string
+          tags?: string[]
           title?: string
           updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      court_holidays: {
+        Row: {
+          created_at: string
+          holiday_date: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          holiday_date: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          holiday_date?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      firm_invitations: {
+        Row: {
+          created_at: string
+          firm_id: string
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+          username: string
+        }
+        Insert: {
+          created_at?: string
+          firm_id: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id: string
+          username: string
+        }
+        Update: {
+          created_at?: string
+          firm_id?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_invitations_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firm_members: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          firm_id: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          firm_id: string
+          id?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          firm_id?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_members_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firms: {
+        Row: {
+          case_visibility: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          case_visibility?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          case_visibility?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      general_messages: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          role: string
+          search: unknown
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          role: string
           user_id: string
         }
         Update: {
-          analysis_data?: Json | null
+          content?: string
           created_at?: string
           id?: string
-          title?: string
-          updated_at?: string
+          role?: string
           user_id?: string
         }
         Relationships: []
       }
-      general_messages: {
+      generated_documents: {
         Row: {
+          case_id: string
           content: string
           created_at: string
+          created_by: string | null
+          doc_type: string
+          fields: Json
           id: string
-          role: string
-          user_id: string
+          model: string | null
+          title: string
+          updated_at: string
         }
         Insert: {
+          case_id: string
           content: string
           created_at?: string
+          created_by?: string | null
+          doc_type: string
+          fields?: Json
           id?: string
-          role: string
-          user_id: string
+          model?: string | null
+          title: string
+          updated_at?: string
         }
         Update: {
+          case_id?: string
           content?: string
           created_at?: string
+          created_by?: string | null
+          doc_type?: string
+          fields?: Json
           id?: string
-          role?: string
-          user_id?: string
+          model?: string | null
+          title?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "generated_documents_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       messages: {
         Row: {
@@ -72,6 +669,7 @@ export type Database = {
           created_at: string
           id: string
           role: string
+          search: unknown
         }
         Insert: {
           case_id: string
@@ -104,6 +702,7 @@ export type Database = {
           id: string
           name: string
           phone: string | null
+          preferred_language: string
           subscription_active: boolean
           user_id: string
           username: string
@@ -114,6 +713,7 @@ export type Database = {
           id?: string
           name: string
           phone?: string | null
+          preferred_language?: string
           subscription_active?: boolean
           user_id: string
           username: string
@@ -124,12 +724,130 @@ export type Database = {
           id?: string
           name?: string
           phone?: string | null
+          preferred_language?: string
           subscription_active?: boolean
           user_id?: string
           username?: string
         }
         Relationships: []
       }
+      section_concordance: {
+        Row: {
+          change_notes: string
+          created_at: string
+          id: string
+          new_act: string | null
+          new_base: string | null
+          new_section: string | null
+          old_act: string
+          old_base: string
+          old_section: string
+          subject: string
+        }
+        Insert: {
+          change_notes?: string
+          created_at?: string
+          id?: string
+          new_act?: string | null
+          new_section?: string | null
+          old_act: string
+          old_section: string
+          subject: string
+        }
+        Update: {
+          change_notes?: string
+          created_at?: string
+          id?: string
+          new_act?: string | null
+          new_section?: string | null
+          old_act?: string
+          old_section?: string
+          subject?: string
+        }
+        Relationships: []
+      }
+      statutes: {
+        Row: {
+          act: string
+          content: string
+          created_at: string
+          id: string
+          search: unknown
+          section: string
+          title: string
+        }
+        Insert: {
+          act: string
+          content: string
+          created_at?: string
+          id?: string
+          section: string
+          title: string
+        }
+        Update: {
+          act?: string
+          content?: string
+          created_at?: string
+          id?: string
+          section?: string
+          title?: string
+        }
+        Relationships: []
+      }
+      subscription_plans: {
+        Row: {
+          daily_analysis_limit: number
+          daily_chat_limit: number
+          daily_upload_limit: number
+          duration_days: number
+          id: string
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          daily_analysis_limit: number
+          daily_chat_limit: number
+          daily_upload_limit: number
+          duration_days: number
+          id: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          daily_analysis_limit?: number
+          daily_chat_limit?: number
+          daily_upload_limit?: number
+          duration_days?: number
+          id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_quotas: {
+        Row: {
+          daily_analysis_limit: number | null
+          daily_chat_limit: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          daily_analysis_limit?: number | null
+          daily_chat_limit?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          daily_analysis_limit?: number | null
+          daily_chat_limit?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           id: string
@@ -148,11 +866,219 @@ export type Database = {
         }
         Relationships: []
       }
+      user_subscriptions: {
+        Row: {
+          created_at: string
+          ends_on: string
+          plan_id: string
+          starts_on: string
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ends_on: string
+          plan_id: string
+          starts_on?: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string
+          plan_id?: string
+          starts_on?: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_subscriptions_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      admin_activity_daily: {
+        Row: {
+          analyses: number | null
+          chat_messages: number | null
+          day: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      admin_ai_usage_daily: {
+        Row: {
+          completion_tokens: number | null
+          day: string | null
+          errors: number | null
+          kind: string | null
+          pending: number | null
+          prompt_tokens: number | null
+          request_type: string | null
+          requests: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      admin_case_categories_daily: {
+        Row: {
+          cases: number | null
+          category: string | null
+          day: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      admin_case_offences_daily: {
+        Row: {
+          cases: number | null
+          day: string | null
+          offence: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_firm_invitation: {
+        Args: {
+          _invitation_id: string
+        }
+        Returns: {
+          added_by: string | null
+          created_at: string
+          firm_id: string
+          id: string
+          role: string
+          user_id: string
+        }
+      }
+      account_document_paths: {
+        Args: {
+          _user: string
+        }
+        Returns: string[]
+      }
+      add_firm_member: {
+        Args: {
+          _firm_id: string
+          _role: string
+          _username: string
+        }
+        Returns: {
+          added_by: string | null
+          created_at: string
+          firm_id: string
+          id: string
+          role: string
+          user_id: string
+        }
+      }
+      admin_find_users: {
+        Args: {
+          _limit?: number
+          _search: string
+        }
+        Returns: {
+          name: string
+          user_id: string
+          username: string
+        }[]
+      }
+      admin_list_users: {
+        Args: {
+          _ascending?: boolean
+          _limit?: number
+          _offset?: number
+          _search?: string
+          _sort?: string
+        }
+        Returns: {
+          access_enabled: boolean
+          created_at: string
+          firm_name: string | null
+          name: string
+          phone: string | null
+          subscription_active: boolean
+          total_count: number
+          user_id: string
+          username: string
+        }[]
+      }
+      admin_login_history: {
+        Args: {
+          _limit?: number
+          _user: string
+        }
+        Returns: {
+          action: string
+          ip_address: string | null
+          occurred_at: string
+          provider: string | null
+        }[]
+      }
+      admin_user_overview: {
+        Args: {
+          _user: string
+        }
+        Returns: {
+          analyses_today: number
+          analysis_limit: number | null
+          case_count: number
+          chat_limit: number | null
+          chats_today: number
+          document_count: number
+          last_activity_at: string | null
+          last_sign_in_at: string | null
+          shared_case_count: number
+          upload_limit: number | null
+          uploads_today: number
+        }[]
+      }
+      audit_actor_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      audit_entry_hash: {
+        Args: {
+          entry: Database["public"]["Tables"]["admin_audit_log"]["Row"]
+        }
+        Returns: string
+      }
+      delete_user_account: {
+        Args: {
+          _actor: string
+          _user: string
+        }
+        Returns: string[]
+      }
+      expire_subscriptions: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      firm_of: {
+        Args: {
+          _user_id: string
+        }
+        Returns: string
+      }
+      has_case_role: {
+        Args: {
+          _case_id: string
+          _role: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -160,6 +1086,151 @@ export type Database = {
         }
         Returns: boolean
       }
+      invite_case_member: {
+        Args: {
+          _case_id: string
+          _role: string
+          _username: string
+        }
+        Returns: {
+          case_id: string
+          created_at: string
+          id: string
+          invited_by: string | null
+          role: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      invite_firm_member: {
+        Args: {
+          _firm_id: string
+          _role: string
+          _username: string
+        }
+        Returns: {
+          created_at: string
+          firm_id: string
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+          username: string
+        }
+      }
+      is_firm_admin: {
+        Args: {
+          _firm_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      list_case_members: {
+        Args: {
+          _case_id: string
+        }
+        Returns: {
+          created_at: string
+          name: string | null
+          role: string
+          user_id: string
+          username: string | null
+        }[]
+      }
+      lookup_concordance: {
+        Args: {
+          _refs: string[]
+        }
+        Returns: {
+          change_notes: string
+          new_act: string | null
+          new_section: string | null
+          old_act: string
+          old_section: string
+          subject: string
+        }[]
+      }
+      manages_user: {
+        Args: {
+          _manager: string
+          _user: string
+        }
+        Returns: boolean
+      }
+      purge_deleted_accounts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      record_admin_action: {
+        Args: {
+          _action: string
+          _actor: string
+          _after?: Json
+          _before?: Json
+          _target_id: string
+          _target_table: string
+          _target_user: string
+        }
+        Returns: number
+      }
+      record_ai_usage: {
+        Args: {
+          _kind: string
+          _limit: number
+          _user_id: string
+        }
+        Returns: string
+      }
+      restore_user_account: {
+        Args: {
+          _actor: string
+          _user: string
+        }
+        Returns: undefined
+      }
+      schedule_user_deletion: {
+        Args: {
+          _actor: string
+          _grace_days: number
+          _user: string
+        }
+        Returns: string
+      }
+      search_statutes: {
+        Args: {
+          _limit?: number
+          _query: string
+        }
+        Returns: {
+          act: string
+          content: string
+          rank: number
+          section: string
+          title: string
+        }[]
+      }
+      search_workspace: {
+        Args: {
+          _limit?: number
+          _query: string
+        }
+        Returns: {
+          case_id: string | null
+          created_at: string
+          kind: string
+          message_id: string | null
+          rank: number
+          snippet: string
+          title: string
+        }[]
+      }
+      verify_admin_audit_log: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          checked: number
+          first_invalid_id: number
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
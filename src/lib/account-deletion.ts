@@ -0,0 +1,30 @@
+// Account deletion through the delete-user function, mirroring public.account_deletions: an admin
+// either deletes an account outright or schedules it, disabling the account until purge_after, when
+// the nightly job deletes it unless it has been restored.
+
+/** Days a scheduled deletion waits before the account is purged. */
+export const DELETION_GRACE_DAYS = 30;
+
+export type DeletionMode = "schedule" | "now";
+
+export interface PendingDeletion {
+  user_id: string;
+  requested_at: string;
+  purge_after: string;
+}
+
+/** Whole days until a scheduled account is purged; 0 once it is due. */
+export const daysUntilPurge = (pending: Pick<PendingDeletion, "purge_after">, now = new Date()) =>
+  Math.max(0, Math.ceil((Date.parse(pending.purge_after) - now.getTime()) / 86_400_000));
+
+/** `<username or id>-<yyyy-mm-dd>.json`, safe as a download name. */
+export const archiveFileName = (username: string | null | undefined, userId: string, exportedAt = new Date()) => {
+  const base = (username ?? "").replace(/[^a-z0-9._-]+/gi, "-").replace(/^-+|-+$/g, "");
+  return `${base || userId}-${exportedAt.toISOString().slice(0, 10)}.json`;
+};
+
+/** What the chosen deletion will do, for the delete dialog. */
+export const deletionSummary = (mode: DeletionMode, name: string) =>
+  mode === "schedule"
+    ? `${name} will lose access now and be deleted with all their data after ${DELETION_GRACE_DAYS} days. You can restore the account until then.`
+    : `${name} and all their cases, messages, analyses and uploads will be permanently deleted now. This cannot be undone. Files they added to other people's cases stay with those cases.`;
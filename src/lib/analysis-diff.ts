@@ -0,0 +1,118 @@
+import { ANALYSIS_FIELDS, validateAnalysisField, type AnalysisData, type AnalysisField } from "../../supabase/functions/_shared/analysis.ts";
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface ListDiffEntry<T> {
+  key: string;
+  status: DiffStatus;
+  before?: T;
+  after?: T;
+}
+
+export interface LineDiffEntry {
+  status: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/**
+ * Matches entries of two lists by a key (e.g. section or case name) and classifies each as
+ * added, removed, changed or unchanged. Order follows `after`, with removed entries appended.
+ */
+export function diffLists<T>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string,
+  same: (a: T, b: T) => boolean,
+): ListDiffEntry<T>[] {
+  const previous = new Map(before.map((item) => [normalizeKey(keyOf(item)), item]));
+  const result: ListDiffEntry<T>[] = [];
+
+  for (const item of after) {
+    const key = normalizeKey(keyOf(item));
+    const old = previous.get(key);
+    if (!old) {
+      result.push({ key, status: "added", after: item });
+    } else {
+      result.push({ key, status: same(old, item) ? "unchanged" : "changed", before: old, after: item });
+      previous.delete(key);
+    }
+  }
+  for (const [key, item] of previous) result.push({ key, status: "removed", before: item });
+
+  return result;
+}
+
+// Longest-common-subsequence diff of two token sequences
+function diffSequences(a: string[], b: string[]): LineDiffEntry[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: LineDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ status: "unchanged", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ status: "removed", text: a[i++] });
+    } else {
+      result.push({ status: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ status: "removed", text: a[i++] });
+  while (j < b.length) result.push({ status: "added", text: b[j++] });
+
+  return result;
+}
+
+/** Line-level diff based on the longest common subsequence, as used for the court document. */
+export function diffLines(before: string, after: string): LineDiffEntry[] {
+  return diffSequences(before.split("\n"), after.split("\n"));
+}
+
+/**
+ * Word-level diff for tracked suggestions. Whitespace is kept as its own token so the entries
+ * concatenate back to the original texts; adjacent entries of the same status are merged.
+ */
+export function diffWords(before: string, after: string): LineDiffEntry[] {
+  const tokens = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  const merged: LineDiffEntry[] = [];
+  for (const entry of diffSequences(tokens(before), tokens(after))) {
+    const last = merged[merged.length - 1];
+    if (last && last.status === entry.status) last.text += entry.text;
+    else merged.push({ ...entry });
+  }
+  return merged;
+}
+
+const EMPTY_ANALYSIS: AnalysisData = { legalSections: [], punishmentRange: "", presentationStrategy: "", casePrecedents: [], courtDocument: "" };
+
+/**
+ * Fits a stored analysis to the AnalysisData shape, using the schema check of the analyze-case
+ * function. Versions backfilled from analyses saved before validation may lack fields or hold
+ * malformed ones; missing or malformed fields come back empty and malformed list entries are dropped.
+ */
+export const normalizeAnalysis = (value: unknown): AnalysisData => {
+  const source = value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  const data: Record<AnalysisField, unknown> = { ...EMPTY_ANALYSIS };
+  for (const field of ANALYSIS_FIELDS) {
+    const result = validateAnalysisField(field, source[field]);
+    if (result.ok) data[field] = result.value;
+    else if (Array.isArray(source[field])) {
+      data[field] = (source[field] as unknown[]).flatMap((item) => {
+        const entry = validateAnalysisField(field, [item]);
+        return entry.ok ? (entry.value as unknown[]) : [];
+      });
+    }
+  }
+  return data as AnalysisData;
+};
@@ -0,0 +1,125 @@
+// Admin analytics, built from the admin_* daily views: each view row is one IST day and user, so the
+// dashboard filters by date range and user in the query and sums the rows here.
+import { addDays } from "@/lib/limitation";
+
+export interface UsageDayRow {
+  day: string | null;
+  user_id: string | null;
+  request_type: string | null;
+  requests: number | null;
+  errors: number | null;
+  pending: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+}
+
+export interface ActivityDayRow {
+  day: string | null;
+  user_id: string | null;
+  analyses: number | null;
+  chat_messages: number | null;
+}
+
+export interface DailyPoint {
+  /** ISO date (yyyy-mm-dd) */
+  day: string;
+  analyses: number;
+  chatMessages: number;
+  activeUsers: number;
+  requests: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export const RANGE_PRESETS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+/** Labels for ai_usage.request_type; requests metered before it was recorded have none. */
+export const REQUEST_TYPE_LABELS: Record<string, string> = {
+  analyze: "Analysis",
+  chat: "Chat",
+  rewrite: "Rewrite",
+  document: "Document",
+  translate: "Translation",
+};
+
+/** Today as an IST calendar date, matching the views' `day` column. */
+export const istToday = (now = new Date()) => new Date(now.getTime() + 330 * 60 * 1000).toISOString().slice(0, 10);
+
+/** The inclusive range of `days` days ending on `to`. */
+export const rangeEnding = (to: string, days: number) => ({ from: addDays(to, -(days - 1)), to });
+
+/** One point per day from `from` to `to`, with zeros for days without activity. */
+export const dailySeries = (from: string, to: string, usage: UsageDayRow[], activity: ActivityDayRow[]): DailyPoint[] => {
+  const points = new Map<string, DailyPoint>();
+  const users = new Map<string, Set<string>>();
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    points.set(day, { day, analyses: 0, chatMessages: 0, activeUsers: 0, requests: 0, errors: 0, promptTokens: 0, completionTokens: 0 });
+    users.set(day, new Set());
+  }
+
+  for (const row of usage) {
+    const point = row.day ? points.get(row.day) : undefined;
+    if (!point) continue;
+    point.requests += row.requests ?? 0;
+    point.errors += row.errors ?? 0;
+    point.promptTokens += row.prompt_tokens ?? 0;
+    point.completionTokens += row.completion_tokens ?? 0;
+    if (row.user_id) users.get(point.day)!.add(row.user_id);
+  }
+  for (const row of activity) {
+    const point = row.day ? points.get(row.day) : undefined;
+    if (!point) continue;
+    point.analyses += row.analyses ?? 0;
+    point.chatMessages += row.chat_messages ?? 0;
+    if (row.user_id) users.get(point.day)!.add(row.user_id);
+  }
+
+  return [...points.values()].map((p) => ({ ...p, activeUsers: users.get(p.day)!.size }));
+};
+
+/** Users with any AI request or activity in the rows, counted once however many days they were active. */
+export const distinctUsers = (...rows: { user_id: string | null }[][]) =>
+  new Set(rows.flat().map((r) => r.user_id).filter(Boolean)).size;
+
+/** Errors as a share of finished requests; pending requests are left out. */
+export const errorRate = (rows: UsageDayRow[]) => {
+  const finished = rows.reduce((sum, r) => sum + (r.requests ?? 0) - (r.pending ?? 0), 0);
+  const errors = rows.reduce((sum, r) => sum + (r.errors ?? 0), 0);
+  return finished > 0 ? errors / finished : 0;
+};
+
+/** Requests, errors and tokens per request type, largest first. */
+export const usageByRequestType = (rows: UsageDayRow[]) => {
+  const totals = new Map<string, { type: string; label: string; requests: number; errors: number; tokens: number }>();
+  for (const row of rows) {
+    const type = row.request_type ?? "unrecorded";
+    const entry = totals.get(type) ?? { type, label: REQUEST_TYPE_LABELS[type] ?? "Unrecorded", requests: 0, errors: 0, tokens: 0 };
+    entry.requests += row.requests ?? 0;
+    entry.errors += row.errors ?? 0;
+    entry.tokens += (row.prompt_tokens ?? 0) + (row.completion_tokens ?? 0);
+    totals.set(type, entry);
+  }
+  return [...totals.values()].sort((a, b) => b.requests - a.requests);
+};
+
+/** The `limit` most frequent values of `key`, summing `cases`; empty values count as "Unspecified". */
+export const topCounts = <K extends string>(rows: ({ cases: number | null } & Record<K, string | null>)[], key: K, limit = 8) => {
+  const totals = new Map<string, number>();
+  for (const row of rows) {
+    const name = row[key]?.trim() || "Unspecified";
+    totals.set(name, (totals.get(name) ?? 0) + (row.cases ?? 0));
+  }
+  return [...totals.entries()]
+    .map(([name, cases]) => ({ name, cases }))
+    .sort((a, b) => b.cases - a.cases || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+/** Compact counts for chart axes and tiles: 950, 12.4k, 3.1M. */
+export const formatCount = (n: number) =>
+  n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 10_000 ? `${Math.round(n / 1000)}k` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
@@ -0,0 +1,124 @@
+// The admin audit log, mirroring public.admin_audit_log: triggers record each change to an
+// admin-managed table as `<table>.<insert|update|delete>` with the row before and after, and the
+// delete-user function records what it does to an account as `user.<action>`.
+import type { Json } from "@/integrations/supabase/types";
+
+export interface AuditEntry {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_role: string;
+  action: string;
+  target_table: string;
+  target_id: string | null;
+  target_user_id: string | null;
+  before: Json | null;
+  after: Json | null;
+  hash: string;
+}
+
+export const AUDIT_COLUMNS = "id, occurred_at, actor_id, actor_role, action, target_table, target_id, target_user_id, before, after, hash";
+
+/** The tables the log covers, as offered in the viewer's filter. */
+export const AUDIT_TABLES: { value: string; label: string }[] = [
+  { value: "profiles", label: "Account access" },
+  { value: "auth.users", label: "Accounts" },
+  { value: "user_roles", label: "Roles" },
+  { value: "user_subscriptions", label: "Subscriptions" },
+  { value: "user_quotas", label: "Quota overrides" },
+  { value: "subscription_plans", label: "Plans" },
+  { value: "firms", label: "Firms" },
+  { value: "firm_members", label: "Firm members" },
+  { value: "court_holidays", label: "Court holidays" },
+];
+
+export const ACTOR_ROLE_LABELS: Record<string, string> = {
+  admin: "Admin",
+  firm_admin: "Firm admin",
+  service: "Service",
+  system: "System",
+  user: "User",
+};
+
+const VERBS: Record<string, string> = { insert: "added", update: "changed", delete: "removed" };
+
+// Account actions of the delete-user function
+const ACCOUNT_ACTIONS: Record<string, string> = {
+  "user.export": "Account data exported",
+  "user.schedule_delete": "Account scheduled for deletion",
+  "user.restore": "Account restored",
+  "user.delete": "Account deleted",
+};
+
+export const actionLabel = (action: string) => {
+  if (ACCOUNT_ACTIONS[action]) return ACCOUNT_ACTIONS[action];
+  const [table, op] = action.split(".");
+  const label = AUDIT_TABLES.find((t) => t.value === table)?.label ?? table;
+  return `${label} ${VERBS[op] ?? op}`;
+};
+
+// Bookkeeping columns that say nothing about what the admin did
+const IGNORED_FIELDS = ["id", "user_id", "created_at", "updated_at"];
+
+const asObject = (value: Json | null): Record<string, Json | undefined> =>
+  value && typeof value === "object" && !Array.isArray(value) ? value : {};
+
+export interface FieldChange {
+  field: string;
+  from: Json | undefined;
+  to: Json | undefined;
+}
+
+/** The fields that differ between before and after; every field, for rows added or removed. */
+export const changedFields = (entry: Pick<AuditEntry, "before" | "after">): FieldChange[] => {
+  const before = asObject(entry.before);
+  const after = asObject(entry.after);
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter((f) => !IGNORED_FIELDS.includes(f));
+  return fields
+    .filter((f) => JSON.stringify(before[f]) !== JSON.stringify(after[f]))
+    .map((field) => ({ field, from: before[field], to: after[field] }));
+};
+
+export const formatValue = (value: Json | undefined) =>
+  value === undefined || value === null ? "—" : typeof value === "string" ? value : JSON.stringify(value);
+
+/** One line per entry for the table and the CSV: `field: from → to`, separated by semicolons. */
+export const describeChanges = (entry: Pick<AuditEntry, "before" | "after">) =>
+  changedFields(entry)
+    .map((c) => (entry.before && entry.after ? `${c.field}: ${formatValue(c.from)} → ${formatValue(c.to)}` : `${c.field}: ${formatValue(c.from ?? c.to)}`))
+    .join("; ");
+
+// Quotes every cell, and defuses values a spreadsheet would run as a formula, including those
+// behind a leading tab or carriage return
+const csvCell = (value: string) => `"${(/^[=+\-@\t\r]/.test(value) ? `'${value}` : value).replace(/"/g, '""')}"`;
+
+/**
+ * The entries as CSV, naming actors through `actorName` and targets through `targetName`, which
+ * the log viewer also uses so deleted accounts keep their name.
+ */
+export const auditCsv = (entries: AuditEntry[], actorName: (userId: string | null) => string, targetName: (entry: AuditEntry) => string) => {
+  const header = ["id", "occurred_at", "actor_id", "actor", "actor_role", "action", "target_table", "target_id", "target_user_id", "target_user", "changes", "before", "after", "hash"];
+  const rows = entries.map((e) => [
+    String(e.id),
+    e.occurred_at,
+    e.actor_id ?? "",
+    actorName(e.actor_id),
+    e.actor_role,
+    e.action,
+    e.target_table,
+    e.target_id ?? "",
+    e.target_user_id ?? "",
+    targetName(e),
+    describeChanges(e),
+    e.before === null ? "" : JSON.stringify(e.before),
+    e.after === null ? "" : JSON.stringify(e.after),
+    e.hash,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+};
+
+/** The start of IST day `from` and of the day after `to`, for filtering occurred_at. */
+export const istDayBounds = (from: string, to: string) => ({
+  from: `${from}T00:00:00+05:30`,
+  before: new Date(Date.parse(`${to}T00:00:00+05:30`) + 86_400_000).toISOString(),
+});
@@ -0,0 +1,71 @@
+// Hearings and deadlines across all cases, for the calendar view and the upcoming list on the dashboard.
+import { addDays } from "@/lib/limitation";
+import type { CaseSummary } from "@/lib/case-metadata";
+
+export type DeadlineKind = "filing" | "limitation" | "compliance" | "other";
+
+export const DEADLINE_KINDS: { value: DeadlineKind; label: string }[] = [
+  { value: "filing", label: "Filing" },
+  { value: "limitation", label: "Limitation" },
+  { value: "compliance", label: "Compliance" },
+  { value: "other", label: "Other" },
+];
+
+export interface CaseDeadline {
+  id: string;
+  case_id: string;
+  title: string;
+  /** ISO date (yyyy-mm-dd) */
+  due_date: string;
+  kind: string;
+  proceeding: string | null;
+  order_date: string | null;
+  notes: string | null;
+  completed_at: string | null;
+}
+
+export const DEADLINE_COLUMNS = "id, case_id, title, due_date, kind, proceeding, order_date, notes, completed_at";
+
+export interface CourtHoliday {
+  id: string;
+  holiday_date: string;
+  name: string;
+}
+
+export interface AgendaEntry {
+  key: string;
+  date: string;
+  type: "hearing" | "deadline";
+  caseId: string;
+  caseTitle: string;
+  /** "Hearing" or the deadline's own title */
+  label: string;
+  deadline?: CaseDeadline;
+}
+
+/** Hearings and open deadlines by date, hearings first on the same day. Cases no longer listed are dropped. */
+export const agendaEntries = (cases: CaseSummary[], deadlines: CaseDeadline[]): AgendaEntry[] => {
+  const titles = new Map(cases.map((c) => [c.id, c.title]));
+  const hearings: AgendaEntry[] = cases
+    .filter((c) => c.next_hearing_date)
+    .map((c) => ({ key: `hearing-${c.id}`, date: c.next_hearing_date!, type: "hearing", caseId: c.id, caseTitle: c.title, label: "Hearing" }));
+  const open: AgendaEntry[] = deadlines
+    .filter((d) => !d.completed_at && titles.has(d.case_id))
+    .map((d) => ({ key: `deadline-${d.id}`, date: d.due_date, type: "deadline", caseId: d.case_id, caseTitle: titles.get(d.case_id)!, label: d.title, deadline: d }));
+  return [...hearings, ...open].sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === "hearing" ? -1 : 1));
+};
+
+/** Entries from `today` up to `days` ahead, plus any deadline already missed. */
+export const upcomingEntries = (entries: AgendaEntry[], today: string, days: number) => {
+  const until = addDays(today, days);
+  return entries.filter((e) => e.date <= until && (e.date >= today || e.type === "deadline"));
+};
+
+/** Calendar days are local midnights; these convert them to and from ISO dates. */
+export const isoToLocalDate = (iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const formatIsoDate = (iso: string, options: Intl.DateTimeFormatOptions = { day: "numeric", month: "short", year: "numeric" }) =>
+  isoToLocalDate(iso).toLocaleDateString(undefined, options);
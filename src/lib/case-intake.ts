@@ -0,0 +1,73 @@
+// Client-side shape of the structured case intake stored in `cases.intake`. The analyze-case function
+// normalises the same shape (supabase/functions/_shared/intake.ts) before building the analysis prompt.
+
+export type CustodyStatus = "not_arrested" | "in_custody" | "on_bail" | "absconding";
+
+// A type alias (not an interface) so it is assignable to the generated Json column type
+export type CaseIntake = {
+  description: string;
+  category: string;
+  offences: string[];
+  parties: { accused: string[]; complainant: string; witnesses: string[] };
+  occurrence: { date: string; place: string };
+  fir: { number: string; policeStation: string };
+  court: { name: string; jurisdiction: string };
+  custodyStatus: CustodyStatus | "";
+};
+
+export const CUSTODY_STATUSES: { value: CustodyStatus; label: string }[] = [
+  { value: "not_arrested", label: "Not arrested" },
+  { value: "in_custody", label: "In custody" },
+  { value: "on_bail", label: "On bail" },
+  { value: "absconding", label: "Absconding" },
+];
+
+export const emptyIntake = (): CaseIntake => ({
+  description: "",
+  category: "",
+  offences: [],
+  parties: { accused: [], complainant: "", witnesses: [] },
+  occurrence: { date: "", place: "" },
+  fir: { number: "", policeStation: "" },
+  court: { name: "", jurisdiction: "" },
+  custodyStatus: "",
+});
+
+interface CaseIntakeRow {
+  intake?: unknown;
+  description: string | null;
+  category: string | null;
+  offence: string | null;
+}
+
+/** Reads the stored intake, falling back to the flat columns for cases saved before `intake` existed. */
+export const intakeFromRow = (row: CaseIntakeRow): CaseIntake => {
+  const base = emptyIntake();
+  if (row.intake && typeof row.intake === "object") {
+    const stored = row.intake as Partial<CaseIntake>;
+    return {
+      ...base,
+      ...stored,
+      parties: { ...base.parties, ...stored.parties },
+      occurrence: { ...base.occurrence, ...stored.occurrence },
+      fir: { ...base.fir, ...stored.fir },
+      court: { ...base.court, ...stored.court },
+    };
+  }
+  return {
+    ...base,
+    description: row.description ?? "",
+    category: row.category ?? "",
+    offences: row.offence ? [row.offence] : [],
+  };
+};
+
+/** The flat `cases` columns kept in sync with the intake for listing and older readers. */
+export const intakeColumns = (intake: CaseIntake) => ({
+  description: intake.description,
+  category: intake.category || null,
+  offence: intake.offences.length ? intake.offences.join("; ") : null,
+});
+
+export const intakeTitle = (intake: CaseIntake) =>
+  `${intake.category || "Case"} - ${intake.offences[0] || "Analysis"}`;
@@ -0,0 +1,130 @@
+// Case metadata shown and filtered in the sidebar: status workflow, client, court, next hearing and tags.
+
+export type CaseStatus = "draft" | "filed" | "hearing" | "reserved" | "disposed";
+
+/** In workflow order; `className` colours the status badge. */
+export const CASE_STATUSES: { value: CaseStatus; label: string; className: string }[] = [
+  { value: "draft", label: "Draft", className: "bg-muted text-muted-foreground" },
+  { value: "filed", label: "Filed", className: "bg-blue-500/15 text-blue-400" },
+  { value: "hearing", label: "Hearing", className: "bg-primary/15 text-primary" },
+  { value: "reserved", label: "Reserved", className: "bg-purple-500/15 text-purple-400" },
+  { value: "disposed", label: "Disposed", className: "bg-green-500/15 text-green-400" },
+];
+
+export const caseStatus = (value: string) => CASE_STATUSES.find((s) => s.value === value) ?? CASE_STATUSES[0];
+
+export interface CaseSummary {
+  id: string;
+  title: string;
+  updated_at: string;
+  status: string;
+  client_name: string | null;
+  court: string | null;
+  /** ISO date (yyyy-mm-dd) */
+  next_hearing_date: string | null;
+  tags: string[];
+}
+
+export const CASE_LIST_COLUMNS = "id, title, updated_at, status, client_name, court, next_hearing_date, tags";
+
+export interface CaseFilters {
+  status: CaseStatus | null;
+  client: string | null;
+  court: string | null;
+  tag: string | null;
+}
+
+export const NO_FILTERS: CaseFilters = { status: null, client: null, court: null, tag: null };
+
+export const activeFilterCount = (filters: CaseFilters) => Object.values(filters).filter(Boolean).length;
+
+export const filterCases = (cases: CaseSummary[], filters: CaseFilters) =>
+  cases.filter(
+    (c) =>
+      (!filters.status || c.status === filters.status) &&
+      (!filters.client || c.client_name === filters.client) &&
+      (!filters.court || c.court === filters.court) &&
+      (!filters.tag || c.tags.includes(filters.tag)),
+  );
+
+/** Sorted distinct non-empty values of a field, for the filter menus. */
+export const distinctValues = (cases: CaseSummary[], field: "client_name" | "court" | "tags") =>
+  [...new Set(cases.flatMap((c) => (field === "tags" ? c.tags : c[field] ? [c[field] as string] : [])))].sort((a, b) =>
+    a.localeCompare(b),
+  );
+
+export type CaseGrouping = "none" | "status" | "client" | "court" | "tag" | "hearing";
+
+export const CASE_GROUPINGS: { value: CaseGrouping; label: string }[] = [
+  { value: "none", label: "No grouping" },
+  { value: "status", label: "Status" },
+  { value: "hearing", label: "Next hearing" },
+  { value: "client", label: "Client" },
+  { value: "court", label: "Court" },
+  { value: "tag", label: "Tag" },
+];
+
+export interface CaseGroup {
+  key: string;
+  label: string;
+  cases: CaseSummary[];
+}
+
+const HEARING_GROUPS = [
+  { key: "overdue", label: "Hearing date passed" },
+  { key: "week", label: "Next 7 days" },
+  { key: "later", label: "Later" },
+  { key: "none", label: "No hearing date" },
+];
+
+const hearingGroup = (date: string | null, today: string) => {
+  if (!date) return "none";
+  if (date < today) return "overdue";
+  const inAWeek = new Date(`${today}T00:00:00Z`);
+  inAWeek.setUTCDate(inAWeek.getUTCDate() + 7);
+  return date <= inAWeek.toISOString().slice(0, 10) ? "week" : "later";
+};
+
+/**
+ * Groups cases for the sidebar, keeping each group in the given (recency) order. Statuses follow the
+ * workflow, hearings run from overdue to later, and a case with several tags appears under each tag.
+ * `today` is an ISO date; empty groups are dropped.
+ */
+export const groupCases = (cases: CaseSummary[], grouping: CaseGrouping, today: string): CaseGroup[] => {
+  if (grouping === "none") return [{ key: "all", label: "", cases }];
+
+  if (grouping === "status") {
+    return CASE_STATUSES.map((s) => ({ key: s.value, label: s.label, cases: cases.filter((c) => caseStatus(c.status).value === s.value) }))
+      .filter((g) => g.cases.length);
+  }
+  if (grouping === "hearing") {
+    return HEARING_GROUPS.map((g) => ({ ...g, cases: cases.filter((c) => hearingGroup(c.next_hearing_date, today) === g.key) }))
+      .map((g) => (g.key === "none" ? g : { ...g, cases: [...g.cases].sort((a, b) => a.next_hearing_date!.localeCompare(b.next_hearing_date!)) }))
+      .filter((g) => g.cases.length);
+  }
+
+  const field = grouping === "client" ? "client_name" : grouping === "court" ? "court" : "tags";
+  const groups: CaseGroup[] = distinctValues(cases, field).map((value) => ({
+    key: value,
+    label: value,
+    cases: cases.filter((c) => (field === "tags" ? c.tags.includes(value) : c[field] === value)),
+  }));
+  const rest = cases.filter((c) => (field === "tags" ? !c.tags.length : !c[field]));
+  const restLabel = grouping === "client" ? "No client" : grouping === "court" ? "No court" : "Untagged";
+  return rest.length ? [...groups, { key: "", label: restLabel, cases: rest }] : groups;
+};
+
+const MAX_TAG_LENGTH = 40;
+
+/** "bail, NDPS,  bail" -> ["bail", "NDPS"]: trimmed, de-duplicated ignoring case, in entry order. */
+export const parseTags = (input: string): string[] => {
+  const seen = new Set<string>();
+  return input
+    .split(",")
+    .map((t) => t.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH))
+    .filter((t) => t && !seen.has(t.toLowerCase()) && seen.add(t.toLowerCase()));
+};
+
+/** Today as an ISO date in the browser's time zone, as hearing dates are entered. */
+export const localToday = (now = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
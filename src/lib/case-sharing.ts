@@ -0,0 +1,60 @@
+// Case sharing roles, mirroring public.has_case_role(): each role includes the ones before it, and
+// the owner holds them all.
+import type { CaseSummary } from "@/lib/case-metadata";
+
+export type MemberRole = "viewer" | "commenter" | "editor";
+export type CaseRole = MemberRole | "owner";
+
+const RANK: CaseRole[] = ["viewer", "commenter", "editor", "owner"];
+
+export const MEMBER_ROLES: { value: MemberRole; label: string; description: string }[] = [
+  { value: "viewer", label: "Viewer", description: "Reads the case, its analysis, chat and documents" },
+  { value: "commenter", label: "Commenter", description: "Can also ask questions in the case chat" },
+  { value: "editor", label: "Editor", description: "Can also re-analyse, upload and draft documents, and edit details" },
+];
+
+export const roleLabel = (role: string) => (role === "owner" ? "Owner" : MEMBER_ROLES.find((r) => r.value === role)?.label ?? role);
+
+/** Whether `role` includes `required`; unknown roles allow nothing. */
+export const roleAllows = (role: string | null | undefined, required: CaseRole) =>
+  RANK.indexOf(role as CaseRole) >= RANK.indexOf(required) && RANK.includes(role as CaseRole);
+
+/** The strongest of several roles, e.g. an explicit share and the firm's visibility. */
+export const strongestRole = (...roles: (CaseRole | null | undefined)[]): CaseRole | null =>
+  roles.reduce<CaseRole | null>((best, role) => (role && RANK.indexOf(role) > RANK.indexOf(best as CaseRole) ? role : best), null);
+
+export interface SharedCase extends CaseSummary {
+  role: MemberRole;
+}
+
+/** Rows of `case_members` joined to their case, as the sidebar loads them. */
+export const sharedCasesFromRows = (rows: { role: string; cases: CaseSummary | null }[]): SharedCase[] =>
+  rows
+    .filter((r) => r.cases)
+    .map((r) => ({ ...r.cases!, role: r.role as MemberRole }))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+/** Messages for the errors raised by invite_case_member(), keyed by SQLSTATE. */
+export const inviteErrorMessage = (error: { code?: string; message: string }) => {
+  if (error.code === "P0002") return "No user has that username";
+  if (error.code === "42501") return "Only the owner can share this case";
+  if (error.code === "22023") return error.message;
+  return "Could not share the case";
+};
+
+/**
+ * Whether `role` may save a case chat message from `author`: commenters save their own questions,
+ * while AI replies are saved only by the owner or an editor, as the messages insert policy requires.
+ */
+export const canSaveCaseMessage = (role: string | null | undefined, author: "user" | "assistant") =>
+  roleAllows(role, author === "user" ? "commenter" : "editor");
+
+/**
+ * Where an upload is stored: under the uploader's own folder, which the case_documents insert policy
+ * requires, as members reach files through the path a row names.
+ */
+export const documentStoragePath = (userId: string, caseId: string, fileName: string, id: string = crypto.randomUUID()) =>
+  `${userId}/${caseId}/${id}-${fileName.replace(/[^\w.-]+/g, "_")}`;
+
+/** Whether `path` lies in `userId`'s folder, mirroring split_part(storage_path, '/', 1) in the policy. */
+export const isOwnStoragePath = (path: string, userId: string) => path.split("/")[0] === userId;
@@ -0,0 +1,124 @@
+// Finds statute citations such as "Section 302 IPC", "Sec. 103(1) BNS" or "Sections 302 and 34 of the
+// Indian Penal Code" in model output, so they can be linked to (and checked against) the statute corpus.
+
+export type ActCode = "IPC" | "BNS" | "CRPC" | "BNSS" | "IEA" | "BSA";
+
+export const ACT_NAMES: Record<ActCode, string> = {
+  IPC: "Indian Penal Code, 1860",
+  BNS: "Bharatiya Nyaya Sanhita, 2023",
+  CRPC: "Code of Criminal Procedure, 1973",
+  BNSS: "Bharatiya Nagarik Suraksha Sanhita, 2023",
+  IEA: "Indian Evidence Act, 1872",
+  BSA: "Bharatiya Sakshya Adhiniyam, 2023",
+};
+
+export interface Citation {
+  act: ActCode;
+  /** Base section as stored in the corpus, e.g. "103" for "103(1)" */
+  section: string;
+  /** Section as written, including any sub-section */
+  reference: string;
+  /** Character range of the linked text */
+  start: number;
+  end: number;
+}
+
+// Longer names first so "BNSS" is not read as "BNS" and "Indian Evidence Act" beats "Evidence Act"
+const ACT_PATTERNS: [ActCode, string][] = [
+  ["BNSS", "BNSS|Bharatiya Nagarik Suraksha Sanhita(?:,? 2023)?"],
+  ["BNS", "BNS|Bharatiya Nyaya Sanhita(?:,? 2023)?"],
+  ["IPC", "IPC|I\\.P\\.C\\.?|Indian Penal Code(?:,? 1860)?"],
+  ["CRPC", "Cr\\.?\\s?P\\.?\\s?C\\.?|Code of Criminal Procedure(?:,? 1973)?"],
+  ["IEA", "IEA|(?:Indian )?Evidence Act(?:,? 1872)?"],
+  ["BSA", "BSA|Bharatiya Sakshya Adhiniyam(?:,? 2023)?"],
+];
+
+const ACT = ACT_PATTERNS.map(([, pattern]) => `(?:${pattern})`).join("|");
+const NUMBER = "\\d+[A-Z]{0,2}(?:\\(\\d+[A-Za-z]?\\))*(?:\\([a-z]{1,3}\\))*";
+const KEYWORD = "(?:Sections?|Secs?\\.?|Ss?\\.|u\\/s\\.?|§§?)";
+const SEPARATOR = "\\s*(?:,|\\/|&|and|or|r\\/w|read with)\\s*";
+
+// "Section 302 IPC", "Sections 302 and 34 of the IPC"
+const SECTION_FIRST = new RegExp(
+  `\\b${KEYWORD}\\s*(${NUMBER}(?:${SEPARATOR}${NUMBER})*)\\s*(?:,\\s*)?(?:of\\s+(?:the\\s+)?)?(${ACT})(?![A-Za-z])`,
+  "gi",
+);
+// "IPC Section 302"
+const ACT_FIRST = new RegExp(`\\b(${ACT})\\s+${KEYWORD}\\s*(${NUMBER}(?:${SEPARATOR}${NUMBER})*)`, "gi");
+const NUMBER_ONLY = new RegExp(NUMBER, "gi");
+
+const actCode = (name: string): ActCode =>
+  ACT_PATTERNS.find(([, pattern]) => new RegExp(`^(?:${pattern})$`, "i").test(name))?.[0] ?? "IPC";
+
+/** Corpus key for a section, shared by lookups and the citation map. */
+export const citationKey = (act: ActCode, section: string) => `${act}:${section}`;
+
+const baseSection = (reference: string) => reference.replace(/\(.*$/, "").toUpperCase();
+
+const collect = (
+  text: string,
+  pattern: RegExp,
+  numbersGroup: number,
+  actGroup: number,
+  into: Citation[],
+) => {
+  for (const match of text.matchAll(pattern)) {
+    const act = actCode(match[actGroup]);
+    const numbers = match[numbersGroup];
+    const numbersOffset = match.index! + match[0].indexOf(numbers);
+    const refs = [...numbers.matchAll(NUMBER_ONLY)];
+
+    // A single section links the whole phrase; a list links each number separately
+    for (const ref of refs) {
+      const whole = refs.length === 1;
+      into.push({
+        act,
+        section: baseSection(ref[0]),
+        reference: ref[0],
+        start: whole ? match.index! : numbersOffset + ref.index!,
+        end: whole ? match.index! + match[0].length : numbersOffset + ref.index! + ref[0].length,
+      });
+    }
+  }
+};
+
+/** All citations in `text`, ordered by position and never overlapping. */
+export const parseCitations = (text: string): Citation[] => {
+  const found: Citation[] = [];
+  collect(text, SECTION_FIRST, 1, 2, found);
+  collect(text, ACT_FIRST, 2, 1, found);
+
+  found.sort((a, b) => a.start - b.start);
+  return found.filter((c, i) => i === 0 || c.start >= found[i - 1].end);
+};
+
+export type TextSegment = string | Citation;
+
+/** Splits plain text into literal strings and citations, for inline rendering. */
+export const splitCitations = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+  for (const citation of parseCitations(text)) {
+    if (citation.start > cursor) segments.push(text.slice(cursor, citation.start));
+    segments.push(citation);
+    cursor = citation.end;
+  }
+  if (cursor < text.length) segments.push(text.slice(cursor));
+  return segments;
+};
+
+export const CITATION_HREF_PREFIX = "#cite:";
+
+/** Rewrites citations in markdown as links (`#cite:ACT:SECTION`) that the renderer turns into citation chips. */
+export const linkCitations = (markdown: string): string => {
+  let result = "";
+  let cursor = 0;
+  for (const citation of parseCitations(markdown)) {
+    // Leave citations that are already link text alone
+    if (markdown[citation.start - 1] === "[") continue;
+    const label = markdown.slice(citation.start, citation.end).replace(/[[\]]/g, "");
+    result += `${markdown.slice(cursor, citation.start)}[${label}](${CITATION_HREF_PREFIX}${citationKey(citation.act, citation.section)})`;
+    cursor = citation.end;
+  }
+  return result + markdown.slice(cursor);
+};
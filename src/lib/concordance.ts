@@ -0,0 +1,97 @@
+// Maps sections of the old codes (IPC, CrPC, Evidence Act) to the Sanhitas that replaced them
+// (BNS, BNSS, BSA) and back, using rows from the lookup_concordance RPC.
+import { citationKey, parseCitations, type ActCode } from "@/lib/citations";
+
+export type ConcordanceEntry = {
+  old_act: string;
+  old_section: string;
+  /** Null when the provision was not carried over */
+  new_act: string | null;
+  new_section: string | null;
+  subject: string;
+  change_notes: string;
+};
+
+export type Counterpart = {
+  /** The equivalent section's act; null when the old section has no equivalent */
+  act: ActCode | null;
+  /** Section as written in the concordance, including any sub-section */
+  section: string | null;
+  subject: string;
+  notes: string;
+};
+
+/** Which code replaced which, for labelling and the lookup panel's act picker. */
+export const SUCCESSOR_ACTS: Record<ActCode, ActCode> = {
+  IPC: "BNS",
+  CRPC: "BNSS",
+  IEA: "BSA",
+  BNS: "IPC",
+  BNSS: "CRPC",
+  BSA: "IEA",
+};
+
+export const isOldAct = (act: ActCode) => act === "IPC" || act === "CRPC" || act === "IEA";
+
+/** Short names used in citations, matching the abbreviations the model is asked to cite with. */
+export const ACT_ABBREVIATIONS: Record<ActCode, string> = {
+  IPC: "IPC",
+  BNS: "BNS",
+  CRPC: "CrPC",
+  BNSS: "BNSS",
+  IEA: "IEA",
+  BSA: "BSA",
+};
+
+/** "Section 103(1) BNS" */
+export const formatReference = (act: ActCode, section: string) => `Section ${section} ${ACT_ABBREVIATIONS[act]}`;
+
+const base = (section: string) => section.replace(/\(.*$/, "").toUpperCase();
+
+/** The equivalents of a section (given as a citation key) on the other side of the concordance. */
+export const counterparts = (entries: ConcordanceEntry[], key: string): Counterpart[] => {
+  const result: Counterpart[] = [];
+  for (const entry of entries) {
+    if (citationKey(entry.old_act as ActCode, base(entry.old_section)) === key) {
+      result.push({
+        act: entry.new_act as ActCode | null,
+        section: entry.new_section,
+        subject: entry.subject,
+        notes: entry.change_notes,
+      });
+    } else if (entry.new_act && citationKey(entry.new_act as ActCode, base(entry.new_section)) === key) {
+      result.push({
+        act: entry.old_act as ActCode,
+        section: entry.old_section,
+        subject: entry.subject,
+        notes: entry.change_notes,
+      });
+    }
+  }
+  return result;
+};
+
+/** Citation key of a counterpart, or null when it has no equivalent section. */
+export const counterpartKey = (counterpart: Counterpart) =>
+  counterpart.act ? citationKey(counterpart.act, base(counterpart.section)) : null;
+
+/**
+ * Equivalents of the sections cited in `text` that the text does not already cite, so a line such as
+ * "Section 302 IPC" can also show "Section 103(1) BNS" without repeating one the model already gave.
+ */
+export const missingCounterparts = (text: string, entries: ConcordanceEntry[]): Counterpart[] => {
+  const citations = parseCitations(text);
+  const cited = new Set(citations.map((c) => citationKey(c.act, c.section)));
+  const seen = new Set<string>();
+  const result: Counterpart[] = [];
+
+  for (const citation of citations) {
+    for (const counterpart of counterparts(entries, citationKey(citation.act, citation.section))) {
+      const key = counterpartKey(counterpart) ?? `none:${citation.act}:${citation.section}`;
+      if (cited.has(key) || seen.has(key)) continue;
+      seen.add(key);
+      result.push(counterpart);
+    }
+  }
+  return result;
+};
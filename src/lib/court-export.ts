@@ -0,0 +1,62 @@
+// Client side of the export-document function: the court templates it offers and the cause-title
+// details it expects (supabase/functions/_shared/court-document.ts), prefilled from the case intake.
+import type { CaseIntake } from "@/lib/case-intake";
+
+export type CourtTemplateId = "high_court" | "district_court";
+export type ExportFormat = "pdf" | "docx";
+
+export const COURT_TEMPLATES: { id: CourtTemplateId; label: string; description: string }[] = [
+  {
+    id: "high_court",
+    label: "High Court",
+    description: "14 pt, 1.5 line spacing, 4 cm binding margin, verified by the deponent",
+  },
+  {
+    id: "district_court",
+    label: "District / Sessions Court",
+    description: "12 pt, double spacing, 3.5 cm binding margin, verified by the petitioner",
+  },
+];
+
+export type ExportDetails = {
+  court: string;
+  jurisdiction: string;
+  caseNumber: string;
+  petitioner: string;
+  petitionerRole: string;
+  respondent: string;
+  respondentRole: string;
+  firNumber: string;
+  policeStation: string;
+  advocateName: string;
+  enrolmentNumber: string;
+  place: string;
+  date: string;
+};
+
+/** Picks the template matching the court named in the intake. */
+export const templateForCourt = (court: string): CourtTemplateId =>
+  /high court/i.test(court) ? "high_court" : "district_court";
+
+/** Cause-title defaults: the accused as petitioner against the State, as in a defence filing. */
+export const exportDetailsFromIntake = (intake: CaseIntake | null | undefined, advocateName = ""): ExportDetails => ({
+  court: intake?.court.name ?? "",
+  jurisdiction: intake?.court.jurisdiction ?? "",
+  caseNumber: "",
+  petitioner: intake?.parties.accused.join(", ") ?? "",
+  petitionerRole: "Petitioner",
+  respondent: intake?.fir.policeStation ? `State, through P.S. ${intake.fir.policeStation}` : "State",
+  respondentRole: "Respondent",
+  firNumber: intake?.fir.number ?? "",
+  policeStation: intake?.fir.policeStation ?? "",
+  advocateName,
+  enrolmentNumber: "",
+  place: intake?.court.jurisdiction || intake?.occurrence.place || "",
+  date: new Date().toLocaleDateString("en-IN", { day: "numeric", month: "long", year: "numeric" }),
+});
+
+/** "State v. Ramesh" -> "state-v-ramesh.pdf" */
+export const exportFileName = (title: string | undefined, format: ExportFormat) => {
+  const slug = (title ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+  return `${slug || "court-document"}.${format}`;
+};
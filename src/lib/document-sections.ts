@@ -0,0 +1,98 @@
+// Splits the markdown court document into the sections the analysis generates (Title, Facts, Legal
+// Provisions, Arguments, Prayer, Conclusion) for editing, and joins the edited sections back.
+
+export type DocumentSectionKey = "title" | "facts" | "provisions" | "arguments" | "prayer" | "conclusion" | "other";
+
+export interface DocumentSection {
+  key: DocumentSectionKey;
+  heading: string;
+  body: string;
+}
+
+export const STANDARD_SECTIONS: { key: Exclude<DocumentSectionKey, "title" | "other">; heading: string; match: RegExp }[] = [
+  { key: "facts", heading: "Facts of the Case", match: /\bfacts?\b/i },
+  { key: "provisions", heading: "Applicable Legal Provisions", match: /\b(provisions?|sections?)\b/i },
+  { key: "arguments", heading: "Arguments", match: /\b(arguments?|grounds?|submissions?)\b/i },
+  { key: "prayer", heading: "Prayer", match: /\b(prayer|relief)\b/i },
+  { key: "conclusion", heading: "Conclusion", match: /\bconclusion\b/i },
+];
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Sections in document order. Text before the first recognised section (usually the `#` court heading)
+ * is the Title section; standard sections missing from the document are appended empty so they can be
+ * filled in, and headings that match no standard section are kept as they are.
+ */
+export const splitDocumentSections = (markdown: string): DocumentSection[] => {
+  const sections: DocumentSection[] = [{ key: "title", heading: "", body: "" }];
+  const lines: string[][] = [[]];
+
+  for (const line of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    const heading = line.match(HEADING);
+    const standard = heading && STANDARD_SECTIONS.find((s) => s.match.test(heading[2]));
+    const isTitleHeading = heading && !standard && sections.length === 1 && !sections[0].heading && !lines[0].some((l) => l.trim());
+
+    if (isTitleHeading) {
+      sections[0].heading = heading[2];
+    } else if (heading && (standard || heading[1].length <= 2)) {
+      sections.push({ key: standard ? standard.key : "other", heading: heading[2], body: "" });
+      lines.push([]);
+    } else {
+      lines[lines.length - 1].push(line);
+    }
+  }
+  sections.forEach((section, i) => (section.body = lines[i].join("\n").trim()));
+
+  for (const standard of STANDARD_SECTIONS) {
+    if (!sections.some((s) => s.key === standard.key)) sections.push({ key: standard.key, heading: standard.heading, body: "" });
+  }
+  return sections;
+};
+
+/** The markdown for the sections; sections left empty are dropped, except the title. */
+export const joinDocumentSections = (sections: DocumentSection[]): string =>
+  sections
+    .filter((s) => s.key === "title" || s.body.trim())
+    .map((s) => {
+      if (s.key === "title") return [s.heading.trim() && `# ${s.heading.trim()}`, s.body.trim()].filter(Boolean).join("\n\n");
+      return `## ${s.heading.trim()}\n\n${s.body.trim()}`;
+    })
+    .filter(Boolean)
+    .join("\n\n");
+
+export type FormatAction = "bold" | "italic" | "bullet" | "numbered";
+
+export interface TextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/** Applies a toolbar action to the selected text of a markdown textarea. */
+export const applyFormat = (value: string, start: number, end: number, action: FormatAction): TextEdit => {
+  if (action === "bold" || action === "italic") {
+    const marker = action === "bold" ? "**" : "*";
+    const selected = value.slice(start, end) || (action === "bold" ? "bold text" : "italic text");
+    return {
+      value: `${value.slice(0, start)}${marker}${selected}${marker}${value.slice(end)}`,
+      selectionStart: start + marker.length,
+      selectionEnd: start + marker.length + selected.length,
+    };
+  }
+
+  // List actions prefix every line touched by the selection
+  const lineStart = start === 0 ? 0 : value.lastIndexOf("\n", start - 1) + 1;
+  const nextBreak = value.indexOf("\n", end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value
+    .slice(lineStart, lineEnd)
+    .split("\n")
+    .map((line, i) => `${action === "bullet" ? "- " : `${i + 1}. `}${line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "")}`);
+  const replaced = lines.join("\n");
+  return {
+    value: `${value.slice(0, lineStart)}${replaced}${value.slice(lineEnd)}`,
+    selectionStart: lineStart,
+    selectionEnd: lineStart + replaced.length,
+  };
+};
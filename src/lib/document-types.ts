@@ -0,0 +1,125 @@
+// Client side of the document generator: the document types analyze-case can draft from a case and
+// the particulars each needs (supabase/functions/_shared/document-types.ts), prefilled from the intake.
+import type { CaseIntake } from "@/lib/case-intake";
+
+export type GeneratedDocumentType =
+  | "regular_bail"
+  | "anticipatory_bail"
+  | "bail_reply"
+  | "discharge_application"
+  | "written_statement"
+  | "legal_notice"
+  | "appeal_memo";
+
+export interface DocumentField {
+  key: string;
+  label: string;
+  required?: boolean;
+  multiline?: boolean;
+  placeholder?: string;
+}
+
+export interface DocumentTypeDefinition {
+  id: GeneratedDocumentType;
+  label: string;
+  description: string;
+  fields: DocumentField[];
+}
+
+export const DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  {
+    id: "regular_bail",
+    label: "Regular Bail Application",
+    description: "Section 483/480 BNSS (439/437 CrPC), for an accused in custody",
+    fields: [
+      { key: "court", label: "Court", required: true, placeholder: "e.g. Court of Sessions Judge, Pune" },
+      { key: "custodySince", label: "In custody since", required: true, placeholder: "e.g. 12 March 2026" },
+      { key: "previousApplications", label: "Previous bail applications and their outcome", multiline: true },
+      { key: "personalCircumstances", label: "Personal circumstances of the accused", multiline: true, placeholder: "Age, health, family, roots in society" },
+    ],
+  },
+  {
+    id: "anticipatory_bail",
+    label: "Anticipatory Bail Application",
+    description: "Section 482 BNSS (438 CrPC), before arrest",
+    fields: [
+      { key: "court", label: "Court", required: true },
+      { key: "apprehension", label: "Why arrest is apprehended", required: true, multiline: true },
+      { key: "previousApplications", label: "Previous applications and their outcome", multiline: true },
+      { key: "conditionsOffered", label: "Conditions the applicant offers to abide by", multiline: true },
+    ],
+  },
+  {
+    id: "bail_reply",
+    label: "Reply to Bail Application",
+    description: "Reply for the State or the complainant",
+    fields: [
+      { key: "court", label: "Court", required: true },
+      { key: "onBehalfOf", label: "Replying on behalf of", required: true, placeholder: "e.g. the complainant" },
+      { key: "applicationDetails", label: "Bail application being replied to", required: true, multiline: true },
+      { key: "objections", label: "Key objections", multiline: true },
+    ],
+  },
+  {
+    id: "discharge_application",
+    label: "Discharge Application",
+    description: "Section 250/262 BNSS (227/239 CrPC)",
+    fields: [
+      { key: "court", label: "Court", required: true },
+      { key: "caseNumber", label: "Case number", required: true },
+      { key: "chargeSheetDate", label: "Date of charge sheet" },
+      { key: "groundsSummary", label: "Main grounds for discharge", multiline: true },
+    ],
+  },
+  {
+    id: "written_statement",
+    label: "Written Statement",
+    description: "Defendant's reply to a plaint, Order VIII CPC",
+    fields: [
+      { key: "court", label: "Court", required: true },
+      { key: "suitNumber", label: "Suit number", required: true },
+      { key: "defendant", label: "Defendant filing the statement", required: true },
+      { key: "plaintiffClaims", label: "Plaintiff's claims to be answered", required: true, multiline: true },
+      { key: "preliminaryObjections", label: "Preliminary objections", multiline: true },
+    ],
+  },
+  {
+    id: "legal_notice",
+    label: "Legal Notice",
+    description: "Notice of demand from the advocate",
+    fields: [
+      { key: "sender", label: "Sender (on whose behalf)", required: true },
+      { key: "recipient", label: "Recipient name and address", required: true, multiline: true },
+      { key: "demand", label: "Demand or relief sought", required: true, multiline: true },
+      { key: "complianceDays", label: "Days allowed to comply", placeholder: "15" },
+    ],
+  },
+  {
+    id: "appeal_memo",
+    label: "Memorandum of Appeal",
+    description: "Criminal appeal against a judgment or order",
+    fields: [
+      { key: "court", label: "Appellate court", required: true },
+      { key: "impugnedOrder", label: "Impugned judgment or order", required: true, placeholder: "Court, case number, date" },
+      { key: "conviction", label: "Conviction and sentence" },
+      { key: "groundsSummary", label: "Main grounds of appeal", multiline: true },
+    ],
+  },
+];
+
+export const documentType = (id: string) => DOCUMENT_TYPES.find((t) => t.id === id);
+
+/** Labels of the required particulars that are still empty. */
+export const missingFields = (type: DocumentTypeDefinition, values: Record<string, string>) =>
+  type.fields.filter((f) => f.required && !values[f.key]?.trim()).map((f) => f.label);
+
+/** Particulars the intake already answers, so the advocate only fills in the rest. */
+export const fieldsFromIntake = (type: DocumentTypeDefinition, intake: CaseIntake | null | undefined): Record<string, string> => {
+  const known: Record<string, string> = {
+    court: [intake?.court.name, intake?.court.jurisdiction].filter(Boolean).join(", "),
+    sender: intake?.parties.complainant ?? "",
+    defendant: intake?.parties.accused.join(", ") ?? "",
+    onBehalfOf: intake?.parties.complainant ? `${intake.parties.complainant} (complainant)` : "",
+  };
+  return Object.fromEntries(type.fields.map((f) => [f.key, known[f.key] ?? ""]));
+};
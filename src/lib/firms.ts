@@ -0,0 +1,54 @@
+// Firms (chambers): membership roles and how far members' cases are open to the rest of the firm,
+// mirroring the case_visibility check in public.has_case_role().
+import type { MemberRole } from "@/lib/case-sharing";
+
+export type FirmRole = "admin" | "member";
+
+export const FIRM_ROLES: { value: FirmRole; label: string }[] = [
+  { value: "member", label: "Member" },
+  { value: "admin", label: "Firm admin" },
+];
+
+export type CaseVisibility = "private" | "firm_read" | "firm_edit";
+
+export const CASE_VISIBILITIES: { value: CaseVisibility; label: string; description: string }[] = [
+  { value: "private", label: "Private", description: "Cases are visible only to their owner and the colleagues they share them with" },
+  { value: "firm_read", label: "Firm can view", description: "Every member can read every member's cases" },
+  { value: "firm_edit", label: "Firm can edit", description: "Every member can read and edit every member's cases" },
+];
+
+export interface FirmMembership {
+  role: FirmRole;
+  firm: { id: string; name: string; case_visibility: string };
+}
+
+/** The role a fellow firm member holds on a case through the firm's visibility, if any. */
+export const firmCaseRole = (visibility: string | null | undefined): MemberRole | null =>
+  visibility === "firm_edit" ? "editor" : visibility === "firm_read" ? "viewer" : null;
+
+/**
+ * Whether `userId` is the firm's only admin, mirroring public.keep_firm_admin(): the last admin
+ * cannot be demoted, removed or leave.
+ */
+export const isLastFirmAdmin = (members: { user_id: string; role: string }[], userId: string) =>
+  members.some((m) => m.user_id === userId && m.role === "admin") &&
+  !members.some((m) => m.user_id !== userId && m.role === "admin");
+
+/** A pending invitation to join a firm, as listed to the invited user. */
+export interface FirmInvitation {
+  id: string;
+  role: string;
+  firm: { name: string } | null;
+}
+
+/** Messages for the errors raised by invite_firm_member() and add_firm_member(), keyed by SQLSTATE. */
+export const firmMemberErrorMessage = (error: { code?: string; message: string }) => {
+  if (error.code === "P0002") return "No user has that username";
+  if (error.code === "42501") return "Only firm admins can invite members";
+  if (error.code === "22023") return error.message;
+  return "Could not invite the member";
+};
+
+/** "Rao & Associates invited you to join as a firm admin." */
+export const invitationMessage = (invitation: FirmInvitation) =>
+  `${invitation.firm?.name ?? "A firm"} invited you to join as ${invitation.role === "admin" ? "a firm admin" : "a member"}.`;
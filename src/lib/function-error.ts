@@ -0,0 +1,24 @@
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/** Error returned by an edge function, carrying its machine-readable `code` when present. */
+export class FunctionError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public fields?: FieldError[],
+    /** Further machine-readable context, e.g. which subscription limit refused the request */
+    public details?: unknown,
+  ) {
+    super(fields?.length ? `${message} (failed fields: ${fields.map((f) => f.field).join(", ")})` : message);
+    this.name = "FunctionError";
+  }
+}
+
+export async function readFunctionError(resp: Response, fallback: string): Promise<FunctionError> {
+  const body = await resp.json().catch(() => ({}));
+  return new FunctionError(body.error || fallback, resp.status, body.code, body.fields, body.details);
+}
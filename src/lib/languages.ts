@@ -0,0 +1,18 @@
+// Output languages the analyze-case function can write in (supabase/functions/_shared/language.ts).
+
+export type LanguageCode = "en" | "hi" | "mr" | "bn" | "gu" | "pa" | "ta" | "te" | "kn" | "ml";
+
+export const LANGUAGES: { code: LanguageCode; label: string; native: string }[] = [
+  { code: "en", label: "English", native: "English" },
+  { code: "hi", label: "Hindi", native: "हिन्दी" },
+  { code: "mr", label: "Marathi", native: "मराठी" },
+  { code: "bn", label: "Bengali", native: "বাংলা" },
+  { code: "gu", label: "Gujarati", native: "ગુજરાતી" },
+  { code: "pa", label: "Punjabi", native: "ਪੰਜਾਬੀ" },
+  { code: "ta", label: "Tamil", native: "தமிழ்" },
+  { code: "te", label: "Telugu", native: "తెలుగు" },
+  { code: "kn", label: "Kannada", native: "ಕನ್ನಡ" },
+  { code: "ml", label: "Malayalam", native: "മലയാളം" },
+];
+
+export const languageLabel = (code: string | null | undefined) => LANGUAGES.find((l) => l.code === code)?.label ?? "English";
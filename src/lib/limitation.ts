@@ -0,0 +1,184 @@
+// Limitation periods for common filings and the last-date computation under the Limitation Act, 1963:
+// the day of the order is excluded (s. 12(1)), time taken to obtain a certified copy is excluded
+// (s. 12(2)), and a period ending on a day the court is closed runs to the day it reopens (s. 4).
+// Dates are ISO strings (yyyy-mm-dd) and all arithmetic is on calendar dates, independent of time zone.
+
+export interface Proceeding {
+  id: string;
+  label: string;
+  /** `null` where no period is prescribed */
+  period: { amount: number; unit: "days" | "months" } | null;
+  basis: string;
+  /** What the period runs from, shown next to the date input */
+  runsFrom: string;
+  /** Court filings benefit from s. 4; notices sent to a party do not */
+  courtFiling: boolean;
+}
+
+export const PROCEEDINGS: Proceeding[] = [
+  {
+    id: "criminal_appeal_sessions",
+    label: "Criminal appeal to the Court of Session",
+    period: { amount: 30, unit: "days" },
+    basis: "Limitation Act, Art. 115(b)(ii)",
+    runsFrom: "Date of the sentence or order",
+    courtFiling: true,
+  },
+  {
+    id: "criminal_appeal_high_court",
+    label: "Criminal appeal to the High Court",
+    period: { amount: 60, unit: "days" },
+    basis: "Limitation Act, Art. 115(b)(i)",
+    runsFrom: "Date of the sentence or order",
+    courtFiling: true,
+  },
+  {
+    id: "appeal_against_acquittal",
+    label: "State appeal against acquittal",
+    period: { amount: 90, unit: "days" },
+    basis: "Limitation Act, Art. 114(a)",
+    runsFrom: "Date of the order of acquittal",
+    courtFiling: true,
+  },
+  {
+    id: "criminal_revision",
+    label: "Criminal revision",
+    period: { amount: 90, unit: "days" },
+    basis: "Limitation Act, Art. 131",
+    runsFrom: "Date of the decree, order or sentence",
+    courtFiling: true,
+  },
+  {
+    id: "bail_cancellation",
+    label: "Cancellation of bail",
+    period: null,
+    basis: "No period is prescribed (Section 483(3) BNSS / Section 439(2) CrPC); apply promptly once the breach or new material comes to light",
+    runsFrom: "Date of the bail order",
+    courtFiling: true,
+  },
+  {
+    id: "civil_appeal_high_court",
+    label: "Civil appeal to the High Court",
+    period: { amount: 90, unit: "days" },
+    basis: "Limitation Act, Art. 116(a)",
+    runsFrom: "Date of the decree or order",
+    courtFiling: true,
+  },
+  {
+    id: "civil_appeal_other",
+    label: "Civil appeal to any other court",
+    period: { amount: 30, unit: "days" },
+    basis: "Limitation Act, Art. 116(b)",
+    runsFrom: "Date of the decree or order",
+    courtFiling: true,
+  },
+  {
+    id: "review",
+    label: "Review of a judgment",
+    period: { amount: 30, unit: "days" },
+    basis: "Limitation Act, Art. 124",
+    runsFrom: "Date of the decree or order",
+    courtFiling: true,
+  },
+  {
+    id: "set_aside_ex_parte",
+    label: "Setting aside an ex parte decree",
+    period: { amount: 30, unit: "days" },
+    basis: "Limitation Act, Art. 123",
+    runsFrom: "Date of the decree (or of knowledge, where summons was not duly served)",
+    courtFiling: true,
+  },
+  {
+    id: "slp_supreme_court",
+    label: "Special leave petition to the Supreme Court",
+    period: { amount: 90, unit: "days" },
+    basis: "Supreme Court Rules, 2013, Order XXII Rule 2(1)",
+    runsFrom: "Date of the judgment or order",
+    courtFiling: true,
+  },
+  {
+    id: "ni_demand_notice",
+    label: "Cheque dishonour: demand notice",
+    period: { amount: 30, unit: "days" },
+    basis: "Negotiable Instruments Act, Section 138(b)",
+    runsFrom: "Date the bank's dishonour memo was received",
+    courtFiling: false,
+  },
+  {
+    id: "ni_complaint",
+    label: "Cheque dishonour: complaint",
+    period: { amount: 1, unit: "months" },
+    basis: "Negotiable Instruments Act, Section 142(1)(b)",
+    runsFrom: "Date the cause of action arose (end of the 15 days after the notice was received)",
+    courtFiling: true,
+  },
+];
+
+export const proceeding = (id: string) => PROCEEDINGS.find((p) => p.id === id);
+
+const toUtc = (iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+const toIso = (date: Date) => date.toISOString().slice(0, 10);
+
+export const addDays = (iso: string, days: number) => {
+  const date = toUtc(iso);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIso(date);
+};
+
+/** Same day `months` later, clamped to the end of a shorter month (31 Jan + 1 month = 28/29 Feb). */
+export const addMonths = (iso: string, months: number) => {
+  const date = toUtc(iso);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return toIso(date);
+};
+
+/** 0 = Sunday */
+export const weekday = (iso: string) => toUtc(iso).getUTCDay();
+
+export interface LimitationOptions {
+  /** Days spent obtaining the certified copy, excluded under s. 12(2) */
+  copyDays?: number;
+  /** ISO dates on which the courts are closed */
+  holidays?: Iterable<string>;
+  /** Weekdays the court does not sit; Sunday by default */
+  closedWeekdays?: number[];
+}
+
+export interface LimitationResult {
+  /** The day the period expires */
+  expiry: string;
+  /** The last day to file, after moving past days the court is closed */
+  lastDate: string;
+  /** Closed days between the expiry and the last date, with the reason */
+  skipped: { date: string; reason: string }[];
+}
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** The last date to file from `orderDate`, or `null` for proceedings without a prescribed period. */
+export const computeLimitation = (orderDate: string, type: Proceeding, options: LimitationOptions = {}): LimitationResult | null => {
+  if (!type.period) return null;
+  const { amount, unit } = type.period;
+  const copyDays = Math.max(0, Math.floor(options.copyDays ?? 0));
+  const expiry = addDays(unit === "days" ? addDays(orderDate, amount) : addMonths(orderDate, amount), copyDays);
+
+  const skipped: LimitationResult["skipped"] = [];
+  let lastDate = expiry;
+  if (type.courtFiling) {
+    const holidays = new Set(options.holidays ?? []);
+    const closed = new Set(options.closedWeekdays ?? [0]);
+    // Bounded so a misconfigured calendar (every weekday closed) cannot loop forever
+    for (let i = 0; i < 60 && (holidays.has(lastDate) || closed.has(weekday(lastDate))); i++) {
+      skipped.push({ date: lastDate, reason: holidays.has(lastDate) ? "Court holiday" : WEEKDAY_NAMES[weekday(lastDate)] });
+      lastDate = addDays(lastDate, 1);
+    }
+  }
+  return { expiry, lastDate, skipped };
+};
@@ -0,0 +1,32 @@
+// Results of the search_workspace RPC, whose snippets mark matched terms with <mark>…</mark>.
+import type { Database } from "@/integrations/supabase/types";
+
+export type SearchResult = Database["public"]["Functions"]["search_workspace"]["Returns"][number];
+
+export type SearchResultKind = "case" | "analysis" | "message" | "general";
+
+export const RESULT_KIND_LABELS: Record<SearchResultKind, string> = {
+  case: "Case",
+  analysis: "Analysis",
+  message: "Case chat",
+  general: "Legal Assistant",
+};
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Splits a snippet into plain and matched segments, so it can be rendered without injecting HTML. */
+export const snippetSegments = (snippet: string): SnippetSegment[] =>
+  snippet
+    .split(/(<mark>[\s\S]*?<\/mark>)/)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("<mark>") && part.endsWith("</mark>")
+        ? { text: part.slice(6, -7), match: true }
+        : { text: part, match: false },
+    );
+
+/** Queries shorter than this are not sent; single letters match too much to be useful. */
+export const MIN_QUERY_LENGTH = 2;
@@ -0,0 +1,36 @@
+/**
+ * Reads a `text/event-stream` response body and calls `onData` with each parsed `data:` payload.
+ * Stops at the OpenAI-style `[DONE]` sentinel or when the stream ends.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onData: (payload: unknown) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let idx: number;
+    while ((idx = buffer.indexOf("\n")) !== -1) {
+      let line = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 1);
+      if (line.endsWith("\r")) line = line.slice(0, -1);
+      if (!line.startsWith("data: ")) continue;
+      const jsonStr = line.slice(6).trim();
+      if (jsonStr === "[DONE]") return;
+      let payload: unknown;
+      try {
+        payload = JSON.parse(jsonStr);
+      } catch {
+        buffer = line + "\n" + buffer;
+        break;
+      }
+      onData(payload);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+// Subscription plans and the limits they set, mirroring public.user_subscriptions: a plan runs from
+// starts_on to ends_on inclusive, as IST calendar days, and profiles.subscription_active follows it.
+import { addDays } from "@/lib/limitation";
+
+export interface SubscriptionPlan {
+  id: string;
+  name: string;
+  duration_days: number;
+  daily_analysis_limit: number;
+  daily_chat_limit: number;
+  daily_upload_limit: number;
+}
+
+export const PLAN_COLUMNS = "id, name, duration_days, daily_analysis_limit, daily_chat_limit, daily_upload_limit";
+
+export interface UserSubscription {
+  plan_id: string;
+  /** ISO date (yyyy-mm-dd) */
+  starts_on: string;
+  /** ISO date (yyyy-mm-dd), the last day the plan covers */
+  ends_on: string;
+  plan: { name: string } | null;
+}
+
+/** Days before the end date from which the dashboard shows the renewal banner. */
+export const RENEWAL_NOTICE_DAYS = 7;
+
+/** Why an AI request or upload was refused, as sent in the `details` of the refusal. */
+export interface SubscriptionBlock {
+  reason: "expired" | "inactive" | "analysis" | "chat" | "upload";
+  plan?: string | null;
+  limit?: number;
+  endsOn?: string | null;
+}
+
+const REASONS: SubscriptionBlock["reason"][] = ["expired", "inactive", "analysis", "chat", "upload"];
+
+/** The last day covered by a plan of `durationDays` starting on `startsOn`. */
+export const planEndsOn = (startsOn: string, durationDays: number) => addDays(startsOn, durationDays - 1);
+
+export const isCurrent = (sub: Pick<UserSubscription, "starts_on" | "ends_on">, today: string) => sub.starts_on <= today && today <= sub.ends_on;
+
+/** Whole days left on the plan, counting today; 0 once it has ended. */
+export const daysLeft = (endsOn: string, today: string) => Math.max(0, Math.round((Date.parse(endsOn) - Date.parse(today)) / 86_400_000) + 1);
+
+/** The renewal reminder to show, if the current plan ends within RENEWAL_NOTICE_DAYS. */
+export const renewalNotice = (sub: UserSubscription | null, today: string) => {
+  if (!sub || !isCurrent(sub, today)) return null;
+  const days = daysLeft(sub.ends_on, today);
+  return days <= RENEWAL_NOTICE_DAYS ? { days, plan: sub.plan?.name ?? null, endsOn: sub.ends_on } : null;
+};
+
+/** The block for a lapsed subscription, as the client sees it before asking the server. */
+export const lapsedBlock = (sub: UserSubscription | null): SubscriptionBlock =>
+  sub ? { reason: "expired", plan: sub.plan?.name ?? null, endsOn: sub.ends_on } : { reason: "inactive" };
+
+/** Reads a block from a function refusal's `details` or a database error's JSON `details`. */
+export const parseBlock = (details: unknown): SubscriptionBlock | null => {
+  let value = details;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!value || typeof value !== "object") return null;
+  const block = value as SubscriptionBlock;
+  return REASONS.includes(block.reason) ? block : null;
+};
+
+/** Upload refusals from the enforce_upload_limit() trigger, keyed by SQLSTATE. */
+export const uploadBlock = (error: { code?: string; details?: string | null }) => (error.code === "54000" ? parseBlock(error.details) : null);
+
+const LIMIT_NOUNS: Record<string, string> = { analysis: "analyses", chat: "chat messages", upload: "document uploads" };
+
+/** Title and explanation for the subscription dialog. */
+export const blockMessage = (block: SubscriptionBlock, formatDate: (iso: string) => string = (iso) => iso) => {
+  const plan = block.plan ? `${block.plan} plan` : "plan";
+  if (block.reason === "expired" || block.reason === "inactive") {
+    return {
+      title: "Subscription Expired",
+      description: block.endsOn
+        ? `Your ${plan} ended on ${formatDate(block.endsOn)}. Please renew to continue using AI features and uploads. You can still view your existing cases and chat history.`
+        : "Your subscription has expired. Please renew to continue using AI features. You can still view your existing cases and chat history.",
+    };
+  }
+  const used = block.limit != null ? `all ${block.limit}` : "all the";
+  return {
+    title: "Daily Limit Reached",
+    description: `You have used ${used} ${LIMIT_NOUNS[block.reason]} your ${plan} allows today. The limit resets at midnight IST; upgrade your plan for a higher limit.`,
+  };
+};
+
+/**
+ * Dates for renewing onto a plan of `durationDays`: a running plan is extended from the day after it
+ * ends, and a lapsed one (or none) starts afresh today.
+ */
+export const renewedDates = (sub: Pick<UserSubscription, "starts_on" | "ends_on"> | null, durationDays: number, today: string) =>
+  sub && sub.ends_on >= today
+    ? { starts_on: sub.starts_on, ends_on: planEndsOn(addDays(sub.ends_on, 1), durationDays) }
+    : { starts_on: today, ends_on: planEndsOn(today, durationDays) };
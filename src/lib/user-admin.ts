@@ -0,0 +1,55 @@
+// Admin user management, mirroring public.admin_list_users(): the table is searched, sorted and
+// paged in the database, and bulk plan changes reuse the single-user subscription rules.
+import { planEndsOn, renewedDates, type SubscriptionPlan, type UserSubscription } from "@/lib/subscriptions";
+
+export const USER_PAGE_SIZE = 25;
+
+/** Delay before a search is sent, so typing does not query on every key. */
+export const USER_SEARCH_DELAY_MS = 300;
+
+export type UserSortColumn = "name" | "username" | "created_at";
+
+export interface UserSort {
+  column: UserSortColumn;
+  ascending: boolean;
+}
+
+export const DEFAULT_USER_SORT: UserSort = { column: "created_at", ascending: false };
+
+/** Clicking the sorted column flips it; another column starts A–Z, or newest first for dates. */
+export const nextSort = (current: UserSort, column: UserSortColumn): UserSort =>
+  current.column === column ? { column, ascending: !current.ascending } : { column, ascending: column !== "created_at" };
+
+/** "26–50 of 120" for the table footer. */
+export const pageSummary = (page: number, total: number, pageSize = USER_PAGE_SIZE) =>
+  total === 0 ? "No users" : `${page * pageSize + 1}–${Math.min((page + 1) * pageSize, total)} of ${total}`;
+
+export const pageCount = (total: number, pageSize = USER_PAGE_SIZE) => Math.max(1, Math.ceil(total / pageSize));
+
+/** "start" puts everyone on a fresh plan from today; "extend" renews each user's current plan. */
+export type BulkPlanMode = "start" | "extend";
+
+/** The user_subscriptions rows for moving `userIds` onto `plan`, one upsert for the whole batch. */
+export const bulkSubscriptionRows = (
+  userIds: string[],
+  plan: Pick<SubscriptionPlan, "id" | "duration_days">,
+  mode: BulkPlanMode,
+  current: Record<string, Pick<UserSubscription, "starts_on" | "ends_on">>,
+  today: string,
+) =>
+  userIds.map((user_id) => ({
+    user_id,
+    plan_id: plan.id,
+    ...(mode === "extend" ? renewedDates(current[user_id] ?? null, plan.duration_days, today) : { starts_on: today, ends_on: planEndsOn(today, plan.duration_days) }),
+  }));
+
+/** Today's use against a daily limit; `limit` is null when the default or no limit applies. */
+export const usageShare = (used: number, limit: number | null) => (limit ? Math.min(100, Math.round((used / limit) * 100)) : null);
+
+export const LOGIN_EVENT_LABELS: Record<string, string> = {
+  login: "Signed in",
+  logout: "Signed out",
+  user_signedup: "Signed up",
+  user_recovery_requested: "Requested password reset",
+  user_updated_password: "Changed password",
+};
@@ -1,18 +1,45 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
-import { Scale, LogOut, Users, ShieldCheck, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import AdminAnalytics from "@/components/AdminAnalytics";
+import AdminAuditLog from "@/components/AdminAuditLog";
+import CourtHolidaysManager from "@/components/CourtHolidaysManager";
+import FirmSettings from "@/components/FirmSettings";
+import FirmsOverview from "@/components/FirmsOverview";
+import SubscriptionPlansManager from "@/components/SubscriptionPlansManager";
+import { archiveFileName, daysUntilPurge, DELETION_GRACE_DAYS, deletionSummary, type DeletionMode, type PendingDeletion } from "@/lib/account-deletion";
+import { istToday } from "@/lib/analytics";
+import { formatIsoDate } from "@/lib/case-calendar";
+import { readFunctionError } from "@/lib/function-error";
+import { isCurrent, PLAN_COLUMNS, planEndsOn, renewedDates, type SubscriptionPlan } from "@/lib/subscriptions";
+import {
+  bulkSubscriptionRows,
+  DEFAULT_USER_SORT,
+  nextSort,
+  pageCount,
+  pageSummary,
+  USER_PAGE_SIZE,
+  USER_SEARCH_DELAY_MS,
+  type BulkPlanMode,
+  type UserSort,
+  type UserSortColumn,
+} from "@/lib/user-admin";
+import { Scale, LogOut, Users, ShieldCheck, Trash2, Gauge, Building2, ArrowLeft, BarChart3, ScrollText, RotateCcw, Loader2, Search, ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight, CalendarClock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
 } from "@/components/ui/table";
 import {
-  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
-  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
-} from "@/components/ui/alert-dialog";
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
 
 interface UserRow {
   user_id: string;
@@ -24,40 +51,227 @@ interface UserRow {
   created_at: string;
 }
 
+interface SubscriptionRow {
+  plan_id: string;
+  starts_on: string;
+  ends_on: string;
+}
+
+interface QuotaRow {
+  daily_analysis_limit: number | null;
+  daily_chat_limit: number | null;
+}
+
+// Quotas reset at midnight IST, matching record_ai_usage()
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const startOfIstDay = () =>
+  new Date(Math.floor((Date.now() + IST_OFFSET_MS) / 86_400_000) * 86_400_000 - IST_OFFSET_MS).toISOString();
+
+// delete-user answers errors with a JSON body, which invoke() leaves on the error's context
+const invokeDeleteUser = async <T,>(body: Record<string, unknown>, fallback: string): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke("delete-user", { body });
+  if (error) throw error.context instanceof Response ? await readFunctionError(error.context, fallback) : new Error(fallback);
+  return data as T;
+};
+
+const downloadJson = (value: unknown, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(value, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const SortableHead = ({ label, column, sort, onSort }: { label: string; column: UserSortColumn; sort: UserSort; onSort: (column: UserSortColumn) => void }) => (
+  <TableHead>
+    <button onClick={() => onSort(column)} className="flex items-center gap-1 hover:text-foreground transition-colors">
+      {label}
+      {sort.column !== column ? (
+        <ArrowUpDown className="w-3 h-3 opacity-50" />
+      ) : sort.ascending ? (
+        <ArrowUp className="w-3 h-3" />
+      ) : (
+        <ArrowDown className="w-3 h-3" />
+      )}
+    </button>
+  </TableHead>
+);
+
+const usersLoadFailed = (message: string) => ({ title: "Error", description: `Could not load users: ${message}`, variant: "destructive" as const });
+
 const AdminDashboard = () => {
-  const { user, isAdmin, loading, signOut } = useAuth();
+  const { user, isAdmin, firm, loading, signOut } = useAuth();
+  // Firm admins get the same page, limited by RLS to their own members
+  const isFirmAdmin = !isAdmin && firm?.role === "admin";
   const navigate = useNavigate();
   const { toast } = useToast();
   const [users, setUsers] = useState<UserRow[]>([]);
   const [fetching, setFetching] = useState(true);
+  const [usage, setUsage] = useState<Record<string, { analysis: number; chat: number }>>({});
+  const [quotas, setQuotas] = useState<Record<string, QuotaRow>>({});
+  const [quotaUser, setQuotaUser] = useState<UserRow | null>(null);
+  const [quotaForm, setQuotaForm] = useState({ analysis: "", chat: "" });
+  const [firmNames, setFirmNames] = useState<Record<string, string>>({});
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [subscriptions, setSubscriptions] = useState<Record<string, SubscriptionRow>>({});
+  const [subUser, setSubUser] = useState<UserRow | null>(null);
+  const [subForm, setSubForm] = useState<SubscriptionRow>({ plan_id: "", starts_on: "", ends_on: "" });
+  const [pendingDeletions, setPendingDeletions] = useState<Record<string, PendingDeletion>>({});
+  const [deletingUser, setDeletingUser] = useState<UserRow | null>(null);
+  const [deleteForm, setDeleteForm] = useState<{ mode: DeletionMode; exportFirst: boolean }>({ mode: "schedule", exportFirst: true });
+  const [deleteBusy, setDeleteBusy] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [sort, setSort] = useState<UserSort>(DEFAULT_USER_SORT);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulkPlanOpen, setBulkPlanOpen] = useState(false);
+  const [bulkPlanForm, setBulkPlanForm] = useState<{ plan_id: string; mode: BulkPlanMode }>({ plan_id: "", mode: "start" });
+  // Numbers each table load, so a slow response for an earlier search, sort or page is dropped
+  const loadSeq = useRef(0);
 
   useEffect(() => {
-    if (!loading && (!user || !isAdmin)) {
+    if (!loading && (!user || (!isAdmin && !isFirmAdmin))) {
       navigate("/auth");
     }
-  }, [user, isAdmin, loading]);
+  }, [user, isAdmin, isFirmAdmin, loading]);
 
   useEffect(() => {
-    if (user && isAdmin) fetchUsers();
-  }, [user, isAdmin]);
+    if (!user || (!isAdmin && !isFirmAdmin)) return;
+    loadUsers({ query, sort, page }).then((error) => error && toast(usersLoadFailed(error.message)));
+  }, [user, isAdmin, isFirmAdmin, query, sort, page, toast]);
 
-  const fetchUsers = async () => {
+  // A new search starts again from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(search.trim());
+      setPage(0);
+    }, USER_SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Loads one page of the table and returns the error, if any; the view is passed in so the effect
+  // above can track it
+  const loadUsers = async (view: { query: string; sort: UserSort; page: number }) => {
+    const seq = ++loadSeq.current;
     setFetching(true);
-    const { data, error } = await supabase
-      .from("profiles")
-      .select("user_id, name, username, phone, access_enabled, subscription_active, created_at")
-      .order("created_at", { ascending: false });
+    setSelected([]);
+    const { data, error } = await supabase.rpc("admin_list_users", {
+      _search: view.query,
+      _sort: view.sort.column,
+      _ascending: view.sort.ascending,
+      _limit: USER_PAGE_SIZE,
+      _offset: view.page * USER_PAGE_SIZE,
+    });
+    if (seq !== loadSeq.current) return null;
 
     if (!error && data) {
-      // Filter out admin users from the list
-      const { data: adminRoles } = await supabase.from("user_roles").select("user_id").eq("role", "admin");
-      const adminIds = new Set(adminRoles?.map((r: any) => r.user_id) ?? []);
-      setUsers(data.filter((u: any) => !adminIds.has(u.user_id)));
+      // The last user on a later page was removed; the effect refetches the page before it
+      if (data.length === 0 && view.page > 0) {
+        setPage(view.page - 1);
+        return null;
+      }
+
+      const ids = data.map((u) => u.user_id);
+      // Today's metered AI requests, any per-user quota overrides, each user's plan and the accounts
+      // awaiting deletion (visible to the global admin only), for the users on this page
+      const [{ data: usageRows }, { data: quotaRows }, { data: subscriptionRows }, { data: planRows }, { data: deletionRows }] = await Promise.all([
+        supabase.from("ai_usage").select("user_id, kind").in("user_id", ids).gte("created_at", startOfIstDay()),
+        supabase.from("user_quotas").select("user_id, daily_analysis_limit, daily_chat_limit").in("user_id", ids),
+        supabase.from("user_subscriptions").select("user_id, plan_id, starts_on, ends_on").in("user_id", ids),
+        supabase.from("subscription_plans").select(PLAN_COLUMNS).order("sort_order"),
+        supabase.from("account_deletions").select("user_id, requested_at, purge_after").in("user_id", ids).is("purged_at", null),
+      ]);
+      if (seq !== loadSeq.current) return null;
+
+      const counts: Record<string, { analysis: number; chat: number }> = {};
+      for (const row of usageRows ?? []) {
+        counts[row.user_id] ??= { analysis: 0, chat: 0 };
+        if (row.kind === "analysis" || row.kind === "chat") counts[row.user_id][row.kind]++;
+      }
+      setUsers(data);
+      setTotal(data[0]?.total_count ?? 0);
+      setFirmNames(Object.fromEntries(data.map((u) => [u.user_id, u.firm_name ?? ""])));
+      setUsage(counts);
+      setQuotas(Object.fromEntries((quotaRows ?? []).map((q) => [q.user_id, q])));
+      setSubscriptions(Object.fromEntries((subscriptionRows ?? []).map((s) => [s.user_id, s])));
+      setPlans(planRows ?? []);
+      setPendingDeletions(Object.fromEntries((deletionRows ?? []).map((d) => [d.user_id, d])));
     }
     setFetching(false);
+    return error;
   };
 
-  const toggleField = async (userId: string, field: "access_enabled" | "subscription_active", current: boolean) => {
+  const fetchUsers = async () => {
+    const error = await loadUsers({ query, sort, page });
+    if (error) toast(usersLoadFailed(error.message));
+  };
+
+  const openQuotaDialog = (u: UserRow) => {
+    const q = quotas[u.user_id];
+    setQuotaForm({ analysis: q?.daily_analysis_limit?.toString() ?? "", chat: q?.daily_chat_limit?.toString() ?? "" });
+    setQuotaUser(u);
+  };
+
+  const saveQuota = async () => {
+    if (!quotaUser) return;
+    // Blank fields fall back to the function's default limits
+    const row = {
+      user_id: quotaUser.user_id,
+      daily_analysis_limit: quotaForm.analysis.trim() ? Number(quotaForm.analysis) : null,
+      daily_chat_limit: quotaForm.chat.trim() ? Number(quotaForm.chat) : null,
+    };
+    const { error } = await supabase.from("user_quotas").upsert(row);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    setQuotas((prev) => ({ ...prev, [row.user_id]: row }));
+    setQuotaUser(null);
+    toast({ title: "Updated", description: "Daily quotas saved" });
+  };
+
+  const openSubscriptionDialog = (u: UserRow) => {
+    const current = subscriptions[u.user_id];
+    const plan = plans.find((p) => p.id === "monthly") ?? plans[0];
+    setSubForm(current ?? { plan_id: plan?.id ?? "", ...renewedDates(null, plan?.duration_days ?? 30, istToday()) });
+    setSubUser(u);
+  };
+
+  // A new plan keeps the chosen start date and runs for the plan's length
+  const changeSubscriptionPlan = (planId: string) => {
+    const plan = plans.find((p) => p.id === planId);
+    setSubForm((f) => ({ ...f, plan_id: planId, ends_on: plan && f.starts_on ? planEndsOn(f.starts_on, plan.duration_days) : f.ends_on }));
+  };
+
+  const renewSubscription = () => {
+    const plan = plans.find((p) => p.id === subForm.plan_id);
+    if (!plan || !subUser) return;
+    setSubForm((f) => ({ ...f, ...renewedDates(subscriptions[subUser.user_id] ?? null, plan.duration_days, istToday()) }));
+  };
+
+  const saveSubscription = async () => {
+    if (!subUser || !subForm.plan_id || !subForm.starts_on || !subForm.ends_on) return;
+    if (subForm.ends_on < subForm.starts_on) {
+      toast({ title: "Error", description: "The end date must not be before the start date", variant: "destructive" });
+      return;
+    }
+    // The database derives subscription_active from the dates
+    const { error } = await supabase.from("user_subscriptions").upsert({ user_id: subUser.user_id, ...subForm });
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    const active = isCurrent(subForm, istToday());
+    setSubscriptions((prev) => ({ ...prev, [subUser.user_id]: subForm }));
+    setUsers((prev) => prev.map((u) => (u.user_id === subUser.user_id ? { ...u, subscription_active: active } : u)));
+    setSubUser(null);
+    toast({ title: "Updated", description: "Subscription saved" });
+  };
+
+  const toggleField = async (userId: string, field: "access_enabled", current: boolean) => {
     const { error } = await supabase
       .from("profiles")
       .update({ [field]: !current })
@@ -67,28 +281,107 @@ const AdminDashboard = () => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
     } else {
       setUsers((prev) => prev.map((u) => u.user_id === userId ? { ...u, [field]: !current } : u));
-      toast({ title: "Updated", description: `${field === "access_enabled" ? "Access" : "Subscription"} toggled` });
+      toast({ title: "Updated", description: "Access toggled" });
     }
   };
 
-  const deleteUser = async (userId: string) => {
-    // Delete profile, roles, cases, messages, general_messages
-    await supabase.from("general_messages").delete().eq("user_id", userId);
-    // Delete cases and their messages
-    const { data: userCases } = await supabase.from("cases").select("id").eq("user_id", userId);
-    if (userCases && userCases.length > 0) {
-      const caseIds = userCases.map((c: any) => c.id);
-      await supabase.from("messages").delete().in("case_id", caseIds);
-      await supabase.from("cases").delete().eq("user_id", userId);
+  const changeSort = (column: UserSortColumn) => {
+    setSort(nextSort(sort, column));
+    setPage(0);
+  };
+
+  const toggleSelected = (userId: string) =>
+    setSelected((prev) => (prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]));
+
+  // Accounts awaiting deletion stay disabled until they are restored
+  const bulkSetAccess = async (enabled: boolean) => {
+    const ids = selected.filter((id) => !pendingDeletions[id]);
+    if (ids.length === 0) return;
+    // Row-level security silently skips accounts the caller may not manage; only the returned rows changed
+    const { data, error } = await supabase.from("profiles").update({ access_enabled: enabled }).in("user_id", ids).select("user_id");
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
     }
-    // Delete profile and roles via edge function
-    const { error } = await supabase.functions.invoke("delete-user", { body: { userId } });
+    const updated = (data ?? []).map((r) => r.user_id);
+    setUsers((prev) => prev.map((u) => (updated.includes(u.user_id) ? { ...u, access_enabled: enabled } : u)));
+    setSelected([]);
+    const skipped = ids.length - updated.length;
+    toast({
+      title: "Updated",
+      description:
+        `Access ${enabled ? "enabled" : "disabled"} for ${updated.length} ${updated.length === 1 ? "user" : "users"}` +
+        (skipped > 0 ? `; ${skipped} could not be changed` : ""),
+      variant: updated.length === 0 ? "destructive" : undefined,
+    });
+  };
+
+  const openBulkPlanDialog = () => {
+    setBulkPlanForm({ plan_id: (plans.find((p) => p.id === "monthly") ?? plans[0])?.id ?? "", mode: "start" });
+    setBulkPlanOpen(true);
+  };
+
+  // One upsert for the batch, so either every selected user moves to the plan or none does
+  const saveBulkPlan = async () => {
+    const plan = plans.find((p) => p.id === bulkPlanForm.plan_id);
+    if (!plan || selected.length === 0) return;
+    const { error } = await supabase.from("user_subscriptions").upsert(bulkSubscriptionRows(selected, plan, bulkPlanForm.mode, subscriptions, istToday()));
     if (error) {
-      toast({ title: "Error", description: "Failed to delete user", variant: "destructive" });
-    } else {
-      setUsers((prev) => prev.filter((u) => u.user_id !== userId));
-      toast({ title: "User Deleted", description: "User has been removed from the system" });
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
     }
+    const count = selected.length;
+    setBulkPlanOpen(false);
+    await fetchUsers();
+    toast({ title: "Updated", description: `${plan.name} plan saved for ${count} ${count === 1 ? "user" : "users"}` });
+  };
+
+  const openDeleteDialog = (u: UserRow) => {
+    setDeleteForm({ mode: "schedule", exportFirst: true });
+    setDeletingUser(u);
+  };
+
+  // The archive is downloaded before anything is removed, so a failed export stops the deletion
+  const deleteUser = async () => {
+    if (!deletingUser) return;
+    const target = deletingUser;
+    setDeleteBusy(true);
+    try {
+      if (deleteForm.exportFirst) {
+        const archive = await invokeDeleteUser<unknown>({ userId: target.user_id, action: "export" }, "Could not export the account's data");
+        downloadJson(archive, archiveFileName(target.username, target.user_id));
+      }
+      if (deleteForm.mode === "schedule") {
+        const { purgeAfter } = await invokeDeleteUser<{ purgeAfter: string }>(
+          { userId: target.user_id, action: "schedule", graceDays: DELETION_GRACE_DAYS },
+          "Failed to schedule the deletion",
+        );
+        setPendingDeletions((prev) => ({ ...prev, [target.user_id]: { user_id: target.user_id, requested_at: new Date().toISOString(), purge_after: purgeAfter } }));
+        setUsers((prev) => prev.map((u) => (u.user_id === target.user_id ? { ...u, access_enabled: false } : u)));
+        toast({ title: "Deletion Scheduled", description: `${target.name || target.username} can be restored until ${new Date(purgeAfter).toLocaleDateString()}` });
+      } else {
+        await invokeDeleteUser({ userId: target.user_id, action: "delete" }, "Failed to delete user");
+        setUsers((prev) => prev.filter((u) => u.user_id !== target.user_id));
+        setTotal((prev) => prev - 1);
+        toast({ title: "User Deleted", description: "User and all their data have been removed" });
+      }
+      setDeletingUser(null);
+    } catch (e) {
+      toast({ title: "Error", description: e instanceof Error ? e.message : "Failed to delete user", variant: "destructive" });
+    }
+    setDeleteBusy(false);
+  };
+
+  const restoreUser = async (u: UserRow) => {
+    try {
+      await invokeDeleteUser({ userId: u.user_id, action: "restore" }, "Failed to restore the account");
+    } catch (e) {
+      toast({ title: "Error", description: e instanceof Error ? e.message : "Failed to restore the account", variant: "destructive" });
+      return;
+    }
+    // Access goes back to what it was before the deletion was scheduled
+    await fetchUsers();
+    toast({ title: "Account Restored", description: `${u.name || u.username} can sign in again` });
   };
 
   const handleSignOut = async () => {
@@ -98,108 +391,400 @@ const AdminDashboard = () => {
 
   if (loading) return <div className="min-h-screen bg-background flex items-center justify-center text-foreground">Loading...</div>;
 
+  const pageSelected = users.length > 0 && users.every((u) => selected.includes(u.user_id));
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b border-border px-6 py-4 flex items-center justify-between">
         <div className="flex items-center gap-3">
           <Scale className="w-6 h-6 text-primary" />
-          <h1 className="text-xl font-serif font-bold text-foreground">Admin Dashboard</h1>
+          <h1 className="text-xl font-serif font-bold text-foreground">{isFirmAdmin ? firm?.firm.name : "Admin Dashboard"}</h1>
           <span className="text-xs px-2 py-1 rounded bg-primary text-primary-foreground font-medium flex items-center gap-1">
-            <ShieldCheck className="w-3 h-3" /> Admin
+            {isFirmAdmin ? <Building2 className="w-3 h-3" /> : <ShieldCheck className="w-3 h-3" />} {isFirmAdmin ? "Firm Admin" : "Admin"}
           </span>
         </div>
-        <Button variant="outline" onClick={handleSignOut} className="border-border text-muted-foreground hover:text-foreground">
-          <LogOut className="w-4 h-4 mr-2" /> Sign Out
-        </Button>
+        <div className="flex items-center gap-2">
+          {isFirmAdmin && (
+            <Button variant="outline" onClick={() => navigate("/dashboard")} className="border-border text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="w-4 h-4 mr-2" /> Workspace
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleSignOut} className="border-border text-muted-foreground hover:text-foreground">
+            <LogOut className="w-4 h-4 mr-2" /> Sign Out
+          </Button>
+        </div>
       </header>
 
       <main className="max-w-6xl mx-auto px-4 py-8">
-        <div className="rounded-xl border border-border bg-card p-6">
-          <div className="flex items-center gap-2 mb-6">
-            <Users className="w-5 h-5 text-primary" />
-            <h2 className="text-lg font-serif font-bold text-foreground">User Management</h2>
-            <span className="text-xs text-muted-foreground ml-auto">{users.length} users</span>
-          </div>
+        {/* Analytics and the audit log are for the global admin; firm admins only get the users tab */}
+        <Tabs defaultValue="users" className="space-y-6">
+          {isAdmin && (
+            <TabsList>
+              <TabsTrigger value="users"><Users className="w-4 h-4 mr-1.5" /> Users</TabsTrigger>
+              <TabsTrigger value="analytics"><BarChart3 className="w-4 h-4 mr-1.5" /> Analytics</TabsTrigger>
+              <TabsTrigger value="audit"><ScrollText className="w-4 h-4 mr-1.5" /> Audit Log</TabsTrigger>
+            </TabsList>
+          )}
 
-          {fetching ? (
-            <div className="text-center py-12 text-muted-foreground">Loading users...</div>
-          ) : users.length === 0 ? (
-            <div className="text-center py-12 text-muted-foreground">No registered users yet.</div>
-          ) : (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Name</TableHead>
-                    <TableHead>Email</TableHead>
-                    <TableHead>Phone</TableHead>
-                    <TableHead>Signup Date</TableHead>
-                    <TableHead>Access</TableHead>
-                    <TableHead>Subscription</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {users.map((u) => (
-                    <TableRow key={u.user_id}>
-                      <TableCell className="font-medium text-foreground">{u.name}</TableCell>
-                      <TableCell className="text-muted-foreground">{u.username}</TableCell>
-                      <TableCell className="text-muted-foreground">{u.phone || "—"}</TableCell>
-                      <TableCell className="text-muted-foreground text-xs">{new Date(u.created_at).toLocaleDateString()}</TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Switch
-                            checked={u.access_enabled}
-                            onCheckedChange={() => toggleField(u.user_id, "access_enabled", u.access_enabled)}
-                          />
-                          <span className={`text-xs font-medium ${u.access_enabled ? "text-green-400" : "text-destructive"}`}>
-                            {u.access_enabled ? "ON" : "OFF"}
-                          </span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Switch
-                            checked={u.subscription_active}
-                            onCheckedChange={() => toggleField(u.user_id, "subscription_active", u.subscription_active)}
+          <TabsContent value="users" className="mt-0 space-y-6">
+            <div className="rounded-xl border border-border bg-card p-6">
+              <div className="flex items-center gap-2 mb-6">
+                <Users className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-serif font-bold text-foreground">{isFirmAdmin ? "Member Access" : "User Management"}</h2>
+                {fetching && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                <span className="text-xs text-muted-foreground ml-auto">{total} users</span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <div className="relative flex-1 min-w-[220px]">
+                  <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by name, email or phone"
+                    className="pl-9 bg-input border-border text-foreground"
+                  />
+                </div>
+                {selected.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{selected.length} selected</span>
+                    <Button variant="outline" size="sm" onClick={() => bulkSetAccess(true)} className="border-border text-muted-foreground hover:text-foreground">Enable Access</Button>
+                    <Button variant="outline" size="sm" onClick={() => bulkSetAccess(false)} className="border-border text-muted-foreground hover:text-foreground">Disable Access</Button>
+                    <Button variant="outline" size="sm" onClick={openBulkPlanDialog} className="border-border text-muted-foreground hover:text-foreground">
+                      <CalendarClock className="w-3 h-3 mr-1" /> Change Plan
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setSelected([])} className="text-muted-foreground">Clear</Button>
+                  </div>
+                )}
+              </div>
+
+              {fetching && users.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">Loading users...</div>
+              ) : users.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  {query ? `No users match "${query}".` : isFirmAdmin ? "No other members in the firm yet." : "No registered users yet."}
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-8">
+                          <Checkbox
+                            checked={pageSelected}
+                            onCheckedChange={(checked) => setSelected(checked === true ? users.map((u) => u.user_id) : [])}
+                            aria-label="Select all on this page"
                           />
-                          <span className={`text-xs font-medium ${u.subscription_active ? "text-green-400" : "text-destructive"}`}>
-                            {u.subscription_active ? "Active" : "Expired"}
-                          </span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="outline" size="sm" className="border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground">
-                              <Trash2 className="w-3 h-3 mr-1" /> Delete
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent className="bg-card border-border">
-                            <AlertDialogHeader>
-                              <AlertDialogTitle className="text-foreground">Delete User</AlertDialogTitle>
-                              <AlertDialogDescription className="text-muted-foreground">
-                                Are you sure you want to delete <strong>{u.name || u.username}</strong>? This will permanently remove the user and all their data.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel className="border-border">Cancel</AlertDialogCancel>
-                              <AlertDialogAction onClick={() => deleteUser(u.user_id)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+                        </TableHead>
+                        <SortableHead label="Name" column="name" sort={sort} onSort={changeSort} />
+                        <SortableHead label="Email" column="username" sort={sort} onSort={changeSort} />
+                        <TableHead>Phone</TableHead>
+                        {isAdmin && <TableHead>Firm</TableHead>}
+                        <SortableHead label="Signup Date" column="created_at" sort={sort} onSort={changeSort} />
+                        <TableHead>Access</TableHead>
+                        <TableHead>Subscription</TableHead>
+                        <TableHead>AI Usage Today</TableHead>
+                        {isAdmin && <TableHead>Actions</TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {users.map((u) => (
+                        <TableRow key={u.user_id}>
+                          <TableCell>
+                            <Checkbox checked={selected.includes(u.user_id)} onCheckedChange={() => toggleSelected(u.user_id)} aria-label={`Select ${u.name || u.username}`} />
+                          </TableCell>
+                          <TableCell className="font-medium text-foreground">
+                            <Link to={`/admin/users/${u.user_id}`} className="hover:text-primary transition-colors">{u.name || "—"}</Link>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{u.username}</TableCell>
+                          <TableCell className="text-muted-foreground">{u.phone || "—"}</TableCell>
+                          {isAdmin && <TableCell className="text-muted-foreground">{firmNames[u.user_id] || "—"}</TableCell>}
+                          <TableCell className="text-muted-foreground text-xs">{new Date(u.created_at).toLocaleDateString()}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Switch
+                                checked={u.access_enabled}
+                                disabled={!!pendingDeletions[u.user_id]}
+                                onCheckedChange={() => toggleField(u.user_id, "access_enabled", u.access_enabled)}
+                              />
+                              <span className={`text-xs font-medium ${u.access_enabled ? "text-green-400" : "text-destructive"}`}>
+                                {u.access_enabled ? "ON" : "OFF"}
+                              </span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <button
+                              onClick={() => openSubscriptionDialog(u)}
+                              className="text-xs text-left hover:text-primary flex flex-col transition-colors"
+                            >
+                              <span className={`font-medium ${u.subscription_active ? "text-green-400" : "text-destructive"}`}>
+                                {plans.find((p) => p.id === subscriptions[u.user_id]?.plan_id)?.name ?? "No plan"} · {u.subscription_active ? "Active" : "Expired"}
+                              </span>
+                              {subscriptions[u.user_id] && (
+                                <span className="text-muted-foreground">until {formatIsoDate(subscriptions[u.user_id].ends_on)}</span>
+                              )}
+                            </button>
+                          </TableCell>
+                          <TableCell>
+                            <button
+                              onClick={() => openQuotaDialog(u)}
+                              className="text-xs text-muted-foreground hover:text-primary flex items-center gap-1 transition-colors"
+                            >
+                              <Gauge className="w-3 h-3" />
+                              {usage[u.user_id]?.analysis ?? 0}{quotas[u.user_id]?.daily_analysis_limit != null && `/${quotas[u.user_id].daily_analysis_limit}`} analyses
+                              {" · "}
+                              {usage[u.user_id]?.chat ?? 0}{quotas[u.user_id]?.daily_chat_limit != null && `/${quotas[u.user_id].daily_chat_limit}`} chats
+                            </button>
+                          </TableCell>
+                          {isAdmin && (
+                            <TableCell>
+                              {pendingDeletions[u.user_id] ? (
+                                <div className="flex items-center gap-2">
+                                  <span className="text-xs text-destructive whitespace-nowrap">
+                                    Deletes in {daysUntilPurge(pendingDeletions[u.user_id])} days
+                                  </span>
+                                  <Button variant="outline" size="sm" onClick={() => restoreUser(u)} className="border-border text-muted-foreground hover:text-foreground">
+                                    <RotateCcw className="w-3 h-3 mr-1" /> Restore
+                                  </Button>
+                                </div>
+                              ) : (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => openDeleteDialog(u)}
+                                  className="border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                                >
+                                  <Trash2 className="w-3 h-3 mr-1" /> Delete
+                                </Button>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {total > USER_PAGE_SIZE && (
+                <div className="flex items-center justify-end gap-2 mt-4 text-xs text-muted-foreground">
+                  <span className="mr-2">{pageSummary(page, total)}</span>
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || fetching} className="border-border">
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount(total) || fetching} className="border-border">
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
             </div>
+
+            {isFirmAdmin && firm && (
+              <div className="rounded-xl border border-border bg-card p-6">
+                <div className="flex items-center gap-2 mb-6">
+                  <Building2 className="w-5 h-5 text-primary" />
+                  <h2 className="text-lg font-serif font-bold text-foreground">Firm Settings</h2>
+                </div>
+                <FirmSettings firmId={firm.firm.id} onChanged={fetchUsers} />
+              </div>
+            )}
+            {isAdmin && <SubscriptionPlansManager />}
+            {isAdmin && <FirmsOverview onChanged={fetchUsers} />}
+            {isAdmin && <CourtHolidaysManager />}
+          </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="analytics" className="mt-0">
+              <AdminAnalytics />
+            </TabsContent>
           )}
-        </div>
+
+          {isAdmin && (
+            <TabsContent value="audit" className="mt-0">
+              <AdminAuditLog />
+            </TabsContent>
+          )}
+        </Tabs>
       </main>
+
+      {/* Quota Override Dialog */}
+      <Dialog open={!!quotaUser} onOpenChange={(open) => !open && setQuotaUser(null)}>
+        <DialogContent className="bg-card border-border text-foreground">
+          <DialogHeader>
+            <DialogTitle className="text-primary font-serif">Daily AI Quotas</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Limits for {quotaUser?.name || quotaUser?.username}. Leave blank to use the default limits.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Analyses per day</span>
+              <Input
+                type="number"
+                min={0}
+                value={quotaForm.analysis}
+                onChange={(e) => setQuotaForm((f) => ({ ...f, analysis: e.target.value }))}
+                className="bg-input border-border text-foreground"
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Chat messages per day</span>
+              <Input
+                type="number"
+                min={0}
+                value={quotaForm.chat}
+                onChange={(e) => setQuotaForm((f) => ({ ...f, chat: e.target.value }))}
+                className="bg-input border-border text-foreground"
+              />
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setQuotaUser(null)} className="border-border">Cancel</Button>
+            <Button onClick={saveQuota} className="bg-primary text-primary-foreground hover:bg-gold-bright">Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Account Dialog */}
+      <Dialog open={!!deletingUser} onOpenChange={(open) => !open && !deleteBusy && setDeletingUser(null)}>
+        <DialogContent className="bg-card border-border text-foreground">
+          <DialogHeader>
+            <DialogTitle className="text-primary font-serif">Delete User</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              {deletingUser && deletionSummary(deleteForm.mode, deletingUser.name || deletingUser.username)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <RadioGroup value={deleteForm.mode} onValueChange={(mode) => setDeleteForm((f) => ({ ...f, mode: mode as DeletionMode }))}>
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value="schedule" className="mt-0.5" />
+                <span>
+                  Disable now, delete after {DELETION_GRACE_DAYS} days
+                  <span className="block text-xs text-muted-foreground">The account can be restored until then</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value="now" className="mt-0.5" />
+                <span>
+                  Delete permanently now
+                  <span className="block text-xs text-muted-foreground">Cases, messages, analyses and uploads are removed at once</span>
+                </span>
+              </label>
+            </RadioGroup>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox checked={deleteForm.exportFirst} onCheckedChange={(checked) => setDeleteForm((f) => ({ ...f, exportFirst: checked === true }))} />
+              Download an archive of their cases, messages and analyses first
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingUser(null)} disabled={deleteBusy} className="border-border">Cancel</Button>
+            <Button onClick={deleteUser} disabled={deleteBusy} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              {deleteBusy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              {deleteForm.mode === "schedule" ? "Schedule Deletion" : "Delete Now"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Plan Dialog */}
+      <Dialog open={bulkPlanOpen} onOpenChange={setBulkPlanOpen}>
+        <DialogContent className="bg-card border-border text-foreground">
+          <DialogHeader>
+            <DialogTitle className="text-primary font-serif">Change Plan</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Applies to the {selected.length} selected {selected.length === 1 ? "user" : "users"}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select value={bulkPlanForm.plan_id} onValueChange={(plan_id) => setBulkPlanForm((f) => ({ ...f, plan_id }))}>
+              <SelectTrigger className="bg-input border-border text-foreground">
+                <SelectValue placeholder="Choose a plan" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {plans.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>{p.name} · {p.duration_days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <RadioGroup value={bulkPlanForm.mode} onValueChange={(mode) => setBulkPlanForm((f) => ({ ...f, mode: mode as BulkPlanMode }))}>
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value="start" className="mt-0.5" />
+                <span>
+                  Start today
+                  <span className="block text-xs text-muted-foreground">Replaces each user's current dates</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value="extend" className="mt-0.5" />
+                <span>
+                  Extend current plans
+                  <span className="block text-xs text-muted-foreground">Running plans continue from their end date; lapsed ones start today</span>
+                </span>
+              </label>
+            </RadioGroup>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBulkPlanOpen(false)} className="border-border">Cancel</Button>
+            <Button onClick={saveBulkPlan} disabled={!bulkPlanForm.plan_id} className="bg-primary text-primary-foreground hover:bg-gold-bright">Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Subscription Dialog */}
+      <Dialog open={!!subUser} onOpenChange={(open) => !open && setSubUser(null)}>
+        <DialogContent className="bg-card border-border text-foreground">
+          <DialogHeader>
+            <DialogTitle className="text-primary font-serif">Subscription</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Plan for {subUser?.name || subUser?.username}. Access lapses automatically after the end date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <label className="text-xs text-muted-foreground space-y-1 block">
+              <span>Plan</span>
+              <Select value={subForm.plan_id} onValueChange={changeSubscriptionPlan}>
+                <SelectTrigger className="bg-input border-border text-foreground">
+                  <SelectValue placeholder="Choose a plan" />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {plans.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name} · {p.duration_days} days · {p.daily_analysis_limit} analyses, {p.daily_chat_limit} chats, {p.daily_upload_limit} uploads a day
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs text-muted-foreground space-y-1">
+                <span>Starts on</span>
+                <Input
+                  type="date"
+                  value={subForm.starts_on}
+                  onChange={(e) => setSubForm((f) => ({ ...f, starts_on: e.target.value }))}
+                  className="bg-input border-border text-foreground"
+                />
+              </label>
+              <label className="text-xs text-muted-foreground space-y-1">
+                <span>Ends on</span>
+                <Input
+                  type="date"
+                  value={subForm.ends_on}
+                  onChange={(e) => setSubForm((f) => ({ ...f, ends_on: e.target.value }))}
+                  className="bg-input border-border text-foreground"
+                />
+              </label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={renewSubscription} disabled={!subForm.plan_id} className="border-border sm:mr-auto">Renew</Button>
+            <Button variant="outline" onClick={() => setSubUser(null)} className="border-border">Cancel</Button>
+            <Button onClick={saveSubscription} className="bg-primary text-primary-foreground hover:bg-gold-bright">Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <div className="py-2 text-center">
         <span className="text-[10px] text-muted-foreground/50">Built by Puru</span>
       </div>
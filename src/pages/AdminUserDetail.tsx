@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Activity, Gauge, History, Scale, UserRound } from "lucide-react";
+import { formatIsoDate } from "@/lib/case-calendar";
+import type { UserSubscription } from "@/lib/subscriptions";
+import { LOGIN_EVENT_LABELS, usageShare } from "@/lib/user-admin";
+import type { Database } from "@/integrations/supabase/types";
+
+type Overview = Database["public"]["Functions"]["admin_user_overview"]["Returns"][number];
+type LoginEvent = Database["public"]["Functions"]["admin_login_history"]["Returns"][number];
+
+interface UserDetail {
+  profile: {
+    user_id: string;
+    name: string;
+    username: string;
+    phone: string | null;
+    access_enabled: boolean;
+    subscription_active: boolean;
+    created_at: string;
+  };
+  subscription: UserSubscription | null;
+  firm: { role: string; firm: { name: string } | null } | null;
+  overview: Overview | null;
+  logins: LoginEvent[];
+}
+
+// Profiles outside the caller's management are hidden by RLS, so a missing profile means "not yours"
+const fetchUserDetail = async (userId: string): Promise<UserDetail | null> => {
+  const [{ data: profile }, { data: subscription }, { data: firm }, { data: overview }, { data: logins }] = await Promise.all([
+    supabase.from("profiles").select("user_id, name, username, phone, access_enabled, subscription_active, created_at").eq("user_id", userId).maybeSingle(),
+    supabase.from("user_subscriptions").select("plan_id, starts_on, ends_on, plan:subscription_plans(name)").eq("user_id", userId).maybeSingle(),
+    supabase.from("firm_members").select("role, firm:firms(name)").eq("user_id", userId).maybeSingle(),
+    supabase.rpc("admin_user_overview", { _user: userId }),
+    supabase.rpc("admin_login_history", { _user: userId }),
+  ]);
+  if (!profile) return null;
+  return { profile, subscription, firm, overview: overview?.[0] ?? null, logins: logins ?? [] };
+};
+
+const formatTime = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString("en-IN", { timeZone: "Asia/Kolkata", day: "numeric", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" }) : "Never";
+
+const Tile = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-card border border-border rounded-lg p-4">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="text-lg font-serif font-bold text-foreground mt-1">{value}</div>
+  </div>
+);
+
+const UsageRow = ({ label, used, limit, unlimitedLabel }: { label: string; used: number; limit: number | null; unlimitedLabel: string }) => {
+  const share = usageShare(used, limit);
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="text-foreground">{label}</span>
+        <span className={share !== null && share >= 100 ? "text-destructive" : "text-muted-foreground"}>
+          {used} {limit !== null ? `of ${limit}` : `· ${unlimitedLabel}`}
+        </span>
+      </div>
+      {share !== null && <Progress value={share} className="h-2" />}
+    </div>
+  );
+};
+
+/** One managed user's account, activity, usage against their limits and sign-in history. */
+const AdminUserDetail = () => {
+  const { userId = "" } = useParams();
+  const { user, isAdmin, firm, loading } = useAuth();
+  const isFirmAdmin = !isAdmin && firm?.role === "admin";
+  const navigate = useNavigate();
+  const [detail, setDetail] = useState<UserDetail | null>(null);
+  const [fetching, setFetching] = useState(true);
+
+  useEffect(() => {
+    if (!loading && (!user || (!isAdmin && !isFirmAdmin))) {
+      navigate("/auth");
+    }
+  }, [user, isAdmin, isFirmAdmin, loading, navigate]);
+
+  useEffect(() => {
+    if (!user || (!isAdmin && !isFirmAdmin)) return;
+    setFetching(true);
+    fetchUserDetail(userId).then((result) => {
+      setDetail(result);
+      setFetching(false);
+    });
+  }, [user, isAdmin, isFirmAdmin, userId]);
+
+  if (loading || fetching) return <div className="min-h-screen bg-background flex items-center justify-center text-foreground">Loading...</div>;
+
+  const overview = detail?.overview;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Scale className="w-6 h-6 text-primary" />
+          <h1 className="text-xl font-serif font-bold text-foreground">{detail ? detail.profile.name || detail.profile.username : "User"}</h1>
+        </div>
+        <Button variant="outline" onClick={() => navigate("/admin")} className="border-border text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4 mr-2" /> Users
+        </Button>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        {!detail ? (
+          <div className="rounded-xl border border-border bg-card p-6 text-center text-muted-foreground">This user does not exist or is not one you manage.</div>
+        ) : (
+          <>
+            <div className="rounded-xl border border-border bg-card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <UserRound className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-serif font-bold text-foreground">Account</h2>
+              </div>
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <dt className="text-xs text-muted-foreground">Email</dt>
+                  <dd className="text-foreground break-all">{detail.profile.username}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">Phone</dt>
+                  <dd className="text-foreground">{detail.profile.phone || "—"}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">Firm</dt>
+                  <dd className="text-foreground">{detail.firm?.firm ? `${detail.firm.firm.name}${detail.firm.role === "admin" ? " (admin)" : ""}` : "—"}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">Signed up</dt>
+                  <dd className="text-foreground">{new Date(detail.profile.created_at).toLocaleDateString()}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">Access</dt>
+                  <dd className={detail.profile.access_enabled ? "text-green-400" : "text-destructive"}>{detail.profile.access_enabled ? "Enabled" : "Disabled"}</dd>
+                </div>
+                <div className="col-span-2 md:col-span-3">
+                  <dt className="text-xs text-muted-foreground">Subscription</dt>
+                  <dd className={detail.profile.subscription_active ? "text-green-400" : "text-destructive"}>
+                    {detail.subscription
+                      ? `${detail.subscription.plan?.name ?? detail.subscription.plan_id} · ${formatIsoDate(detail.subscription.starts_on)} to ${formatIsoDate(detail.subscription.ends_on)}`
+                      : "No plan"}
+                    {" · "}
+                    {detail.profile.subscription_active ? "Active" : "Expired"}
+                  </dd>
+                </div>
+              </dl>
+            </div>
+
+            <div className="rounded-xl border border-border bg-card p-6 space-y-4">
+              <div className="flex items-center gap-2">
+                <Activity className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-serif font-bold text-foreground">Activity</h2>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <Tile label="Cases" value={String(overview?.case_count ?? 0)} />
+                <Tile label="Shared with them" value={String(overview?.shared_case_count ?? 0)} />
+                <Tile label="Documents uploaded" value={String(overview?.document_count ?? 0)} />
+                <Tile label="Last activity" value={formatTime(overview?.last_activity_at ?? null)} />
+                <Tile label="Last sign-in" value={formatTime(overview?.last_sign_in_at ?? null)} />
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-border bg-card p-6 space-y-4">
+              <div className="flex items-center gap-2">
+                <Gauge className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-serif font-bold text-foreground">Usage Today</h2>
+                <span className="text-xs text-muted-foreground ml-auto">Resets at midnight IST</span>
+              </div>
+              <UsageRow label="Analyses" used={overview?.analyses_today ?? 0} limit={overview?.analysis_limit ?? null} unlimitedLabel="default limit" />
+              <UsageRow label="Chat messages" used={overview?.chats_today ?? 0} limit={overview?.chat_limit ?? null} unlimitedLabel="default limit" />
+              <UsageRow label="Document uploads" used={overview?.uploads_today ?? 0} limit={overview?.upload_limit ?? null} unlimitedLabel="no limit" />
+            </div>
+
+            <div className="rounded-xl border border-border bg-card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <History className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-serif font-bold text-foreground">Login History</h2>
+              </div>
+              {detail.logins.length === 0 ? (
+                <div className="text-center py-6 text-muted-foreground text-sm">No sign-ins recorded.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When (IST)</TableHead>
+                        <TableHead>Event</TableHead>
+                        <TableHead>IP Address</TableHead>
+                        <TableHead>Method</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detail.logins.map((e, i) => (
+                        <TableRow key={`${e.occurred_at}-${i}`}>
+                          <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{formatTime(e.occurred_at)}</TableCell>
+                          <TableCell className="text-sm text-foreground">{LOGIN_EVENT_LABELS[e.action] ?? e.action}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{e.ip_address || "—"}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{e.provider || "—"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminUserDetail;
@@ -1,5 +1,9 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { readFunctionError } from "@/lib/function-error";
+import type { CaseIntake } from "@/lib/case-intake";
 import CaseNotepad from "@/components/CaseNotepad";
 import AnalysisResults, { type AnalysisData } from "@/components/AnalysisResults";
 import ChatPanel, { type Message } from "@/components/ChatPanel";
@@ -10,6 +14,8 @@ const FUNC_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-case
 
 const Index = () => {
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const { user, session, loading } = useAuth();
   const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [chatMessages, setChatMessages] = useState<Message[]>([]);
@@ -17,37 +23,43 @@ const Index = () => {
   const [showDocument, setShowDocument] = useState(false);
   const [caseContext, setCaseContext] = useState("");
 
-  const analyzeCase = async (description: string, category: string, offence: string) => {
+  // Auth check
+  useEffect(() => {
+    if (!loading && !user) navigate("/auth");
+  }, [user, loading, navigate]);
+
+  // The functions need the user's token; a session that ended sends them back to sign in
+  const accessToken = () => {
+    if (!session) navigate("/auth");
+    return session?.access_token;
+  };
+
+  const analyzeCase = async (intake: CaseIntake) => {
+    const token = accessToken();
+    if (!token) return;
     setIsAnalyzing(true);
     setAnalysisData(null);
     setChatMessages([]);
-    const prompt = `Case Description: ${description}${category ? `\nCase Category: ${category}` : ""}${offence ? `\nOffence Type: ${offence}` : ""}`;
-    setCaseContext(prompt);
 
     try {
       const resp = await fetch(FUNC_URL, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
           type: "analyze",
-          messages: [{ role: "user", content: prompt }],
+          intake,
         }),
       });
 
-      if (!resp.ok) {
-        const err = await resp.json();
-        throw new Error(err.error || "Analysis failed");
-      }
+      if (!resp.ok) throw await readFunctionError(resp, "Analysis failed");
 
-      const data = await resp.json();
-      const content = data.choices?.[0]?.message?.content || "";
-      // Parse JSON from response (may be wrapped in markdown code block)
-      const jsonStr = content.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
-      const parsed: AnalysisData = JSON.parse(jsonStr);
-      setAnalysisData(parsed);
+      // The function validates the model output against AnalysisData before returning it
+      const { analysis, prompt }: { analysis: AnalysisData; prompt: string } = await resp.json();
+      setCaseContext(prompt);
+      setAnalysisData(analysis);
     } catch (e) {
       console.error(e);
       toast({ title: "Analysis Error", description: e instanceof Error ? e.message : "Failed to analyze case", variant: "destructive" });
@@ -57,6 +69,8 @@ const Index = () => {
   };
 
   const sendChatMessage = async (input: string) => {
+    const token = accessToken();
+    if (!token) return;
     const userMsg: Message = { role: "user", content: input };
     const allMessages: Message[] = [...chatMessages, userMsg];
     setChatMessages(allMessages);
@@ -74,7 +88,7 @@ const Index = () => {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
           type: "chat",
@@ -6,13 +6,45 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
-import ReactMarkdown from "react-markdown";
 import CaseNotepad from "@/components/CaseNotepad";
 import AnalysisResults, { type AnalysisData } from "@/components/AnalysisResults";
 import DocumentModal from "@/components/DocumentModal";
+import CaseDocuments from "@/components/CaseDocuments";
+import DocumentGenerator from "@/components/DocumentGenerator";
+import ConcordancePanel from "@/components/ConcordancePanel";
+import WorkspaceSearch from "@/components/WorkspaceSearch";
+import CaseFilterBar from "@/components/CaseFilterBar";
+import CaseDetailsHeader from "@/components/CaseDetailsHeader";
+import CaseCalendar, { UpcomingAgenda } from "@/components/CaseCalendar";
+import CaseSharingDialog from "@/components/CaseSharingDialog";
+import { CitationProvider, CitedMarkdown } from "@/components/StatuteCitations";
+import AnalysisDiffModal, { type AnalysisVersion } from "@/components/AnalysisDiffModal";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { readEventStream } from "@/lib/sse";
+import { FunctionError, readFunctionError } from "@/lib/function-error";
+import { intakeColumns, intakeFromRow, intakeTitle, type CaseIntake } from "@/lib/case-intake";
+import { LANGUAGES, languageLabel } from "@/lib/languages";
+import type { SearchResult } from "@/lib/search";
+import { canSaveCaseMessage, roleAllows, roleLabel, sharedCasesFromRows, strongestRole, type CaseRole, type SharedCase } from "@/lib/case-sharing";
+import { firmCaseRole, invitationMessage, type FirmInvitation } from "@/lib/firms";
+import { istToday } from "@/lib/analytics";
+import { formatIsoDate } from "@/lib/case-calendar";
+import { blockMessage, lapsedBlock, parseBlock, renewalNotice, type SubscriptionBlock } from "@/lib/subscriptions";
+import {
+  activeFilterCount,
+  CASE_LIST_COLUMNS,
+  caseStatus,
+  filterCases,
+  groupCases,
+  localToday,
+  NO_FILTERS,
+  type CaseFilters,
+  type CaseGrouping,
+  type CaseSummary,
+} from "@/lib/case-metadata";
 import {
   Scale, LogOut, Plus, MessageSquare, Send, Loader2, Trash2, Pencil, Check, X,
-  Bot, Save, Menu, Briefcase, BookText,
+  Bot, Save, Menu, Briefcase, BookText, RefreshCw, GitCompare, ArrowLeftRight, Languages, SlidersHorizontal, CalendarDays, Share2, Users, Building2, CalendarClock, DoorOpen,
 } from "lucide-react";
 import {
   Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
@@ -20,13 +52,7 @@ import {
 
 const FUNC_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-case`;
 
-type ViewMode = "empty" | "general-chat" | "new-case" | "case-detail";
-
-interface CaseItem {
-  id: string;
-  title: string;
-  updated_at: string;
-}
+type ViewMode = "empty" | "general-chat" | "new-case" | "case-detail" | "calendar";
 
 interface ChatMessage {
   id?: string;
@@ -34,17 +60,34 @@ interface ChatMessage {
   content: string;
 }
 
+const fetchInvitations = async (userId: string): Promise<FirmInvitation[]> => {
+  const { data } = await supabase.from("firm_invitations").select("id, role, firm:firms(name)").eq("user_id", userId).order("created_at");
+  return data ?? [];
+};
+
 const UserDashboard = () => {
-  const { user, profile, loading, signOut, refreshProfile } = useAuth();
+  const { user, session, profile, subscription, firm, loading, signOut, refreshProfile } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const isMobile = useIsMobile();
 
   // View state
   const [view, setView] = useState<ViewMode>("empty");
-  const [cases, setCases] = useState<CaseItem[]>([]);
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [sharedCases, setSharedCases] = useState<SharedCase[]>([]);
+  // Other members' cases opened to the whole firm by its case visibility setting
+  const [firmCases, setFirmCases] = useState<CaseSummary[]>([]);
+  const [showSharing, setShowSharing] = useState(false);
+  const [showCaseFilters, setShowCaseFilters] = useState(false);
+  const [caseFilters, setCaseFilters] = useState<CaseFilters>(NO_FILTERS);
+  const [caseGrouping, setCaseGrouping] = useState<CaseGrouping>("none");
   const [activeCase, setActiveCase] = useState<string | null>(null);
   const [activeCaseAnalysis, setActiveCaseAnalysis] = useState<AnalysisData | null>(null);
+  const [activeCaseIntake, setActiveCaseIntake] = useState<CaseIntake | null>(null);
+  // NULL follows the user's preferred language
+  const [activeCaseLanguage, setActiveCaseLanguage] = useState<string | null>(null);
+  const [analysisVersions, setAnalysisVersions] = useState<AnalysisVersion[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
 
   // Case chat
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -58,18 +101,29 @@ const UserDashboard = () => {
 
   // Analysis
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [streamingAnalysis, setStreamingAnalysis] = useState<Partial<AnalysisData> | null>(null);
 
   // UI state
   const [editingCaseId, setEditingCaseId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState("");
   const [showBlockedDialog, setShowBlockedDialog] = useState(false);
-  const [showSubDialog, setShowSubDialog] = useState(false);
+  // Why the subscription dialog is open: a lapsed plan or the daily limit that was hit
+  const [subBlock, setSubBlock] = useState<SubscriptionBlock | null>(null);
+  const [renewalDismissed, setRenewalDismissed] = useState(false);
+  // Invitations to join a firm, shown until the user accepts or declines one
+  const [invitations, setInvitations] = useState<FirmInvitation[]>([]);
+  const [showConcordance, setShowConcordance] = useState(false);
   const [showDocModal, setShowDocModal] = useState(false);
   const [showSaveCaseDialog, setShowSaveCaseDialog] = useState(false);
+  const [showReanalyzeDialog, setShowReanalyzeDialog] = useState(false);
+  const [showVersionDiff, setShowVersionDiff] = useState(false);
   const [saveCaseTitle, setSaveCaseTitle] = useState("");
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
   const scrollRef = useRef<HTMLDivElement>(null);
+  // A message opened from search: scrolled to once its chat has loaded, then highlighted briefly
+  const scrollToMessageRef = useRef<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
   // Auth check
   useEffect(() => {
@@ -81,30 +135,101 @@ const UserDashboard = () => {
     if (profile && !profile.access_enabled) setShowBlockedDialog(true);
   }, [profile]);
 
-  // Load cases
+  // Load cases: own, shared and, when the firm opens them, other members'
+  const firmVisibility = firm?.firm.case_visibility;
   useEffect(() => {
-    if (user) loadCases();
-  }, [user]);
+    if (!user) return;
+    loadCases();
+    loadSharedCases();
+    if (firmCaseRole(firmVisibility)) loadFirmCases();
+    else setFirmCases([]);
+  }, [user, firmVisibility]);
 
   // Load general messages
   useEffect(() => {
     if (user) loadGeneralMessages();
   }, [user]);
 
-  // Auto-scroll
+  // Load firm invitations while the user is not in a firm
+  const inFirm = !!firm;
+  useEffect(() => {
+    if (user && !inFirm) fetchInvitations(user.id).then(setInvitations);
+    else setInvitations([]);
+  }, [user, inFirm]);
+
+  // Auto-scroll, or to the message opened from search
   useEffect(() => {
+    const target = scrollToMessageRef.current && document.getElementById(`message-${scrollToMessageRef.current}`);
+    if (target) {
+      scrollToMessageRef.current = null;
+      target.scrollIntoView({ block: "center", behavior: "smooth" });
+      return;
+    }
     scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: "smooth" });
   }, [messages, generalMessages]);
 
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 4000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   const loadCases = async () => {
     const { data } = await supabase
       .from("cases")
-      .select("id, title, updated_at")
+      .select(CASE_LIST_COLUMNS)
       .eq("user_id", user!.id)
       .order("updated_at", { ascending: false });
     if (data) setCases(data);
   };
 
+  const loadSharedCases = async () => {
+    const { data } = await supabase
+      .from("case_members")
+      .select(`role, cases(${CASE_LIST_COLUMNS})`)
+      .eq("user_id", user!.id);
+    if (data) setSharedCases(sharedCasesFromRows(data));
+  };
+
+  // Every readable case not owned by the user; explicitly shared ones are listed separately
+  const loadFirmCases = async () => {
+    const { data } = await supabase
+      .from("cases")
+      .select(CASE_LIST_COLUMNS)
+      .neq("user_id", user!.id)
+      .order("updated_at", { ascending: false });
+    if (data) setFirmCases(data);
+  };
+
+  const acceptInvitation = async (id: string) => {
+    const { error } = await supabase.rpc("accept_firm_invitation", { _invitation_id: id });
+    if (error) {
+      toast({ title: "Error", description: error.code === "22023" ? error.message : "Could not join the firm", variant: "destructive" });
+      return;
+    }
+    setInvitations([]);
+    await refreshProfile();
+  };
+
+  const declineInvitation = async (id: string) => {
+    const { error } = await supabase.from("firm_invitations").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error", description: "Could not decline the invitation", variant: "destructive" });
+      return;
+    }
+    setInvitations((prev) => prev.filter((i) => i.id !== id));
+  };
+
+  const leaveFirm = async () => {
+    const { error } = await supabase.from("firm_members").delete().eq("user_id", user!.id);
+    if (error) {
+      toast({ title: "Error", description: error.code === "22023" ? error.message : "Could not leave the firm", variant: "destructive" });
+      return;
+    }
+    await refreshProfile();
+    toast({ title: "Left firm", description: `You are no longer a member of ${firm?.firm.name ?? "the firm"}` });
+  };
+
   const loadGeneralMessages = async () => {
     const { data } = await (supabase as any)
       .from("general_messages")
@@ -129,25 +254,41 @@ const UserDashboard = () => {
     setEditingCaseId(null);
     if (isMobile) setSidebarOpen(false);
 
-    const { data: caseData } = await (supabase as any)
+    const { data: caseData } = await supabase
       .from("cases")
-      .select("analysis_data")
+      .select("analysis_data, intake, description, category, offence, language")
       .eq("id", caseId)
       .single();
 
-    setActiveCaseAnalysis(caseData?.analysis_data as AnalysisData | null);
-    await loadMessages(caseId);
+    setActiveCaseAnalysis(caseData?.analysis_data as unknown as AnalysisData | null);
+    setActiveCaseIntake(caseData ? intakeFromRow(caseData) : null);
+    setActiveCaseLanguage(caseData?.language ?? null);
+    setSelectedVersionId(null);
+    await Promise.all([loadMessages(caseId), loadAnalysisVersions(caseId)]);
+  };
+
+  const loadAnalysisVersions = async (caseId: string) => {
+    const { data } = await supabase
+      .from("analysis_versions")
+      .select("id, version, analysis_data, input_prompt, model, created_at")
+      .eq("case_id", caseId)
+      .order("version", { ascending: false });
+    setAnalysisVersions((data ?? []) as unknown as AnalysisVersion[]);
   };
 
   const handleNewCase = () => {
     setView("new-case");
     setActiveCase(null);
     setActiveCaseAnalysis(null);
+    setAnalysisVersions([]);
     setMessages([]);
     if (isMobile) setSidebarOpen(false);
   };
 
   const deleteCase = async (id: string) => {
+    // Document rows cascade with the case, but their files have to be removed from storage first
+    const { data: docs } = await supabase.from("case_documents").select("storage_path").eq("case_id", id);
+    if (docs?.length) await supabase.storage.from("case-documents").remove(docs.map((d) => d.storage_path));
     await supabase.from("cases").delete().eq("id", id);
     setCases((prev) => prev.filter((c) => c.id !== id));
     if (activeCase === id) {
@@ -158,6 +299,51 @@ const UserDashboard = () => {
     }
   };
 
+  const leaveSharedCase = (id: string) => {
+    setSharedCases((prev) => prev.filter((c) => c.id !== id));
+    if (activeCase === id) {
+      setActiveCase(null);
+      setView("empty");
+      setMessages([]);
+      setActiveCaseAnalysis(null);
+    }
+  };
+
+  // The default output language for new cases and for cases without their own
+  const changePreferredLanguage = async (language: string) => {
+    if (!user) return;
+    const { error } = await supabase.from("profiles").update({ preferred_language: language }).eq("user_id", user.id);
+    if (error) {
+      toast({ title: "Error", description: "Could not save the language preference", variant: "destructive" });
+      return;
+    }
+    await refreshProfile();
+  };
+
+  const changeCaseLanguage = async (value: string) => {
+    if (!activeCase) return;
+    const language = value === "default" ? null : value;
+    const { error } = await supabase.from("cases").update({ language }).eq("id", activeCase);
+    if (error) {
+      toast({ title: "Error", description: "Could not change the case language", variant: "destructive" });
+      return;
+    }
+    setActiveCaseLanguage(language);
+  };
+
+  const openSearchResult = async (result: SearchResult) => {
+    scrollToMessageRef.current = result.message_id;
+    setHighlightedMessageId(result.message_id);
+    if (result.case_id) {
+      await openCase(result.case_id);
+    } else {
+      setView("general-chat");
+      setActiveCase(null);
+      if (isMobile) setSidebarOpen(false);
+      await loadGeneralMessages();
+    }
+  };
+
   const renameCase = async (id: string) => {
     if (!editTitle.trim()) return;
     await supabase.from("cases").update({ title: editTitle.trim() }).eq("id", id);
@@ -165,42 +351,35 @@ const UserDashboard = () => {
     setEditingCaseId(null);
   };
 
-  const analyzeCase = async (description: string, category: string, offence: string) => {
+  // Server-side entitlement refusals open the matching dialog; anything else is a toast
+  const handleAiError = (e: unknown, title: string, fallback: string) => {
+    console.error(e);
+    if (e instanceof FunctionError && e.code === "access_disabled") { setShowBlockedDialog(true); return; }
+    if (e instanceof FunctionError && (e.code === "subscription_inactive" || e.code === "quota_exceeded")) {
+      setSubBlock(parseBlock(e.details) ?? (e.code === "quota_exceeded" ? { reason: "analysis" } : lapsedBlock(subscription)));
+      return;
+    }
+    const description = e instanceof FunctionError ? e.message : fallback;
+    toast({ title, description, variant: "destructive" });
+  };
+
+  const analyzeCase = async (intake: CaseIntake) => {
     await refreshProfile();
-    if (profile && !profile.subscription_active) { setShowSubDialog(true); return; }
+    if (profile && !profile.subscription_active) { setSubBlock(lapsedBlock(subscription)); return; }
     if (profile && !profile.access_enabled) { setShowBlockedDialog(true); return; }
 
     setIsAnalyzing(true);
-    const prompt = `Case Description: ${description}${category ? `\nCase Category: ${category}` : ""}${offence ? `\nOffence Type: ${offence}` : ""}`;
+    setStreamingAnalysis({});
 
     try {
-      const resp = await fetch(FUNC_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          type: "analyze",
-          messages: [{ role: "user", content: prompt }],
-        }),
+      const { analysis: parsed, model, prompt } = await streamAnalysis(intake, (field, value) => {
+        setStreamingAnalysis((prev) => ({ ...prev, [field]: value }));
       });
 
-      if (!resp.ok) {
-        const err = await resp.json();
-        throw new Error(err.error || "Analysis failed");
-      }
-
-      const data = await resp.json();
-      const content = data.choices?.[0]?.message?.content || "";
-      const jsonStr = content.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
-      const parsed: AnalysisData = JSON.parse(jsonStr);
-
-      const title = `${category || "Case"} - ${offence || "Analysis"}`;
-      const { data: newCase } = await (supabase as any)
+      const { data: newCase } = await supabase
         .from("cases")
-        .insert({ user_id: user!.id, title, analysis_data: parsed })
-        .select("id, title, updated_at")
+        .insert({ user_id: user!.id, title: intakeTitle(intake), intake, ...intakeColumns(intake), court: intake.court.name || null, analysis_data: parsed })
+        .select(CASE_LIST_COLUMNS)
         .single();
 
       if (newCase) {
@@ -208,71 +387,161 @@ const UserDashboard = () => {
           { case_id: newCase.id, role: "user", content: prompt },
           { case_id: newCase.id, role: "assistant", content: `Case analysis completed. You can now ask follow-up questions about this case.` },
         ]);
+        await supabase.from("analysis_versions").insert({ case_id: newCase.id, analysis_data: parsed, input_prompt: prompt, model });
 
         setCases((prev) => [newCase, ...prev]);
         setActiveCase(newCase.id);
         setActiveCaseAnalysis(parsed);
+        setActiveCaseIntake(intake);
+        setActiveCaseLanguage(null);
+        setSelectedVersionId(null);
         setView("case-detail");
-        await loadMessages(newCase.id);
+        await Promise.all([loadMessages(newCase.id), loadAnalysisVersions(newCase.id)]);
       }
     } catch (e) {
-      console.error(e);
-      toast({ title: "Analysis Error", description: e instanceof Error ? e.message : "Failed", variant: "destructive" });
+      handleAiError(e, "Analysis Error", "Failed to analyze case");
+    } finally {
+      setIsAnalyzing(false);
+      setStreamingAnalysis(null);
+    }
+  };
+
+  // Store an edited intake on the open case without re-running the analysis
+  const saveIntake = async (intake: CaseIntake) => {
+    if (!activeCase) return;
+    const { error } = await supabase
+      .from("cases")
+      .update({ intake, ...intakeColumns(intake) })
+      .eq("id", activeCase);
+    if (error) {
+      toast({ title: "Error", description: "Failed to save intake", variant: "destructive" });
+      return;
+    }
+    setActiveCaseIntake(intake);
+    setShowReanalyzeDialog(false);
+    toast({ title: "Intake Saved", description: "Re-analyze when you want the analysis to reflect the changes" });
+  };
+
+  // Re-run the analysis for the open case with the edited intake and store it as a new version
+  const reanalyzeCase = async (intake: CaseIntake) => {
+    if (!activeCase || isAnalyzing) return;
+
+    await refreshProfile();
+    if (profile && !profile.subscription_active) { setSubBlock(lapsedBlock(subscription)); return; }
+    if (profile && !profile.access_enabled) { setShowBlockedDialog(true); return; }
+
+    const caseId = activeCase;
+
+    setShowReanalyzeDialog(false);
+    setIsAnalyzing(true);
+    setStreamingAnalysis({});
+
+    try {
+      const { analysis, model, prompt } = await streamAnalysis(intake, (field, value) => {
+        setStreamingAnalysis((prev) => ({ ...prev, [field]: value }));
+      }, caseId);
+
+      const { error } = await supabase.from("analysis_versions").insert({ case_id: caseId, analysis_data: analysis, input_prompt: prompt, model });
+      if (error) throw error;
+      await supabase.from("cases").update({ intake, ...intakeColumns(intake) }).eq("id", caseId);
+
+      setActiveCaseAnalysis(analysis);
+      setActiveCaseIntake(intake);
+      setSelectedVersionId(null);
+      await loadAnalysisVersions(caseId);
+      loadCases();
+      toast({ title: "Analysis Updated", description: "A new analysis version has been saved" });
+    } catch (e) {
+      handleAiError(e, "Analysis Error", "Failed to re-analyze case");
     } finally {
       setIsAnalyzing(false);
+      setStreamingAnalysis(null);
     }
   };
 
+  // Streams analysis sections as they complete and resolves with the validated AnalysisData
+  // and the prompt the function built from the intake (plus the case's uploaded documents, if any)
+  const streamAnalysis = async (
+    intake: CaseIntake,
+    onSection: (field: keyof AnalysisData, value: unknown) => void,
+    caseId?: string,
+  ): Promise<{ analysis: AnalysisData; model: string | null; prompt: string }> => {
+    const resp = await fetch(FUNC_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session?.access_token}`,
+      },
+      body: JSON.stringify({
+        type: "analyze",
+        stream: true,
+        intake,
+        caseId,
+      }),
+    });
+
+    if (!resp.ok || !resp.body) throw await readFunctionError(resp, "Analysis failed");
+
+    let analysis: AnalysisData | null = null;
+    let model: string | null = null;
+    let prompt = "";
+    let failure: FunctionError | null = null;
+    await readEventStream(resp.body, (payload) => {
+      const event = payload as {
+        type: "section" | "done" | "error";
+        field?: keyof AnalysisData;
+        value?: unknown;
+        analysis?: AnalysisData;
+        model?: string;
+        prompt?: string;
+        error?: string;
+        code?: string;
+        fields?: { field: string; message: string }[];
+      };
+      if (event.type === "section") onSection(event.field!, event.value);
+      else if (event.type === "done") {
+        analysis = event.analysis!;
+        model = event.model ?? null;
+        prompt = event.prompt ?? "";
+      }
+      else if (event.type === "error") failure = new FunctionError(event.error || "Analysis failed", 422, event.code, event.fields);
+    });
+
+    if (failure) throw failure;
+    if (!analysis) throw new Error("Analysis stream ended unexpectedly");
+    return { analysis, model, prompt };
+  };
+
   // Stream helper
   const streamChat = async (
     allMsgs: ChatMessage[],
     onDelta: (content: string) => void,
+    caseId?: string,
   ): Promise<string> => {
+    // The function authenticates the session and loads case context under the user's RLS
     const resp = await fetch(FUNC_URL, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        Authorization: `Bearer ${session?.access_token}`,
       },
       body: JSON.stringify({
         type: "chat",
+        caseId,
         messages: allMsgs.map((m) => ({ role: m.role, content: m.content })),
       }),
     });
 
-    if (!resp.ok || !resp.body) throw new Error("Chat failed");
+    if (!resp.ok || !resp.body) throw await readFunctionError(resp, "Chat failed");
 
-    const reader = resp.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
     let assistantContent = "";
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
-
-      let idx: number;
-      while ((idx = buffer.indexOf("\n")) !== -1) {
-        let line = buffer.slice(0, idx);
-        buffer = buffer.slice(idx + 1);
-        if (line.endsWith("\r")) line = line.slice(0, -1);
-        if (!line.startsWith("data: ")) continue;
-        const jsonStr = line.slice(6).trim();
-        if (jsonStr === "[DONE]") break;
-        try {
-          const parsed = JSON.parse(jsonStr);
-          const delta = parsed.choices?.[0]?.delta?.content;
-          if (delta) {
-            assistantContent += delta;
-            onDelta(assistantContent);
-          }
-        } catch {
-          buffer = line + "\n" + buffer;
-          break;
-        }
+    await readEventStream(resp.body, (payload) => {
+      const delta = (payload as { choices?: { delta?: { content?: string } }[] }).choices?.[0]?.delta?.content;
+      if (delta) {
+        assistantContent += delta;
+        onDelta(assistantContent);
       }
-    }
+    });
 
     return assistantContent;
   };
@@ -290,7 +559,7 @@ const UserDashboard = () => {
     if (!previousAnswer) return;
 
     await refreshProfile();
-    if (profile && !profile.subscription_active) { setShowSubDialog(true); return; }
+    if (profile && !profile.subscription_active) { setSubBlock(lapsedBlock(subscription)); return; }
     if (profile && !profile.access_enabled) { setShowBlockedDialog(true); return; }
 
     const detailMsg: ChatMessage = { role: "user", content: "Explain in Detail" };
@@ -314,19 +583,21 @@ const UserDashboard = () => {
           }
           return [...prev, { role: "assistant", content }];
         });
-      });
+      }, chatType === "case" ? activeCase ?? undefined : undefined);
 
       if (assistantContent) {
         if (chatType === "case" && activeCase) {
-          await supabase.from("messages").insert({ case_id: activeCase, role: "assistant", content: assistantContent });
+          // A commenter sees the reply but only an owner or editor may save it to the shared chat
+          if (canSaveCaseMessage(activeCaseRole, "assistant")) {
+            await supabase.from("messages").insert({ case_id: activeCase, role: "assistant", content: assistantContent });
+          }
           await supabase.from("cases").update({ updated_at: new Date().toISOString() }).eq("id", activeCase);
         } else if (chatType === "general") {
           await (supabase as any).from("general_messages").insert({ user_id: user!.id, role: "assistant", content: assistantContent });
         }
       }
     } catch (e) {
-      console.error(e);
-      toast({ title: "Error", description: "Failed to get detailed response", variant: "destructive" });
+      handleAiError(e, "Error", "Failed to get detailed response");
     } finally {
       setSending(false);
     }
@@ -337,7 +608,7 @@ const UserDashboard = () => {
     if (!input.trim() || isSending || !activeCase) return;
 
     await refreshProfile();
-    if (profile && !profile.subscription_active) { setShowSubDialog(true); return; }
+    if (profile && !profile.subscription_active) { setSubBlock(lapsedBlock(subscription)); return; }
     if (profile && !profile.access_enabled) { setShowBlockedDialog(true); return; }
 
     const userMsg: ChatMessage = { role: "user", content: input.trim() };
@@ -357,16 +628,15 @@ const UserDashboard = () => {
           }
           return [...prev, { role: "assistant", content }];
         });
-      });
+      }, activeCase);
 
-      if (assistantContent) {
+      if (assistantContent && canSaveCaseMessage(activeCaseRole, "assistant")) {
         await supabase.from("messages").insert({ case_id: activeCase, role: "assistant", content: assistantContent });
       }
       await supabase.from("cases").update({ updated_at: new Date().toISOString() }).eq("id", activeCase);
       loadCases();
     } catch (e) {
-      console.error(e);
-      toast({ title: "Error", description: "Failed to get AI response", variant: "destructive" });
+      handleAiError(e, "Error", "Failed to get AI response");
     } finally {
       setIsSending(false);
     }
@@ -377,7 +647,7 @@ const UserDashboard = () => {
     if (!generalInput.trim() || isGeneralSending) return;
 
     await refreshProfile();
-    if (profile && !profile.subscription_active) { setShowSubDialog(true); return; }
+    if (profile && !profile.subscription_active) { setSubBlock(lapsedBlock(subscription)); return; }
     if (profile && !profile.access_enabled) { setShowBlockedDialog(true); return; }
 
     const userMsg: ChatMessage = { role: "user", content: generalInput.trim() };
@@ -403,8 +673,7 @@ const UserDashboard = () => {
         await (supabase as any).from("general_messages").insert({ user_id: user!.id, role: "assistant", content: assistantContent });
       }
     } catch (e) {
-      console.error(e);
-      toast({ title: "Error", description: "Failed to get AI response", variant: "destructive" });
+      handleAiError(e, "Error", "Failed to get AI response");
     } finally {
       setIsGeneralSending(false);
     }
@@ -417,7 +686,7 @@ const UserDashboard = () => {
     const { data: newCase } = await supabase
       .from("cases")
       .insert({ user_id: user!.id, title: saveCaseTitle.trim() })
-      .select("id, title, updated_at")
+      .select(CASE_LIST_COLUMNS)
       .single();
 
     if (newCase) {
@@ -445,8 +714,42 @@ const UserDashboard = () => {
     navigate("/auth");
   };
 
+  // A past version picked from the toolbar, otherwise the case's current analysis
+  const displayedAnalysis = analysisVersions.find((v) => v.id === selectedVersionId)?.analysis_data ?? activeCaseAnalysis;
+  const shownAnalysis: Partial<AnalysisData> = streamingAnalysis ?? displayedAnalysis ?? {};
+
+  // Everything on screen that may cite statutes, so the citations can be checked against the corpus
+  const citationTexts = [
+    ...(shownAnalysis.legalSections ?? []).flatMap((s) => [s.section, s.description]),
+    shownAnalysis.punishmentRange ?? "",
+    shownAnalysis.presentationStrategy ?? "",
+    ...(shownAnalysis.casePrecedents ?? []).map((c) => c.relevance),
+    shownAnalysis.courtDocument ?? "",
+    ...messages.map((m) => m.content),
+    ...generalMessages.map((m) => m.content),
+  ];
+
   if (loading) return <div className="min-h-screen bg-background flex items-center justify-center text-foreground">Loading...</div>;
 
+  const ownActiveCase = cases.find((c) => c.id === activeCase);
+  const sharedActiveCase = sharedCases.find((c) => c.id === activeCase);
+  const firmOnlyCases = firmCases.filter((c) => !sharedCases.some((s) => s.id === c.id));
+  const firmActiveCase = firmCases.find((c) => c.id === activeCase);
+  const activeCaseItem = ownActiveCase ?? sharedActiveCase ?? firmActiveCase;
+  // Controls the open case offers; RLS enforces the same roles on the server
+  const activeCaseRole: CaseRole = ownActiveCase
+    ? "owner"
+    : strongestRole(sharedActiveCase?.role, firmActiveCase ? firmCaseRole(firmVisibility) : null) ?? "viewer";
+  const canEditCase = roleAllows(activeCaseRole, "editor");
+  const canCommentCase = roleAllows(activeCaseRole, "commenter");
+  const updateActiveCaseItem = (patch: Partial<CaseSummary>) => {
+    setCases((prev) => prev.map((c) => (c.id === activeCase ? { ...c, ...patch } : c)));
+    setSharedCases((prev) => prev.map((c) => (c.id === activeCase ? { ...c, ...patch } : c)));
+    setFirmCases((prev) => prev.map((c) => (c.id === activeCase ? { ...c, ...patch } : c)));
+  };
+  const allCases = [...cases, ...sharedCases, ...firmOnlyCases];
+  const renewal = renewalNotice(subscription, istToday());
+
   // Chat message renderer with "Explain in Detail" button
   const renderMessages = (msgs: ChatMessage[], sending: boolean, chatType: "case" | "general") => (
     <>
@@ -456,22 +759,22 @@ const UserDashboard = () => {
         </div>
       )}
       {msgs.map((msg, i) => (
-        <div key={i}>
+        <div key={i} id={msg.id ? `message-${msg.id}` : undefined}>
           <div className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}>
-            <div className={`max-w-[75%] rounded-lg px-4 py-3 text-sm ${
+            <div className={`max-w-[75%] rounded-lg px-4 py-3 text-sm transition-shadow ${
               msg.role === "user"
                 ? "bg-primary text-primary-foreground"
                 : "bg-secondary text-secondary-foreground"
-            }`}>
+            } ${msg.id && msg.id === highlightedMessageId ? "ring-2 ring-gold-bright ring-offset-2 ring-offset-background" : ""}`}>
               {msg.role === "assistant" ? (
                 <div className="prose prose-sm prose-invert max-w-none">
-                  <ReactMarkdown>{msg.content}</ReactMarkdown>
+                  <CitedMarkdown>{msg.content}</CitedMarkdown>
                 </div>
               ) : msg.content}
             </div>
           </div>
           {/* Explain in Detail button after assistant messages */}
-          {msg.role === "assistant" && msg.content && !sending && msg.content !== "Explain in Detail" && (
+          {msg.role === "assistant" && msg.content && !sending && msg.content !== "Explain in Detail" && (chatType === "general" || canCommentCase) && (
             <div className="flex justify-start mt-1 ml-1">
               <button
                 onClick={() => handleExplainInDetail(i, chatType)}
@@ -496,6 +799,57 @@ const UserDashboard = () => {
   );
 
   // Sidebar content (shared between mobile overlay and desktop)
+  const renderCaseItem = (c: CaseSummary, key: string, sharedRole?: CaseRole) => (
+    <div
+      key={key}
+      className={`group flex items-center gap-2 rounded-lg px-3 py-2 cursor-pointer transition-colors ${
+        activeCase === c.id && view === "case-detail"
+          ? "bg-secondary border border-primary/30 gold-border-glow"
+          : "hover:bg-secondary/50"
+      }`}
+      onClick={() => openCase(c.id)}
+    >
+      <MessageSquare className="w-4 h-4 text-primary shrink-0" />
+      {editingCaseId === c.id ? (
+        <div className="flex items-center gap-1 flex-1 min-w-0">
+          <Input
+            value={editTitle}
+            onChange={(e) => setEditTitle(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && renameCase(c.id)}
+            className="h-6 text-xs bg-input border-border"
+            autoFocus
+            onClick={(e) => e.stopPropagation()}
+          />
+          <button onClick={(e) => { e.stopPropagation(); renameCase(c.id); }} className="text-primary"><Check className="w-3 h-3" /></button>
+          <button onClick={(e) => { e.stopPropagation(); setEditingCaseId(null); }} className="text-muted-foreground"><X className="w-3 h-3" /></button>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 min-w-0">
+            <span className="block text-sm text-foreground truncate">{c.title}</span>
+            <span className="flex items-center gap-1.5 text-[11px] text-muted-foreground truncate">
+              <span className={`rounded px-1 ${caseStatus(c.status).className}`}>{caseStatus(c.status).label}</span>
+              {c.next_hearing_date && <span>{new Date(`${c.next_hearing_date}T00:00:00`).toLocaleDateString()}</span>}
+              {c.client_name && <span className="truncate">{c.client_name}</span>}
+              {sharedRole && <span>{roleLabel(sharedRole)}</span>}
+            </span>
+          </div>
+          <div className={sharedRole ? "hidden" : "hidden group-hover:flex items-center gap-1"}>
+            <button onClick={(e) => { e.stopPropagation(); setEditingCaseId(c.id); setEditTitle(c.title); }} className="text-muted-foreground hover:text-primary">
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button onClick={(e) => { e.stopPropagation(); deleteCase(c.id); }} className="text-muted-foreground hover:text-destructive">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  const visibleCases = filterCases(cases, caseFilters);
+  const caseGroups = groupCases(visibleCases, caseGrouping, localToday());
+
   const sidebarContent = (
     <>
       <div className="p-4 space-y-2 border-b border-border">
@@ -509,272 +863,462 @@ const UserDashboard = () => {
         >
           <Bot className="w-4 h-4 mr-2" /> Legal Assistant
         </Button>
+        <Button
+          variant={view === "calendar" ? "secondary" : "outline"}
+          onClick={() => { setView("calendar"); setActiveCase(null); if (isMobile) setSidebarOpen(false); }}
+          className="w-full border-border text-muted-foreground hover:text-foreground"
+        >
+          <CalendarDays className="w-4 h-4 mr-2" /> Calendar
+        </Button>
       </div>
 
-      <div className="px-4 py-2 flex items-center gap-2">
-        <Briefcase className="w-4 h-4 text-muted-foreground" />
-        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Cases</span>
-      </div>
-
-      <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
-        {cases.length === 0 && (
-          <p className="text-center text-muted-foreground text-xs py-8">No cases yet</p>
-        )}
-        {cases.map((c) => (
-          <div
-            key={c.id}
-            className={`group flex items-center gap-2 rounded-lg px-3 py-2 cursor-pointer transition-colors ${
-              activeCase === c.id && view === "case-detail"
-                ? "bg-secondary border border-primary/30 gold-border-glow"
-                : "hover:bg-secondary/50"
-            }`}
-            onClick={() => openCase(c.id)}
+      <WorkspaceSearch onSelect={openSearchResult}>
+        <div className="px-4 py-2 flex items-center gap-2">
+          <Briefcase className="w-4 h-4 text-muted-foreground" />
+          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider flex-1">Cases</span>
+          <button
+            onClick={() => setShowCaseFilters(!showCaseFilters)}
+            className={`flex items-center gap-1 text-xs ${showCaseFilters || activeFilterCount(caseFilters) ? "text-primary" : "text-muted-foreground hover:text-foreground"}`}
+            title="Filter and group cases"
           >
-            <MessageSquare className="w-4 h-4 text-primary shrink-0" />
-            {editingCaseId === c.id ? (
-              <div className="flex items-center gap-1 flex-1 min-w-0">
-                <Input
-                  value={editTitle}
-                  onChange={(e) => setEditTitle(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && renameCase(c.id)}
-                  className="h-6 text-xs bg-input border-border"
-                  autoFocus
-                  onClick={(e) => e.stopPropagation()}
-                />
-                <button onClick={(e) => { e.stopPropagation(); renameCase(c.id); }} className="text-primary"><Check className="w-3 h-3" /></button>
-                <button onClick={(e) => { e.stopPropagation(); setEditingCaseId(null); }} className="text-muted-foreground"><X className="w-3 h-3" /></button>
-              </div>
-            ) : (
-              <>
-                <span className="text-sm text-foreground truncate flex-1">{c.title}</span>
-                <div className="hidden group-hover:flex items-center gap-1">
-                  <button onClick={(e) => { e.stopPropagation(); setEditingCaseId(c.id); setEditTitle(c.title); }} className="text-muted-foreground hover:text-primary">
-                    <Pencil className="w-3 h-3" />
-                  </button>
-                  <button onClick={(e) => { e.stopPropagation(); deleteCase(c.id); }} className="text-muted-foreground hover:text-destructive">
-                    <Trash2 className="w-3 h-3" />
-                  </button>
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+            {activeFilterCount(caseFilters) > 0 && activeFilterCount(caseFilters)}
+          </button>
+        </div>
+        {showCaseFilters && (
+          <CaseFilterBar
+            cases={cases}
+            filters={caseFilters}
+            onFiltersChange={setCaseFilters}
+            grouping={caseGrouping}
+            onGroupingChange={setCaseGrouping}
+          />
+        )}
+
+        <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+          {cases.length === 0 && (
+            <p className="text-center text-muted-foreground text-xs py-8">No cases yet</p>
+          )}
+          {cases.length > 0 && visibleCases.length === 0 && (
+            <p className="text-center text-muted-foreground text-xs py-8">No cases match the filters</p>
+          )}
+          {caseGroups.map((group) => (
+            <div key={group.key} className="space-y-1">
+              {group.label && (
+                <div className="px-3 pt-2 text-[11px] font-medium text-muted-foreground uppercase tracking-wider">
+                  {group.label} <span className="text-muted-foreground/60">{group.cases.length}</span>
                 </div>
-              </>
-            )}
-          </div>
-        ))}
-      </div>
+              )}
+              {group.cases.map((c) => renderCaseItem(c, `${group.key}-${c.id}`))}
+            </div>
+          ))}
+
+          {sharedCases.length > 0 && (
+            <div className="space-y-1 pt-3">
+              <div className="px-3 pt-2 flex items-center gap-2 text-[11px] font-medium text-muted-foreground uppercase tracking-wider">
+                <Users className="w-3.5 h-3.5" /> Shared with me <span className="text-muted-foreground/60">{sharedCases.length}</span>
+              </div>
+              {sharedCases.map((c) => renderCaseItem(c, `shared-${c.id}`, c.role))}
+            </div>
+          )}
+
+          {firmOnlyCases.length > 0 && (
+            <div className="space-y-1 pt-3">
+              <div className="px-3 pt-2 flex items-center gap-2 text-[11px] font-medium text-muted-foreground uppercase tracking-wider">
+                <Building2 className="w-3.5 h-3.5" /> {firm?.firm.name} <span className="text-muted-foreground/60">{firmOnlyCases.length}</span>
+              </div>
+              {firmOnlyCases.map((c) => renderCaseItem(c, `firm-${c.id}`, firmCaseRole(firmVisibility) ?? "viewer"))}
+            </div>
+          )}
+        </div>
+      </WorkspaceSearch>
     </>
   );
 
   return (
-    <div className="min-h-screen bg-background flex flex-col">
-      {/* Header */}
-      <header className="border-b border-border px-4 md:px-6 py-3 flex items-center justify-between shrink-0">
-        <div className="flex items-center gap-3">
-          {isMobile && (
-            <button onClick={() => setSidebarOpen(!sidebarOpen)} className="text-muted-foreground hover:text-foreground">
-              <Menu className="w-5 h-5" />
-            </button>
+    <CitationProvider texts={citationTexts}>
+      <div className="min-h-screen bg-background flex flex-col">
+        {/* Header */}
+        <header className="border-b border-border px-4 md:px-6 py-3 flex items-center justify-between shrink-0">
+          <div className="flex items-center gap-3">
+            {isMobile && (
+              <button onClick={() => setSidebarOpen(!sidebarOpen)} className="text-muted-foreground hover:text-foreground">
+                <Menu className="w-5 h-5" />
+              </button>
+            )}
+            <Scale className="w-6 h-6 text-primary" />
+            <h1 className="text-base md:text-lg font-serif font-bold text-foreground">Legal Intelligence Workspace</h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-muted-foreground hidden sm:inline">{profile?.name || "User"}</span>
+            <Select value={profile?.preferred_language ?? "en"} onValueChange={changePreferredLanguage}>
+              <SelectTrigger className="w-auto h-8 gap-1 bg-transparent border-border text-muted-foreground text-xs" title="Default output language">
+                <Languages className="w-4 h-4" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {LANGUAGES.map((l) => (
+                  <SelectItem key={l.code} value={l.code}>{l.label} · {l.native}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {firm?.role === "admin" && (
+              <Button variant="outline" size="sm" onClick={() => navigate("/admin")} className="border-border text-muted-foreground hover:text-foreground">
+                <Building2 className="w-4 h-4 mr-1" /> <span className="hidden sm:inline">Firm Admin</span>
+              </Button>
+            )}
+            {firm && (
+              <Button variant="outline" size="sm" onClick={leaveFirm} title={`Leave ${firm.firm.name}`} className="border-border text-muted-foreground hover:text-foreground">
+                <DoorOpen className="w-4 h-4 mr-1" /> <span className="hidden sm:inline">Leave Firm</span>
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setShowConcordance(true)} className="border-border text-muted-foreground hover:text-foreground">
+              <ArrowLeftRight className="w-4 h-4 mr-1" /> <span className="hidden sm:inline">IPC ⇄ BNS</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleSignOut} className="border-border text-muted-foreground hover:text-foreground">
+              <LogOut className="w-4 h-4 mr-1" /> <span className="hidden sm:inline">Sign Out</span>
+            </Button>
+          </div>
+        </header>
+
+        <div className="flex flex-1 overflow-hidden relative">
+          {/* Mobile sidebar overlay */}
+          {isMobile && sidebarOpen && (
+            <div className="fixed inset-0 z-40 flex" onClick={() => setSidebarOpen(false)}>
+              <div className="absolute inset-0 bg-background/80 backdrop-blur-sm" />
+              <aside
+                className="relative w-72 bg-card border-r border-border flex flex-col z-50 animate-in slide-in-from-left duration-200"
+                onClick={(e) => e.stopPropagation()}
+              >
+                {sidebarContent}
+              </aside>
+            </div>
           )}
-          <Scale className="w-6 h-6 text-primary" />
-          <h1 className="text-base md:text-lg font-serif font-bold text-foreground">Legal Intelligence Workspace</h1>
-        </div>
-        <div className="flex items-center gap-3">
-          <span className="text-xs text-muted-foreground hidden sm:inline">{profile?.name || "User"}</span>
-          <Button variant="outline" size="sm" onClick={handleSignOut} className="border-border text-muted-foreground hover:text-foreground">
-            <LogOut className="w-4 h-4 mr-1" /> <span className="hidden sm:inline">Sign Out</span>
-          </Button>
-        </div>
-      </header>
-
-      <div className="flex flex-1 overflow-hidden relative">
-        {/* Mobile sidebar overlay */}
-        {isMobile && sidebarOpen && (
-          <div className="fixed inset-0 z-40 flex" onClick={() => setSidebarOpen(false)}>
-            <div className="absolute inset-0 bg-background/80 backdrop-blur-sm" />
-            <aside
-              className="relative w-72 bg-card border-r border-border flex flex-col z-50 animate-in slide-in-from-left duration-200"
-              onClick={(e) => e.stopPropagation()}
-            >
+
+          {/* Desktop sidebar */}
+          {!isMobile && (
+            <aside className="w-72 border-r border-border bg-card flex flex-col shrink-0">
               {sidebarContent}
             </aside>
-          </div>
-        )}
+          )}
 
-        {/* Desktop sidebar */}
-        {!isMobile && (
-          <aside className="w-72 border-r border-border bg-card flex flex-col shrink-0">
-            {sidebarContent}
-          </aside>
-        )}
+          {/* Main content */}
+          <main className="flex-1 flex flex-col overflow-hidden">
+            {/* Renewal banner */}
+            {renewal && !renewalDismissed && (
+              <div className="shrink-0 border-b border-border bg-primary/10 px-4 py-2 flex items-center gap-2 text-sm">
+                <CalendarClock className="w-4 h-4 text-primary shrink-0" />
+                <span className="flex-1 text-foreground">
+                  Your {renewal.plan ?? "current"} plan ends {renewal.days === 1 ? "today" : `in ${renewal.days} days`} ({formatIsoDate(renewal.endsOn)}). Contact your administrator to renew.
+                </span>
+                <button onClick={() => setRenewalDismissed(true)} className="text-muted-foreground hover:text-foreground" title="Dismiss">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            {/* Firm invitation banners */}
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="shrink-0 border-b border-border bg-primary/10 px-4 py-2 flex items-center gap-2 text-sm">
+                <Building2 className="w-4 h-4 text-primary shrink-0" />
+                <span className="flex-1 text-foreground">
+                  {invitationMessage(invitation)} The firm's admins will then manage your account, and your cases may be visible to its members.
+                </span>
+                <Button size="sm" onClick={() => acceptInvitation(invitation.id)} className="h-7 bg-primary text-primary-foreground hover:bg-gold-bright">
+                  Accept
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => declineInvitation(invitation.id)} className="h-7 border-border text-muted-foreground hover:text-foreground">
+                  Decline
+                </Button>
+              </div>
+            ))}
+            {/* Empty state */}
+            {view === "empty" && (
+              <div className="flex-1 flex items-center justify-center overflow-y-auto p-4">
+                <div className="text-center space-y-3 flex flex-col items-center">
+                  <Scale className="w-12 h-12 text-primary/30 mx-auto" />
+                  <p className="text-muted-foreground text-sm">Select a case, start a new one, or open Legal Assistant</p>
+                  <UpcomingAgenda cases={allCases} onOpenCase={openCase} onOpenCalendar={() => setView("calendar")} />
+                </div>
+              </div>
+            )}
 
-        {/* Main content */}
-        <main className="flex-1 flex flex-col overflow-hidden">
-          {/* Empty state */}
-          {view === "empty" && (
-            <div className="flex-1 flex items-center justify-center">
-              <div className="text-center space-y-3">
-                <Scale className="w-12 h-12 text-primary/30 mx-auto" />
-                <p className="text-muted-foreground text-sm">Select a case, start a new one, or open Legal Assistant</p>
+            {/* Calendar view */}
+            {view === "calendar" && <CaseCalendar cases={allCases} onOpenCase={openCase} />}
+
+            {/* New Case view */}
+            {view === "new-case" && (
+              <div className="flex-1 overflow-y-auto p-4 md:p-6">
+                <CaseNotepad onAnalyze={analyzeCase} isLoading={isAnalyzing} />
+                {isAnalyzing && (
+                  <div className="text-center py-6">
+                    <div className="inline-flex items-center gap-3 text-primary">
+                      <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                      <span className="font-medium">Analyzing case with AI...</span>
+                    </div>
+                  </div>
+                )}
+                {streamingAnalysis && (
+                  <AnalysisResults data={streamingAnalysis} onViewDocument={() => setShowDocModal(true)} />
+                )}
               </div>
-            </div>
-          )}
+            )}
 
-          {/* New Case view */}
-          {view === "new-case" && (
-            <div className="flex-1 overflow-y-auto p-4 md:p-6">
-              <CaseNotepad onAnalyze={analyzeCase} isLoading={isAnalyzing} />
-              {isAnalyzing && (
-                <div className="text-center py-12">
-                  <div className="inline-flex items-center gap-3 text-primary">
-                    <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-                    <span className="font-medium">Analyzing case with AI...</span>
+            {/* Case detail view */}
+            {view === "case-detail" && activeCase && (
+              <div className="flex-1 overflow-y-auto">
+                {/* Case toolbar: status and details, output language and analysis versions */}
+                <div className="px-4 md:px-6 pt-4 flex flex-wrap items-center gap-2">
+                  {activeCaseItem && <CaseDetailsHeader caseItem={activeCaseItem} onUpdated={updateActiveCaseItem} readOnly={!canEditCase} />}
+                  <Button variant="outline" size="sm" onClick={() => setShowSharing(true)} className="border-border text-muted-foreground hover:text-foreground">
+                    {activeCaseRole === "owner" ? <Share2 className="w-3 h-3 mr-1" /> : <Users className="w-3 h-3 mr-1" />}
+                    {activeCaseRole === "owner" ? "Share" : roleLabel(activeCaseRole)}
+                  </Button>
+                  <Select value={activeCaseLanguage ?? "default"} onValueChange={changeCaseLanguage} disabled={!canEditCase}>
+                    <SelectTrigger className="w-[200px] h-8 bg-input border-border text-foreground text-xs" title="Language of this case's analysis, chat and documents">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border">
+                      <SelectItem value="default">Default language ({languageLabel(profile?.preferred_language)})</SelectItem>
+                      {LANGUAGES.map((l) => (
+                        <SelectItem key={l.code} value={l.code}>{l.label} · {l.native}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {(activeCaseAnalysis || analysisVersions.length > 0) && (
+                    <>
+                      {analysisVersions.length > 0 && (
+                        <Select value={selectedVersionId ?? analysisVersions[0].id} onValueChange={setSelectedVersionId}>
+                          <SelectTrigger className="w-[220px] h-8 bg-input border-border text-foreground text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-card border-border">
+                            {analysisVersions.map((v, i) => (
+                              <SelectItem key={v.id} value={v.id}>
+                                Version {v.version}{i === 0 ? " (latest)" : ""} · {new Date(v.created_at).toLocaleDateString()}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {canEditCase && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isAnalyzing}
+                          onClick={() => setShowReanalyzeDialog(true)}
+                          className="border-border text-muted-foreground hover:text-foreground"
+                        >
+                          {isAnalyzing ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RefreshCw className="w-3 h-3 mr-1" />} Re-analyze
+                        </Button>
+                      )}
+                      {analysisVersions.length > 1 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setShowVersionDiff(true)}
+                          className="border-border text-muted-foreground hover:text-foreground"
+                        >
+                          <GitCompare className="w-3 h-3 mr-1" /> Compare Versions
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+                {/* Uploaded source documents and documents drafted from the case */}
+                <div className="px-4 md:px-6 pt-4 space-y-4">
+                  <CaseDocuments caseId={activeCase} readOnly={!canEditCase} onLimitReached={setSubBlock} />
+                  <DocumentGenerator
+                    caseId={activeCase}
+                    intake={activeCaseIntake}
+                    caseTitle={activeCaseItem?.title}
+                    onError={(e) => handleAiError(e, "Generation Failed", "Failed to generate the document")}
+                    readOnly={!canEditCase}
+                  />
+                </div>
+                {/* Analysis outputs — stacked, scrolls with page */}
+                {(streamingAnalysis || displayedAnalysis) && (
+                  <div className="p-4 md:p-6">
+                    <AnalysisResults data={streamingAnalysis ?? displayedAnalysis} onViewDocument={() => setShowDocModal(true)} />
+                  </div>
+                )}
+                {/* Full-width chatbot block with internal scroll */}
+                <div className="border-t border-border flex flex-col" style={{ height: "60vh", minHeight: "400px" }}>
+                  <div className="px-4 md:px-6 py-2 border-b border-border shrink-0">
+                    <div className="flex items-center gap-2">
+                      <Bot className="w-4 h-4 text-primary" />
+                      <span className="text-sm font-medium text-foreground">Case Chat</span>
+                    </div>
+                  </div>
+                  <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4">
+                    {renderMessages(messages, isSending, "case")}
+                  </div>
+                  <div className="border-t border-border p-3 md:p-4 flex gap-2 shrink-0">
+                    <Input
+                      placeholder={canCommentCase ? "Continue your legal consultation..." : "You have view-only access to this case"}
+                      disabled={!canCommentCase}
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleCaseSend()}
+                      className="bg-input border-border text-foreground placeholder:text-muted-foreground"
+                    />
+                    <Button onClick={handleCaseSend} disabled={!input.trim() || isSending || !canCommentCase} size="icon" className="bg-primary text-primary-foreground hover:bg-gold-bright shrink-0">
+                      <Send className="w-4 h-4" />
+                    </Button>
                   </div>
                 </div>
-              )}
-            </div>
-          )}
+              </div>
+            )}
 
-          {/* Case detail view */}
-          {view === "case-detail" && activeCase && (
-            <div className="flex-1 overflow-y-auto">
-              {/* Analysis outputs — stacked, scrolls with page */}
-              {activeCaseAnalysis && (
-                <div className="p-4 md:p-6">
-                  <AnalysisResults data={activeCaseAnalysis} onViewDocument={() => setShowDocModal(true)} />
-                </div>
-              )}
-              {/* Full-width chatbot block with internal scroll */}
-              <div className="border-t border-border flex flex-col" style={{ height: "60vh", minHeight: "400px" }}>
-                <div className="px-4 md:px-6 py-2 border-b border-border shrink-0">
+            {/* General chat view */}
+            {view === "general-chat" && (
+              <>
+                <div className="border-b border-border px-4 md:px-6 py-2 flex items-center justify-between shrink-0">
                   <div className="flex items-center gap-2">
                     <Bot className="w-4 h-4 text-primary" />
-                    <span className="text-sm font-medium text-foreground">Case Chat</span>
+                    <span className="text-sm font-medium text-foreground">Legal Assistant</span>
                   </div>
+                  {generalMessages.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => { setShowSaveCaseDialog(true); setSaveCaseTitle(""); }}
+                      className="border-border text-muted-foreground hover:text-foreground"
+                    >
+                      <Save className="w-3 h-3 mr-1" /> Save as Case
+                    </Button>
+                  )}
                 </div>
                 <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4">
-                  {renderMessages(messages, isSending, "case")}
+                  {renderMessages(generalMessages, isGeneralSending, "general")}
                 </div>
                 <div className="border-t border-border p-3 md:p-4 flex gap-2 shrink-0">
                   <Input
-                    placeholder="Continue your legal consultation..."
-                    value={input}
-                    onChange={(e) => setInput(e.target.value)}
-                    onKeyDown={(e) => e.key === "Enter" && handleCaseSend()}
+                    placeholder="Ask any legal question..."
+                    value={generalInput}
+                    onChange={(e) => setGeneralInput(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleGeneralSend()}
                     className="bg-input border-border text-foreground placeholder:text-muted-foreground"
                   />
-                  <Button onClick={handleCaseSend} disabled={!input.trim() || isSending} size="icon" className="bg-primary text-primary-foreground hover:bg-gold-bright shrink-0">
+                  <Button onClick={handleGeneralSend} disabled={!generalInput.trim() || isGeneralSending} size="icon" className="bg-primary text-primary-foreground hover:bg-gold-bright shrink-0">
                     <Send className="w-4 h-4" />
                   </Button>
                 </div>
-              </div>
-            </div>
-          )}
-
-          {/* General chat view */}
-          {view === "general-chat" && (
-            <>
-              <div className="border-b border-border px-4 md:px-6 py-2 flex items-center justify-between shrink-0">
-                <div className="flex items-center gap-2">
-                  <Bot className="w-4 h-4 text-primary" />
-                  <span className="text-sm font-medium text-foreground">Legal Assistant</span>
-                </div>
-                {generalMessages.length > 0 && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => { setShowSaveCaseDialog(true); setSaveCaseTitle(""); }}
-                    className="border-border text-muted-foreground hover:text-foreground"
-                  >
-                    <Save className="w-3 h-3 mr-1" /> Save as Case
-                  </Button>
-                )}
-              </div>
-              <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4">
-                {renderMessages(generalMessages, isGeneralSending, "general")}
-              </div>
-              <div className="border-t border-border p-3 md:p-4 flex gap-2 shrink-0">
-                <Input
-                  placeholder="Ask any legal question..."
-                  value={generalInput}
-                  onChange={(e) => setGeneralInput(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && handleGeneralSend()}
-                  className="bg-input border-border text-foreground placeholder:text-muted-foreground"
-                />
-                <Button onClick={handleGeneralSend} disabled={!generalInput.trim() || isGeneralSending} size="icon" className="bg-primary text-primary-foreground hover:bg-gold-bright shrink-0">
-                  <Send className="w-4 h-4" />
-                </Button>
-              </div>
-            </>
-          )}
-        </main>
-      </div>
+              </>
+            )}
+          </main>
+        </div>
 
-      {/* Document Modal */}
-      {activeCaseAnalysis && (
-        <DocumentModal
-          open={showDocModal}
-          onClose={() => setShowDocModal(false)}
-          document={activeCaseAnalysis.courtDocument}
-        />
-      )}
+        {/* Document Modal */}
+        {(streamingAnalysis?.courtDocument || displayedAnalysis?.courtDocument) && (
+          <DocumentModal
+            open={showDocModal}
+            onClose={() => setShowDocModal(false)}
+            document={streamingAnalysis?.courtDocument ?? displayedAnalysis.courtDocument}
+            intake={activeCaseIntake}
+            title={activeCaseItem?.title}
+            caseId={canEditCase && !streamingAnalysis && (!selectedVersionId || selectedVersionId === analysisVersions[0]?.id) ? activeCase : null}
+            analysisVersionId={analysisVersions[0]?.id ?? null}
+          />
+        )}
 
-      {/* Save as Case Dialog */}
-      <Dialog open={showSaveCaseDialog} onOpenChange={setShowSaveCaseDialog}>
-        <DialogContent className="bg-card border-border text-foreground">
-          <DialogHeader>
-            <DialogTitle className="text-primary font-serif">Save as Case</DialogTitle>
-            <DialogDescription className="text-muted-foreground">
-              Enter a title for this case to save the conversation.
-            </DialogDescription>
-          </DialogHeader>
-          <Input
-            placeholder="Case title..."
-            value={saveCaseTitle}
-            onChange={(e) => setSaveCaseTitle(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && handleSaveAsCase()}
-            className="bg-input border-border text-foreground"
+        {/* Case Sharing Dialog */}
+        {activeCase && (
+          <CaseSharingDialog
+            caseId={activeCase}
+            caseTitle={activeCaseItem?.title}
+            role={activeCaseRole}
+            open={showSharing}
+            onOpenChange={setShowSharing}
+            onLeft={() => leaveSharedCase(activeCase)}
           />
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowSaveCaseDialog(false)} className="border-border">Cancel</Button>
-            <Button onClick={handleSaveAsCase} disabled={!saveCaseTitle.trim()} className="bg-primary text-primary-foreground hover:bg-gold-bright">
-              Save
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
-      {/* Access Blocked Dialog */}
-      <Dialog open={showBlockedDialog} onOpenChange={() => {}}>
-        <DialogContent className="bg-card border-border text-foreground">
-          <DialogHeader>
-            <DialogTitle className="text-destructive font-serif">Access Disabled</DialogTitle>
-            <DialogDescription className="text-muted-foreground">
-              Your access has been disabled by admin. Please contact your administrator for assistance.
-            </DialogDescription>
-          </DialogHeader>
-          <DialogFooter>
-            <Button onClick={handleSignOut} className="bg-primary text-primary-foreground hover:bg-gold-bright">Sign Out</Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
-      {/* Subscription Expired Dialog */}
-      <Dialog open={showSubDialog} onOpenChange={setShowSubDialog}>
-        <DialogContent className="bg-card border-border text-foreground">
-          <DialogHeader>
-            <DialogTitle className="text-primary font-serif">Subscription Expired</DialogTitle>
-            <DialogDescription className="text-muted-foreground">
-              Your subscription has expired. Please renew to continue using AI features. You can still view your existing cases and chat history.
-            </DialogDescription>
-          </DialogHeader>
-          <DialogFooter>
-            <Button onClick={() => setShowSubDialog(false)} variant="outline" className="border-border">Close</Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-      {/* Footer branding */}
-      <div className="shrink-0 py-2 text-center">
-        <span className="text-[10px] text-muted-foreground/50">Built by Puru</span>
+        )}
+
+        {/* Version Comparison */}
+        <AnalysisDiffModal open={showVersionDiff} onClose={() => setShowVersionDiff(false)} versions={analysisVersions} />
+
+        {/* Re-analyze Dialog */}
+        <Dialog open={showReanalyzeDialog} onOpenChange={setShowReanalyzeDialog}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-card border-border text-foreground">
+            <DialogHeader>
+              <DialogTitle className="text-primary font-serif">Edit Intake & Re-analyze</DialogTitle>
+              <DialogDescription className="text-muted-foreground">
+                Update the intake and run a fresh analysis. The previous result is kept as an earlier version.
+              </DialogDescription>
+            </DialogHeader>
+            {showReanalyzeDialog && activeCaseIntake && (
+              <CaseNotepad
+                initialIntake={activeCaseIntake}
+                onAnalyze={reanalyzeCase}
+                onSave={saveIntake}
+                isLoading={isAnalyzing}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Section Concordance Dialog */}
+        <ConcordancePanel open={showConcordance} onClose={() => setShowConcordance(false)} />
+
+        {/* Save as Case Dialog */}
+        <Dialog open={showSaveCaseDialog} onOpenChange={setShowSaveCaseDialog}>
+          <DialogContent className="bg-card border-border text-foreground">
+            <DialogHeader>
+              <DialogTitle className="text-primary font-serif">Save as Case</DialogTitle>
+              <DialogDescription className="text-muted-foreground">
+                Enter a title for this case to save the conversation.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              placeholder="Case title..."
+              value={saveCaseTitle}
+              onChange={(e) => setSaveCaseTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveAsCase()}
+              className="bg-input border-border text-foreground"
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowSaveCaseDialog(false)} className="border-border">Cancel</Button>
+              <Button onClick={handleSaveAsCase} disabled={!saveCaseTitle.trim()} className="bg-primary text-primary-foreground hover:bg-gold-bright">
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Access Blocked Dialog */}
+        <Dialog open={showBlockedDialog} onOpenChange={() => {}}>
+          <DialogContent className="bg-card border-border text-foreground">
+            <DialogHeader>
+              <DialogTitle className="text-destructive font-serif">Access Disabled</DialogTitle>
+              <DialogDescription className="text-muted-foreground">
+                Your access has been disabled by admin. Please contact your administrator for assistance.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button onClick={handleSignOut} className="bg-primary text-primary-foreground hover:bg-gold-bright">Sign Out</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Subscription Dialog: a lapsed plan or the daily limit that was hit */}
+        <Dialog open={!!subBlock} onOpenChange={(open) => !open && setSubBlock(null)}>
+          <DialogContent className="bg-card border-border text-foreground">
+            <DialogHeader>
+              <DialogTitle className="text-primary font-serif">{subBlock && blockMessage(subBlock, formatIsoDate).title}</DialogTitle>
+              <DialogDescription className="text-muted-foreground">
+                {subBlock && blockMessage(subBlock, formatIsoDate).description}
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button onClick={() => setSubBlock(null)} variant="outline" className="border-border">Close</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+        {/* Footer branding */}
+        <div className="shrink-0 py-2 text-center">
+          <span className="text-[10px] text-muted-foreground/50">Built by Puru</span>
+        </div>
       </div>
-    </div>
+    </CitationProvider>
   );
 };
 
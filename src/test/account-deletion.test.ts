@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { archiveFileName, daysUntilPurge } from "@/lib/account-deletion";
+import { buildAccountArchive, CASE_TABLES, type CaseRecordKey } from "../../supabase/functions/_shared/account-archive.ts";
+
+const noRecords = () => Object.fromEntries(Object.keys(CASE_TABLES).map((key) => [key, []])) as Record<CaseRecordKey, Record<string, unknown>[]>;
+
+describe("account archive", () => {
+  it("nests each case's records under it in the order they were made", () => {
+    const caseRecords = noRecords();
+    caseRecords.messages = [
+      { id: "m2", case_id: "c1", created_at: "2026-04-02T10:00:00Z" },
+      { id: "m1", case_id: "c1", created_at: "2026-04-01T10:00:00Z" },
+      { id: "m3", case_id: "c2", created_at: "2026-04-03T10:00:00Z" },
+    ];
+    caseRecords.statusHistory = [{ id: "s1", case_id: "c2", changed_at: "2026-04-05T00:00:00Z" }];
+
+    const archive = buildAccountArchive(
+      "user-1",
+      {
+        profile: { name: "Asha" },
+        subscription: null,
+        cases: [
+          { id: "c2", created_at: "2026-04-03T00:00:00Z" },
+          { id: "c1", created_at: "2026-04-01T00:00:00Z" },
+        ],
+        caseRecords,
+        generalMessages: [],
+      },
+      new Date("2026-04-20T00:00:00Z"),
+    );
+
+    expect(archive.exportedAt).toBe("2026-04-20T00:00:00.000Z");
+    expect(archive.cases.map((c) => c.id)).toEqual(["c1", "c2"]);
+    expect(archive.cases[0].messages.map((m) => m.id)).toEqual(["m1", "m2"]);
+    expect(archive.cases[1].statusHistory).toHaveLength(1);
+    expect(archive.cases[1].analyses).toEqual([]);
+  });
+});
+
+describe("deletion helpers", () => {
+  it("counts whole days left in the grace period", () => {
+    const now = new Date("2026-04-20T12:00:00Z");
+    expect(daysUntilPurge({ purge_after: "2026-05-20T12:00:00Z" }, now)).toBe(30);
+    expect(daysUntilPurge({ purge_after: "2026-04-20T18:00:00Z" }, now)).toBe(1);
+    expect(daysUntilPurge({ purge_after: "2026-04-19T00:00:00Z" }, now)).toBe(0);
+  });
+
+  it("names the archive after the username, falling back to the id", () => {
+    const at = new Date("2026-04-20T00:00:00Z");
+    expect(archiveFileName("asha@example.com", "user-1", at)).toBe("asha-example.com-2026-04-20.json");
+    expect(archiveFileName("", "user-1", at)).toBe("user-1-2026-04-20.json");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  createMockProvider,
+  createOpenAiCompatibleProvider,
+  loadProviderConfig,
+  ProviderError,
+} from "../../supabase/functions/_shared/ai-provider.ts";
+import { validateAnalysis } from "../../supabase/functions/_shared/analysis.ts";
+import { readCompletionDeltas } from "../../supabase/functions/_shared/sse.ts";
+
+const envFrom = (vars: Record<string, string>) => (name: string) => vars[name];
+
+describe("loadProviderConfig", () => {
+  it("prefers per-kind overrides over shared settings", () => {
+    const env = envFrom({ AI_BASE_URL: "http://localhost:11434/v1/", AI_MODEL: "llama3", AI_CHAT_MODEL: "qwen", AI_CHAT_TEMPERATURE: "0.2" });
+
+    expect(loadProviderConfig("chat", env)).toEqual({
+      baseUrl: "http://localhost:11434/v1",
+      apiKey: null,
+      model: "qwen",
+      temperature: 0.2,
+      timeoutMs: 60_000,
+    });
+    expect(loadProviderConfig("analyze", env).model).toBe("llama3");
+  });
+
+  it("requires a key for the default gateway", () => {
+    expect(() => loadProviderConfig("analyze", envFrom({}))).toThrow("LOVABLE_API_KEY is not configured");
+    expect(loadProviderConfig("analyze", envFrom({ LOVABLE_API_KEY: "k" })).apiKey).toBe("k");
+  });
+});
+
+describe("createOpenAiCompatibleProvider", () => {
+  const config = { baseUrl: "http://stub", apiKey: null, model: "m", temperature: null, timeoutMs: 50 };
+
+  it("surfaces upstream status codes", async () => {
+    const fetchStub = async () => new Response("slow down", { status: 429 });
+    const provider = createOpenAiCompatibleProvider({ analyze: config, chat: config }, fetchStub as typeof fetch);
+
+    await expect(provider.complete("analyze", [])).rejects.toMatchObject({ status: 429 });
+  });
+
+  it("times out requests that never answer", async () => {
+    const fetchStub = (_url: string, init: RequestInit) =>
+      new Promise<Response>((_, reject) => init.signal!.addEventListener("abort", () => reject(new Error("aborted"))));
+    const provider = createOpenAiCompatibleProvider({ analyze: config, chat: config }, fetchStub as typeof fetch);
+
+    const error = await provider.complete("chat", []).catch((e) => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBe(504);
+  });
+});
+
+describe("token usage", () => {
+  const config = { baseUrl: "http://stub", apiKey: null, model: "m", temperature: null, timeoutMs: 50 };
+
+  it("reports usage from completions and from the final chunk of a stream", async () => {
+    const fetchStub = async (_url: string, init: RequestInit) =>
+      JSON.parse(init.body as string).stream
+        ? new Response(
+            'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\ndata: {"choices":[],"usage":{"prompt_tokens":7,"completion_tokens":2}}\n\ndata: [DONE]\n\n',
+          )
+        : Response.json({ choices: [{ message: { content: "Hello" } }], usage: { prompt_tokens: 10, completion_tokens: 3 } });
+    const seen: unknown[] = [];
+    const provider = createOpenAiCompatibleProvider({ analyze: config, chat: config }, fetchStub as typeof fetch, (u) => seen.push(u));
+
+    expect(await provider.complete("chat", [])).toBe("Hello");
+    let streamed = "";
+    await readCompletionDeltas(await provider.stream("chat", []), (delta) => { streamed += delta; });
+
+    expect(streamed).toBe("Hi");
+    expect(seen).toEqual([{ promptTokens: 10, completionTokens: 3 }, { promptTokens: 7, completionTokens: 2 }]);
+  });
+});
+
+describe("createMockProvider", () => {
+  it("returns a valid analysis and streams the same text deterministically", async () => {
+    const provider = createMockProvider();
+    const reply = await provider.complete("analyze", []);
+    expect(validateAnalysis(JSON.parse(reply)).ok).toBe(true);
+
+    let streamed = "";
+    await readCompletionDeltas(await provider.stream("analyze", []), (delta) => { streamed += delta; });
+    expect(streamed).toBe(reply);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, diffLists, diffWords, normalizeAnalysis } from "@/lib/analysis-diff";
+
+describe("diffLists", () => {
+  const byName = (s: { section: string; description: string }) => s.section;
+  const same = (a: { description: string }, b: { description: string }) => a.description === b.description;
+
+  it("classifies sections matched by normalized name", () => {
+    const before = [
+      { section: "Section 302 IPC", description: "Murder" },
+      { section: "Section 34 IPC", description: "Common intention" },
+    ];
+    const after = [
+      { section: "section 302, IPC", description: "Punishment for murder" },
+      { section: "Section 201 IPC", description: "Causing disappearance of evidence" },
+    ];
+
+    expect(diffLists(before, after, byName, same).map((e) => [e.key, e.status])).toEqual([
+      ["section 302 ipc", "changed"],
+      ["section 201 ipc", "added"],
+      ["section 34 ipc", "removed"],
+    ]);
+  });
+});
+
+describe("diffLines", () => {
+  it("keeps common lines and marks insertions and deletions", () => {
+    expect(diffLines("# Title\nFacts\nPrayer", "# Title\nAmended facts\nPrayer")).toEqual([
+      { status: "unchanged", text: "# Title" },
+      { status: "removed", text: "Facts" },
+      { status: "added", text: "Amended facts" },
+      { status: "unchanged", text: "Prayer" },
+    ]);
+  });
+});
+
+describe("diffWords", () => {
+  it("marks changed words and keeps both texts recoverable", () => {
+    const diff = diffWords("grant regular bail forthwith", "grant interim bail forthwith");
+    expect(diff).toEqual([
+      { status: "unchanged", text: "grant " },
+      { status: "removed", text: "regular" },
+      { status: "added", text: "interim" },
+      { status: "unchanged", text: " bail forthwith" },
+    ]);
+    expect(diff.filter((d) => d.status !== "added").map((d) => d.text).join("")).toBe("grant regular bail forthwith");
+  });
+});
+
+describe("normalizeAnalysis", () => {
+  it("fills the fields a legacy analysis lacks so it can be compared", () => {
+    const legacy = normalizeAnalysis({
+      legalSections: [{ section: "Section 302 IPC", description: "Murder" }, { section: "Section 34 IPC" }, "Section 120B IPC"],
+      courtDocument: "# Bail Application",
+    });
+    expect(legacy).toEqual({
+      legalSections: [{ section: "Section 302 IPC", description: "Murder" }],
+      punishmentRange: "",
+      presentationStrategy: "",
+      casePrecedents: [],
+      courtDocument: "# Bail Application",
+    });
+    expect(diffLists(legacy.casePrecedents, [{ name: "Bachan Singh", relevance: "Sentencing" }], (c) => c.name, () => true)).toEqual([
+      { key: "bachan singh", status: "added", after: { name: "Bachan Singh", relevance: "Sentencing" } },
+    ]);
+    expect(normalizeAnalysis(null).courtDocument).toBe("");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractCompletedFields,
+  parseModelJson,
+  runAnalysisWithRepair,
+  validateAnalysis,
+  type ChatTurn,
+} from "../../supabase/functions/_shared/analysis.ts";
+
+const valid = {
+  legalSections: [{ section: "Section 302 IPC", description: "Punishment for murder" }],
+  punishmentRange: "Death or imprisonment for life, and fine",
+  presentationStrategy: "Establish motive and the chain of circumstances",
+  casePrecedents: [{ name: "Bachan Singh v. State of Punjab", relevance: "Rarest of rare doctrine" }],
+  courtDocument: "# IN THE COURT OF SESSIONS\n\n## Facts of the Case",
+};
+
+// Replays canned gateway replies in order and records what was sent
+const stubGateway = (replies: string[]) => {
+  const calls: ChatTurn[][] = [];
+  const complete = async (messages: ChatTurn[]) => {
+    calls.push(messages);
+    return replies[calls.length - 1] ?? "";
+  };
+  return { calls, complete };
+};
+
+describe("validateAnalysis", () => {
+  it("accepts a complete analysis and drops unknown keys", () => {
+    const result = validateAnalysis({ ...valid, extra: true });
+    expect(result).toEqual({ ok: true, data: valid });
+  });
+
+  it("lists every failing field", () => {
+    const result = validateAnalysis({ ...valid, punishmentRange: 5, casePrecedents: [{ name: "" }], courtDocument: undefined });
+    expect(result.ok).toBe(false);
+    if (!("errors" in result)) return;
+    expect(result.errors.map((e) => e.field)).toEqual([
+      "punishmentRange",
+      "casePrecedents[0].name",
+      "casePrecedents[0].relevance",
+      "courtDocument",
+    ]);
+  });
+});
+
+describe("parseModelJson", () => {
+  it("strips markdown fences and surrounding prose", () => {
+    const result = parseModelJson("Here you go:\n```json\n" + JSON.stringify(valid) + "\n```");
+    expect(result).toEqual({ ok: true, value: valid });
+  });
+
+  it("reports truncated replies", () => {
+    expect(parseModelJson('{"legalSections": [').ok).toBe(false);
+  });
+});
+
+describe("extractCompletedFields", () => {
+  it("returns only members whose values have fully arrived", () => {
+    const full = "```json\n" + JSON.stringify(valid, null, 2);
+    const cut = full.indexOf('"presentationStrategy"') + 40;
+
+    expect(Object.keys(extractCompletedFields(full.slice(0, cut)))).toEqual(["legalSections", "punishmentRange"]);
+    expect(extractCompletedFields(full)).toEqual(valid);
+  });
+
+  it("ignores braces and commas inside strings", () => {
+    const partial = '{"punishmentRange": "Up to 7 years, {fine}", "courtDocument": "# Title, \\"quoted\\"';
+    expect(extractCompletedFields(partial)).toEqual({ punishmentRange: "Up to 7 years, {fine}" });
+  });
+});
+
+describe("runAnalysisWithRepair", () => {
+  const prompt: ChatTurn[] = [{ role: "user", content: "Case Description: test" }];
+
+  it("re-prompts with the validation errors until the reply validates", async () => {
+    const gateway = stubGateway([JSON.stringify({ ...valid, legalSections: [] }), JSON.stringify(valid)]);
+    const outcome = await runAnalysisWithRepair(gateway.complete, prompt, 2);
+
+    expect(outcome).toEqual({ ok: true, data: valid, attempts: 2 });
+    const repair = gateway.calls[1][gateway.calls[1].length - 1];
+    expect(repair.role).toBe("user");
+    expect(repair.content).toContain("legalSections: must contain at least one entry");
+  });
+
+  it("gives up after the bounded number of repairs", async () => {
+    const gateway = stubGateway(["not json", "still not json", "nope"]);
+    const outcome = await runAnalysisWithRepair(gateway.complete, prompt, 1);
+
+    expect(outcome.ok).toBe(false);
+    expect(outcome.attempts).toBe(2);
+    expect(gateway.calls).toHaveLength(2);
+  });
+});
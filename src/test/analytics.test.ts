@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { dailySeries, distinctUsers, errorRate, istToday, rangeEnding, topCounts, usageByRequestType } from "@/lib/analytics";
+
+const usage = (day: string, user: string, request_type: string | null, requests: number, errors = 0, pending = 0, tokens = 0) => ({
+  day, user_id: user, request_type, requests, errors, pending, prompt_tokens: tokens, completion_tokens: tokens,
+});
+
+describe("dailySeries", () => {
+  it("fills every day of the range and counts each active user once per day", () => {
+    const series = dailySeries(
+      "2026-04-01",
+      "2026-04-03",
+      [usage("2026-04-01", "a", "analyze", 2, 1, 0, 100), usage("2026-04-01", "b", "chat", 3), usage("2026-04-09", "a", "chat", 5)],
+      [{ day: "2026-04-01", user_id: "a", analyses: 1, chat_messages: 4 }, { day: "2026-04-03", user_id: "c", analyses: 0, chat_messages: 2 }],
+    );
+
+    expect(series.map((p) => p.day)).toEqual(["2026-04-01", "2026-04-02", "2026-04-03"]);
+    expect(series[0]).toMatchObject({ analyses: 1, chatMessages: 4, activeUsers: 2, requests: 5, errors: 1, promptTokens: 100, completionTokens: 100 });
+    expect(series[1]).toMatchObject({ activeUsers: 0, requests: 0 });
+    expect(series[2]).toMatchObject({ chatMessages: 2, activeUsers: 1 });
+  });
+});
+
+describe("totals", () => {
+  const rows = [usage("2026-04-01", "a", "analyze", 4, 1, 2), usage("2026-04-02", "b", null, 6, 1), usage("2026-04-02", "a", "analyze", 2)];
+
+  it("leaves pending requests out of the error rate", () => {
+    expect(errorRate(rows)).toBeCloseTo(2 / 10);
+    expect(errorRate([])).toBe(0);
+  });
+
+  it("groups requests by type, labelling rows metered before types were recorded", () => {
+    expect(usageByRequestType(rows).map((t) => [t.label, t.requests, t.errors])).toEqual([
+      ["Analysis", 6, 1],
+      ["Unrecorded", 6, 1],
+    ]);
+    expect(distinctUsers(rows, [{ user_id: "c" }])).toBe(3);
+  });
+
+  it("ranks categories and folds empty ones into Unspecified", () => {
+    const categories = [
+      { category: "Criminal", cases: 3 },
+      { category: null, cases: 1 },
+      { category: "Civil", cases: 2 },
+      { category: "Criminal", cases: 1 },
+      { category: " ", cases: 1 },
+    ];
+    expect(topCounts(categories, "category", 2)).toEqual([{ name: "Criminal", cases: 4 }, { name: "Civil", cases: 2 }]);
+    expect(topCounts(categories, "category")).toContainEqual({ name: "Unspecified", cases: 2 });
+  });
+});
+
+describe("date ranges", () => {
+  it("uses the IST calendar day and includes both ends", () => {
+    expect(istToday(new Date("2026-04-01T19:00:00Z"))).toBe("2026-04-02");
+    expect(rangeEnding("2026-04-07", 7)).toEqual({ from: "2026-04-01", to: "2026-04-07" });
+  });
+});
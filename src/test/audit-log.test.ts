@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { actionLabel, auditCsv, changedFields, describeChanges, istDayBounds, type AuditEntry } from "@/lib/audit-log";
+
+const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  id: 1,
+  occurred_at: "2026-04-18T05:30:00+00:00",
+  actor_id: "admin-1",
+  actor_role: "admin",
+  action: "profiles.update",
+  target_table: "profiles",
+  target_id: "p-1",
+  target_user_id: "user-1",
+  before: { access_enabled: true, subscription_active: true },
+  after: { access_enabled: false, subscription_active: true },
+  hash: "abc",
+  ...overrides,
+});
+
+describe("audit entries", () => {
+  it("labels trigger actions by area and account actions on their own", () => {
+    expect(actionLabel("user_subscriptions.update")).toBe("Subscriptions changed");
+    expect(actionLabel("firm_members.delete")).toBe("Firm members removed");
+    expect(actionLabel("user.delete")).toBe("Account deleted");
+    expect(actionLabel("user.schedule_delete")).toBe("Account scheduled for deletion");
+    expect(actionLabel("user.restore")).toBe("Account restored");
+    expect(actionLabel("user.export")).toBe("Account data exported");
+  });
+
+  it("lists only the fields that changed, leaving out bookkeeping columns", () => {
+    expect(changedFields(entry({}))).toEqual([{ field: "access_enabled", from: true, to: false }]);
+    const renewal = entry({
+      before: { user_id: "user-1", ends_on: "2026-04-30", updated_at: "a" },
+      after: { user_id: "user-1", ends_on: "2026-05-30", updated_at: "b" },
+    });
+    expect(describeChanges(renewal)).toBe("ends_on: 2026-04-30 → 2026-05-30");
+  });
+
+  it("describes added and removed rows by their values", () => {
+    expect(describeChanges(entry({ before: null, after: { role: "admin", user_id: "user-1" } }))).toBe("role: admin");
+    expect(describeChanges(entry({ before: { name: "Asha", phone: null }, after: null }))).toBe("name: Asha; phone: —");
+  });
+});
+
+describe("audit export", () => {
+  it("quotes every cell and defuses spreadsheet formulas", () => {
+    const csv = auditCsv([entry({})], (id) => (id === "admin-1" ? "Admin, Head" : ""), () => '=HYPERLINK("x")');
+    const [header, row] = csv.split("\r\n");
+    expect(header.startsWith('"id","occurred_at","actor_id","actor"')).toBe(true);
+    expect(row).toContain('"Admin, Head"');
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+
+  it("defuses formulas behind a leading tab or carriage return", () => {
+    const row = (name: string) => auditCsv([entry({})], () => "", () => name).split("\r\n")[1];
+    expect(row("\t=1+1")).toContain(`"'\t=1+1"`);
+    expect(row("\r=1+1")).toContain(`"'\r=1+1"`);
+  });
+
+  it("filters whole IST days", () => {
+    expect(istDayBounds("2026-04-01", "2026-04-30")).toEqual({ from: "2026-04-01T00:00:00+05:30", before: "2026-04-30T18:30:00.000Z" });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { detectFormat, docxXmlToText, normalizeExtractedText } from "../../supabase/functions/_shared/documents.ts";
+import { formatCaseDocuments } from "../../supabase/functions/_shared/case-context.ts";
+
+describe("detectFormat", () => {
+  it("uses the MIME type and falls back to the extension", () => {
+    expect(detectFormat("fir.bin", "application/pdf")).toBe("pdf");
+    expect(detectFormat("ChargeSheet.DOCX", null)).toBe("docx");
+    expect(detectFormat("notes.md", "")).toBe("text");
+    expect(detectFormat("photo.jpg", "image/jpeg")).toBeNull();
+  });
+});
+
+describe("docxXmlToText", () => {
+  it("keeps paragraphs, tabs and breaks and decodes entities", () => {
+    const xml =
+      '<w:body><w:p><w:r><w:t>FIR No.</w:t><w:tab/><w:t>123/2024</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t xml:space="preserve">State &amp; Anr. v. </w:t><w:br/><w:t>R&#233;mi</w:t></w:r></w:p></w:body>';
+    expect(docxXmlToText(xml)).toBe("FIR No.\t123/2024\nState & Anr. v. \nRémi\n");
+  });
+});
+
+describe("normalizeExtractedText", () => {
+  it("normalises line endings, strips NUL bytes and collapses blank runs", () => {
+    expect(normalizeExtractedText("  Page 1 \r\n\r\n\r\n\r\nPage\u00002  \n")).toBe("Page 1\n\nPage2");
+  });
+});
+
+describe("formatCaseDocuments", () => {
+  it("labels documents by type and skips those without extracted text", () => {
+    const sources = formatCaseDocuments([
+      { file_name: "fir.pdf", doc_type: "fir", extracted_text: "Complaint lodged at 10 pm" },
+      { file_name: "scan.pdf", doc_type: "judgment", extracted_text: null },
+    ]);
+    expect(sources).toContain("--- FIR: fir.pdf ---");
+    expect(sources).toContain("Complaint lodged at 10 pm");
+    expect(sources).not.toContain("scan.pdf");
+    expect(formatCaseDocuments([])).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { formatIntakePrompt, normalizeIntake } from "../../supabase/functions/_shared/intake.ts";
+import { formatCaseContext } from "../../supabase/functions/_shared/case-context.ts";
+
+describe("normalizeIntake", () => {
+  it("trims values, drops blank list entries and unknown keys", () => {
+    const intake = normalizeIntake({
+      description: "  Fatal stabbing after a land dispute ",
+      offences: ["Murder / Homicide", " ", 42],
+      parties: { accused: ["Ramesh", ""], complainant: "Suresh" },
+      custodyStatus: "on_bail",
+      extra: "ignored",
+    });
+
+    expect(intake.description).toBe("Fatal stabbing after a land dispute");
+    expect(intake.offences).toEqual(["Murder / Homicide"]);
+    expect(intake.parties).toEqual({ accused: ["Ramesh"], complainant: "Suresh", witnesses: [] });
+    expect(intake.fir).toEqual({ number: "", policeStation: "" });
+    expect(intake.custodyStatus).toBe("on_bail");
+    expect(intake).not.toHaveProperty("extra");
+  });
+
+  it("rejects unknown custody statuses", () => {
+    expect(normalizeIntake({ custodyStatus: "released" }).custodyStatus).toBe("");
+  });
+});
+
+describe("intake prompts", () => {
+  const intake = normalizeIntake({
+    description: "Fatal stabbing after a land dispute",
+    offences: ["Murder / Homicide", "Criminal Intimidation"],
+    fir: { number: "123/2024", policeStation: "Shivajinagar" },
+    custodyStatus: "in_custody",
+  });
+
+  it("lists only the particulars that were provided, followed by the structured JSON", () => {
+    const prompt = formatIntakePrompt(intake);
+    expect(prompt).toContain("Offences: Murder / Homicide; Criminal Intimidation");
+    expect(prompt).toContain("FIR Number: 123/2024");
+    expect(prompt).toContain("Custody Status: In custody");
+    expect(prompt).not.toContain("Complainant:");
+    expect(prompt).toContain('"policeStation": "Shivajinagar"');
+  });
+
+  it("grounds case chat in the stored intake when present", () => {
+    const context = formatCaseContext({
+      title: "Criminal - Murder",
+      intake,
+      description: "stale flat copy",
+      category: null,
+      offence: null,
+      analysis_data: null,
+    });
+    expect(context).toContain("Police Station: Shivajinagar");
+    expect(context).not.toContain("stale flat copy");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { filterCases, groupCases, NO_FILTERS, parseTags, type CaseSummary } from "@/lib/case-metadata";
+
+const item = (id: string, patch: Partial<CaseSummary> = {}): CaseSummary => ({
+  id,
+  title: `Case ${id}`,
+  updated_at: "2026-04-01T00:00:00Z",
+  status: "draft",
+  client_name: null,
+  court: null,
+  next_hearing_date: null,
+  tags: [],
+  ...patch,
+});
+
+const cases = [
+  item("a", { status: "hearing", client_name: "R. Mehta", tags: ["bail", "urgent"], next_hearing_date: "2026-04-03" }),
+  item("b", { status: "filed", court: "Sessions Court, Pune", tags: ["bail"], next_hearing_date: "2026-03-20" }),
+  item("c", { status: "hearing", next_hearing_date: "2026-05-01" }),
+];
+
+describe("filterCases", () => {
+  it("combines status, client, court and tag filters", () => {
+    expect(filterCases(cases, NO_FILTERS).map((c) => c.id)).toEqual(["a", "b", "c"]);
+    expect(filterCases(cases, { ...NO_FILTERS, status: "hearing" }).map((c) => c.id)).toEqual(["a", "c"]);
+    expect(filterCases(cases, { ...NO_FILTERS, status: "hearing", tag: "bail" }).map((c) => c.id)).toEqual(["a"]);
+    expect(filterCases(cases, { ...NO_FILTERS, court: "Sessions Court, Pune" }).map((c) => c.id)).toEqual(["b"]);
+  });
+});
+
+describe("groupCases", () => {
+  const summary = (groups: ReturnType<typeof groupCases>) => groups.map((g) => [g.label, g.cases.map((c) => c.id)]);
+
+  it("orders status groups by the workflow and drops empty ones", () => {
+    expect(summary(groupCases(cases, "status", "2026-04-01"))).toEqual([
+      ["Filed", ["b"]],
+      ["Hearing", ["a", "c"]],
+    ]);
+  });
+
+  it("lists a case under each of its tags and keeps untagged cases last", () => {
+    expect(summary(groupCases(cases, "tag", "2026-04-01"))).toEqual([
+      ["bail", ["a", "b"]],
+      ["urgent", ["a"]],
+      ["Untagged", ["c"]],
+    ]);
+  });
+
+  it("buckets hearings relative to today", () => {
+    expect(summary(groupCases([...cases, item("d")], "hearing", "2026-04-01"))).toEqual([
+      ["Hearing date passed", ["b"]],
+      ["Next 7 days", ["a"]],
+      ["Later", ["c"]],
+      ["No hearing date", ["d"]],
+    ]);
+  });
+});
+
+describe("parseTags", () => {
+  it("trims and de-duplicates tags ignoring case", () => {
+    expect(parseTags(" bail, NDPS,,  Bail , high  court ")).toEqual(["bail", "NDPS", "high court"]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { canSaveCaseMessage, documentStoragePath, inviteErrorMessage, isOwnStoragePath, roleAllows, sharedCasesFromRows } from "@/lib/case-sharing";
+import type { CaseSummary } from "@/lib/case-metadata";
+
+const summary = (id: string, updated_at: string): CaseSummary => ({
+  id, title: `Case ${id}`, updated_at, status: "draft", client_name: null, court: null, next_hearing_date: null, tags: [],
+});
+
+describe("roleAllows", () => {
+  it("ranks viewer < commenter < editor < owner", () => {
+    expect(roleAllows("owner", "editor")).toBe(true);
+    expect(roleAllows("editor", "commenter")).toBe(true);
+    expect(roleAllows("commenter", "commenter")).toBe(true);
+    expect(roleAllows("commenter", "editor")).toBe(false);
+    expect(roleAllows("viewer", "commenter")).toBe(false);
+  });
+
+  it("allows nothing for unknown or missing roles", () => {
+    expect(roleAllows("admin", "viewer")).toBe(false);
+    expect(roleAllows(null, "viewer")).toBe(false);
+  });
+});
+
+describe("sharedCasesFromRows", () => {
+  it("drops memberships whose case is not readable and sorts by recency", () => {
+    const rows = [
+      { role: "viewer", cases: summary("a", "2026-04-01T00:00:00Z") },
+      { role: "editor", cases: null },
+      { role: "commenter", cases: summary("b", "2026-04-05T00:00:00Z") },
+    ];
+    expect(sharedCasesFromRows(rows).map((c) => [c.id, c.role])).toEqual([["b", "commenter"], ["a", "viewer"]]);
+  });
+});
+
+describe("inviteErrorMessage", () => {
+  it("maps the SQLSTATEs raised by invite_case_member", () => {
+    expect(inviteErrorMessage({ code: "P0002", message: "No user with that username" })).toBe("No user has that username");
+    expect(inviteErrorMessage({ code: "22023", message: "You already own this case" })).toBe("You already own this case");
+    expect(inviteErrorMessage({ code: "XX000", message: "boom" })).toBe("Could not share the case");
+  });
+});
+
+describe("case document paths", () => {
+  it("stores uploads under the uploader's folder with a safe file name", () => {
+    expect(documentStoragePath("user-1", "case-1", "FIR copy (2).pdf", "abc")).toBe("user-1/case-1/abc-FIR_copy_2_.pdf");
+  });
+
+  it("only accepts paths in the caller's own folder", () => {
+    expect(isOwnStoragePath(documentStoragePath("user-1", "case-1", "a.pdf"), "user-1")).toBe(true);
+    expect(isOwnStoragePath("user-2/case-9/x-a.pdf", "user-1")).toBe(false);
+    expect(isOwnStoragePath("user-10/case-1/x.pdf", "user-1")).toBe(false);
+  });
+});
+
+describe("canSaveCaseMessage", () => {
+  it("lets commenters save questions but not AI replies", () => {
+    expect(canSaveCaseMessage("commenter", "user")).toBe(true);
+    expect(canSaveCaseMessage("commenter", "assistant")).toBe(false);
+    expect(canSaveCaseMessage("editor", "assistant")).toBe(true);
+    expect(canSaveCaseMessage("viewer", "user")).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { linkCitations, parseCitations, splitCitations } from "@/lib/citations";
+import { formatStatuteContext } from "../../supabase/functions/_shared/statutes.ts";
+
+const refs = (text: string) => parseCitations(text).map((c) => `${c.act}:${c.section}:${c.reference}`);
+
+describe("parseCitations", () => {
+  it("recognises abbreviations, full act names and sub-sections", () => {
+    expect(refs("Charged under Section 302 IPC and Sec. 103(1) BNS.")).toEqual(["IPC:302:302", "BNS:103:103(1)"]);
+    expect(refs("See Section 498A of the Indian Penal Code")).toEqual(["IPC:498A:498A"]);
+    expect(refs("Bail under Section 482 BNSS, formerly Section 438 Cr.P.C.")).toEqual(["BNSS:482:482", "CRPC:438:438"]);
+    expect(refs("Confession barred by Section 25 of the Evidence Act")).toEqual(["IEA:25:25"]);
+  });
+
+  it("links each number of a section list separately", () => {
+    const text = "Sections 302 and 34 IPC apply";
+    const citations = parseCitations(text);
+    expect(citations.map((c) => text.slice(c.start, c.end))).toEqual(["302", "34"]);
+    expect(citations.every((c) => c.act === "IPC")).toBe(true);
+  });
+
+  it("ignores section numbers without an act", () => {
+    expect(parseCitations("Section 34 is often invoked")).toEqual([]);
+  });
+});
+
+describe("rendering helpers", () => {
+  it("splits text around a whole-phrase citation", () => {
+    const segments = splitCitations("Apply Section 302 IPC here");
+    expect(segments[0]).toBe("Apply ");
+    expect(typeof segments[1]).toBe("object");
+    expect(segments[2]).toBe(" here");
+  });
+
+  it("rewrites markdown citations as citation links", () => {
+    expect(linkCitations("**Section 103 BNS** applies")).toBe("**[Section 103 BNS](#cite:BNS:103)** applies");
+  });
+});
+
+describe("formatStatuteContext", () => {
+  it("labels retrieved sections with the citation abbreviation", () => {
+    const context = formatStatuteContext([
+      { act: "CRPC", section: "154", title: "Information in cognizable cases", content: "(1) Every information..." },
+    ]);
+    expect(context).toContain("Section 154 CrPC — Information in cognizable cases");
+    expect(formatStatuteContext([])).toBeNull();
+  });
+});
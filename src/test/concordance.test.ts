@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { counterparts, missingCounterparts, type ConcordanceEntry } from "@/lib/concordance";
+import { formatConcordanceContext } from "../../supabase/functions/_shared/statutes.ts";
+
+const entries: ConcordanceEntry[] = [
+  { old_act: "IPC", old_section: "302", new_act: "BNS", new_section: "103(1)", subject: "Punishment for murder", change_notes: "Same punishment." },
+  { old_act: "CRPC", old_section: "438", new_act: "BNSS", new_section: "482", subject: "Anticipatory bail", change_notes: "" },
+  { old_act: "IPC", old_section: "377", new_act: null, new_section: null, subject: "Unnatural offences", change_notes: "Not retained in the BNS." },
+];
+
+describe("counterparts", () => {
+  it("maps in both directions, matching sub-sections on their base section", () => {
+    expect(counterparts(entries, "IPC:302").map((c) => `${c.act}:${c.section}`)).toEqual(["BNS:103(1)"]);
+    expect(counterparts(entries, "BNS:103").map((c) => `${c.act}:${c.section}`)).toEqual(["IPC:302"]);
+    expect(counterparts(entries, "IPC:377")[0].act).toBeNull();
+    expect(counterparts(entries, "IPC:420")).toEqual([]);
+  });
+});
+
+describe("missingCounterparts", () => {
+  it("adds the other code's number only when the text does not already cite it", () => {
+    expect(missingCounterparts("Section 302 IPC", entries).map((c) => c.section)).toEqual(["103(1)"]);
+    expect(missingCounterparts("Section 103(1) BNS (Section 302 IPC)", entries)).toEqual([]);
+    expect(missingCounterparts("Section 482 BNSS", entries).map((c) => `${c.act}:${c.section}`)).toEqual(["CRPC:438"]);
+  });
+});
+
+describe("formatConcordanceContext", () => {
+  it("lists mappings with their change notes", () => {
+    const context = formatConcordanceContext(entries);
+    expect(context).toContain("- Section 302 IPC -> Section 103(1) BNS (Punishment for murder). Same punishment.");
+    expect(context).toContain("Section 438 CrPC -> Section 482 BNSS");
+    expect(context).toContain("Section 377 IPC -> no equivalent provision");
+    expect(formatConcordanceContext([])).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCauseTitle,
+  composeCourtDocument,
+  COURT_TEMPLATES,
+  fitsPdfFonts,
+  normalizeExportDetails,
+  parseInline,
+  parseMarkdownBlocks,
+  toWinAnsi,
+} from "../../supabase/functions/_shared/court-document.ts";
+import { exportDetailsFromIntake, exportFileName, templateForCourt } from "@/lib/court-export";
+import { emptyIntake } from "@/lib/case-intake";
+
+describe("parseMarkdownBlocks", () => {
+  it("turns headings, lists and emphasis into blocks instead of literal markup", () => {
+    const blocks = parseMarkdownBlocks("## Facts\n\nThe **accused** was *absent*.\n\n1. First\n2. Second\n\n- Bullet\n\n---");
+    expect(blocks.map((b) => b.kind)).toEqual(["heading", "paragraph", "list", "list", "rule"]);
+    expect(blocks[1]).toEqual({
+      kind: "paragraph",
+      runs: [{ text: "The " }, { text: "accused", bold: true }, { text: " was " }, { text: "absent", italic: true }, { text: "." }],
+    });
+    expect(blocks[2]).toMatchObject({ ordered: true, items: [[{ text: "First" }], [{ text: "Second" }]] });
+  });
+
+  it("keeps link labels and drops the target", () => {
+    expect(parseInline("See [Section 302 IPC](#cite:IPC:302)")).toEqual([{ text: "See Section 302 IPC" }]);
+  });
+});
+
+describe("composeCourtDocument", () => {
+  it("replaces the model's court heading with the template's cause title", () => {
+    const details = normalizeExportDetails({ court: "Delhi at New Delhi", petitioner: "Ramesh Kumar", respondent: "State" });
+    const layout = composeCourtDocument("# IN THE COURT OF THE SESSIONS JUDGE\n\n## Facts\n\nText", "high_court", details);
+    expect(layout.causeTitle[0].text).toBe("IN THE HIGH COURT OF DELHI AT NEW DELHI");
+    expect(layout.causeTitle.find((l) => l.trailing === "...Petitioner")?.text).toBe("Ramesh Kumar");
+    expect(layout.body[0]).toMatchObject({ kind: "heading", runs: [{ text: "Facts" }] });
+    expect(layout.closing.at(-1)?.text).toBe("DEPONENT");
+  });
+
+  it("keeps a court name that already names the court", () => {
+    const lines = buildCauseTitle(COURT_TEMPLATES.district_court, normalizeExportDetails({ court: "Sessions Court, Pune" }));
+    expect(lines[0].text).toBe("IN THE SESSIONS COURT, PUNE");
+  });
+});
+
+describe("toWinAnsi", () => {
+  it("keeps typographic punctuation and substitutes characters the PDF fonts lack", () => {
+    expect(toWinAnsi("Fine of ₹5,000 — “cash”")).toBe("Fine of Rs.5,000 — “cash”");
+    expect(toWinAnsi("धारा 302")).toBe("???? 302");
+  });
+});
+
+describe("fitsPdfFonts", () => {
+  it("accepts English documents with typographic punctuation", () => {
+    const layout = composeCourtDocument("# Bail Application\n\nFine of ₹5,000 — “cash”.\n\n- First ground", "high_court", normalizeExportDetails({}));
+    expect(fitsPdfFonts(layout)).toBe(true);
+  });
+
+  it("rejects Devanagari in the body or the cause title", () => {
+    const details = normalizeExportDetails({});
+    expect(fitsPdfFonts(composeCourtDocument("आवेदक की ओर से धारा 302 के अंतर्गत", "district_court", details))).toBe(false);
+    expect(fitsPdfFonts(composeCourtDocument("- पहला आधार", "district_court", details))).toBe(false);
+    expect(fitsPdfFonts(composeCourtDocument("Grounds", "high_court", normalizeExportDetails({ petitioner: "रमेश कुमार" })))).toBe(false);
+  });
+});
+
+describe("export defaults", () => {
+  it("prefills the cause title from the intake", () => {
+    const intake = emptyIntake();
+    intake.parties.accused = ["A", "B"];
+    intake.fir = { number: "12/2026", policeStation: "Kotwali" };
+    intake.court = { name: "High Court of Allahabad", jurisdiction: "Lucknow Bench" };
+    const details = exportDetailsFromIntake(intake, "Adv. Rao");
+    expect(details).toMatchObject({ petitioner: "A, B", respondent: "State, through P.S. Kotwali", advocateName: "Adv. Rao" });
+    expect(templateForCourt(intake.court.name)).toBe("high_court");
+    expect(exportFileName("State v. Ramesh", "pdf")).toBe("state-v-ramesh.pdf");
+  });
+});
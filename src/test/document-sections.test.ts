@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { applyFormat, joinDocumentSections, splitDocumentSections } from "@/lib/document-sections";
+
+const generated = [
+  "# IN THE COURT OF THE SESSIONS JUDGE",
+  "",
+  "## Facts of the Case",
+  "",
+  "The accused was arrested on 1 March.",
+  "",
+  "## Applicable Legal Provisions",
+  "",
+  "- Section 103 BNS",
+  "",
+  "### Note",
+  "Sub-heading stays in the body.",
+  "",
+  "## Prayer",
+  "",
+  "Grant bail.",
+].join("\n");
+
+describe("splitDocumentSections", () => {
+  it("maps generated headings to the standard sections and adds the missing ones", () => {
+    const sections = splitDocumentSections(generated);
+    expect(sections.map((s) => s.key)).toEqual(["title", "facts", "provisions", "prayer", "arguments", "conclusion"]);
+    expect(sections[0].heading).toBe("IN THE COURT OF THE SESSIONS JUDGE");
+    expect(sections[2].body).toContain("### Note");
+    expect(sections[4].body).toBe("");
+  });
+
+  it("round-trips, dropping sections left empty", () => {
+    const sections = splitDocumentSections(generated);
+    sections[1].body = "Edited facts.";
+    const joined = joinDocumentSections(sections);
+    expect(joined).toContain("## Facts of the Case\n\nEdited facts.");
+    expect(joined).not.toContain("## Arguments");
+    expect(joinDocumentSections(splitDocumentSections(joined))).toBe(joined);
+  });
+});
+
+describe("applyFormat", () => {
+  it("wraps the selection for inline styles", () => {
+    expect(applyFormat("grant bail", 6, 10, "bold")).toEqual({ value: "grant **bail**", selectionStart: 8, selectionEnd: 12 });
+  });
+
+  it("numbers every selected line, replacing existing markers", () => {
+    expect(applyFormat("- one\ntwo", 2, 8, "numbered").value).toBe("1. one\n2. two");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { buildDocumentPrompt, DOCUMENT_TEMPLATES, parseDocumentRequest } from "../../supabase/functions/_shared/document-types.ts";
+import { DOCUMENT_TYPES, documentType, fieldsFromIntake, missingFields } from "@/lib/document-types";
+import { emptyIntake } from "@/lib/case-intake";
+
+describe("parseDocumentRequest", () => {
+  it("rejects unknown types and lists missing required particulars", () => {
+    expect(parseDocumentRequest({ type: "plaint" })).toEqual({ error: "Unknown document type" });
+    expect(parseDocumentRequest({ type: "legal_notice", fields: { sender: "A. Sharma", demand: " " } })).toEqual({
+      error: "Missing required details: Recipient name and address, Demand or relief sought",
+      missing: ["recipient", "demand"],
+    });
+  });
+
+  it("keeps only the type's own fields and renders them in the prompt", () => {
+    const request = parseDocumentRequest({
+      type: "regular_bail",
+      fields: { court: " Sessions Court, Pune ", custodySince: "12 March 2026", suitNumber: "OS 4/2026" },
+    });
+    if ("error" in request) throw new Error(request.error);
+    expect(request.fields).toEqual({ court: "Sessions Court, Pune", custodySince: "12 March 2026" });
+
+    const prompt = buildDocumentPrompt(request);
+    expect(prompt).toContain("DOCUMENT TYPE: Regular Bail Application");
+    expect(prompt).toContain("Section 483 BNSS");
+    expect(prompt).toContain("- Court: Sessions Court, Pune\n- In custody since: 12 March 2026");
+    expect(prompt).not.toContain("OS 4/2026");
+  });
+});
+
+describe("client document types", () => {
+  it("match the server templates", () => {
+    for (const type of DOCUMENT_TYPES) {
+      const template = DOCUMENT_TEMPLATES[type.id];
+      expect(type.fields.map((f) => f.key)).toEqual(Object.keys(template.fields));
+      expect(type.fields.filter((f) => f.required).map((f) => f.key)).toEqual(template.required);
+    }
+    expect(DOCUMENT_TYPES).toHaveLength(Object.keys(DOCUMENT_TEMPLATES).length);
+  });
+
+  it("prefills particulars from the intake and reports what is still missing", () => {
+    const intake = emptyIntake();
+    intake.court = { name: "Court of Sessions", jurisdiction: "Pune" };
+    const type = documentType("regular_bail")!;
+    const fields = fieldsFromIntake(type, intake);
+    expect(fields.court).toBe("Court of Sessions, Pune");
+    expect(missingFields(type, fields)).toEqual(["In custody since"]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { firmCaseRole, firmMemberErrorMessage, invitationMessage, isLastFirmAdmin } from "@/lib/firms";
+import { strongestRole } from "@/lib/case-sharing";
+
+describe("firmCaseRole", () => {
+  it("maps the firm's case visibility to the role fellow members get", () => {
+    expect(firmCaseRole("private")).toBeNull();
+    expect(firmCaseRole("firm_read")).toBe("viewer");
+    expect(firmCaseRole("firm_edit")).toBe("editor");
+    expect(firmCaseRole(undefined)).toBeNull();
+  });
+
+  it("combines with an explicit share, keeping the stronger role", () => {
+    expect(strongestRole("commenter", firmCaseRole("firm_read"))).toBe("commenter");
+    expect(strongestRole("viewer", firmCaseRole("firm_edit"))).toBe("editor");
+    expect(strongestRole(undefined, firmCaseRole("private"))).toBeNull();
+  });
+});
+
+describe("isLastFirmAdmin", () => {
+  it("protects only the firm's sole admin", () => {
+    const members = [
+      { user_id: "a", role: "admin" },
+      { user_id: "b", role: "member" },
+    ];
+    expect(isLastFirmAdmin(members, "a")).toBe(true);
+    expect(isLastFirmAdmin(members, "b")).toBe(false);
+    expect(isLastFirmAdmin([...members, { user_id: "c", role: "admin" }], "a")).toBe(false);
+  });
+});
+
+describe("firmMemberErrorMessage", () => {
+  it("maps the SQLSTATEs raised by invite_firm_member", () => {
+    expect(firmMemberErrorMessage({ code: "22023", message: "That user already belongs to another firm" })).toBe(
+      "That user already belongs to another firm",
+    );
+    expect(firmMemberErrorMessage({ code: "42501", message: "" })).toBe("Only firm admins can invite members");
+  });
+});
+
+describe("invitationMessage", () => {
+  it("names the firm and the role offered", () => {
+    expect(invitationMessage({ id: "i1", role: "admin", firm: { name: "Rao & Associates" } })).toBe(
+      "Rao & Associates invited you to join as a firm admin.",
+    );
+    expect(invitationMessage({ id: "i2", role: "member", firm: null })).toBe("A firm invited you to join as a member.");
+  });
+});
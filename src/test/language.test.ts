@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTranslatePrompt,
+  LANGUAGES as SERVER_LANGUAGES,
+  languageInstruction,
+  parseTranslateRequest,
+  resolveLanguage,
+} from "../../supabase/functions/_shared/language.ts";
+import { LANGUAGES } from "@/lib/languages";
+
+describe("resolveLanguage", () => {
+  it("takes the first valid code and falls back to English", () => {
+    expect(resolveLanguage(undefined, "mr", "hi")).toBe("mr");
+    expect(resolveLanguage("xx", null, "hi")).toBe("hi");
+    expect(resolveLanguage(null, undefined)).toBe("en");
+  });
+});
+
+describe("languageInstruction", () => {
+  it("adds nothing for English", () => {
+    expect(languageInstruction("en", "text")).toBe("");
+  });
+
+  it("keeps JSON keys and citation fields in English for the analysis", () => {
+    const instruction = languageInstruction("hi", "json");
+    expect(instruction).toContain("every string value of the JSON in Hindi (Devanagari script)");
+    expect(instruction).toContain('"section" values of legalSections');
+    expect(instruction).toContain("Section 103(1) BNS");
+  });
+});
+
+describe("parseTranslateRequest", () => {
+  it("validates the target language and the document", () => {
+    expect(parseTranslateRequest({ language: "fr", content: "x" })).toEqual({ error: "Unknown target language" });
+    expect(parseTranslateRequest({ language: "ta", content: " " })).toEqual({ error: "The document to translate is empty" });
+    const request = parseTranslateRequest({ language: "ta", content: "# IN THE COURT\n\nFacts." });
+    if ("error" in request) throw new Error(request.error);
+    expect(buildTranslatePrompt(request)).toMatch(/^Translate this document into Tamil \(Tamil script\)\./);
+  });
+});
+
+describe("client languages", () => {
+  it("match the server list", () => {
+    expect(LANGUAGES.map((l) => l.code).sort()).toEqual(Object.keys(SERVER_LANGUAGES).sort());
+    for (const l of LANGUAGES) expect(SERVER_LANGUAGES[l.code].name).toBe(l.label);
+  });
+});
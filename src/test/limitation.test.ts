@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { addMonths, computeLimitation, proceeding, PROCEEDINGS } from "@/lib/limitation";
+import { agendaEntries, upcomingEntries, type CaseDeadline } from "@/lib/case-calendar";
+import type { CaseSummary } from "@/lib/case-metadata";
+
+const type = (id: string) => proceeding(id)!;
+
+describe("computeLimitation", () => {
+  it("excludes the day of the order", () => {
+    // 30 days from Monday 2 March 2026
+    expect(computeLimitation("2026-03-02", type("review"))).toEqual({ expiry: "2026-04-01", lastDate: "2026-04-01", skipped: [] });
+  });
+
+  it("adds the time taken to obtain a certified copy", () => {
+    expect(computeLimitation("2026-03-02", type("review"), { copyDays: 5 })?.expiry).toBe("2026-04-06");
+  });
+
+  it("carries a period ending on a holiday or Sunday to the next working day", () => {
+    // 60 days from 16 June 2026 ends on Saturday 15 August (Independence Day), then Sunday
+    const result = computeLimitation("2026-06-16", type("criminal_appeal_high_court"), { holidays: ["2026-08-15"] });
+    expect(result?.expiry).toBe("2026-08-15");
+    expect(result?.lastDate).toBe("2026-08-17");
+    expect(result?.skipped).toEqual([
+      { date: "2026-08-15", reason: "Court holiday" },
+      { date: "2026-08-16", reason: "Sunday" },
+    ]);
+  });
+
+  it("does not extend notices to a party", () => {
+    // 30 days from 16 July 2026 ends on Saturday 15 August, a holiday
+    const result = computeLimitation("2026-07-16", type("ni_demand_notice"), { holidays: ["2026-08-15"] });
+    expect(result?.lastDate).toBe("2026-08-15");
+  });
+
+  it("counts months as calendar months", () => {
+    expect(computeLimitation("2026-01-15", type("ni_complaint"))?.expiry).toBe("2026-02-15");
+    expect(addMonths("2026-01-31", 1)).toBe("2026-02-28");
+    expect(addMonths("2028-01-31", 1)).toBe("2028-02-29");
+  });
+
+  it("returns null where no period is prescribed", () => {
+    expect(computeLimitation("2026-03-02", type("bail_cancellation"))).toBeNull();
+  });
+
+  it("has unique proceeding ids", () => {
+    expect(new Set(PROCEEDINGS.map((p) => p.id)).size).toBe(PROCEEDINGS.length);
+  });
+});
+
+describe("agendaEntries", () => {
+  const caseOf = (id: string, hearing: string | null): CaseSummary => ({
+    id, title: `Case ${id}`, updated_at: "", status: "hearing", client_name: null, court: null, next_hearing_date: hearing, tags: [],
+  });
+  const deadline = (id: string, caseId: string, due: string, completed: string | null = null): CaseDeadline => ({
+    id, case_id: caseId, title: `Deadline ${id}`, due_date: due, kind: "filing", proceeding: null, order_date: null, notes: null, completed_at: completed,
+  });
+
+  const cases = [caseOf("a", "2026-05-04"), caseOf("b", null)];
+  const deadlines = [
+    deadline("1", "b", "2026-05-04"),
+    deadline("2", "a", "2026-04-30"),
+    deadline("3", "a", "2026-05-02", "2026-05-01T10:00:00Z"),
+    deadline("4", "gone", "2026-05-03"),
+  ];
+
+  it("merges hearings and open deadlines by date, hearings first", () => {
+    expect(agendaEntries(cases, deadlines).map((e) => e.key)).toEqual(["deadline-2", "hearing-a", "deadline-1"]);
+  });
+
+  it("keeps missed deadlines but not past hearings in the upcoming list", () => {
+    const entries = agendaEntries([caseOf("a", "2026-04-29"), caseOf("b", "2026-05-20")], deadlines);
+    expect(upcomingEntries(entries, "2026-05-01", 7).map((e) => e.key)).toEqual(["deadline-2", "deadline-1"]);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { buildRewritePrompt, cleanRewrite, parseRewriteRequest } from "../../supabase/functions/_shared/rewrite.ts";
+
+describe("parseRewriteRequest", () => {
+  it("rejects unknown actions, empty sections and translations without a language", () => {
+    expect(parseRewriteRequest({ action: "summarise", body: "x" })).toEqual({ error: "Unknown rewrite action" });
+    expect(parseRewriteRequest({ action: "shorten", body: "  " })).toEqual({ error: "The section to rewrite is empty" });
+    expect(parseRewriteRequest({ action: "translate", body: "Grant bail." })).toEqual({ error: "A target language is required" });
+  });
+
+  it("builds a prompt naming the section and the target language", () => {
+    const request = parseRewriteRequest({ action: "translate", heading: "Prayer", body: "Grant bail.", language: "Hindi" });
+    if ("error" in request) throw new Error(request.error);
+    const prompt = buildRewritePrompt(request);
+    expect(prompt).toContain("Translate the section into Hindi");
+    expect(prompt).toContain("SECTION: Prayer\nGrant bail.");
+  });
+});
+
+describe("cleanRewrite", () => {
+  it("drops code fences and a repeated heading", () => {
+    expect(cleanRewrite("```markdown\n## Prayer\nGrant bail.\n```", "Prayer")).toBe("Grant bail.");
+    expect(cleanRewrite("Grant bail.", "Prayer")).toBe("Grant bail.");
+  });
+});
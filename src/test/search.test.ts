@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { snippetSegments } from "@/lib/search";
+
+describe("snippetSegments", () => {
+  it("splits matched terms from the surrounding text", () => {
+    expect(snippetSegments("regular <mark>bail</mark> under Section <mark>483</mark> BNSS")).toEqual([
+      { text: "regular ", match: false },
+      { text: "bail", match: true },
+      { text: " under Section ", match: false },
+      { text: "483", match: true },
+      { text: " BNSS", match: false },
+    ]);
+  });
+
+  it("keeps other markup as plain text", () => {
+    expect(snippetSegments("<b>anticipatory</b> <mark>bail</mark>")).toEqual([
+      { text: "<b>anticipatory</b> ", match: false },
+      { text: "bail", match: true },
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { blockMessage, daysLeft, lapsedBlock, parseBlock, planEndsOn, renewalNotice, renewedDates, uploadBlock } from "@/lib/subscriptions";
+
+const monthly = { plan_id: "monthly", starts_on: "2026-04-01", ends_on: "2026-04-30", plan: { name: "Monthly" } };
+
+describe("plan dates", () => {
+  it("counts the start day as the first day of the plan", () => {
+    expect(planEndsOn("2026-04-01", 30)).toBe("2026-04-30");
+    expect(daysLeft("2026-04-30", "2026-04-30")).toBe(1);
+    expect(daysLeft("2026-04-30", "2026-05-02")).toBe(0);
+  });
+
+  it("shows the renewal notice only in the last week of a running plan", () => {
+    expect(renewalNotice(monthly, "2026-04-23")).toBeNull();
+    expect(renewalNotice(monthly, "2026-04-24")).toEqual({ days: 7, plan: "Monthly", endsOn: "2026-04-30" });
+    expect(renewalNotice(monthly, "2026-05-01")).toBeNull();
+    expect(renewalNotice(null, "2026-04-24")).toBeNull();
+  });
+
+  it("extends a running plan from its end and restarts a lapsed one today", () => {
+    expect(renewedDates(monthly, 30, "2026-04-28")).toEqual({ starts_on: "2026-04-01", ends_on: "2026-05-30" });
+    expect(renewedDates(monthly, 365, "2026-06-10")).toEqual({ starts_on: "2026-06-10", ends_on: "2027-06-09" });
+  });
+});
+
+describe("subscription blocks", () => {
+  it("reads the limit from function details and upload trigger errors", () => {
+    expect(parseBlock({ reason: "chat", plan: "Trial", limit: 50 })).toEqual({ reason: "chat", plan: "Trial", limit: 50 });
+    expect(parseBlock({ reason: "other" })).toBeNull();
+    expect(uploadBlock({ code: "54000", details: '{"reason":"upload","plan":"Trial","limit":5}' })).toMatchObject({ reason: "upload", limit: 5 });
+    expect(uploadBlock({ code: "42501", details: null })).toBeNull();
+  });
+
+  it("explains which limit was hit", () => {
+    expect(blockMessage({ reason: "upload", plan: "Trial", limit: 5 })).toEqual({
+      title: "Daily Limit Reached",
+      description: "You have used all 5 document uploads your Trial plan allows today. The limit resets at midnight IST; upgrade your plan for a higher limit.",
+    });
+    expect(blockMessage(lapsedBlock(monthly)).description).toContain("Your Monthly plan ended on 2026-04-30");
+    expect(blockMessage(lapsedBlock(null)).title).toBe("Subscription Expired");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { bulkSubscriptionRows, nextSort, pageCount, pageSummary, usageShare } from "@/lib/user-admin";
+
+describe("user table paging and sorting", () => {
+  it("flips the sorted column and starts others in their natural order", () => {
+    expect(nextSort({ column: "created_at", ascending: false }, "created_at")).toEqual({ column: "created_at", ascending: true });
+    expect(nextSort({ column: "created_at", ascending: false }, "name")).toEqual({ column: "name", ascending: true });
+    expect(nextSort({ column: "name", ascending: true }, "created_at")).toEqual({ column: "created_at", ascending: false });
+  });
+
+  it("summarises the page shown", () => {
+    expect(pageSummary(0, 120)).toBe("1–25 of 120");
+    expect(pageSummary(4, 120)).toBe("101–120 of 120");
+    expect(pageSummary(0, 0)).toBe("No users");
+    expect(pageCount(120)).toBe(5);
+    expect(pageCount(0)).toBe(1);
+  });
+});
+
+describe("bulk plan changes", () => {
+  const monthly = { id: "monthly", duration_days: 30 };
+  const current = { running: { starts_on: "2026-04-01", ends_on: "2026-04-30" }, lapsed: { starts_on: "2026-01-01", ends_on: "2026-01-30" } };
+
+  it("starts everyone on the plan today", () => {
+    expect(bulkSubscriptionRows(["running", "new"], monthly, "start", current, "2026-04-22")).toEqual([
+      { user_id: "running", plan_id: "monthly", starts_on: "2026-04-22", ends_on: "2026-05-21" },
+      { user_id: "new", plan_id: "monthly", starts_on: "2026-04-22", ends_on: "2026-05-21" },
+    ]);
+  });
+
+  it("extends running plans and restarts lapsed ones", () => {
+    const rows = bulkSubscriptionRows(["running", "lapsed", "new"], monthly, "extend", current, "2026-04-22");
+    expect(rows.map((r) => [r.starts_on, r.ends_on])).toEqual([
+      ["2026-04-01", "2026-05-30"],
+      ["2026-04-22", "2026-05-21"],
+      ["2026-04-22", "2026-05-21"],
+    ]);
+  });
+});
+
+describe("usage against limits", () => {
+  it("caps the share at 100 and leaves unknown limits blank", () => {
+    expect(usageShare(5, 20)).toBe(25);
+    expect(usageShare(30, 20)).toBe(100);
+    expect(usageShare(3, null)).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+// The archive delete-user offers before an account is removed: the profile and plan, and each case
+// the account owns with everything recorded under it. Uploaded files are listed by storage path but
+// not included. Pure so it can be unit tested; the function does the loading.
+
+type Row = Record<string, unknown>;
+
+/** Tables whose rows belong to a case, keyed by the name they take in the archive. */
+export const CASE_TABLES = {
+  messages: "messages",
+  analyses: "analysis_versions",
+  documents: "case_documents",
+  drafts: "case_documents_drafts",
+  generatedDocuments: "generated_documents",
+  deadlines: "case_deadlines",
+  statusHistory: "case_status_history",
+  members: "case_members",
+} as const;
+
+export type CaseRecordKey = keyof typeof CASE_TABLES;
+
+export interface AccountArchiveRows {
+  profile: Row | null;
+  subscription: Row | null;
+  cases: Row[];
+  caseRecords: Record<CaseRecordKey, Row[]>;
+  generalMessages: Row[];
+}
+
+// Status history is stamped changed_at; every other table created_at
+const stamp = (r: Row) => String(r.created_at ?? r.changed_at ?? "");
+const byCreation = (a: Row, b: Row) => stamp(a).localeCompare(stamp(b));
+
+export const buildAccountArchive = (userId: string, rows: AccountArchiveRows, exportedAt = new Date()) => ({
+  version: 1,
+  exportedAt: exportedAt.toISOString(),
+  userId,
+  profile: rows.profile,
+  subscription: rows.subscription,
+  cases: [...rows.cases].sort(byCreation).map((c) => {
+    const records = Object.fromEntries(
+      (Object.keys(CASE_TABLES) as CaseRecordKey[]).map((key) => [key, rows.caseRecords[key].filter((r) => r.case_id === c.id).sort(byCreation)]),
+    ) as Record<CaseRecordKey, Row[]>;
+    return { ...c, ...records } as Row & Record<CaseRecordKey, Row[]>;
+  }),
+  generalMessages: [...rows.generalMessages].sort(byCreation),
+});
+
+export type AccountArchive = ReturnType<typeof buildAccountArchive>;
@@ -0,0 +1,34 @@
+// Storage cleanup for deleted accounts. delete_user_account() leaves the paths of the account's
+// uploads in account_deletions.pending_files, as SQL cannot remove files from storage.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const DOCUMENTS_BUCKET = "case-documents";
+// Storage removes at most this many objects per request
+const REMOVE_BATCH = 1000;
+
+/**
+ * Removes the uploads of purged accounts from storage and clears them from account_deletions once
+ * gone. Failures are left for the next run. Returns the number of accounts cleaned up.
+ */
+export const removePendingFiles = async (admin: SupabaseClient) => {
+  const { data: purged, error } = await admin.from("account_deletions").select("user_id, pending_files").not("purged_at", "is", null).neq("pending_files", "{}");
+  if (error) {
+    console.error("Could not list the files of deleted accounts:", error.message);
+    return 0;
+  }
+  let cleaned = 0;
+  for (const row of purged ?? []) {
+    let removeError: { message: string } | null = null;
+    for (let i = 0; i < row.pending_files.length && !removeError; i += REMOVE_BATCH) {
+      ({ error: removeError } = await admin.storage.from(DOCUMENTS_BUCKET).remove(row.pending_files.slice(i, i + REMOVE_BATCH)));
+    }
+    if (removeError) {
+      console.error(`Could not remove files of deleted account ${row.user_id}:`, removeError.message);
+      continue;
+    }
+    await admin.from("account_deletions").update({ pending_files: [] }).eq("user_id", row.user_id);
+    cleaned++;
+  }
+  return cleaned;
+};
@@ -0,0 +1,216 @@
+// Pluggable AI provider layer. Any OpenAI-compatible /chat/completions endpoint works, including a
+// local server; AI_PROVIDER=mock swaps in a deterministic provider for tests and offline development.
+// Configuration is read through an `env` getter so this module stays free of Deno globals.
+
+import type { ChatTurn } from "./analysis.ts";
+
+export type RequestKind = "analyze" | "chat";
+
+/** Token counts as reported by the provider for one completion. */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** Receives the token usage of every completion a provider makes, including streamed ones. */
+export type UsageListener = (usage: TokenUsage) => void;
+
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey: string | null;
+  model: string;
+  temperature: number | null;
+  timeoutMs: number;
+}
+
+export interface AiProvider {
+  /** Model name used for a request kind, recorded alongside stored analyses. */
+  modelFor(kind: RequestKind): string;
+  /** Resolves with the full assistant reply. */
+  complete(kind: RequestKind, messages: ChatTurn[]): Promise<string>;
+  /** Resolves with an OpenAI-style `text/event-stream` body once the provider has accepted the request. */
+  stream(kind: RequestKind, messages: ChatTurn[]): Promise<ReadableStream<Uint8Array>>;
+}
+
+/** Provider failure carrying the upstream HTTP status (504 for timeouts). */
+export class ProviderError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+type Env = (name: string) => string | undefined;
+
+const DEFAULT_BASE_URL = "https://ai.gateway.lovable.dev/v1";
+const DEFAULT_MODEL = "google/gemini-3-flash-preview";
+const DEFAULT_TIMEOUT_MS: Record<RequestKind, number> = { analyze: 120_000, chat: 60_000 };
+
+const usageFrom = (usage: { prompt_tokens?: number; completion_tokens?: number } | null | undefined): TokenUsage | null =>
+  usage ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 } : null;
+
+// Passes a completion stream through unchanged while picking up the `usage` member of its final chunk
+const meterStream = (body: ReadableStream<Uint8Array>, onUsage: UsageListener): ReadableStream<Uint8Array> => {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      buffer += decoder.decode(chunk, { stream: true });
+      let idx: number;
+      while ((idx = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, idx).trim();
+        buffer = buffer.slice(idx + 1);
+        if (!line.startsWith("data: ") || !line.includes('"usage"')) continue;
+        try {
+          const usage = usageFrom(JSON.parse(line.slice(6)).usage);
+          if (usage) onUsage(usage);
+        } catch {
+          // Not a complete JSON frame
+        }
+      }
+    },
+  }));
+};
+
+const numberOrNull = (value: string | undefined) => (value === undefined || value === "" ? null : Number(value));
+
+/** Resolves settings for one request kind: AI_ANALYZE_* / AI_CHAT_* override the shared AI_* values. */
+export const loadProviderConfig = (kind: RequestKind, env: Env): ProviderConfig => {
+  const read = (name: string) => env(`AI_${kind.toUpperCase()}_${name}`) ?? env(`AI_${name}`);
+  const baseUrl = (read("BASE_URL") ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const apiKey = read("API_KEY") ?? (baseUrl === DEFAULT_BASE_URL ? env("LOVABLE_API_KEY") : undefined) ?? null;
+  if (!apiKey && baseUrl === DEFAULT_BASE_URL) throw new Error("LOVABLE_API_KEY is not configured");
+
+  return {
+    baseUrl,
+    apiKey,
+    model: read("MODEL") ?? DEFAULT_MODEL,
+    temperature: numberOrNull(read("TEMPERATURE")),
+    timeoutMs: numberOrNull(read("TIMEOUT_MS")) ?? DEFAULT_TIMEOUT_MS[kind],
+  };
+};
+
+export const createOpenAiCompatibleProvider = (
+  configs: Record<RequestKind, ProviderConfig>,
+  fetchImpl: typeof fetch = fetch,
+  onUsage?: UsageListener,
+): AiProvider => {
+  // The timeout covers the wait for response headers, plus the body for non-streaming calls
+  const send = async (kind: RequestKind, messages: ChatTurn[], stream: boolean): Promise<unknown> => {
+    const config = configs[kind];
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+    try {
+      const response = await fetchImpl(`${config.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          ...(config.temperature !== null ? { temperature: config.temperature } : {}),
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const t = await response.text();
+        console.error("AI error:", response.status, t);
+        throw new ProviderError(response.status, t || "AI service error");
+      }
+      return stream ? response.body : await response.json();
+    } catch (e) {
+      if (e instanceof ProviderError) throw e;
+      if (controller.signal.aborted) throw new ProviderError(504, `AI ${kind} request timed out after ${config.timeoutMs}ms`);
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    modelFor: (kind) => configs[kind].model,
+    async complete(kind, messages) {
+      const data = (await send(kind, messages, false)) as {
+        choices?: { message?: { content?: string } }[];
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      };
+      const usage = usageFrom(data.usage);
+      if (usage) onUsage?.(usage);
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+    async stream(kind, messages) {
+      const body = (await send(kind, messages, true)) as ReadableStream<Uint8Array>;
+      return onUsage ? meterStream(body, onUsage) : body;
+    },
+  };
+};
+
+const MOCK_ANALYSIS = {
+  legalSections: [
+    { section: "Section 103 BNS (Section 302 IPC)", description: "Punishment for murder" },
+    { section: "Section 3(5) BNS (Section 34 IPC)", description: "Acts done by several persons in furtherance of common intention" },
+  ],
+  punishmentRange: "Death or imprisonment for life, and fine.",
+  presentationStrategy: "Mock strategy: establish the chain of circumstances and challenge gaps in the prosecution timeline.",
+  casePrecedents: [
+    { name: "Bachan Singh v. State of Punjab (1980)", relevance: "Mock precedent: rarest of rare doctrine on sentencing." },
+  ],
+  courtDocument: "# IN THE COURT OF THE SESSIONS JUDGE\n\n## Facts of the Case\n\nMock facts.\n\n## Applicable Legal Provisions\n\n- Section 103 BNS\n\n## Arguments\n\nMock arguments.\n\n## Prayer\n\nMock prayer.\n\n## Conclusion\n\nMock conclusion.",
+};
+
+const encoder = new TextEncoder();
+
+// Rough four-characters-per-token estimate, so metering can be exercised offline
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/** Deterministic provider: the same messages always produce the same reply, with no network access. */
+export const createMockProvider = (onUsage?: UsageListener): AiProvider => {
+  const reply = (kind: RequestKind, messages: ChatTurn[]) => {
+    if (kind === "analyze") return JSON.stringify(MOCK_ANALYSIS, null, 2);
+    const last = [...messages].reverse().find((m) => m.role === "user");
+    return `**Mock response** to: ${last?.content.slice(0, 200) ?? ""}`;
+  };
+  const meter = (messages: ChatTurn[], text: string) =>
+    onUsage?.({ promptTokens: estimateTokens(messages.map((m) => m.content).join("")), completionTokens: estimateTokens(text) });
+
+  return {
+    modelFor: () => "mock",
+    async complete(kind, messages) {
+      const text = reply(kind, messages);
+      meter(messages, text);
+      return text;
+    },
+    async stream(kind, messages) {
+      const text = reply(kind, messages);
+      meter(messages, text);
+      const chunks = text.match(/[\s\S]{1,40}/g) ?? [];
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const content of chunks) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`));
+          }
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        },
+      });
+    },
+  };
+};
+
+export const createProvider = (env: Env, onUsage?: UsageListener): AiProvider =>
+  env("AI_PROVIDER") === "mock"
+    ? createMockProvider(onUsage)
+    : createOpenAiCompatibleProvider(
+        {
+          analyze: loadProviderConfig("analyze", env),
+          chat: loadProviderConfig("chat", env),
+        },
+        fetch,
+        onUsage,
+      );
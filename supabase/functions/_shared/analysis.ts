@@ -0,0 +1,210 @@
+// Shared AnalysisData schema, parsing and repair loop for the analyze-case function.
+// Kept free of Deno globals so it can also be exercised from the Vitest suite.
+
+export interface AnalysisData {
+  legalSections: { section: string; description: string }[];
+  punishmentRange: string;
+  presentationStrategy: string;
+  casePrecedents: { name: string; relevance: string }[];
+  courtDocument: string;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult =
+  | { ok: true; data: AnalysisData }
+  | { ok: false; errors: FieldError[] };
+
+export interface ChatTurn {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const checkString = (value: unknown, field: string, errors: FieldError[]): string => {
+  if (typeof value !== "string") {
+    errors.push({ field, message: value === undefined ? "is required" : "must be a string" });
+    return "";
+  }
+  if (!value.trim()) errors.push({ field, message: "must not be empty" });
+  return value.trim();
+};
+
+const checkList = <K extends string>(
+  value: unknown,
+  field: string,
+  keys: readonly K[],
+  errors: FieldError[],
+): Record<K, string>[] => {
+  if (!Array.isArray(value)) {
+    errors.push({ field, message: value === undefined ? "is required" : "must be an array" });
+    return [];
+  }
+  if (value.length === 0) errors.push({ field, message: "must contain at least one entry" });
+  return value.map((item, i) => {
+    const entry = {} as Record<K, string>;
+    if (!isObject(item)) {
+      errors.push({ field: `${field}[${i}]`, message: "must be an object" });
+      return entry;
+    }
+    for (const key of keys) entry[key] = checkString(item[key], `${field}[${i}].${key}`, errors);
+    return entry;
+  });
+};
+
+export const ANALYSIS_FIELDS = [
+  "legalSections",
+  "punishmentRange",
+  "presentationStrategy",
+  "casePrecedents",
+  "courtDocument",
+] as const;
+
+export type AnalysisField = (typeof ANALYSIS_FIELDS)[number];
+
+const fieldValidators: { [F in AnalysisField]: (value: unknown, errors: FieldError[]) => AnalysisData[F] } = {
+  legalSections: (value, errors) => checkList(value, "legalSections", ["section", "description"] as const, errors),
+  punishmentRange: (value, errors) => checkString(value, "punishmentRange", errors),
+  presentationStrategy: (value, errors) => checkString(value, "presentationStrategy", errors),
+  casePrecedents: (value, errors) => checkList(value, "casePrecedents", ["name", "relevance"] as const, errors),
+  courtDocument: (value, errors) => checkString(value, "courtDocument", errors),
+};
+
+export const isAnalysisField = (key: string): key is AnalysisField =>
+  (ANALYSIS_FIELDS as readonly string[]).includes(key);
+
+/** Validates a single top-level field, used when sections are streamed one at a time. */
+export const validateAnalysisField = <F extends AnalysisField>(
+  field: F,
+  value: unknown,
+): { ok: true; value: AnalysisData[F] } | { ok: false; errors: FieldError[] } => {
+  const errors: FieldError[] = [];
+  const checked = fieldValidators[field](value, errors);
+  return errors.length ? { ok: false, errors } : { ok: true, value: checked };
+};
+
+/** Validates an untrusted value against the AnalysisData shape, dropping unknown keys. */
+export const validateAnalysis = (value: unknown): ValidationResult => {
+  if (!isObject(value)) return { ok: false, errors: [{ field: "$", message: "must be a JSON object" }] };
+
+  const errors: FieldError[] = [];
+  const data = {} as AnalysisData;
+  for (const field of ANALYSIS_FIELDS) {
+    (data as Record<AnalysisField, unknown>)[field] = fieldValidators[field](value[field], errors);
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, data };
+};
+
+/**
+ * Scans a possibly incomplete JSON object and returns the top-level members whose values
+ * have been fully received. Members still being written are left out.
+ */
+export const extractCompletedFields = (text: string): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  const start = text.indexOf("{");
+  if (start === -1) return fields;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let key: string | null = null;
+  let keyStart = -1;
+  let valueStart = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        if (depth === 1 && valueStart === -1) key = JSON.parse(text.slice(keyStart, i + 1));
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      if (depth === 1 && valueStart === -1) keyStart = i;
+    } else if (ch === "{" || ch === "[") {
+      depth++;
+    } else if (ch === ":" && depth === 1 && valueStart === -1) {
+      valueStart = i + 1;
+    } else if (ch === "," || ch === "}" || ch === "]") {
+      if (depth === 1 && key !== null && valueStart !== -1) {
+        try {
+          fields[key] = JSON.parse(text.slice(valueStart, i));
+        } catch {
+          // Malformed member; the final validation pass reports it
+        }
+        key = null;
+        valueStart = -1;
+      }
+      if (ch !== ",") depth--;
+      if (depth === 0) break;
+    }
+  }
+
+  return fields;
+};
+
+/** Extracts the JSON object from a model reply, tolerating ```json fences and surrounding prose. */
+export const parseModelJson = (content: string): { ok: true; value: unknown } | { ok: false; errors: FieldError[] } => {
+  const stripped = content.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  const start = stripped.indexOf("{");
+  const end = stripped.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return { ok: false, errors: [{ field: "$", message: "response did not contain a JSON object" }] };
+  }
+  try {
+    return { ok: true, value: JSON.parse(stripped.slice(start, end + 1)) };
+  } catch (e) {
+    return { ok: false, errors: [{ field: "$", message: `invalid JSON: ${e instanceof Error ? e.message : String(e)}` }] };
+  }
+};
+
+export const buildRepairPrompt = (errors: FieldError[]) =>
+  `Your previous response did not match the required JSON schema. Fix these problems:
+${errors.map((e) => `- ${e.field}: ${e.message}`).join("\n")}
+
+Respond ONLY with the complete corrected JSON object containing legalSections, punishmentRange, presentationStrategy, casePrecedents and courtDocument.`;
+
+export type AnalysisOutcome =
+  | { ok: true; data: AnalysisData; attempts: number }
+  | { ok: false; errors: FieldError[]; attempts: number };
+
+/**
+ * Requests an analysis and re-prompts the model with the validation errors until the reply
+ * validates or `maxRepairs` extra attempts have been used. A `firstReply` that was already
+ * received (e.g. from a stream) is validated in place of the first completion.
+ */
+export const runAnalysisWithRepair = async (
+  complete: (messages: ChatTurn[]) => Promise<string>,
+  messages: ChatTurn[],
+  maxRepairs: number,
+  firstReply?: string,
+): Promise<AnalysisOutcome> => {
+  const conversation = [...messages];
+  let errors: FieldError[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const content = attempt === 1 && firstReply !== undefined ? firstReply : await complete(conversation);
+    const parsed = parseModelJson(content);
+    const result = "value" in parsed ? validateAnalysis(parsed.value) : parsed;
+    if ("data" in result) return { ok: true, data: result.data, attempts: attempt };
+
+    errors = result.errors;
+    conversation.push(
+      { role: "assistant", content },
+      { role: "user", content: buildRepairPrompt(errors) },
+    );
+  }
+
+  return { ok: false, errors, attempts: maxRepairs + 1 };
+};
@@ -0,0 +1,151 @@
+// Resolves the calling user from their session JWT and enforces entitlements and daily quotas.
+
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+import type { TokenUsage } from "./ai-provider.ts";
+
+export type UsageKind = "analysis" | "chat";
+
+const DEFAULT_LIMITS: Record<UsageKind, number> = {
+  analysis: Number(Deno.env.get("DAILY_ANALYSIS_QUOTA") ?? "20"),
+  chat: Number(Deno.env.get("DAILY_CHAT_QUOTA") ?? "200"),
+};
+
+export interface AuthorizedCaller {
+  user: User;
+  /** Client acting as the caller, so RLS applies to anything it reads. */
+  supabase: SupabaseClient;
+  /** Service-role client for writes the caller may not make directly. */
+  admin: SupabaseClient;
+  /** The `ai_usage` row metered for this request, set by authorizeAiRequest(). */
+  usageId?: string;
+}
+
+// `details` tells the client which entitlement refused the request, for its subscription dialog
+const deny = (status: number, error: string, code: string, headers: Record<string, string>, details?: Record<string, unknown>) =>
+  new Response(JSON.stringify({ error, code, ...(details ? { details } : {}) }), { status, headers: { ...headers, "Content-Type": "application/json" } });
+
+const istToday = () => new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10);
+
+/** Resolves the caller from the session JWT. Returns a ready-to-send 401 Response when there is none. */
+export const authenticateRequest = async (
+  req: Request,
+  corsHeaders: Record<string, string>,
+): Promise<AuthorizedCaller | Response> => {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return deny(401, "Unauthorized", "unauthorized", corsHeaders);
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user } } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+  if (!user) return deny(401, "Unauthorized", "unauthorized", corsHeaders);
+
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  return { user, supabase, admin };
+};
+
+/**
+ * Authenticates the request, rejects blocked or unsubscribed profiles and meters one unit of
+ * `kind` against the caller's daily quota: their quota override, else their plan's limit, else the
+ * configured default. Returns a ready-to-send error Response on refusal.
+ */
+export const authorizeAiRequest = async (
+  req: Request,
+  kind: UsageKind,
+  corsHeaders: Record<string, string>,
+): Promise<AuthorizedCaller | Response> => {
+  const caller = await authenticateRequest(req, corsHeaders);
+  if (caller instanceof Response) return caller;
+  const { user, admin } = caller;
+
+  const { data: profile } = await admin
+    .from("profiles")
+    .select("access_enabled, subscription_active")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (!profile || !profile.access_enabled) {
+    return deny(403, "Your access has been disabled by admin.", "access_disabled", corsHeaders);
+  }
+
+  const [{ data: subscription }, { data: quota }] = await Promise.all([
+    admin
+      .from("user_subscriptions")
+      .select("starts_on, ends_on, plan:subscription_plans(name, daily_analysis_limit, daily_chat_limit)")
+      .eq("user_id", user.id)
+      .maybeSingle(),
+    admin.from("user_quotas").select("daily_analysis_limit, daily_chat_limit").eq("user_id", user.id).maybeSingle(),
+  ]);
+  const plan = subscription?.plan ?? null;
+
+  // The plan's dates are checked here as well, so a lapse applies before the nightly job runs
+  const today = istToday();
+  if (!profile.subscription_active || (subscription && (today < subscription.starts_on || today > subscription.ends_on))) {
+    return deny(403, "Your subscription has expired.", "subscription_inactive", corsHeaders, {
+      reason: subscription ? "expired" : "inactive",
+      plan: plan?.name ?? null,
+      endsOn: subscription?.ends_on ?? null,
+    });
+  }
+
+  const override = kind === "analysis" ? quota?.daily_analysis_limit : quota?.daily_chat_limit;
+  const planLimit = kind === "analysis" ? plan?.daily_analysis_limit : plan?.daily_chat_limit;
+  const limit = override ?? planLimit ?? DEFAULT_LIMITS[kind];
+
+  const { data: usageId, error } = await admin.rpc("record_ai_usage", { _user_id: user.id, _kind: kind, _limit: limit });
+  if (error) throw new Error(`Failed to record usage: ${error.message}`);
+  if (!usageId) {
+    return deny(429, `Daily ${kind} limit of ${limit} reached. It resets at midnight IST.`, "quota_exceeded", corsHeaders, {
+      reason: kind,
+      plan: override == null ? plan?.name ?? null : null,
+      limit,
+    });
+  }
+
+  return { ...caller, usageId };
+};
+
+export interface UsageMeter {
+  /** Binds the meter to the authorized request, once its type and model are known. */
+  attach(caller: AuthorizedCaller, requestType: string, model: string): void;
+  /** Adds the tokens of one completion; a request may make several (e.g. analysis repairs). */
+  add(usage: TokenUsage): void;
+  /** Records how the request ended. Only the first call is written, so later failures cannot overwrite it. */
+  finish(status: "ok" | "error", error?: string): Promise<void>;
+}
+
+/** Accumulates token usage for a metered request and writes its outcome to the request's `ai_usage` row. */
+export const createUsageMeter = (): UsageMeter => {
+  let target: { caller: AuthorizedCaller; requestType: string; model: string } | null = null;
+  let finished = false;
+  const totals = { promptTokens: 0, completionTokens: 0 };
+
+  return {
+    attach(caller, requestType, model) {
+      target = { caller, requestType, model };
+    },
+    add(usage) {
+      totals.promptTokens += usage.promptTokens;
+      totals.completionTokens += usage.completionTokens;
+    },
+    async finish(status, error) {
+      if (finished || !target?.caller.usageId) return;
+      finished = true;
+      const { error: updateError } = await target.caller.admin
+        .from("ai_usage")
+        .update({
+          status,
+          error: error ?? null,
+          request_type: target.requestType,
+          model: target.model,
+          prompt_tokens: totals.promptTokens,
+          completion_tokens: totals.completionTokens,
+          finished_at: new Date().toISOString(),
+        })
+        .eq("id", target.caller.usageId);
+      // Metering must never fail the request it describes
+      if (updateError) console.error("Failed to finish usage:", updateError.message);
+    },
+  };
+};
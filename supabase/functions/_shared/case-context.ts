@@ -0,0 +1,95 @@
+// Builds the grounded case context that is prepended to follow-up case chat requests.
+
+import { validateAnalysis } from "./analysis.ts";
+import { DOCUMENT_TYPE_LABELS, type CaseDocumentType } from "./documents.ts";
+import { describeIntake, normalizeIntake } from "./intake.ts";
+
+export interface CaseContextRow {
+  title: string;
+  /** Structured intake; null for cases saved before it existed */
+  intake?: unknown;
+  description: string | null;
+  category: string | null;
+  offence: string | null;
+  analysis_data: unknown;
+}
+
+export interface CaseDocumentRow {
+  file_name: string;
+  doc_type: string;
+  extracted_text: string | null;
+}
+
+// Court documents can be long; the cards already carry the substance the model needs.
+const MAX_DOCUMENT_CHARS = 4000;
+// Shared by all uploaded source documents, split evenly between them
+const MAX_SOURCE_CHARS = 24000;
+
+/** Formats a case row (loaded under the caller's RLS) as a system message for case chat. */
+export const formatCaseContext = (row: CaseContextRow): string => {
+  const lines = [
+    "CASE CONTEXT (authoritative, loaded from the case record):",
+    `Title: ${row.title}`,
+    ...(row.intake
+      ? describeIntake(normalizeIntake(row.intake))
+      : [
+          `Case Category: ${row.category || "Not specified"}`,
+          `Offence Type: ${row.offence || "Not specified"}`,
+          `Facts: ${row.description || "Not recorded"}`,
+        ]),
+  ];
+
+  const analysis = validateAnalysis(row.analysis_data);
+  if ("data" in analysis) {
+    const { data } = analysis;
+    const document = data.courtDocument.length > MAX_DOCUMENT_CHARS
+      ? `${data.courtDocument.slice(0, MAX_DOCUMENT_CHARS)}\n[...truncated]`
+      : data.courtDocument;
+    lines.push(
+      "",
+      "ANALYSIS ALREADY SHOWN TO THE USER:",
+      "Applicable Legal Sections:",
+      ...data.legalSections.map((s) => `- ${s.section}: ${s.description}`),
+      `Punishment / Sentence Range: ${data.punishmentRange}`,
+      `Court Presentation Strategy: ${data.presentationStrategy}`,
+      "Relevant Case Precedents:",
+      ...data.casePrecedents.map((c) => `- ${c.name}: ${c.relevance}`),
+      "Court-Ready Document:",
+      document,
+    );
+  }
+
+  lines.push(
+    "",
+    "Keep follow-up answers consistent with the sections, precedents and document above. If you believe part of the analysis is wrong, say so explicitly and explain why instead of silently contradicting it.",
+  );
+  return lines.join("\n");
+};
+
+/** Recovers the intake from the first analysis prompt for cases saved before the intake columns existed. */
+export const intakeFromPrompt = (prompt: string): Pick<CaseContextRow, "description" | "category" | "offence"> => ({
+  description: prompt.match(/Case Description:\s*([\s\S]*?)(?:\nCase Category:|\nOffence Type:|$)/)?.[1]?.trim() || null,
+  category: prompt.match(/\nCase Category:\s*(.*)/)?.[1]?.trim() || null,
+  offence: prompt.match(/\nOffence Type:\s*(.*)/)?.[1]?.trim() || null,
+});
+
+/** Formats extracted text of uploaded case documents as source material for analysis and case chat. */
+export const formatCaseDocuments = (docs: CaseDocumentRow[]): string | null => {
+  const usable = docs.filter((d) => d.extracted_text);
+  if (usable.length === 0) return null;
+
+  const budget = Math.floor(MAX_SOURCE_CHARS / usable.length);
+  const lines = [
+    "SOURCE DOCUMENTS (uploaded by the user; quote them where relevant and prefer them over assumptions):",
+  ];
+  for (const doc of usable) {
+    const label = DOCUMENT_TYPE_LABELS[doc.doc_type as CaseDocumentType] ?? "Document";
+    const text = doc.extracted_text!;
+    lines.push(
+      "",
+      `--- ${label}: ${doc.file_name} ---`,
+      text.length > budget ? `${text.slice(0, budget)}\n[...truncated]` : text,
+    );
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,300 @@
+// Turns the markdown `courtDocument` into a court-formatted layout (cause title, body blocks,
+// signature block, verification) that the export function renders as DOCX or PDF.
+
+export type TextRun = { text: string; bold?: boolean; italic?: boolean };
+
+export type DocumentBlock =
+  | { kind: "heading"; level: number; runs: TextRun[] }
+  | { kind: "paragraph"; runs: TextRun[] }
+  | { kind: "list"; ordered: boolean; items: TextRun[][] }
+  | { kind: "quote"; runs: TextRun[] }
+  | { kind: "rule" };
+
+/** A single line of the cause title or closing; `trailing` is right-aligned on the same line. */
+export type LayoutLine = {
+  text: string;
+  align: "left" | "center" | "right";
+  bold?: boolean;
+  trailing?: string;
+};
+
+export type CourtTemplateId = "high_court" | "district_court";
+export type ExportFormat = "pdf" | "docx";
+
+export interface CourtTemplate {
+  id: CourtTemplateId;
+  label: string;
+  /** Margins in centimetres; the wider left margin leaves room for binding */
+  margins: { top: number; bottom: number; left: number; right: number };
+  /** Body font size in points */
+  fontSize: number;
+  /** Line spacing as a multiple of single spacing */
+  lineSpacing: number;
+  /** Prefix added to the court name when it does not already say which court it is */
+  courtPrefix: string;
+  /** Who verifies the document: a deponent on affidavit in the High Court, the party below */
+  verifiedBy: string;
+}
+
+export const COURT_TEMPLATES: Record<CourtTemplateId, CourtTemplate> = {
+  high_court: {
+    id: "high_court",
+    label: "High Court",
+    margins: { top: 2.5, bottom: 2.5, left: 4, right: 2.5 },
+    fontSize: 14,
+    lineSpacing: 1.5,
+    courtPrefix: "HIGH COURT OF",
+    verifiedBy: "DEPONENT",
+  },
+  district_court: {
+    id: "district_court",
+    label: "District / Sessions Court",
+    margins: { top: 2.5, bottom: 2.5, left: 3.5, right: 2 },
+    fontSize: 12,
+    lineSpacing: 2,
+    courtPrefix: "COURT OF",
+    verifiedBy: "PETITIONER",
+  },
+};
+
+export const isCourtTemplateId = (value: unknown): value is CourtTemplateId =>
+  typeof value === "string" && value in COURT_TEMPLATES;
+
+/** Cause title and signature details, prefilled on the client from the case intake. */
+export type ExportDetails = {
+  court: string;
+  jurisdiction: string;
+  caseNumber: string;
+  petitioner: string;
+  petitionerRole: string;
+  respondent: string;
+  respondentRole: string;
+  firNumber: string;
+  policeStation: string;
+  advocateName: string;
+  enrolmentNumber: string;
+  place: string;
+  date: string;
+};
+
+const text = (value: unknown, max = 300): string => (typeof value === "string" ? value.trim().slice(0, max) : "");
+
+/** Coerces an untrusted request body into ExportDetails, filling the usual defaults. */
+export const normalizeExportDetails = (value: unknown): ExportDetails => {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return {
+    court: text(raw.court),
+    jurisdiction: text(raw.jurisdiction),
+    caseNumber: text(raw.caseNumber),
+    petitioner: text(raw.petitioner),
+    petitionerRole: text(raw.petitionerRole, 60) || "Petitioner",
+    respondent: text(raw.respondent),
+    respondentRole: text(raw.respondentRole, 60) || "Respondent",
+    firNumber: text(raw.firNumber, 100),
+    policeStation: text(raw.policeStation),
+    advocateName: text(raw.advocateName),
+    enrolmentNumber: text(raw.enrolmentNumber, 100),
+    place: text(raw.place, 100),
+    date: text(raw.date, 100),
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`)/;
+
+/** Splits inline markdown into runs; links keep their label and unsupported markup is dropped. */
+export const parseInline = (source: string): TextRun[] => {
+  const plain = source.replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1").replace(/<br\s*\/?>/gi, " ");
+  const runs: TextRun[] = [];
+  for (const part of plain.split(INLINE)) {
+    if (!part) continue;
+    if (/^(\*\*|__).*\1$/.test(part)) runs.push({ text: part.slice(2, -2), bold: true });
+    else if (/^[*_].*[*_]$/.test(part) && part.length > 2) runs.push({ text: part.slice(1, -1), italic: true });
+    else if (/^`.*`$/.test(part)) runs.push({ text: part.slice(1, -1) });
+    else runs.push({ text: part });
+  }
+  return runs;
+};
+
+export const runsText = (runs: TextRun[]) => runs.map((r) => r.text).join("");
+
+/** Parses the block structure of a markdown document: headings, paragraphs, lists, quotes and rules. */
+export const parseMarkdownBlocks = (markdown: string): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ kind: "paragraph", runs: parseInline(paragraph.join(" ")) });
+    if (list) blocks.push({ kind: "list", ordered: list.ordered, items: list.items.map(parseInline) });
+    paragraph = [];
+    list = null;
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    const quote = line.match(/^\s*>\s?(.*)$/);
+
+    if (!line.trim()) {
+      flush();
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      blocks.push({ kind: "rule" });
+    } else if (heading) {
+      flush();
+      blocks.push({ kind: "heading", level: heading[1].length, runs: parseInline(heading[2]) });
+    } else if (bullet || numbered) {
+      const ordered = !!numbered;
+      if (paragraph.length || (list && list.ordered !== ordered)) flush();
+      if (!list) list = { ordered, items: [] };
+      list.items.push((numbered ?? bullet)![1]);
+    } else if (quote) {
+      flush();
+      blocks.push({ kind: "quote", runs: parseInline(quote[1]) });
+    } else if (list && /^\s+/.test(line)) {
+      // Indented continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      if (list) flush();
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+  return blocks;
+};
+
+// ---------------------------------------------------------------------------
+// Court layout
+// ---------------------------------------------------------------------------
+
+const COURT_LINE = /^(in|before)\b.*\b(court|judge|magistrate|tribunal)\b/i;
+
+/** Drops a leading court heading from the body, since the template prints its own cause title. */
+export const stripCourtHeading = (blocks: DocumentBlock[]): DocumentBlock[] => {
+  let start = 0;
+  while (start < blocks.length && blocks[start].kind === "heading") {
+    const heading = blocks[start] as Extract<DocumentBlock, { kind: "heading" }>;
+    if (!COURT_LINE.test(runsText(heading.runs).trim())) break;
+    start++;
+  }
+  return blocks.slice(start);
+};
+
+const courtName = (template: CourtTemplate, court: string) => {
+  const name = court.replace(/^(in the|before the)\s+/i, "").trim().toUpperCase();
+  if (!name) return `IN THE ${template.courtPrefix} ____________`;
+  return /\bCOURT\b/.test(name) ? `IN THE ${name}` : `IN THE ${template.courtPrefix} ${name}`;
+};
+
+/** Court, case number and parties printed above the body. */
+export const buildCauseTitle = (template: CourtTemplate, details: ExportDetails): LayoutLine[] => {
+  const lines: LayoutLine[] = [{ text: courtName(template, details.court), align: "center", bold: true }];
+  if (details.jurisdiction) lines.push({ text: `(${details.jurisdiction.toUpperCase()})`, align: "center" });
+  lines.push({ text: (details.caseNumber || "CASE NO. ______ OF ______").toUpperCase(), align: "center", bold: true });
+  lines.push({ text: "", align: "left" });
+
+  lines.push({ text: "IN THE MATTER OF:", align: "left", bold: true });
+  lines.push({ text: details.petitioner || "______________", align: "left", trailing: `...${details.petitionerRole}` });
+  lines.push({ text: "VERSUS", align: "center", bold: true });
+  lines.push({ text: details.respondent || "______________", align: "left", trailing: `...${details.respondentRole}` });
+
+  if (details.firNumber || details.policeStation) {
+    const fir = [details.firNumber && `FIR No. ${details.firNumber}`, details.policeStation && `P.S. ${details.policeStation}`];
+    lines.push({ text: "", align: "left" });
+    lines.push({ text: fir.filter(Boolean).join(", "), align: "center" });
+  }
+  return lines;
+};
+
+/** Advocate signature block followed by the verification clause. */
+export const buildClosing = (template: CourtTemplate, details: ExportDetails): LayoutLine[] => {
+  const place = details.place || "__________";
+  const date = details.date || "__________";
+  const signature: LayoutLine[] = [
+    { text: "", align: "left" },
+    { text: `Place: ${place}`, align: "left", trailing: details.petitionerRole.toUpperCase() },
+    { text: `Date: ${date}`, align: "left", trailing: "Through" },
+    { text: "", align: "left" },
+    { text: details.advocateName || "______________", align: "right", bold: true },
+    { text: `Advocate for the ${details.petitionerRole}`, align: "right" },
+  ];
+  if (details.enrolmentNumber) signature.push({ text: `Enrolment No. ${details.enrolmentNumber}`, align: "right" });
+
+  return [
+    ...signature,
+    { text: "", align: "left" },
+    { text: "VERIFICATION", align: "center", bold: true },
+    {
+      text:
+        `Verified at ${place} on ${date} that the contents of the above are true and correct to my knowledge ` +
+        "and belief, that no part of it is false and that nothing material has been concealed therefrom.",
+      align: "left",
+    },
+    { text: "", align: "left" },
+    { text: template.verifiedBy, align: "right", bold: true },
+  ];
+};
+
+export interface CourtDocumentLayout {
+  template: CourtTemplate;
+  causeTitle: LayoutLine[];
+  body: DocumentBlock[];
+  closing: LayoutLine[];
+}
+
+export const composeCourtDocument = (
+  markdown: string,
+  templateId: CourtTemplateId,
+  details: ExportDetails,
+): CourtDocumentLayout => {
+  const template = COURT_TEMPLATES[templateId];
+  return {
+    template,
+    causeTitle: buildCauseTitle(template, details),
+    body: stripCourtHeading(parseMarkdownBlocks(markdown)),
+    closing: buildClosing(template, details),
+  };
+};
+
+// The standard PDF fonts only cover WinAnsi (Latin-1 plus typographic punctuation)
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+const SUBSTITUTES: Record<string, string> = { "₹": "Rs.", "\u2010": "-", "\u2011": "-", "\u2212": "-", "\u202f": " ", "\t": "    " };
+
+const encodeWinAnsi = (ch: string): string | null => {
+  if (SUBSTITUTES[ch]) return SUBSTITUTES[ch];
+  const code = ch.charCodeAt(0);
+  if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(ch)) return ch;
+  return null;
+};
+
+/** Replaces characters the standard PDF fonts cannot encode. */
+export const toWinAnsi = (value: string): string =>
+  [...value].map((ch) => encodeWinAnsi(ch) ?? "?").join("");
+
+const layoutText = ({ causeTitle, body, closing }: CourtDocumentLayout): string[] => [
+  ...[...causeTitle, ...closing].flatMap((line) => [line.text, line.trailing ?? ""]),
+  ...body.flatMap((block) => {
+    switch (block.kind) {
+      case "heading":
+      case "paragraph":
+      case "quote":
+        return [runsText(block.runs)];
+      case "list":
+        return block.items.map(runsText);
+      case "rule":
+        return [];
+    }
+  }),
+];
+
+/**
+ * Whether the standard PDF fonts can print the whole document. Indian scripts such as Devanagari
+ * need a shaping engine pdf-lib lacks, so those documents are exported as DOCX instead.
+ */
+export const fitsPdfFonts = (layout: CourtDocumentLayout): boolean =>
+  layoutText(layout).every((text) => [...text].every((ch) => /\s/.test(ch) || encodeWinAnsi(ch) !== null));
@@ -0,0 +1,157 @@
+// Document types the generator can draft from a case (`type: "document"` requests), each with the
+// particulars it needs and its drafting template. The client keeps the matching form definitions in
+// src/lib/document-types.ts.
+
+export type GeneratedDocumentType =
+  | "regular_bail"
+  | "anticipatory_bail"
+  | "bail_reply"
+  | "discharge_application"
+  | "written_statement"
+  | "legal_notice"
+  | "appeal_memo";
+
+interface DocumentTemplate {
+  label: string;
+  /** Field keys and labels, in the order they are given to the model */
+  fields: Record<string, string>;
+  required: string[];
+  instructions: string;
+}
+
+export const DOCUMENT_TEMPLATES: Record<GeneratedDocumentType, DocumentTemplate> = {
+  regular_bail: {
+    label: "Regular Bail Application",
+    fields: {
+      court: "Court",
+      custodySince: "In custody since",
+      previousApplications: "Previous bail applications and their outcome",
+      personalCircumstances: "Personal circumstances of the accused",
+    },
+    required: ["court", "custodySince"],
+    instructions: `Draft an application for REGULAR BAIL: under Section 483 BNSS (Section 439 CrPC) before a Court of Session or High Court, or Section 480 BNSS (Section 437 CrPC) before a Magistrate, according to the court named.
+Structure: cause title; title of the application; "MOST RESPECTFULLY SHOWETH:" with numbered paragraphs on the FIR, the allegations, the date of arrest and the period in custody; GROUNDS as lettered paragraphs (nature of the evidence, period of custody, parity, antecedents, no risk of flight or tampering, readiness to abide by conditions); a statement of previous bail applications; PRAYER; place, date and advocate signature placeholders.`,
+  },
+  anticipatory_bail: {
+    label: "Anticipatory Bail Application",
+    fields: {
+      court: "Court",
+      apprehension: "Why arrest is apprehended",
+      previousApplications: "Previous applications and their outcome",
+      conditionsOffered: "Conditions the applicant offers to abide by",
+    },
+    required: ["court", "apprehension"],
+    instructions: `Draft an application for ANTICIPATORY BAIL under Section 482 BNSS (Section 438 CrPC).
+Structure: cause title; title of the application; "MOST RESPECTFULLY SHOWETH:" with numbered paragraphs on the FIR or complaint, the allegations and the reasons the applicant apprehends arrest; GROUNDS as lettered paragraphs (nature and gravity of the accusation, antecedents, possibility of fleeing justice, whether the accusation is made to humiliate, cooperation with the investigation); a statement of previous applications; undertaking to abide by conditions; PRAYER for a direction that the applicant be released on bail in the event of arrest; place, date and advocate signature placeholders.`,
+  },
+  bail_reply: {
+    label: "Reply to Bail Application",
+    fields: {
+      court: "Court",
+      onBehalfOf: "Replying on behalf of",
+      applicationDetails: "Bail application being replied to",
+      objections: "Key objections",
+    },
+    required: ["court", "onBehalfOf", "applicationDetails"],
+    instructions: `Draft a REPLY opposing (or, if the objections say so, not opposing) the bail application described, on behalf of the party named.
+Structure: cause title; title "REPLY ON BEHALF OF ..."; preliminary submissions; parawise reply to the application's paragraphs as far as they can be inferred; grounds for rejection (gravity of the offence, stage of investigation, risk of tampering with evidence or influencing witnesses, antecedents, flight risk); PRAYER; place, date and signature placeholders.`,
+  },
+  discharge_application: {
+    label: "Discharge Application",
+    fields: {
+      court: "Court",
+      caseNumber: "Case number",
+      chargeSheetDate: "Date of charge sheet",
+      groundsSummary: "Main grounds for discharge",
+    },
+    required: ["court", "caseNumber"],
+    instructions: `Draft an application for DISCHARGE: under Section 250 BNSS (Section 227 CrPC) in a sessions case, or Section 262 BNSS (Section 239 CrPC) in a warrant case before a Magistrate, according to the court named.
+Structure: cause title; title of the application; "MOST RESPECTFULLY SHOWETH:" with numbered paragraphs summarising the prosecution case and the charge sheet; GROUNDS as lettered paragraphs showing that, taking the prosecution material at face value, no sufficient ground exists to proceed (missing ingredients of each offence, absence of evidence, legal bars); PRAYER for discharge; place, date and advocate signature placeholders.`,
+  },
+  written_statement: {
+    label: "Written Statement",
+    fields: {
+      court: "Court",
+      suitNumber: "Suit number",
+      defendant: "Defendant filing the statement",
+      plaintiffClaims: "Plaintiff's claims to be answered",
+      preliminaryObjections: "Preliminary objections",
+    },
+    required: ["court", "suitNumber", "defendant", "plaintiffClaims"],
+    instructions: `Draft a WRITTEN STATEMENT on behalf of the defendant under Order VIII of the Code of Civil Procedure, 1908.
+Structure: cause title; title "WRITTEN STATEMENT ON BEHALF OF THE DEFENDANT"; PRELIMINARY OBJECTIONS (maintainability, limitation, jurisdiction, cause of action, as they apply); REPLY ON MERITS answering each of the plaintiff's claims, specifically admitting or denying them, since evasive denial is taken as admission; any additional pleas; PRAYER for dismissal with costs; verification and signature placeholders.`,
+  },
+  legal_notice: {
+    label: "Legal Notice",
+    fields: {
+      sender: "Sender (on whose behalf)",
+      recipient: "Recipient name and address",
+      demand: "Demand or relief sought",
+      complianceDays: "Days allowed to comply",
+    },
+    required: ["sender", "recipient", "demand"],
+    instructions: `Draft a LEGAL NOTICE from an advocate on behalf of the sender.
+Structure: advocate letterhead placeholder; mode of service (Registered Post A.D. / Speed Post / email); date; recipient's name and address; subject line; "Under instructions from and on behalf of my client ..."; numbered paragraphs setting out the facts and the recipient's liability with the applicable provisions; the demand with the period to comply (15 days unless another period is given); the consequences of non-compliance, including civil and criminal proceedings; note that a copy is retained; advocate signature placeholder.`,
+  },
+  appeal_memo: {
+    label: "Memorandum of Appeal",
+    fields: {
+      court: "Appellate court",
+      impugnedOrder: "Impugned judgment or order (court, case number, date)",
+      conviction: "Conviction and sentence",
+      groundsSummary: "Main grounds of appeal",
+    },
+    required: ["court", "impugnedOrder"],
+    instructions: `Draft a MEMORANDUM OF CRIMINAL APPEAL against the impugned judgment or order: under Section 415 BNSS (Section 374 CrPC) against conviction, or the provision that applies to the order named.
+Structure: cause title; title "MEMORANDUM OF APPEAL UNDER SECTION ... AGAINST THE JUDGMENT AND ORDER DATED ..."; particulars of the impugned judgment; brief facts in numbered paragraphs; GROUNDS OF APPEAL as lettered paragraphs (misappreciation of evidence, contradictions in prosecution witnesses, legal errors, sentence), each stated concisely; a statement on limitation; PRAYER, including suspension of sentence where there is a conviction; place, date and advocate signature placeholders.`,
+  },
+};
+
+export interface DocumentRequest {
+  type: GeneratedDocumentType;
+  fields: Record<string, string>;
+}
+
+const MAX_FIELD_CHARS = 2000;
+
+export const isGeneratedDocumentType = (value: unknown): value is GeneratedDocumentType =>
+  typeof value === "string" && value in DOCUMENT_TEMPLATES;
+
+/** Validates the document request; a 400 response lists any required particulars that are missing. */
+export const parseDocumentRequest = (raw: unknown): DocumentRequest | { error: string; missing?: string[] } => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  if (!isGeneratedDocumentType(value.type)) return { error: "Unknown document type" };
+
+  const template = DOCUMENT_TEMPLATES[value.type];
+  const given = (value.fields && typeof value.fields === "object" ? value.fields : {}) as Record<string, unknown>;
+  const fields: Record<string, string> = {};
+  for (const key of Object.keys(template.fields)) {
+    const field = given[key];
+    if (typeof field === "string" && field.trim()) fields[key] = field.trim().slice(0, MAX_FIELD_CHARS);
+  }
+
+  const missing = template.required.filter((key) => !fields[key]);
+  if (missing.length) {
+    return { error: `Missing required details: ${missing.map((key) => template.fields[key]).join(", ")}`, missing };
+  }
+  return { type: value.type, fields };
+};
+
+export const DRAFTING_SYSTEM_PROMPT = `You are a senior Indian litigation drafter. Draft the requested document from the CASE CONTEXT, the SOURCE DOCUMENTS and the particulars given.
+Write it in markdown ready for filing: a "#" heading for the court or addressee, "##" headings for the main parts, numbered paragraphs for facts and lettered grounds.
+Use the names, dates and numbers from the case; where a particular is genuinely unknown, leave a clear blank such as "________" rather than inventing it.
+Respond ONLY with the document, without any introduction or closing remarks.`;
+
+export const buildDocumentPrompt = (request: DocumentRequest): string => {
+  const template = DOCUMENT_TEMPLATES[request.type];
+  const particulars = Object.entries(template.fields)
+    .filter(([key]) => request.fields[key])
+    .map(([key, label]) => `- ${label}: ${request.fields[key]}`);
+  return [
+    `DOCUMENT TYPE: ${template.label}`,
+    template.instructions,
+    "",
+    "PARTICULARS:",
+    ...(particulars.length ? particulars : ["- None beyond the case record"]),
+  ].join("\n");
+};
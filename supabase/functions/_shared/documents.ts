@@ -0,0 +1,57 @@
+// Format detection and text clean-up for uploaded case documents. The binary parsers (PDF, DOCX zip)
+// live in the extract-document function; everything here is pure so it can be unit tested.
+
+export type DocumentFormat = "pdf" | "docx" | "text";
+
+export type CaseDocumentType = "fir" | "charge_sheet" | "judgment" | "other";
+
+export const DOCUMENT_TYPE_LABELS: Record<CaseDocumentType, string> = {
+  fir: "FIR",
+  charge_sheet: "Charge Sheet",
+  judgment: "Judgment",
+  other: "Document",
+};
+
+// Stored text is capped so a single upload cannot bloat the table or the prompts built from it
+export const MAX_EXTRACTED_CHARS = 200_000;
+
+/** Picks a parser from the MIME type, falling back to the file extension. */
+export const detectFormat = (fileName: string, mimeType: string | null): DocumentFormat | null => {
+  const ext = fileName.toLowerCase().split(".").pop() ?? "";
+  if (mimeType === "application/pdf" || ext === "pdf") return "pdf";
+  if (mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" || ext === "docx") return "docx";
+  if (mimeType?.startsWith("text/") || ext === "txt" || ext === "md") return "text";
+  return null;
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+/** Converts the body of `word/document.xml` to plain text, keeping paragraph, tab and line breaks. */
+export const docxXmlToText = (xml: string): string =>
+  decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(br|cr)\/>/g, "\n")
+      .replace(/<\/w:p>/g, "\n")
+      .replace(/<[^>]+>/g, ""),
+  );
+
+/** Normalises line endings and blank runs, and truncates to MAX_EXTRACTED_CHARS. */
+export const normalizeExtractedText = (text: string): string => {
+  const cleaned = text
+    .replace(/\r\n?/g, "\n")
+    .split("\0").join("") // Postgres text columns reject NUL bytes
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return cleaned.length > MAX_EXTRACTED_CHARS ? cleaned.slice(0, MAX_EXTRACTED_CHARS) : cleaned;
+};
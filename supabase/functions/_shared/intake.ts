@@ -0,0 +1,70 @@
+// Structured case intake: normalisation of client input and its rendering into analysis prompts.
+
+export type CustodyStatus = "not_arrested" | "in_custody" | "on_bail" | "absconding";
+
+export interface CaseIntake {
+  description: string;
+  category: string;
+  offences: string[];
+  parties: { accused: string[]; complainant: string; witnesses: string[] };
+  occurrence: { date: string; place: string };
+  fir: { number: string; policeStation: string };
+  court: { name: string; jurisdiction: string };
+  custodyStatus: CustodyStatus | "";
+}
+
+export const CUSTODY_LABELS: Record<CustodyStatus, string> = {
+  not_arrested: "Not arrested",
+  in_custody: "In custody",
+  on_bail: "On bail",
+  absconding: "Absconding",
+};
+
+const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+const strList = (v: unknown) => (Array.isArray(v) ? v.map(str).filter(Boolean) : []);
+const obj = (v: unknown) => (typeof v === "object" && v !== null ? (v as Record<string, unknown>) : {});
+
+/** Coerces untrusted JSON into a CaseIntake, dropping unknown keys and blank list entries. */
+export const normalizeIntake = (value: unknown): CaseIntake => {
+  const v = obj(value);
+  const parties = obj(v.parties);
+  const occurrence = obj(v.occurrence);
+  const fir = obj(v.fir);
+  const court = obj(v.court);
+  const custody = str(v.custodyStatus);
+
+  return {
+    description: str(v.description),
+    category: str(v.category),
+    offences: strList(v.offences),
+    parties: { accused: strList(parties.accused), complainant: str(parties.complainant), witnesses: strList(parties.witnesses) },
+    occurrence: { date: str(occurrence.date), place: str(occurrence.place) },
+    fir: { number: str(fir.number), policeStation: str(fir.policeStation) },
+    court: { name: str(court.name), jurisdiction: str(court.jurisdiction) },
+    custodyStatus: custody in CUSTODY_LABELS ? (custody as CustodyStatus) : "",
+  };
+};
+
+/** Human-readable intake lines; empty fields are omitted. */
+export const describeIntake = (intake: CaseIntake): string[] => {
+  const lines: [string, string][] = [
+    ["Case Description", intake.description],
+    ["Case Category", intake.category],
+    ["Offences", intake.offences.join("; ")],
+    ["Accused", intake.parties.accused.join("; ")],
+    ["Complainant", intake.parties.complainant],
+    ["Witnesses", intake.parties.witnesses.join("; ")],
+    ["Date of Occurrence", intake.occurrence.date],
+    ["Place of Occurrence", intake.occurrence.place],
+    ["FIR Number", intake.fir.number],
+    ["Police Station", intake.fir.policeStation],
+    ["Court", intake.court.name],
+    ["Jurisdiction", intake.court.jurisdiction],
+    ["Custody Status", intake.custodyStatus ? CUSTODY_LABELS[intake.custodyStatus] : ""],
+  ];
+  return lines.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`);
+};
+
+/** The user turn sent for analysis: readable summary followed by the exact structured intake. */
+export const formatIntakePrompt = (intake: CaseIntake): string =>
+  `${describeIntake(intake).join("\n")}\n\nStructured intake (JSON):\n${JSON.stringify(intake, null, 2)}`;
@@ -0,0 +1,68 @@
+// Output languages for analysis, chat and documents. The language comes from the request, else the
+// case, else the user's preference; English needs no instruction. The client keeps the same list in
+// src/lib/languages.ts.
+
+export type LanguageCode = "en" | "hi" | "mr" | "bn" | "gu" | "pa" | "ta" | "te" | "kn" | "ml";
+
+export const LANGUAGES: Record<LanguageCode, { name: string; script: string }> = {
+  en: { name: "English", script: "Latin" },
+  hi: { name: "Hindi", script: "Devanagari" },
+  mr: { name: "Marathi", script: "Devanagari" },
+  bn: { name: "Bengali", script: "Bengali" },
+  gu: { name: "Gujarati", script: "Gujarati" },
+  pa: { name: "Punjabi", script: "Gurmukhi" },
+  ta: { name: "Tamil", script: "Tamil" },
+  te: { name: "Telugu", script: "Telugu" },
+  kn: { name: "Kannada", script: "Kannada" },
+  ml: { name: "Malayalam", script: "Malayalam" },
+};
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === "string" && value in LANGUAGES;
+
+/** The first valid code among the request's, the case's and the profile's; English otherwise. */
+export const resolveLanguage = (...candidates: unknown[]): LanguageCode =>
+  (candidates.find(isLanguageCode) as LanguageCode | undefined) ?? "en";
+
+// References stay in their English form so citations keep matching the statute corpus
+const PRESERVED = "Keep section numbers, act names and abbreviations (e.g. \"Section 103(1) BNS\"), case names and citations exactly as they are, in English.";
+
+/**
+ * System-prompt paragraph asking for output in `code`. In "json" mode the keys and the `section`
+ * and precedent `name` values stay in English so the analysis still validates and links.
+ */
+export const languageInstruction = (code: LanguageCode, mode: "json" | "text"): string => {
+  if (code === "en") return "";
+  const { name, script } = LANGUAGES[code];
+  const scope =
+    mode === "json"
+      ? `Write every string value of the JSON in ${name} (${script} script), in the formal register used in Indian courts. Keep the JSON keys, the "section" values of legalSections and the "name" values of casePrecedents in English.`
+      : `Respond in ${name} (${script} script), in the formal register used in Indian courts.`;
+  return `OUTPUT LANGUAGE:\n${scope}\n${PRESERVED}`;
+};
+
+export interface TranslateRequest {
+  language: LanguageCode;
+  content: string;
+}
+
+const MAX_DOCUMENT_CHARS = 60000;
+
+/** Validates a whole-document translation request (`type: "translate"`). */
+export const parseTranslateRequest = (raw: unknown): TranslateRequest | { error: string } => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  if (!isLanguageCode(value.language)) return { error: "Unknown target language" };
+  const content = typeof value.content === "string" ? value.content.trim() : "";
+  if (!content) return { error: "The document to translate is empty" };
+  if (content.length > MAX_DOCUMENT_CHARS) return { error: "The document is too long to translate in one request" };
+  return { language: value.language, content };
+};
+
+export const TRANSLATE_SYSTEM_PROMPT = `You are a legal translator for Indian courts. Translate the whole court document you are given.
+Return ONLY the translated document in markdown, keeping its headings, numbered paragraphs and lists in the same order; no preamble and no code fences.
+Do not add, drop or summarise anything.`;
+
+export const buildTranslatePrompt = (request: TranslateRequest): string => {
+  const { name, script } = LANGUAGES[request.language];
+  return `Translate this document into ${name} (${script} script). ${PRESERVED}\n\n${request.content}`;
+};
@@ -0,0 +1,72 @@
+// Prompt and output handling for `type: "rewrite"` requests, which revise one section of the
+// court document (e.g. the Prayer) and return it as a suggestion for the advocate to accept or reject.
+
+export type RewriteAction = "rewrite" | "shorten" | "strengthen" | "translate";
+
+export interface RewriteRequest {
+  action: RewriteAction;
+  heading: string;
+  body: string;
+  /** Target language for "translate" */
+  language: string;
+  /** Optional extra instruction from the advocate */
+  note: string;
+}
+
+const MAX_SECTION_CHARS = 12000;
+const MAX_NOTE_CHARS = 500;
+
+const ACTION_INSTRUCTIONS: Record<RewriteAction, string> = {
+  rewrite: "Rewrite the section in clear, formal court language. Keep every fact, date, name and citation.",
+  shorten: "Shorten the section to roughly half its length. Keep the essential facts, citations and relief; drop repetition.",
+  strengthen:
+    "Strengthen the section: make the reasoning more persuasive, tie each point to the facts, and add supporting statutory grounds where they apply. Do not invent facts.",
+  translate:
+    "Translate the section into {language}, in the formal register used in Indian courts. Keep section numbers, act abbreviations and case names as they are.",
+};
+
+export const isRewriteAction = (value: unknown): value is RewriteAction =>
+  typeof value === "string" && value in ACTION_INSTRUCTIONS;
+
+/** Validates the client's request; returns an error message for the 400 response instead of throwing. */
+export const parseRewriteRequest = (raw: unknown): RewriteRequest | { error: string } => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  if (!isRewriteAction(value.action)) return { error: "Unknown rewrite action" };
+
+  const body = typeof value.body === "string" ? value.body.trim() : "";
+  if (!body) return { error: "The section to rewrite is empty" };
+  if (body.length > MAX_SECTION_CHARS) return { error: "The section is too long to rewrite in one request" };
+
+  const language = typeof value.language === "string" ? value.language.trim() : "";
+  if (value.action === "translate" && !language) return { error: "A target language is required" };
+
+  return {
+    action: value.action,
+    heading: typeof value.heading === "string" ? value.heading.trim() : "",
+    body,
+    language,
+    note: typeof value.note === "string" ? value.note.trim().slice(0, MAX_NOTE_CHARS) : "",
+  };
+};
+
+export const REWRITE_SYSTEM_PROMPT = `You are a senior Indian litigation drafter revising one section of a court document.
+Return ONLY the revised section body in markdown: no heading, no preamble, no explanation and no code fences.
+Preserve the section's structure (numbered paragraphs, lists) unless the instruction says otherwise.`;
+
+export const buildRewritePrompt = (request: RewriteRequest): string => {
+  const instruction = [
+    ACTION_INSTRUCTIONS[request.action].replace("{language}", request.language),
+    request.note && `Additional instruction: ${request.note}`,
+  ].filter(Boolean);
+  return `${instruction.join("\n")}\n\nSECTION: ${request.heading || "(untitled)"}\n${request.body}`;
+};
+
+/** Strips the wrappers models add despite instructions: code fences and a repeated section heading. */
+export const cleanRewrite = (output: string, heading: string): string => {
+  let text = output.trim().replace(/^```(?:markdown|md)?\s*\n([\s\S]*?)\n```$/i, "$1").trim();
+  const first = text.split("\n")[0].replace(/^#+\s*/, "").replace(/[*_:]/g, "").trim();
+  if (heading && first.toLowerCase() === heading.replace(/[*_:]/g, "").trim().toLowerCase()) {
+    text = text.split("\n").slice(1).join("\n").trim();
+  }
+  return text;
+};
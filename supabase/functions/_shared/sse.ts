@@ -0,0 +1,46 @@
+// Helpers for consuming OpenAI-style completion streams and emitting our own SSE events.
+
+const encoder = new TextEncoder();
+
+/** Encodes one `data:` event for the client-side stream reader. */
+export const sseEvent = (payload: unknown) => encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+
+/** Reads a chat completion stream and invokes `onDelta` with each content fragment. */
+export const readCompletionDeltas = async (
+  body: ReadableStream<Uint8Array>,
+  onDelta: (delta: string) => void,
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let idx: number;
+    while ((idx = buffer.indexOf("\n")) !== -1) {
+      let line = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 1);
+      if (line.endsWith("\r")) line = line.slice(0, -1);
+      if (!line.startsWith("data: ")) continue;
+      const jsonStr = line.slice(6).trim();
+      if (jsonStr === "[DONE]") return;
+      try {
+        const delta = JSON.parse(jsonStr).choices?.[0]?.delta?.content;
+        if (delta) onDelta(delta);
+      } catch {
+        // Keep-alive comments and partial frames carry no content
+      }
+    }
+  }
+};
+
+/** Passes a stream through unchanged and runs `onEnd` once it has been read to the end. */
+export const whenStreamEnds = (body: ReadableStream<Uint8Array>, onEnd: () => unknown): ReadableStream<Uint8Array> =>
+  body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    async flush() {
+      await onEnd();
+    },
+  }));
@@ -0,0 +1,71 @@
+// Formats statute sections retrieved from the corpus (search_statutes) and their old/new code
+// equivalents (lookup_concordance) as grounding for the model.
+
+export interface StatuteRow {
+  act: string;
+  section: string;
+  title: string;
+  content: string;
+}
+
+/** Abbreviations the model is asked to cite with, so citations can be matched back to the corpus. */
+export const ACT_ABBREVIATIONS: Record<string, string> = {
+  IPC: "IPC",
+  BNS: "BNS",
+  CRPC: "CrPC",
+  BNSS: "BNSS",
+  IEA: "IEA",
+  BSA: "BSA",
+};
+
+export interface ConcordanceRow {
+  old_act: string;
+  old_section: string;
+  new_act: string | null;
+  new_section: string | null;
+  subject: string;
+  change_notes: string;
+}
+
+export const RETRIEVAL_LIMIT = 12;
+
+// Keeps the retrieval query to the words that matter; long case facts add noise, not recall
+const MAX_QUERY_CHARS = 1000;
+const MAX_SECTION_CHARS = 1500;
+
+export const CITATION_RULES = `CITATION RULES:
+- Cite statutes as "Section <number> <ACT>", e.g. "Section 103(1) BNS" or "Section 302 IPC", using only the abbreviations IPC, BNS, CrPC, BNSS, IEA (Indian Evidence Act) and BSA (Bharatiya Sakshya Adhiniyam).
+- Prefer sections from STATUTE EXCERPTS and do not attribute wording to a section that the excerpt does not contain.
+- If you rely on a section that is not in the excerpts, cite it the same way; it will be flagged for manual verification.
+- Where SECTION CONCORDANCE maps a section between the old codes and the Sanhitas, give both numbers, e.g. "Section 103(1) BNS (Section 302 IPC)", and mention any change in ingredients or punishment that matters.`;
+
+/** Joins the text fragments that describe the question into a bounded full-text query. */
+export const buildRetrievalQuery = (parts: (string | null | undefined)[]): string =>
+  parts.filter(Boolean).join(" ").replace(/\s+/g, " ").trim().slice(0, MAX_QUERY_CHARS);
+
+/** Renders retrieved sections as a system message; null when nothing was retrieved. */
+export const formatStatuteContext = (rows: StatuteRow[]): string | null => {
+  if (rows.length === 0) return null;
+
+  const lines = ["STATUTE EXCERPTS (verified text from the statute corpus; cite these where they apply):"];
+  for (const row of rows) {
+    const content = row.content.length > MAX_SECTION_CHARS ? `${row.content.slice(0, MAX_SECTION_CHARS)} [...]` : row.content;
+    lines.push("", `Section ${row.section} ${ACT_ABBREVIATIONS[row.act] ?? row.act} — ${row.title}`, content);
+  }
+  return lines.join("\n");
+};
+
+const cite = (act: string, section: string) => `Section ${section} ${ACT_ABBREVIATIONS[act] ?? act}`;
+
+/** Renders old-to-new section mappings as a system message; null when there are none. */
+export const formatConcordanceContext = (rows: ConcordanceRow[]): string | null => {
+  if (rows.length === 0) return null;
+
+  const lines = ["SECTION CONCORDANCE (old code section -> the Sanhita section that replaced it):"];
+  for (const row of rows) {
+    const target = row.new_act && row.new_section ? cite(row.new_act, row.new_section) : "no equivalent provision";
+    const notes = row.change_notes ? ` ${row.change_notes}` : "";
+    lines.push(`- ${cite(row.old_act, row.old_section)} -> ${target} (${row.subject}).${notes}`);
+  }
+  return lines.join("\n");
+};
@@ -1,94 +1,322 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createProvider, ProviderError } from "../_shared/ai-provider.ts";
+import {
+  extractCompletedFields,
+  isAnalysisField,
+  runAnalysisWithRepair,
+  validateAnalysisField,
+  type ChatTurn,
+} from "../_shared/analysis.ts";
+import { authorizeAiRequest, createUsageMeter, type AuthorizedCaller } from "../_shared/auth.ts";
+import { formatCaseContext, formatCaseDocuments, intakeFromPrompt, type CaseContextRow } from "../_shared/case-context.ts";
+import { buildDocumentPrompt, DRAFTING_SYSTEM_PROMPT, parseDocumentRequest } from "../_shared/document-types.ts";
+import { formatIntakePrompt, normalizeIntake } from "../_shared/intake.ts";
+import {
+  buildTranslatePrompt,
+  isLanguageCode,
+  languageInstruction,
+  parseTranslateRequest,
+  resolveLanguage,
+  TRANSLATE_SYSTEM_PROMPT,
+} from "../_shared/language.ts";
+import { buildRewritePrompt, cleanRewrite, parseRewriteRequest, REWRITE_SYSTEM_PROMPT } from "../_shared/rewrite.ts";
+import { readCompletionDeltas, sseEvent, whenStreamEnds } from "../_shared/sse.ts";
+import {
+  buildRetrievalQuery,
+  CITATION_RULES,
+  formatConcordanceContext,
+  formatStatuteContext,
+  RETRIEVAL_LIMIT,
+} from "../_shared/statutes.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+const MAX_REPAIR_ATTEMPTS = Number(Deno.env.get("ANALYSIS_MAX_REPAIR_ATTEMPTS") ?? "2");
+
+const providerErrorMessages: Record<number, string> = {
+  429: "Rate limited. Please try again shortly.",
+  402: "Credits exhausted. Please add funds.",
+  504: "The AI service took too long to respond.",
+};
+
+const providerErrorResponse = (e: ProviderError) => {
+  const status = e.status in providerErrorMessages ? e.status : 500;
+  return new Response(JSON.stringify({ error: providerErrorMessages[status] ?? "AI service error" }), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+};
+
+// Recorded on the request's ai_usage row for the admin analytics
+const usageErrorCode = (e: unknown) => (e instanceof ProviderError ? `provider_${e.status}` : "internal_error");
+
+// The case's language, else the user's preferred language
+const storedLanguage = async (caller: AuthorizedCaller, caseId?: string) => {
+  const [{ data: caseRow }, { data: profile }] = await Promise.all([
+    caseId ? caller.supabase.from("cases").select("language").eq("id", caseId).maybeSingle() : Promise.resolve({ data: null }),
+    caller.supabase.from("profiles").select("preferred_language").eq("user_id", caller.user.id).maybeSingle(),
+  ]);
+  return resolveLanguage(caseRow?.language, profile?.preferred_language);
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+  const meter = createUsageMeter();
 
   try {
-    const { messages, type } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
+    const { messages: rawMessages, type, stream, caseId, intake: rawIntake, rewrite: rawRewrite, document: rawDocument, translate: rawTranslate, language: rawLanguage } = await req.json();
+    const provider = createProvider((name) => Deno.env.get(name), (usage) => meter.add(usage));
+
+    // A rewrite revises one section of the court document; it is checked before any quota is spent
+    const rewrite = type === "rewrite" ? parseRewriteRequest(rawRewrite) : null;
+    if (rewrite && "error" in rewrite) {
+      return new Response(JSON.stringify({ error: rewrite.error }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    // A generated document (bail application, legal notice, ...) is drafted from a saved case
+    const documentRequest = type === "document" ? parseDocumentRequest(rawDocument) : null;
+    if (documentRequest && "error" in documentRequest) {
+      return new Response(JSON.stringify({ error: documentRequest.error, missing: documentRequest.missing }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    if (documentRequest && !caseId) {
+      return new Response(JSON.stringify({ error: "Documents are generated from a saved case" }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    // A whole court document translated into another language
+    const translation = type === "translate" ? parseTranslateRequest(rawTranslate) : null;
+    if (translation && "error" in translation) {
+      return new Response(JSON.stringify({ error: translation.error }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    // Chat and rewrites are short completions, metered against the chat quota; a full document or
+    // translation counts as an analysis. Chat, rewrites and documents work from the stored case.
+    const isShortCompletion = type === "chat" || type === "rewrite";
+    const usesCaseContext = isShortCompletion || !!documentRequest;
+
+    const caller = await authorizeAiRequest(req, isShortCompletion ? "chat" : "analysis", corsHeaders);
+    if (caller instanceof Response) return caller;
+    const requestType = translation ? "translate" : rewrite ? "rewrite" : documentRequest ? "document" : type === "chat" ? "chat" : "analyze";
+    meter.attach(caller, requestType, provider.modelFor(isShortCompletion ? "chat" : "analyze"));
+
+    if (translation) {
+      const translated = await provider.complete("analyze", [
+        { role: "system", content: TRANSLATE_SYSTEM_PROMPT },
+        { role: "user", content: buildTranslatePrompt(translation) },
+      ]);
+      await meter.finish("ok");
+      return new Response(JSON.stringify({ translation: cleanRewrite(translated, ""), model: provider.modelFor("analyze") }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    // Output language: the request's, else the case's, else the user's preference
+    const language = isLanguageCode(rawLanguage) ? rawLanguage : await storedLanguage(caller, caseId);
+    const withLanguage = (prompt: string, mode: "json" | "text") =>
+      [prompt, languageInstruction(language, mode)].filter(Boolean).join("\n\n");
 
     const chatSystemPrompt = `You are a senior Indian legal expert AI assistant. You have deep knowledge of Indian Penal Code (IPC), Bharatiya Nyaya Sanhita (BNS), Code of Criminal Procedure (CrPC), Bharatiya Nagarik Suraksha Sanhita (BNSS), Indian Evidence Act, Bharatiya Sakshya Adhiniyam, and all major Indian legal statutes.
 
 RESPONSE FORMAT RULES (CRITICAL):
 - Be CONCISE by default. Keep answers short and structured.
 - Use bullet points and headings. Avoid long paragraphs.
-- Cite specific sections and relevant case law.
+- Cite specific sections and relevant case law, following the CITATION RULES below.
 - Use legal formatting: bold section numbers, clear hierarchy.
 - Maximum 200 words unless the user explicitly asks for more detail.
 - If the user says "Explain in Detail" or similar, then provide a comprehensive expanded answer with full legal reasoning, all relevant sections, case precedents, and strategic analysis. In that case, there is no word limit.
 
-Maintain context from the conversation. Be precise, authoritative, and practical.`;
+Maintain context from the conversation. Be precise, authoritative, and practical.
+
+${CITATION_RULES}`;
 
-    const analyzeSystemPrompt = `You are a senior Indian legal analysis AI. Given a case description, case category, and offence type, provide a comprehensive structured analysis in the following JSON format:
+    const analyzeSystemPrompt = `You are a senior Indian legal analysis AI. Given a structured case intake (facts, category, offences, parties, date and place of occurrence, FIR details, court and jurisdiction, custody status), provide a comprehensive structured analysis in the following JSON format:
 {
-  "legalSections": [{"section": "section name", "description": "brief description"}],
+  "legalSections": [{"section": "Section <number> <ACT>, e.g. Section 103(1) BNS (Section 302 IPC)", "description": "brief description"}],
   "punishmentRange": "detailed punishment/sentence range description",
   "presentationStrategy": "detailed court presentation strategy",
   "casePrecedents": [{"name": "case name", "relevance": "how it's relevant"}],
   "courtDocument": "A complete court-ready document brief including: Title, Facts of the Case, Applicable Legal Provisions, Arguments, Prayer/Relief Sought, and Conclusion. Format it professionally."
 }
-Respond ONLY with valid JSON. Be thorough, cite specific Indian legal sections (IPC/BNS), and reference real landmark Indian case precedents.`;
-
-    const systemPrompt = type === "chat" ? chatSystemPrompt : analyzeSystemPrompt;
-
-    const body: Record<string, unknown> = {
-      model: "google/gemini-3-flash-preview",
-      messages: [
-        { role: "system", content: systemPrompt },
-        ...messages,
-      ],
-    };
-
-    if (type === "chat") {
-      body.stream = true;
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(body),
-      });
+When SOURCE DOCUMENTS (FIR, charge sheet, judgments) are provided, treat them as the primary record of the facts and cite them in the court document.
+Use every intake particular that is provided (names, dates, FIR number, court) in the court document instead of placeholders, and take the custody status into account in the strategy.
+Respond ONLY with valid JSON. Be thorough, cite specific Indian legal sections (IPC/BNS), and reference real landmark Indian case precedents.
+
+${CITATION_RULES}`;
+
+    const rewriteSystemPrompt = `${REWRITE_SYSTEM_PROMPT}
+
+${CITATION_RULES}`;
 
-      if (!response.ok) {
-        const status = response.status;
-        if (status === 429) return new Response(JSON.stringify({ error: "Rate limited. Please try again shortly." }), { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-        if (status === 402) return new Response(JSON.stringify({ error: "Credits exhausted. Please add funds." }), { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-        const t = await response.text();
-        console.error("AI error:", status, t);
-        return new Response(JSON.stringify({ error: "AI service error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    const draftingSystemPrompt = `${DRAFTING_SYSTEM_PROMPT}
+
+${CITATION_RULES}`;
+
+    // Rewrites keep the section's own language; translating a section is an explicit action
+    const systemPrompt =
+      type === "chat"
+        ? withLanguage(chatSystemPrompt, "text")
+        : rewrite
+          ? rewriteSystemPrompt
+          : documentRequest
+            ? withLanguage(draftingSystemPrompt, "text")
+            : withLanguage(analyzeSystemPrompt, "json");
+
+    // Only conversation turns come from the client; system context is built here
+    let messages = ((rawMessages ?? []) as ChatTurn[]).filter((m) => m.role === "user" || m.role === "assistant");
+
+    // Structured intake is rendered into the analysis prompt here rather than by the client
+    if (rewrite) {
+      messages = [{ role: "user", content: buildRewritePrompt(rewrite) }];
+    } else if (documentRequest) {
+      messages = [{ role: "user", content: buildDocumentPrompt(documentRequest) }];
+    } else if (type !== "chat" && rawIntake) {
+      const intake = normalizeIntake(rawIntake);
+      if (!intake.description) {
+        await meter.finish("error", "invalid_intake");
+        return new Response(JSON.stringify({ error: "The case facts are required" }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
       }
+      messages = [{ role: "user", content: formatIntakePrompt(intake) }];
+    }
+    const prompt = messages.find((m) => m.role === "user")?.content ?? "";
+    const contextMessages: ChatTurn[] = [];
+    let caseTopic = "";
 
-      return new Response(response.body, { headers: { ...corsHeaders, "Content-Type": "text/event-stream" } });
-    } else {
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
+    if (usesCaseContext && caseId) {
+      // Load the case with the caller's own credentials so RLS decides what they may read
+      const { supabase } = caller;
+      const { data: caseRow } = await supabase
+        .from("cases")
+        .select("title, intake, description, category, offence, analysis_data")
+        .eq("id", caseId)
+        .maybeSingle();
+      if (!caseRow) {
+        await meter.finish("error", "case_not_found");
+        return new Response(JSON.stringify({ error: "Case not found" }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      let row = caseRow as CaseContextRow;
+      if (!row.intake && !row.description) {
+        const { data: firstPrompt } = await supabase
+          .from("messages")
+          .select("content")
+          .eq("case_id", caseId)
+          .eq("role", "user")
+          .order("created_at", { ascending: true })
+          .limit(1)
+          .maybeSingle();
+        if (firstPrompt) row = { ...row, ...intakeFromPrompt(firstPrompt.content) };
+      }
+      contextMessages.push({ role: "system", content: formatCaseContext(row) });
+      caseTopic = [row.category, row.offence].filter(Boolean).join(" ");
+    }
+
+    if (caseId) {
+      // Uploaded documents are source material for both re-analysis and case chat
+      const { data: docs } = await caller.supabase
+        .from("case_documents")
+        .select("file_name, doc_type, extracted_text")
+        .eq("case_id", caseId)
+        .eq("extraction_status", "done")
+        .order("created_at", { ascending: true });
+      const sources = formatCaseDocuments(docs ?? []);
+      if (sources) contextMessages.push({ role: "system", content: sources });
+    }
+
+    // Retrieve the statute sections most relevant to this request so citations can be grounded
+    const latestQuestion = [...messages].reverse().find((m) => m.role === "user")?.content;
+    const { data: statutes, error: statuteError } = await caller.supabase.rpc("search_statutes", {
+      _query: buildRetrievalQuery(usesCaseContext ? [latestQuestion, caseTopic] : [prompt]),
+      _limit: RETRIEVAL_LIMIT,
+    });
+    if (statuteError) console.error("Statute retrieval failed:", statuteError.message);
+    const excerpts = formatStatuteContext(statutes ?? []);
+    if (excerpts) contextMessages.push({ role: "system", content: excerpts });
+
+    // Old/new code equivalents of the retrieved sections, so both numbers can be cited
+    if (statutes?.length) {
+      const { data: concordance, error: concordanceError } = await caller.supabase.rpc("lookup_concordance", {
+        _refs: statutes.map((s: { act: string; section: string }) => `${s.act}:${s.section}`),
+      });
+      if (concordanceError) console.error("Concordance lookup failed:", concordanceError.message);
+      const mappings = formatConcordanceContext(concordance ?? []);
+      if (mappings) contextMessages.push({ role: "system", content: mappings });
+    }
+
+    const conversation: ChatTurn[] = [
+      { role: "system", content: systemPrompt },
+      ...contextMessages,
+      ...messages,
+    ];
+    const complete = (turns: ChatTurn[]) => provider.complete("analyze", turns);
+
+    if (rewrite) {
+      const revised = cleanRewrite(await provider.complete("chat", conversation), rewrite.heading);
+      await meter.finish("ok");
+      return new Response(JSON.stringify({ rewrite: revised, model: provider.modelFor("chat") }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    } else if (type === "chat") {
+      const upstream = await provider.stream("chat", conversation);
+      return new Response(whenStreamEnds(upstream, () => meter.finish("ok")), { headers: { ...corsHeaders, "Content-Type": "text/event-stream" } });
+    } else if (documentRequest) {
+      // Drafted as plain markdown, streamed in the same delta format as chat
+      const upstream = await provider.stream("analyze", conversation);
+      return new Response(whenStreamEnds(upstream, () => meter.finish("ok")), { headers: { ...corsHeaders, "Content-Type": "text/event-stream" } });
+    } else if (stream) {
+      // Stream each AnalysisData section to the client as soon as its JSON member is complete
+      const upstream = await provider.stream("analyze", conversation);
+      const events = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const emitted = new Set<string>();
+          let content = "";
+          try {
+            await readCompletionDeltas(upstream, (delta) => {
+              content += delta;
+              for (const [field, value] of Object.entries(extractCompletedFields(content))) {
+                if (emitted.has(field) || !isAnalysisField(field)) continue;
+                const result = validateAnalysisField(field, value);
+                if (!result.ok) continue;
+                emitted.add(field);
+                controller.enqueue(sseEvent({ type: "section", field, value: result.value }));
+              }
+            });
+
+            // The streamed reply still goes through full validation; repairs arrive in the final event
+            const outcome = await runAnalysisWithRepair(complete, conversation, MAX_REPAIR_ATTEMPTS, content);
+            await meter.finish(outcome.ok ? "ok" : "error", outcome.ok ? undefined : "invalid_analysis");
+            if (outcome.ok) {
+              controller.enqueue(sseEvent({ type: "done", analysis: outcome.data, attempts: outcome.attempts, model: provider.modelFor("analyze"), prompt }));
+            } else {
+              console.error("Analysis validation failed:", outcome.attempts, outcome.errors);
+              controller.enqueue(sseEvent({
+                type: "error",
+                error: "The AI returned an incomplete analysis. Please try again.",
+                code: "invalid_analysis",
+                attempts: outcome.attempts,
+                fields: outcome.errors,
+              }));
+            }
+          } catch (e) {
+            console.error("Analysis stream error:", e);
+            await meter.finish("error", usageErrorCode(e));
+            const status = e instanceof ProviderError ? e.status : 500;
+            controller.enqueue(sseEvent({ type: "error", error: providerErrorMessages[status] ?? "AI service error" }));
+          } finally {
+            controller.close();
+          }
         },
-        body: JSON.stringify(body),
       });
 
-      if (!response.ok) {
-        const status = response.status;
-        if (status === 429) return new Response(JSON.stringify({ error: "Rate limited." }), { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-        if (status === 402) return new Response(JSON.stringify({ error: "Credits exhausted." }), { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-        const t = await response.text();
-        console.error("AI error:", status, t);
-        return new Response(JSON.stringify({ error: "AI service error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      return new Response(events, { headers: { ...corsHeaders, "Content-Type": "text/event-stream" } });
+    } else {
+      const outcome = await runAnalysisWithRepair(complete, conversation, MAX_REPAIR_ATTEMPTS);
+      await meter.finish(outcome.ok ? "ok" : "error", outcome.ok ? undefined : "invalid_analysis");
+      if (!outcome.ok) {
+        console.error("Analysis validation failed:", outcome.attempts, outcome.errors);
+        return new Response(JSON.stringify({
+          error: "The AI returned an incomplete analysis. Please try again.",
+          code: "invalid_analysis",
+          attempts: outcome.attempts,
+          fields: outcome.errors,
+        }), { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } });
       }
-
-      const data = await response.json();
-      return new Response(JSON.stringify(data), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      return new Response(JSON.stringify({ analysis: outcome.data, attempts: outcome.attempts, model: provider.modelFor("analyze"), prompt }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
     }
   } catch (e) {
+    await meter.finish("error", usageErrorCode(e));
+    if (e instanceof ProviderError) return providerErrorResponse(e);
     console.error("Error:", e);
     return new Response(JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }), {
       status: 500,
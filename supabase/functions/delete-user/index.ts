@@ -1,55 +1,124 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticateRequest } from "../_shared/auth.ts";
+import { buildAccountArchive, CASE_TABLES, type CaseRecordKey } from "../_shared/account-archive.ts";
+import { removePendingFiles } from "../_shared/account-files.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+// What the caller wants done with the account; a request without an action deletes it outright
+type Action = "export" | "schedule" | "restore" | "delete";
+const ACTIONS: Action[] = ["export", "schedule", "restore", "delete"];
+
+const PAGE_SIZE = 1000;
+// Long enough to outlast any grace period; lifted again on restore
+const BAN_DURATION = "876000h";
+
+/** Every row of `table` whose `column` is one of `values`, a page at a time past the API's row cap. */
+const selectAll = async (admin: SupabaseClient, table: string, column: string, values: string[]) => {
+  const rows: Record<string, unknown>[] = [];
+  if (values.length === 0) return rows;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await admin.from(table).select("*").in(column, values).order("id").range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const exportAccount = async (admin: SupabaseClient, userId: string) => {
+  const [{ data: profile }, { data: subscription }, cases, generalMessages] = await Promise.all([
+    admin.from("profiles").select("*").eq("user_id", userId).maybeSingle(),
+    admin.from("user_subscriptions").select("*").eq("user_id", userId).maybeSingle(),
+    selectAll(admin, "cases", "user_id", [userId]),
+    selectAll(admin, "general_messages", "user_id", [userId]),
+  ]);
+  const caseIds = cases.map((c) => String(c.id));
+  const keys = Object.keys(CASE_TABLES) as CaseRecordKey[];
+  const records = await Promise.all(keys.map((key) => selectAll(admin, CASE_TABLES[key], "case_id", caseIds)));
+  const caseRecords = Object.fromEntries(keys.map((key, i) => [key, records[i]])) as Record<CaseRecordKey, Record<string, unknown>[]>;
+  return buildAccountArchive(userId, { profile, subscription, cases, caseRecords, generalMessages });
+};
+
+// Errors raised by the account functions, keyed by SQLSTATE
+const rpcError = (error: { code?: string; message: string }) => {
+  if (error.code === "P0002") return json({ error: error.message, code: "not_found" }, 404);
+  if (error.code === "22023") return json({ error: error.message, code: "invalid_request" }, 400);
+  console.error("Account operation failed:", error.message);
+  return json({ error: "The account could not be changed", code: "internal_error" }, 500);
+};
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
   }
 
   try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const caller = await authenticateRequest(req, corsHeaders);
+    if (caller instanceof Response) return caller;
+    const { user, admin } = caller;
 
-    // Verify caller is admin
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    const { data: roles } = await admin.from("user_roles").select("role").eq("user_id", user.id).eq("role", "admin");
+    if (!roles || roles.length === 0) {
+      return json({ error: "Forbidden", code: "forbidden" }, 403);
     }
 
-    const anonClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!);
-    const { data: { user: caller } } = await anonClient.auth.getUser(authHeader.replace("Bearer ", ""));
-    if (!caller) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-    }
+    const { userId, action = "delete", graceDays } = await req.json();
+    if (!userId) return json({ error: "userId required" }, 400);
+    if (!ACTIONS.includes(action)) return json({ error: `action must be one of ${ACTIONS.join(", ")}` }, 400);
 
-    // Check admin role
-    const adminClient = createClient(supabaseUrl, serviceRoleKey);
-    const { data: roles } = await adminClient.from("user_roles").select("role").eq("user_id", caller.id).eq("role", "admin");
-    if (!roles || roles.length === 0) {
-      return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    if (action === "export") {
+      const archive = await exportAccount(admin, userId);
+      const { error } = await admin.rpc("record_admin_action", {
+        _actor: user.id,
+        _action: "user.export",
+        _target_table: "auth.users",
+        _target_id: userId,
+        _target_user: userId,
+      });
+      if (error) {
+        console.error("Could not record the account export:", error.message);
+        return json({ error: "The export could not be recorded in the audit log", code: "internal_error" }, 500);
+      }
+      return json(archive);
     }
 
-    const { userId } = await req.json();
-    if (!userId) {
-      return new Response(JSON.stringify({ error: "userId required" }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    if (action === "schedule") {
+      if (!Number.isInteger(graceDays) || graceDays < 1 || graceDays > 90) {
+        return json({ error: "graceDays must be a whole number of days between 1 and 90", code: "invalid_request" }, 400);
+      }
+      // Sign-in is blocked first, so a failure below never leaves a disabled account able to log in
+      const { error: banError } = await admin.auth.admin.updateUserById(userId, { ban_duration: BAN_DURATION });
+      if (banError) return json({ error: banError.message, code: "internal_error" }, 500);
+      const { data: purgeAfter, error } = await admin.rpc("schedule_user_deletion", { _actor: user.id, _user: userId, _grace_days: graceDays });
+      if (error) {
+        await admin.auth.admin.updateUserById(userId, { ban_duration: "none" });
+        return rpcError(error);
+      }
+      return json({ purgeAfter });
     }
 
-    // Delete profile and roles
-    await adminClient.from("user_roles").delete().eq("user_id", userId);
-    await adminClient.from("profiles").delete().eq("user_id", userId);
-
-    // Delete auth user
-    const { error } = await adminClient.auth.admin.deleteUser(userId);
-    if (error) {
-      return new Response(JSON.stringify({ error: error.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    if (action === "restore") {
+      const { error } = await admin.rpc("restore_user_account", { _actor: user.id, _user: userId });
+      if (error) return rpcError(error);
+      const { error: unbanError } = await admin.auth.admin.updateUserById(userId, { ban_duration: "none" });
+      if (unbanError) return json({ error: `Restored, but sign-in is still blocked: ${unbanError.message}`, code: "internal_error" }, 500);
+      return json({ success: true });
     }
 
-    return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    // The data goes in one transaction; the files follow, as storage cannot join it. Anything left
+    // behind is retried by the nightly purge-account-files run.
+    const { error } = await admin.rpc("delete_user_account", { _actor: user.id, _user: userId });
+    if (error) return rpcError(error);
+    await removePendingFiles(admin);
+    return json({ success: true });
   } catch (e) {
-    return new Response(JSON.stringify({ error: e.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    console.error("delete-user error:", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error", code: "internal_error" }, 500);
   }
 });
@@ -0,0 +1,307 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Packer,
+  PageNumber,
+  Paragraph,
+  Tab,
+  TabStopType,
+  TextRun,
+} from "https://esm.sh/docx@8.5.0";
+import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+import { authenticateRequest } from "../_shared/auth.ts";
+import {
+  composeCourtDocument,
+  fitsPdfFonts,
+  isCourtTemplateId,
+  normalizeExportDetails,
+  toWinAnsi,
+  type CourtDocumentLayout,
+  type DocumentBlock,
+  type LayoutLine,
+  type TextRun as Run,
+} from "../_shared/court-document.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const MAX_DOCUMENT_CHARS = 200_000;
+
+// A4, in the units each format works in
+const A4_TWIPS = { width: 11906, height: 16838 };
+const A4_POINTS = { width: 595.28, height: 841.89 };
+const TWIPS_PER_CM = 567;
+const POINTS_PER_CM = 28.3465;
+
+const FONT = "Times New Roman";
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+const docxAlignment = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+};
+
+const renderDocx = async ({ template, causeTitle, body, closing }: CourtDocumentLayout): Promise<Uint8Array> => {
+  const size = template.fontSize * 2; // half-points
+  const spacing = { line: Math.round(240 * template.lineSpacing), after: 120 };
+  const margins = {
+    top: template.margins.top * TWIPS_PER_CM,
+    bottom: template.margins.bottom * TWIPS_PER_CM,
+    left: template.margins.left * TWIPS_PER_CM,
+    right: template.margins.right * TWIPS_PER_CM,
+  };
+  const textWidth = A4_TWIPS.width - margins.left - margins.right;
+
+  const runs = (items: Run[], extra: { bold?: boolean; italics?: boolean } = {}) =>
+    items.map((r) => new TextRun({ text: r.text, bold: r.bold || extra.bold, italics: r.italic || extra.italics, font: FONT, size }));
+
+  const layoutLine = (line: LayoutLine) =>
+    new Paragraph({
+      alignment: docxAlignment[line.align],
+      spacing: { line: spacing.line },
+      tabStops: line.trailing ? [{ type: TabStopType.RIGHT, position: textWidth }] : undefined,
+      children: [
+        new TextRun({ text: line.text, bold: line.bold, font: FONT, size }),
+        ...(line.trailing ? [new TextRun({ children: [new Tab(), line.trailing], bold: line.bold, font: FONT, size })] : []),
+      ],
+    });
+
+  const block = (b: DocumentBlock): Paragraph[] => {
+    switch (b.kind) {
+      case "heading":
+        return [
+          new Paragraph({
+            alignment: b.level === 1 ? AlignmentType.CENTER : AlignmentType.LEFT,
+            spacing: { ...spacing, before: 240 },
+            keepNext: true,
+            children: runs(b.runs, { bold: true }),
+          }),
+        ];
+      case "paragraph":
+        return [new Paragraph({ alignment: AlignmentType.JUSTIFIED, spacing, children: runs(b.runs) })];
+      case "quote":
+        return [new Paragraph({ alignment: AlignmentType.JUSTIFIED, spacing, indent: { left: 720 }, children: runs(b.runs, { italics: true }) })];
+      case "list":
+        // Markers are written out rather than using Word numbering, so each list restarts at 1
+        return b.items.map(
+          (item, i) =>
+            new Paragraph({
+              alignment: AlignmentType.JUSTIFIED,
+              spacing,
+              indent: { left: 720, hanging: 360 },
+              children: [new TextRun({ text: b.ordered ? `${i + 1}.\t` : "•\t", font: FONT, size }), ...runs(item)],
+            }),
+        );
+      case "rule":
+        return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: "000000", space: 1 } } })];
+    }
+  };
+
+  const document = new Document({
+    styles: { default: { document: { run: { font: FONT, size } } } },
+    sections: [
+      {
+        properties: { page: { size: A4_TWIPS, margin: margins } },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [new TextRun({ children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES], font: FONT, size: 20 })],
+              }),
+            ],
+          }),
+        },
+        children: [...causeTitle.map(layoutLine), ...body.flatMap(block), ...closing.map(layoutLine)],
+      },
+    ],
+  });
+
+  return new Uint8Array(await (await Packer.toBlob(document)).arrayBuffer());
+};
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+type Fonts = { regular: PDFFont; bold: PDFFont; italic: PDFFont; boldItalic: PDFFont };
+type Word = { text: string; font: PDFFont; width: number };
+
+const renderPdf = async ({ template, causeTitle, body, closing }: CourtDocumentLayout): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.TimesRoman),
+    bold: await pdf.embedFont(StandardFonts.TimesRomanBold),
+    italic: await pdf.embedFont(StandardFonts.TimesRomanItalic),
+    boldItalic: await pdf.embedFont(StandardFonts.TimesRomanBoldItalic),
+  };
+
+  const size = template.fontSize;
+  const lineHeight = size * 1.2 * template.lineSpacing;
+  const left = template.margins.left * POINTS_PER_CM;
+  const right = A4_POINTS.width - template.margins.right * POINTS_PER_CM;
+  const top = A4_POINTS.height - template.margins.top * POINTS_PER_CM;
+  const bottom = template.margins.bottom * POINTS_PER_CM;
+  const black = rgb(0, 0, 0);
+
+  let page: PDFPage = pdf.addPage([A4_POINTS.width, A4_POINTS.height]);
+  let y = top;
+
+  const newPage = () => {
+    page = pdf.addPage([A4_POINTS.width, A4_POINTS.height]);
+    y = top;
+  };
+  const advance = (height: number) => {
+    if (y - height < bottom) newPage();
+    y -= height;
+  };
+
+  const fontFor = (bold?: boolean, italic?: boolean) =>
+    bold ? (italic ? fonts.boldItalic : fonts.bold) : italic ? fonts.italic : fonts.regular;
+
+  const words = (items: Run[], extra: { bold?: boolean; italic?: boolean } = {}): Word[] =>
+    items.flatMap((r) => {
+      const font = fontFor(r.bold || extra.bold, r.italic || extra.italic);
+      return toWinAnsi(r.text)
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((text) => ({ text, font, width: font.widthOfTextAtSize(text, size) }));
+    });
+
+  // Greedy word wrap; justified lines spread the slack across their gaps, except the last line
+  const paragraph = (
+    items: Word[],
+    options: { indent?: number; justify?: boolean; align?: "left" | "center"; marker?: string } = {},
+  ) => {
+    const x0 = left + (options.indent ?? 0);
+    const width = right - x0;
+    const space = fonts.regular.widthOfTextAtSize(" ", size);
+    const lines: Word[][] = [];
+    let current: Word[] = [];
+    let used = 0;
+    for (const word of items) {
+      const needed = current.length ? used + space + word.width : word.width;
+      if (current.length && needed > width) {
+        lines.push(current);
+        current = [word];
+        used = word.width;
+      } else {
+        current.push(word);
+        used = needed;
+      }
+    }
+    if (current.length) lines.push(current);
+
+    lines.forEach((line, index) => {
+      advance(lineHeight);
+      const natural = line.reduce((sum, w) => sum + w.width, 0) + space * (line.length - 1);
+      const last = index === lines.length - 1;
+      const gap = options.justify && !last && line.length > 1 ? space + (width - natural) / (line.length - 1) : space;
+      let x = options.align === "center" ? x0 + (width - natural) / 2 : x0;
+      if (index === 0 && options.marker) page.drawText(options.marker, { x: left, y, size, font: fonts.regular, color: black });
+      for (const word of line) {
+        page.drawText(word.text, { x, y, size, font: word.font, color: black });
+        x += word.width + gap;
+      }
+    });
+  };
+
+  const layoutLine = (line: LayoutLine) => {
+    const font = line.bold ? fonts.bold : fonts.regular;
+    const text = toWinAnsi(line.text);
+    const width = font.widthOfTextAtSize(text, size);
+    if (width > right - left) return paragraph(words([{ text: line.text, bold: line.bold }]), { align: line.align === "center" ? "center" : "left" });
+
+    advance(lineHeight);
+    const x = line.align === "center" ? (left + right - width) / 2 : line.align === "right" ? right - width : left;
+    if (text) page.drawText(text, { x, y, size, font, color: black });
+    if (line.trailing) {
+      const trailing = toWinAnsi(line.trailing);
+      page.drawText(trailing, { x: right - font.widthOfTextAtSize(trailing, size), y, size, font, color: black });
+    }
+  };
+
+  const gap = () => advance(lineHeight * 0.4);
+
+  causeTitle.forEach(layoutLine);
+  for (const b of body) {
+    gap();
+    switch (b.kind) {
+      case "heading":
+        // Keep a heading with at least one following line
+        if (y - lineHeight * 2 < bottom) newPage();
+        paragraph(words(b.runs, { bold: true }), { align: b.level === 1 ? "center" : "left" });
+        break;
+      case "paragraph":
+        paragraph(words(b.runs), { justify: true });
+        break;
+      case "quote":
+        paragraph(words(b.runs, { italic: true }), { indent: 1.27 * POINTS_PER_CM, justify: true });
+        break;
+      case "list":
+        b.items.forEach((item, i) =>
+          paragraph(words(item), { indent: 0.9 * POINTS_PER_CM, justify: true, marker: b.ordered ? `${i + 1}.` : "•" }),
+        );
+        break;
+      case "rule":
+        advance(lineHeight / 2);
+        page.drawLine({ start: { x: left, y }, end: { x: right, y }, thickness: 0.75, color: black });
+        break;
+    }
+  }
+  closing.forEach(layoutLine);
+
+  const pages = pdf.getPages();
+  pages.forEach((p, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`;
+    const width = fonts.regular.widthOfTextAtSize(label, 10);
+    p.drawText(label, { x: (A4_POINTS.width - width) / 2, y: bottom / 2, size: 10, font: fonts.regular, color: black });
+  });
+
+  return await pdf.save();
+};
+
+// ---------------------------------------------------------------------------
+
+const CONTENT_TYPES = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const caller = await authenticateRequest(req, corsHeaders);
+    if (caller instanceof Response) return caller;
+
+    const { document, template, format, details } = await req.json();
+    if (typeof document !== "string" || !document.trim()) return json({ error: "document required" }, 400);
+    if (document.length > MAX_DOCUMENT_CHARS) return json({ error: "The document is too large to export" }, 413);
+    if (!isCourtTemplateId(template)) return json({ error: "Unknown court template" }, 400);
+    if (format !== "pdf" && format !== "docx") return json({ error: "format must be pdf or docx" }, 400);
+
+    const layout = composeCourtDocument(document, template, normalizeExportDetails(details));
+    if (format === "pdf" && !fitsPdfFonts(layout)) {
+      return json({ error: "PDF export supports English text only. Download the document as DOCX to keep Hindi and other Indian-language text." }, 422);
+    }
+    const bytes = format === "pdf" ? await renderPdf(layout) : await renderDocx(layout);
+
+    return new Response(bytes, { headers: { ...corsHeaders, "Content-Type": CONTENT_TYPES[format] } });
+  } catch (e) {
+    console.error("export-document error:", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { authenticateRequest } from "../_shared/auth.ts";
+import { detectFormat, docxXmlToText, normalizeExtractedText, type DocumentFormat } from "../_shared/documents.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+// Extraction runs entirely inside the function: PDF text layers via pdf.js (unpdf), DOCX via its XML
+const extract = async (format: DocumentFormat, bytes: Uint8Array): Promise<string> => {
+  if (format === "pdf") {
+    const pdf = await getDocumentProxy(bytes);
+    const { text } = await extractText(pdf, { mergePages: true });
+    return text as string;
+  }
+  if (format === "docx") {
+    const zip = await JSZip.loadAsync(bytes);
+    const xml = await zip.file("word/document.xml")?.async("string");
+    if (!xml) throw new Error("Not a valid DOCX file");
+    return docxXmlToText(xml);
+  }
+  return new TextDecoder().decode(bytes);
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const caller = await authenticateRequest(req, corsHeaders);
+    if (caller instanceof Response) return caller;
+
+    const { documentId } = await req.json();
+    if (!documentId) return json({ error: "documentId required" }, 400);
+
+    // Row and file are read with the caller's credentials, so RLS limits this to their own cases
+    const { supabase } = caller;
+    const { data: doc } = await supabase
+      .from("case_documents")
+      .select("id, file_name, storage_path, mime_type")
+      .eq("id", documentId)
+      .maybeSingle();
+    if (!doc) return json({ error: "Document not found" }, 404);
+
+    const format = detectFormat(doc.file_name, doc.mime_type);
+    let text = "";
+    let failure: string | null = null;
+
+    if (!format) {
+      failure = "Unsupported file type. Upload a PDF, DOCX or text file.";
+    } else {
+      const { data: file, error: downloadError } = await supabase.storage.from("case-documents").download(doc.storage_path);
+      if (downloadError || !file) throw new Error(`Failed to download document: ${downloadError?.message ?? "no data"}`);
+
+      try {
+        text = normalizeExtractedText(await extract(format, new Uint8Array(await file.arrayBuffer())));
+        if (!text) failure = format === "pdf" ? "No text layer found. Scanned PDFs need OCR before upload." : "The document is empty.";
+      } catch (e) {
+        console.error("Extraction error:", doc.id, e);
+        failure = e instanceof Error ? e.message : "Extraction failed";
+      }
+    }
+
+    const { data: updated, error } = await supabase
+      .from("case_documents")
+      .update({
+        extracted_text: failure ? null : text,
+        extraction_status: failure ? "failed" : "done",
+        extraction_error: failure,
+      })
+      .eq("id", doc.id)
+      .select("id, extraction_status, extraction_error")
+      .single();
+    if (error) throw new Error(`Failed to store extracted text: ${error.message}`);
+
+    return json({ document: { ...updated, characters: text.length } });
+  } catch (e) {
+    console.error("Error:", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,21 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { removePendingFiles } from "../_shared/account-files.ts";
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+// Called nightly by the remove-deleted-account-files cron job, after purge_deleted_accounts() has
+// deleted the accounts whose grace period ended. Only the service role may call it.
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: "Forbidden", code: "forbidden" }, 403);
+  }
+
+  try {
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    return json({ cleaned: await removePendingFiles(admin) });
+  } catch (e) {
+    console.error("purge-account-files error:", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error", code: "internal_error" }, 500);
+  }
+});
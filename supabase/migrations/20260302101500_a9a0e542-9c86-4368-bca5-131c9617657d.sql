@@ -0,0 +1,4 @@
+-- Persist the case intake so the analyze-case function can ground follow-up chat server-side
+ALTER TABLE public.cases ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE public.cases ADD COLUMN IF NOT EXISTS category TEXT;
+ALTER TABLE public.cases ADD COLUMN IF NOT EXISTS offence TEXT;
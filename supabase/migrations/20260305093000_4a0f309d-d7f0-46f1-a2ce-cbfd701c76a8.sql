@@ -0,0 +1,78 @@
+-- Entitlement flags may only be changed by admins (or the service role), not by the profile owner
+CREATE OR REPLACE FUNCTION public.protect_profile_entitlements()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() <> 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    NEW.access_enabled := OLD.access_enabled;
+    NEW.subscription_active := OLD.subscription_active;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_profiles_entitlements
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_entitlements();
+
+-- Per-user daily AI quota overrides; users without a row get the function's configured defaults
+CREATE TABLE public.user_quotas (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_analysis_limit INTEGER CHECK (daily_analysis_limit >= 0),
+  daily_chat_limit INTEGER CHECK (daily_chat_limit >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own quotas" ON public.user_quotas FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins manage quotas" ON public.user_quotas FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_user_quotas_updated_at
+  BEFORE UPDATE ON public.user_quotas
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per metered AI request, written by the analyze-case function under the service role
+CREATE TABLE public.ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('analysis', 'chat')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX ai_usage_user_kind_created_idx ON public.ai_usage (user_id, kind, created_at DESC);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own usage" ON public.ai_usage FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all usage" ON public.ai_usage FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Atomically checks today's usage (IST calendar day) against the limit and records the request
+CREATE OR REPLACE FUNCTION public.record_ai_usage(_user_id UUID, _kind TEXT, _limit INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  used INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::text || ':' || _kind));
+
+  SELECT count(*) INTO used
+  FROM public.ai_usage
+  WHERE user_id = _user_id
+    AND kind = _kind
+    AND created_at >= (date_trunc('day', now() AT TIME ZONE 'Asia/Kolkata') AT TIME ZONE 'Asia/Kolkata');
+
+  IF used >= _limit THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.ai_usage (user_id, kind) VALUES (_user_id, _kind);
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_ai_usage(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
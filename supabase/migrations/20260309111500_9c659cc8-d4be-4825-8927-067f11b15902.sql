@@ -0,0 +1,63 @@
+-- Every analysis run for a case, so results can be re-run and compared
+CREATE TABLE public.analysis_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID REFERENCES public.cases(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1, -- assigned by set_analysis_version
+  analysis_data JSONB NOT NULL,
+  input_prompt TEXT NOT NULL,
+  model TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (case_id, version)
+);
+
+ALTER TABLE public.analysis_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are immutable once written: no UPDATE policy
+CREATE POLICY "Users view own analysis versions" ON public.analysis_versions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = analysis_versions.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users add own analysis versions" ON public.analysis_versions FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = analysis_versions.case_id AND cases.user_id = auth.uid()));
+
+-- Backfill version 1 from analyses stored before versioning existed (before the triggers below,
+-- so existing cases keep their updated_at)
+INSERT INTO public.analysis_versions (case_id, version, analysis_data, input_prompt, created_by, created_at)
+SELECT
+  c.id,
+  1,
+  c.analysis_data,
+  COALESCE(
+    (SELECT m.content FROM public.messages m WHERE m.case_id = c.id AND m.role = 'user' ORDER BY m.created_at LIMIT 1),
+    ''
+  ),
+  c.user_id,
+  c.created_at
+FROM public.cases c
+WHERE c.analysis_data IS NOT NULL;
+
+-- Assign the next version number per case and make it the case's current analysis
+CREATE OR REPLACE FUNCTION public.next_analysis_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.case_id::text));
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.analysis_versions WHERE case_id = NEW.case_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_analysis_version
+  BEFORE INSERT ON public.analysis_versions
+  FOR EACH ROW EXECUTE FUNCTION public.next_analysis_version();
+
+CREATE OR REPLACE FUNCTION public.apply_analysis_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.cases SET analysis_data = NEW.analysis_data WHERE id = NEW.case_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER apply_analysis_version
+  AFTER INSERT ON public.analysis_versions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_analysis_version();
@@ -0,0 +1,21 @@
+-- Structured case intake (parties, occurrence, FIR, court, offences, custody status).
+-- description/category/offence stay as flat copies for listing and older readers.
+ALTER TABLE public.cases ADD COLUMN intake JSONB;
+
+-- Carry existing single-offence cases over to the structured shape without touching updated_at
+ALTER TABLE public.cases DISABLE TRIGGER update_cases_updated_at;
+
+UPDATE public.cases
+SET intake = jsonb_build_object(
+  'description', COALESCE(description, ''),
+  'category', COALESCE(category, ''),
+  'offences', CASE WHEN offence IS NULL THEN '[]'::jsonb ELSE jsonb_build_array(offence) END,
+  'parties', jsonb_build_object('accused', '[]'::jsonb, 'complainant', '', 'witnesses', '[]'::jsonb),
+  'occurrence', jsonb_build_object('date', '', 'place', ''),
+  'fir', jsonb_build_object('number', '', 'policeStation', ''),
+  'court', jsonb_build_object('name', '', 'jurisdiction', ''),
+  'custodyStatus', ''
+)
+WHERE description IS NOT NULL;
+
+ALTER TABLE public.cases ENABLE TRIGGER update_cases_updated_at;
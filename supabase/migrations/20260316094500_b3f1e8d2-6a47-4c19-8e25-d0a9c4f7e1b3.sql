@@ -0,0 +1,59 @@
+-- Source documents attached to a case (FIRs, charge sheets, judgments). Files live in the private
+-- case-documents bucket under <user_id>/<case_id>/; the extract-document function fills extracted_text.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'case-documents',
+  'case-documents',
+  false,
+  10485760,
+  ARRAY[
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain',
+    'text/markdown'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users upload own case documents" ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'case-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users read own case documents" ON storage.objects FOR SELECT
+  USING (bucket_id = 'case-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users delete own case documents" ON storage.objects FOR DELETE
+  USING (bucket_id = 'case-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE TABLE public.case_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID REFERENCES public.cases(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  doc_type TEXT NOT NULL DEFAULT 'other' CHECK (doc_type IN ('fir', 'charge_sheet', 'judgment', 'other')),
+  extraction_status TEXT NOT NULL DEFAULT 'pending' CHECK (extraction_status IN ('pending', 'done', 'failed')),
+  extraction_error TEXT,
+  extracted_text TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_documents_case ON public.case_documents (case_id, created_at);
+
+ALTER TABLE public.case_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own case documents" ON public.case_documents FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_documents.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users add own case documents" ON public.case_documents FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_documents.case_id AND cases.user_id = auth.uid())
+  );
+CREATE POLICY "Users update own case documents" ON public.case_documents FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_documents.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users delete own case documents" ON public.case_documents FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_documents.case_id AND cases.user_id = auth.uid()));
+
+CREATE TRIGGER update_case_documents_updated_at
+  BEFORE UPDATE ON public.case_documents
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
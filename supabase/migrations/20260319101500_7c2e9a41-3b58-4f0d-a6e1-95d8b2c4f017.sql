@@ -0,0 +1,41 @@
+-- Statute corpus used to ground and verify citations. `section` is the base section number
+-- (e.g. '103' for Section 103(1) BNS); sub-sections live in `content`.
+CREATE TABLE public.statutes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  act TEXT NOT NULL CHECK (act IN ('IPC', 'BNS', 'CRPC', 'BNSS', 'IEA', 'BSA')),
+  section TEXT NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  search TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', title), 'A') || setweight(to_tsvector('english', content), 'B')
+  ) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (act, section)
+);
+
+CREATE INDEX idx_statutes_search ON public.statutes USING GIN (search);
+
+ALTER TABLE public.statutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users read statutes" ON public.statutes FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins manage statutes" ON public.statutes FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Ranked retrieval for free text (case facts, a chat question). Terms are OR-ed so a long
+-- description still matches sections that share only some of its words.
+CREATE OR REPLACE FUNCTION public.search_statutes(_query TEXT, _limit INTEGER DEFAULT 10)
+RETURNS TABLE (act TEXT, section TEXT, title TEXT, content TEXT, rank REAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT NULLIF(replace(plainto_tsquery('english', _query)::text, ' & ', ' | '), '')::tsquery AS query
+  )
+  SELECT s.act, s.section, s.title, s.content, ts_rank(s.search, q.query) AS rank
+  FROM public.statutes s, q
+  WHERE q.query IS NOT NULL AND s.search @@ q.query
+  ORDER BY rank DESC, s.act, s.section
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+$$;
@@ -0,0 +1,60 @@
+-- Starter statute corpus: frequently cited provisions of the IPC, BNS, CrPC, BNSS, Indian Evidence Act
+-- and Bharatiya Sakshya Adhiniyam. Where only some sub-sections are relevant, `content` carries those
+-- sub-sections. Further sections can be loaded in the same shape; re-running updates existing rows.
+INSERT INTO public.statutes (act, section, title, content) VALUES
+  ('IPC', '34', 'Acts done by several persons in furtherance of common intention', E'When a criminal act is done by several persons in furtherance of the common intention of all, each of such persons is liable for that act in the same manner as if it were done by him alone.'),
+  ('IPC', '120B', 'Punishment of criminal conspiracy', E'(1) Whoever is a party to a criminal conspiracy to commit an offence punishable with death, imprisonment for life or rigorous imprisonment for a term of two years or upwards, shall, where no express provision is made in this Code for the punishment of such a conspiracy, be punished in the same manner as if he had abetted such offence.\n(2) Whoever is a party to a criminal conspiracy other than a criminal conspiracy to commit an offence punishable as aforesaid shall be punished with imprisonment of either description for a term not exceeding six months, or with fine or with both.'),
+  ('IPC', '299', 'Culpable homicide', E'Whoever causes death by doing an act with the intention of causing death, or with the intention of causing such bodily injury as is likely to cause death, or with the knowledge that he is likely by such act to cause death, commits the offence of culpable homicide.'),
+  ('IPC', '302', 'Punishment for murder', E'Whoever commits murder shall be punished with death, or imprisonment for life, and shall also be liable to fine.'),
+  ('IPC', '304', 'Punishment for culpable homicide not amounting to murder', E'Whoever commits culpable homicide not amounting to murder shall be punished with imprisonment for life, or imprisonment of either description for a term which may extend to ten years, and shall also be liable to fine, if the act by which the death is caused is done with the intention of causing death, or of causing such bodily injury as is likely to cause death;\nor with imprisonment of either description for a term which may extend to ten years, or with fine, or with both, if the act is done with the knowledge that it is likely to cause death, but without any intention to cause death, or to cause such bodily injury as is likely to cause death.'),
+  ('IPC', '304B', 'Dowry death', E'(1) Where the death of a woman is caused by any burns or bodily injury or occurs otherwise than under normal circumstances within seven years of her marriage and it is shown that soon before her death she was subjected to cruelty or harassment by her husband or any relative of her husband for, or in connection with, any demand for dowry, such death shall be called "dowry death", and such husband or relative shall be deemed to have caused her death.\n(2) Whoever commits dowry death shall be punished with imprisonment for a term which shall not be less than seven years but which may extend to imprisonment for life.'),
+  ('IPC', '307', 'Attempt to murder', E'Whoever does any act with such intention or knowledge, and under such circumstances that, if he by that act caused death, he would be guilty of murder, shall be punished with imprisonment of either description for a term which may extend to ten years, and shall also be liable to fine; and if hurt is caused to any person by such act, the offender shall be liable either to imprisonment for life, or to such punishment as is hereinbefore mentioned.'),
+  ('IPC', '323', 'Punishment for voluntarily causing hurt', E'Whoever, except in the case provided for by section 334, voluntarily causes hurt, shall be punished with imprisonment of either description for a term which may extend to one year, or with fine which may extend to one thousand rupees, or with both.'),
+  ('IPC', '354', 'Assault or criminal force to woman with intent to outrage her modesty', E'Whoever assaults or uses criminal force to any woman, intending to outrage or knowing it to be likely that he will thereby outrage her modesty, shall be punished with imprisonment of either description for a term which shall not be less than one year but which may extend to five years, and shall also be liable to fine.'),
+  ('IPC', '378', 'Theft', E'Whoever, intending to take dishonestly any movable property out of the possession of any person without that person''s consent, moves that property in order to such taking, is said to commit theft.'),
+  ('IPC', '379', 'Punishment for theft', E'Whoever commits theft shall be punished with imprisonment of either description for a term which may extend to three years, or with fine, or with both.'),
+  ('IPC', '392', 'Punishment for robbery', E'Whoever commits robbery shall be punished with rigorous imprisonment for a term which may extend to ten years, and shall also be liable to fine; and, if the robbery be committed on the highway between sunset and sunrise, the imprisonment may be extended to fourteen years.'),
+  ('IPC', '405', 'Criminal breach of trust', E'Whoever, being in any manner entrusted with property, or with any dominion over property, dishonestly misappropriates or converts to his own use that property, or dishonestly uses or disposes of that property in violation of any direction of law prescribing the mode in which such trust is to be discharged, or of any legal contract, express or implied, which he has made touching the discharge of such trust, or wilfully suffers any other person so to do, commits "criminal breach of trust".'),
+  ('IPC', '406', 'Punishment for criminal breach of trust', E'Whoever commits criminal breach of trust shall be punished with imprisonment of either description for a term which may extend to three years, or with fine, or with both.'),
+  ('IPC', '415', 'Cheating', E'Whoever, by deceiving any person, fraudulently or dishonestly induces the person so deceived to deliver any property to any person, or to consent that any person shall retain any property, or intentionally induces the person so deceived to do or omit to do anything which he would not do or omit if he were not so deceived, and which act or omission causes or is likely to cause damage or harm to that person in body, mind, reputation or property, is said to "cheat".'),
+  ('IPC', '420', 'Cheating and dishonestly inducing delivery of property', E'Whoever cheats and thereby dishonestly induces the person deceived to deliver any property to any person, or to make, alter or destroy the whole or any part of a valuable security, or anything which is signed or sealed, and which is capable of being converted into a valuable security, shall be punished with imprisonment of either description for a term which may extend to seven years, and shall also be liable to fine.'),
+  ('IPC', '498A', 'Husband or relative of husband of a woman subjecting her to cruelty', E'Whoever, being the husband or the relative of the husband of a woman, subjects such woman to cruelty shall be punished with imprisonment for a term which may extend to three years and shall also be liable to fine.'),
+  ('IPC', '506', 'Punishment for criminal intimidation', E'Whoever commits the offence of criminal intimidation shall be punished with imprisonment of either description for a term which may extend to two years, or with fine, or with both;\nand if threat be to cause death or grievous hurt, or to cause the destruction of any property by fire, or to cause an offence punishable with death or imprisonment for life, or with imprisonment for a term which may extend to seven years, or to impute unchastity to a woman, shall be punished with imprisonment of either description for a term which may extend to seven years, or with fine, or with both.'),
+  ('BNS', '3', 'General explanations', E'(5) When a criminal act is done by several persons in furtherance of the common intention of all, each of such persons is liable for that act in the same manner as if it were done by him alone.'),
+  ('BNS', '61', 'Criminal conspiracy', E'(2) Whoever is a party to a criminal conspiracy,—\n(a) to commit an offence punishable with death, imprisonment for life or rigorous imprisonment for a term of two years or upwards, shall, where no express provision is made in this Sanhita for the punishment of such a conspiracy, be punished in the same manner as if he had abetted such offence;\n(b) other than a criminal conspiracy to commit an offence punishable as aforesaid shall be punished with imprisonment of either description for a term not exceeding six months, or with fine or with both.'),
+  ('BNS', '74', 'Assault or use of criminal force to woman with intent to outrage her modesty', E'Whoever assaults or uses criminal force to any woman, intending to outrage or knowing it to be likely that he will thereby outrage her modesty, shall be punished with imprisonment of either description for a term which shall not be less than one year but which may extend to five years, and shall also be liable to fine.'),
+  ('BNS', '80', 'Dowry death', E'(1) Where the death of a woman is caused by any burns or bodily injury or occurs otherwise than under normal circumstances within seven years of her marriage and it is shown that soon before her death she was subjected to cruelty or harassment by her husband or any relative of her husband for, or in connection with, any demand for dowry, such death shall be called "dowry death", and such husband or relative shall be deemed to have caused her death.\n(2) Whoever commits dowry death shall be punished with imprisonment for a term which shall not be less than seven years but which may extend to imprisonment for life.'),
+  ('BNS', '85', 'Husband or relative of husband of a woman subjecting her to cruelty', E'Whoever, being the husband or the relative of the husband of a woman, subjects such woman to cruelty shall be punished with imprisonment for a term which may extend to three years and shall also be liable to fine.'),
+  ('BNS', '100', 'Culpable homicide', E'Whoever causes death by doing an act with the intention of causing death, or with the intention of causing such bodily injury as is likely to cause death, or with the knowledge that he is likely by such act to cause death, commits the offence of culpable homicide.'),
+  ('BNS', '103', 'Punishment for murder', E'(1) Whoever commits murder shall be punished with death or imprisonment for life, and shall also be liable to fine.\n(2) When a group of five or more persons acting in concert commits murder on the ground of race, caste or community, sex, place of birth, language, personal belief or any other similar ground each member of such group shall be punished with death or with imprisonment for life, and shall also be liable to fine.'),
+  ('BNS', '105', 'Punishment for culpable homicide not amounting to murder', E'Whoever commits culpable homicide not amounting to murder, shall be punished with imprisonment for life, or imprisonment of either description for a term which shall not be less than five years but which may extend to ten years, and shall also be liable to fine, if the act by which the death is caused is done with the intention of causing death, or of causing such bodily injury as is likely to cause death;\nor with imprisonment of either description for a term which may extend to ten years and with fine, if the act is done with the knowledge that it is likely to cause death, but without any intention to cause death, or to cause such bodily injury as is likely to cause death.'),
+  ('BNS', '109', 'Attempt to murder', E'(1) Whoever does any act with such intention or knowledge, and under such circumstances that, if he by that act caused death, he would be guilty of murder, shall be punished with imprisonment of either description for a term which may extend to ten years, and shall also be liable to fine; and if hurt is caused to any person by such act, the offender shall be liable either to imprisonment for life, or to such punishment as is hereinbefore mentioned.'),
+  ('BNS', '115', 'Voluntarily causing hurt', E'(2) Whoever, except in the case provided for by sub-section (1) of section 122, voluntarily causes hurt, shall be punished with imprisonment of either description for a term which may extend to one year, or with fine which may extend to ten thousand rupees, or with both.'),
+  ('BNS', '303', 'Theft', E'(2) Whoever commits theft shall be punished with imprisonment of either description for a term which may extend to three years, or with fine, or with both and in case of second or subsequent conviction of any person under this section, he shall be punished with rigorous imprisonment for a term which shall not be less than one year but which may extend to five years and with fine:\nProvided that in cases of theft where the value of the stolen property is less than five thousand rupees, and a person is convicted for the first time, shall upon return of the value of property or restoration of the stolen property, shall be punished with community service.'),
+  ('BNS', '309', 'Robbery', E'(4) Whoever commits robbery shall be punished with rigorous imprisonment for a term which may extend to ten years, and shall also be liable to fine; and, if the robbery be committed on the highway between sunset and sunrise, the imprisonment may be extended to fourteen years.'),
+  ('BNS', '316', 'Criminal breach of trust', E'(2) Whoever commits criminal breach of trust shall be punished with imprisonment of either description for a term which may extend to five years, or with fine, or with both.'),
+  ('BNS', '318', 'Cheating', E'(4) Whoever cheats and thereby dishonestly induces the person deceived to deliver any property to any person, or to make, alter or destroy the whole or any part of a valuable security, or anything which is signed or sealed, and which is capable of being converted into a valuable security, shall be punished with imprisonment of either description for a term which may extend to seven years, and shall also be liable to fine.'),
+  ('BNS', '351', 'Criminal intimidation', E'(2) Whoever commits the offence of criminal intimidation shall be punished with imprisonment of either description for a term which may extend to two years, or with fine, or with both.\n(3) Whoever commits the offence of criminal intimidation by threatening to cause death or grievous hurt, or to cause the destruction of any property by fire, or to cause an offence punishable with death or imprisonment for life, or with imprisonment for a term which may extend to seven years or more, or to impute unchastity to a woman, shall be punished with imprisonment of either description for a term which may extend to seven years, or with fine, or with both.'),
+  ('CRPC', '154', 'Information in cognizable cases', E'(1) Every information relating to the commission of a cognizable offence, if given orally to an officer in charge of a police station, shall be reduced to writing by him or under his direction, and be read over to the informant; and every such information, whether given in writing or reduced to writing as aforesaid, shall be signed by the person giving it, and the substance thereof shall be entered in a book to be kept by such officer in such form as the State Government may prescribe in this behalf.'),
+  ('CRPC', '161', 'Examination of witnesses by police', E'(1) Any police officer making an investigation under this Chapter, or any police officer not below such rank as the State Government may, by general or special order, prescribe in this behalf, acting on the requisition of such officer, may examine orally any person supposed to be acquainted with the facts and circumstances of the case.'),
+  ('CRPC', '438', 'Direction for grant of bail to person apprehending arrest', E'(1) Where any person has reason to believe that he may be arrested on accusation of having committed a non-bailable offence, he may apply to the High Court or the Court of Session for a direction under this section that in the event of such arrest he shall be released on bail. [...]'),
+  ('CRPC', '439', 'Special powers of High Court or Court of Session regarding bail', E'(1) A High Court or Court of Session may direct—\n(a) that any person accused of an offence and in custody be released on bail, and if the offence is of the nature specified in sub-section (3) of section 437, may impose any condition which it considers necessary for the purposes mentioned in that sub-section;\n(b) that any condition imposed by a Magistrate when releasing any person on bail be set aside or modified.'),
+  ('CRPC', '482', 'Saving of inherent powers of High Court', E'Nothing in this Code shall be deemed to limit or affect the inherent powers of the High Court to make such orders as may be necessary to give effect to any order under this Code, or to prevent abuse of the process of any Court or otherwise to secure the ends of justice.'),
+  ('BNSS', '173', 'Information in cognizable cases', E'(1) Every information relating to the commission of a cognizable offence, irrespective of the area where the offence is committed, may be given orally or by electronic communication to an officer in charge of a police station, and if given—\n(i) orally, it shall be reduced to writing by him or under his direction, and be read over to the informant; and every such information, whether given in writing or reduced to writing as aforesaid, shall be signed by the person giving it;\n(ii) by electronic communication, it shall be taken on record by him on being signed within three days by the person giving it,\nand the substance thereof shall be entered in a book to be kept by such officer in such form as the State Government may by rules prescribe in this behalf.'),
+  ('BNSS', '180', 'Examination of witnesses by police', E'(1) Any police officer making an investigation under this Chapter, or any police officer not below such rank as the State Government may, by general or special order, prescribe in this behalf, acting on the requisition of such officer, may examine orally any person supposed to be acquainted with the facts and circumstances of the case.'),
+  ('BNSS', '482', 'Direction for grant of bail to person apprehending arrest', E'(1) When any person has reason to believe that he may be arrested on an accusation of having committed a non-bailable offence, he may apply to the High Court or the Court of Session for a direction under this section that in the event of such arrest, he shall be released on bail.'),
+  ('BNSS', '483', 'Special powers of High Court or Court of Session regarding bail', E'(1) A High Court or Court of Session may direct,—\n(a) that any person accused of an offence and in custody be released on bail, and if the offence is of the nature specified in sub-section (3) of section 480, may impose any condition which it considers necessary for the purposes mentioned in that sub-section;\n(b) that any condition imposed by a Magistrate when releasing any person on bail be set aside or modified.'),
+  ('BNSS', '528', 'Saving of inherent powers of High Court', E'Nothing in this Sanhita shall be deemed to limit or affect the inherent powers of the High Court to make such orders as may be necessary to give effect to any order under this Sanhita, or to prevent abuse of the process of any Court or otherwise to secure the ends of justice.'),
+  ('IEA', '25', 'Confession to police officer not to be proved', E'No confession made to a police officer shall be proved as against a person accused of any offence.'),
+  ('IEA', '26', 'Confession by accused while in custody of police not to be proved against him', E'No confession made by any person whilst he is in the custody of a police officer, unless it be made in the immediate presence of a Magistrate, shall be proved as against such person.'),
+  ('IEA', '27', 'How much of information received from accused may be proved', E'Provided that, when any fact is deposed to as discovered in consequence of information received from a person accused of any offence, in the custody of a police officer, so much of such information, whether it amounts to a confession or not, as relates distinctly to the fact thereby discovered, may be proved.'),
+  ('IEA', '32', 'Cases in which statement of relevant fact by person who is dead or cannot be found, etc., is relevant', E'(1) When the statement is made by a person as to the cause of his death, or as to any of the circumstances of the transaction which resulted in his death, in cases in which the cause of that person''s death comes into question.\nSuch statements are relevant whether the person who made them was or was not, at the time when they were made, under expectation of death, and whatever may be the nature of the proceeding in which the cause of his death comes into question.'),
+  ('IEA', '101', 'Burden of proof', E'Whoever desires any Court to give judgment as to any legal right or liability dependent on the existence of facts which he asserts, must prove that those facts exist.\nWhen a person is bound to prove the existence of any fact, it is said that the burden of proof lies on that person.'),
+  ('IEA', '106', 'Burden of proving fact especially within knowledge', E'When any fact is especially within the knowledge of any person, the burden of proving that fact is upon him.'),
+  ('IEA', '113B', 'Presumption as to dowry death', E'When the question is whether a person has committed the dowry death of a woman and it is shown that soon before her death such woman had been subjected by such person to cruelty or harassment for, or in connection with, any demand for dowry, the Court shall presume that such person had caused the dowry death.'),
+  ('BSA', '23', 'Confession to police officer', E'(1) No confession made to a police officer shall be proved as against a person accused of any offence.\n(2) No confession made by any person while he is in the custody of a police officer, unless it is made in the immediate presence of a Magistrate, shall be proved against him:\nProvided that when any fact is deposed to as discovered in consequence of information received from a person accused of any offence, in the custody of a police officer, so much of such information, whether it amounts to a confession or not, as relates distinctly to the fact thereby discovered, may be proved.'),
+  ('BSA', '26', 'Cases in which statement of relevant fact by person who is dead or cannot be found, etc., is relevant', E'(a) when the statement is made by a person as to the cause of his death, or as to any of the circumstances of the transaction which resulted in his death, in cases in which the cause of that person''s death comes into question and such statements are relevant whether the person who made them was or was not, at the time when they were made, under expectation of death, and whatever may be the nature of the proceeding in which the cause of his death comes into question;'),
+  ('BSA', '104', 'Burden of proof', E'Whoever desires any Court to give judgment as to any legal right or liability dependent on the existence of facts which he asserts, must prove that those facts exist and when a person is bound to prove the existence of any fact, it is said that the burden of proof lies on that person.'),
+  ('BSA', '109', 'Burden of proving fact especially within knowledge', E'When any fact is especially within the knowledge of any person, the burden of proving that fact is upon him.'),
+  ('BSA', '118', 'Presumption as to dowry death', E'When the question is whether a person has committed the dowry death of a woman and it is shown that soon before her death such woman has been subjected by such person to cruelty or harassment for, or in connection with, any demand for dowry, the Court shall presume that such person had caused the dowry death.')
+ON CONFLICT (act, section) DO UPDATE SET title = EXCLUDED.title, content = EXCLUDED.content;
@@ -0,0 +1,98 @@
+-- Concordance between the old codes and the Sanhitas that replaced them (IPC -> BNS,
+-- CrPC -> BNSS, Evidence Act -> BSA). Sections keep their sub-section as written
+-- (e.g. '103(1)'); the generated *_base columns hold the base number used for lookups, matching
+-- statutes.section. A NULL new side records a provision that was not carried over.
+CREATE TABLE public.section_concordance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  old_act TEXT NOT NULL CHECK (old_act IN ('IPC', 'CRPC', 'IEA')),
+  old_section TEXT NOT NULL,
+  new_act TEXT CHECK (new_act IN ('BNS', 'BNSS', 'BSA')),
+  new_section TEXT,
+  subject TEXT NOT NULL,
+  change_notes TEXT NOT NULL DEFAULT '',
+  old_base TEXT GENERATED ALWAYS AS (upper(split_part(old_section, '(', 1))) STORED,
+  new_base TEXT GENERATED ALWAYS AS (upper(split_part(new_section, '(', 1))) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((new_act IS NULL) = (new_section IS NULL)),
+  UNIQUE NULLS NOT DISTINCT (old_act, old_section, new_act, new_section)
+);
+
+CREATE INDEX idx_section_concordance_old ON public.section_concordance (old_act, old_base);
+CREATE INDEX idx_section_concordance_new ON public.section_concordance (new_act, new_base);
+
+ALTER TABLE public.section_concordance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users read concordance" ON public.section_concordance FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins manage concordance" ON public.section_concordance FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Looks up sections in either direction. `_refs` are citation keys ('IPC:302', 'BNSS:482');
+-- a row matches when either of its sides is one of them.
+CREATE OR REPLACE FUNCTION public.lookup_concordance(_refs TEXT[])
+RETURNS TABLE (
+  old_act TEXT,
+  old_section TEXT,
+  new_act TEXT,
+  new_section TEXT,
+  subject TEXT,
+  change_notes TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.old_act, c.old_section, c.new_act, c.new_section, c.subject, c.change_notes
+  FROM public.section_concordance c
+  WHERE c.old_act || ':' || c.old_base = ANY (_refs)
+     OR c.new_act || ':' || c.new_base = ANY (_refs)
+  ORDER BY c.old_act, c.old_section, c.new_section;
+$$;
+
+INSERT INTO public.section_concordance (old_act, old_section, new_act, new_section, subject, change_notes) VALUES
+  ('IPC', '34', 'BNS', '3(5)', 'Common intention', 'No change in ingredients or punishment.'),
+  ('IPC', '120B', 'BNS', '61(2)', 'Punishment of criminal conspiracy', 'No substantive change; the definition (IPC 120A) is now BNS 61(1).'),
+  ('IPC', '124A', NULL, NULL, 'Sedition', 'Not retained. The closest provision is Section 152 BNS (acts endangering sovereignty, unity and integrity of India), which has different ingredients: it does not use ''disaffection towards the Government''.'),
+  ('IPC', '299', 'BNS', '100', 'Culpable homicide', 'No change in ingredients.'),
+  ('IPC', '300', 'BNS', '101', 'Murder', 'No change in ingredients; the exceptions are retained.'),
+  ('IPC', '302', 'BNS', '103(1)', 'Punishment for murder', 'Same punishment. New Section 103(2) BNS covers murder by a group of five or more on grounds such as race, caste, community, sex, place of birth, language or personal belief.'),
+  ('IPC', '304', 'BNS', '105', 'Culpable homicide not amounting to murder', 'First limb now carries a minimum of five years where imprisonment for life is not imposed; fine is mandatory under the second limb.'),
+  ('IPC', '304A', 'BNS', '106(1)', 'Causing death by negligence', 'Maximum raised from two to five years; two years for registered medical practitioners. Section 106(2) BNS adds hit-and-run with up to ten years.'),
+  ('IPC', '304B', 'BNS', '80', 'Dowry death', 'No change in ingredients or punishment.'),
+  ('IPC', '306', 'BNS', '108', 'Abetment of suicide', 'No change in ingredients or punishment.'),
+  ('IPC', '307', 'BNS', '109', 'Attempt to murder', 'No change in ingredients or punishment.'),
+  ('IPC', '323', 'BNS', '115(2)', 'Voluntarily causing hurt', 'Fine ceiling raised from one thousand to ten thousand rupees.'),
+  ('IPC', '324', 'BNS', '118(1)', 'Voluntarily causing hurt by dangerous weapons or means', 'Fine now capped at twenty thousand rupees; imprisonment unchanged.'),
+  ('IPC', '354', 'BNS', '74', 'Assault or criminal force to woman with intent to outrage her modesty', 'No change in ingredients or punishment.'),
+  ('IPC', '376', 'BNS', '64', 'Punishment for rape', 'Punishment structure retained; the definition (IPC 375) is now BNS 63.'),
+  ('IPC', '377', NULL, NULL, 'Unnatural offences', 'Not retained in the BNS.'),
+  ('IPC', '379', 'BNS', '303(2)', 'Punishment for theft', 'Second or subsequent conviction now carries one to five years. First-time theft of property worth under five thousand rupees may be punished with community service on restitution.'),
+  ('IPC', '392', 'BNS', '309(4)', 'Punishment for robbery', 'No change in punishment.'),
+  ('IPC', '406', 'BNS', '316(2)', 'Punishment for criminal breach of trust', 'Maximum raised from three to five years.'),
+  ('IPC', '420', 'BNS', '318(4)', 'Cheating and dishonestly inducing delivery of property', 'No change in punishment.'),
+  ('IPC', '498A', 'BNS', '85', 'Cruelty by husband or relatives', 'No change in punishment; the definition of cruelty is now Section 86 BNS.'),
+  ('IPC', '506', 'BNS', '351(2)', 'Punishment for criminal intimidation', 'Split into Section 351(2) (simple) and Section 351(3) (threat to cause death, grievous hurt, etc.); punishments unchanged.'),
+  ('IPC', '506', 'BNS', '351(3)', 'Criminal intimidation by threat to cause death or grievous hurt', 'Aggravated limb of former Section 506 IPC; punishment unchanged.'),
+  ('CRPC', '41', 'BNSS', '35', 'When police may arrest without warrant', 'Largely retained; arrest for offences punishable with less than three years of a person who is infirm or above sixty years needs prior permission of an officer not below the rank of DSP.'),
+  ('CRPC', '125', 'BNSS', '144', 'Maintenance of wives, children and parents', 'No substantive change.'),
+  ('CRPC', '154', 'BNSS', '173', 'Information in cognizable cases (FIR)', 'FIR may be registered irrespective of where the offence occurred (zero FIR) and given by electronic communication, signed within three days. A preliminary enquiry is allowed for offences punishable with three to seven years.'),
+  ('CRPC', '161', 'BNSS', '180', 'Examination of witnesses by police', 'No substantive change.'),
+  ('CRPC', '164', 'BNSS', '183', 'Recording of confessions and statements', 'Statement may be recorded by the Magistrate of the district where the information was registered; audio-video recording provisions extended.'),
+  ('CRPC', '167', 'BNSS', '187', 'Procedure when investigation cannot be completed in twenty-four hours', 'Police custody of up to fifteen days may be sought in parts during the first forty or sixty days of the detention period.'),
+  ('CRPC', '173', 'BNSS', '193', 'Report of police officer on completion of investigation', 'Adds a duty to inform the victim of the progress of investigation within ninety days.'),
+  ('CRPC', '436A', 'BNSS', '479', 'Maximum period of detention of undertrial', 'A first-time offender is to be released on bond after one-third of the maximum sentence.'),
+  ('CRPC', '437', 'BNSS', '480', 'Bail in non-bailable offences', 'No substantive change.'),
+  ('CRPC', '438', 'BNSS', '482', 'Anticipatory bail', 'Substance retained; compare the wording of sub-section (1) with CRPC 438(1) before relying on the former list of factors.'),
+  ('CRPC', '439', 'BNSS', '483', 'Special powers of High Court or Court of Session regarding bail', 'No substantive change.'),
+  ('CRPC', '482', 'BNSS', '528', 'Inherent powers of High Court', 'No change.'),
+  ('IEA', '25', 'BSA', '23(1)', 'Confession to police officer', 'No change.'),
+  ('IEA', '26', 'BSA', '23(2)', 'Confession in police custody', 'No change; merged with former Section 27 IEA as the proviso.'),
+  ('IEA', '27', 'BSA', '23(2)', 'Information leading to discovery', 'Now the proviso to Section 23(2) BSA; no change in substance.'),
+  ('IEA', '32', 'BSA', '26', 'Statements of persons who are dead or cannot be found (dying declaration)', 'No change in substance.'),
+  ('IEA', '45', 'BSA', '39', 'Opinions of experts', 'Expert fields expanded to include any other field.'),
+  ('IEA', '65B', 'BSA', '63', 'Admissibility of electronic records', 'The certificate must follow the form in the Schedule and be signed by the person in charge and an expert.'),
+  ('IEA', '101', 'BSA', '104', 'Burden of proof', 'No change.'),
+  ('IEA', '106', 'BSA', '109', 'Burden of proving fact especially within knowledge', 'No change.'),
+  ('IEA', '113B', 'BSA', '118', 'Presumption as to dowry death', 'No change.')
+ON CONFLICT (old_act, old_section, new_act, new_section) DO UPDATE
+  SET subject = EXCLUDED.subject, change_notes = EXCLUDED.change_notes;
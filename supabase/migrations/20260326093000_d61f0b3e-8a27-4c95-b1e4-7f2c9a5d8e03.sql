@@ -0,0 +1,47 @@
+-- Advocates' edits of the court-ready document. Each row is a revision; autosave keeps updating the
+-- latest 'edit' revision for a while and then starts a new one, so history stays readable.
+CREATE TABLE public.case_documents_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID REFERENCES public.cases(id) ON DELETE CASCADE NOT NULL,
+  revision INTEGER NOT NULL DEFAULT 1, -- assigned by set_draft_revision
+  content TEXT NOT NULL,
+  -- 'edit': typed by the user; 'restore': copied from an earlier revision; 'ai': reset to the generated text
+  source TEXT NOT NULL DEFAULT 'edit' CHECK (source IN ('edit', 'restore', 'ai')),
+  restored_from INTEGER,
+  -- The analysis whose generated document this draft started from
+  analysis_version_id UUID REFERENCES public.analysis_versions(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (case_id, revision)
+);
+
+CREATE INDEX idx_case_documents_drafts_case ON public.case_documents_drafts (case_id, revision DESC);
+
+ALTER TABLE public.case_documents_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are never deleted on their own; they go with the case
+CREATE POLICY "Users view own drafts" ON public.case_documents_drafts FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_documents_drafts.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users add own drafts" ON public.case_documents_drafts FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_documents_drafts.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users update own drafts" ON public.case_documents_drafts FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_documents_drafts.case_id AND cases.user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.next_draft_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('draft:' || NEW.case_id::text));
+  SELECT COALESCE(MAX(revision), 0) + 1 INTO NEW.revision
+  FROM public.case_documents_drafts WHERE case_id = NEW.case_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_draft_revision
+  BEFORE INSERT ON public.case_documents_drafts
+  FOR EACH ROW EXECUTE FUNCTION public.next_draft_revision();
+
+CREATE TRIGGER update_case_documents_drafts_updated_at
+  BEFORE UPDATE ON public.case_documents_drafts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,35 @@
+-- Documents drafted from a case by the generator (bail applications, replies, written statements,
+-- legal notices, appeal memos), kept alongside the analysis's own court document
+CREATE TABLE public.generated_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID REFERENCES public.cases(id) ON DELETE CASCADE NOT NULL,
+  doc_type TEXT NOT NULL CHECK (doc_type IN (
+    'regular_bail', 'anticipatory_bail', 'bail_reply', 'discharge_application',
+    'written_statement', 'legal_notice', 'appeal_memo'
+  )),
+  title TEXT NOT NULL,
+  -- The particulars the advocate entered for this document type
+  fields JSONB NOT NULL DEFAULT '{}'::jsonb,
+  content TEXT NOT NULL,
+  model TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_generated_documents_case ON public.generated_documents (case_id, created_at DESC);
+
+ALTER TABLE public.generated_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own generated documents" ON public.generated_documents FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = generated_documents.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users add own generated documents" ON public.generated_documents FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = generated_documents.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users update own generated documents" ON public.generated_documents FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = generated_documents.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users delete own generated documents" ON public.generated_documents FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = generated_documents.case_id AND cases.user_id = auth.uid()));
+
+CREATE TRIGGER update_generated_documents_updated_at
+  BEFORE UPDATE ON public.generated_documents
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
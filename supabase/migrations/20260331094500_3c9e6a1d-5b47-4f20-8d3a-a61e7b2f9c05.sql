@@ -0,0 +1,13 @@
+-- Output language for analysis, chat and documents: a default per user, optionally overridden per case
+-- (NULL follows the user's default). Codes match supabase/functions/_shared/language.ts.
+ALTER TABLE public.profiles ADD COLUMN preferred_language TEXT NOT NULL DEFAULT 'en'
+  CHECK (preferred_language IN ('en', 'hi', 'mr', 'bn', 'gu', 'pa', 'ta', 'te', 'kn', 'ml'));
+
+ALTER TABLE public.cases ADD COLUMN language TEXT
+  CHECK (language IN ('en', 'hi', 'mr', 'bn', 'gu', 'pa', 'ta', 'te', 'kn', 'ml'));
+
+-- Whole-document translations are kept as revisions of the court document, so the original can be restored
+ALTER TABLE public.case_documents_drafts DROP CONSTRAINT case_documents_drafts_source_check;
+ALTER TABLE public.case_documents_drafts ADD CONSTRAINT case_documents_drafts_source_check
+  CHECK (source IN ('edit', 'restore', 'ai', 'translation'));
+ALTER TABLE public.case_documents_drafts ADD COLUMN language TEXT;
@@ -0,0 +1,61 @@
+-- Full-text search over the user's own workspace: case titles and facts, the stored analysis (every
+-- string in analysis_data: sections, precedents, strategy, court document), case chat and the
+-- general assistant chat.
+ALTER TABLE public.cases ADD COLUMN search TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A')
+  || setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  || setweight(jsonb_to_tsvector('english', coalesce(analysis_data, '{}'::jsonb), '["string"]'), 'C')
+) STORED;
+
+ALTER TABLE public.messages ADD COLUMN search TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+ALTER TABLE public.general_messages ADD COLUMN search TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX idx_cases_search ON public.cases USING GIN (search);
+CREATE INDEX idx_messages_search ON public.messages USING GIN (search);
+CREATE INDEX idx_general_messages_search ON public.general_messages USING GIN (search);
+
+-- Ranked matches with <mark>-delimited snippets. Runs with the caller's rights, so RLS limits it to
+-- their own cases and chats. `kind` is 'case' (title), 'analysis' (facts or analysis), 'message'
+-- (case chat, with message_id) or 'general' (assistant chat, with message_id and no case).
+CREATE OR REPLACE FUNCTION public.search_workspace(_query TEXT, _limit INTEGER DEFAULT 30)
+RETURNS TABLE (kind TEXT, case_id UUID, message_id UUID, title TEXT, snippet TEXT, rank REAL, created_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', _query) AS query
+  ),
+  opts AS (
+    SELECT 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'::text AS o
+  ),
+  hits AS (
+    SELECT
+      CASE WHEN to_tsvector('english', c.title) @@ q.query THEN 'case' ELSE 'analysis' END AS kind,
+      c.id AS case_id,
+      NULL::uuid AS message_id,
+      c.title,
+      CASE
+        WHEN to_tsvector('english', c.title) @@ q.query THEN ts_headline('english', c.title, q.query, opts.o)
+        ELSE ts_headline('english', concat_ws(' ', c.description, (
+          SELECT string_agg(v #>> '{}', ' ')
+          FROM jsonb_path_query(coalesce(c.analysis_data, '{}'::jsonb), 'strict $.** ? (@.type() == "string")') AS v
+        )), q.query, opts.o)
+      END AS snippet,
+      ts_rank(c.search, q.query) AS rank,
+      c.updated_at AS created_at
+    FROM public.cases c, q, opts
+    WHERE c.search @@ q.query
+    UNION ALL
+    SELECT 'message', m.case_id, m.id, c.title, ts_headline('english', m.content, q.query, opts.o), ts_rank(m.search, q.query), m.created_at
+    FROM public.messages m JOIN public.cases c ON c.id = m.case_id, q, opts
+    WHERE m.search @@ q.query
+    UNION ALL
+    SELECT 'general', NULL, g.id, 'Legal Assistant', ts_headline('english', g.content, q.query, opts.o), ts_rank(g.search, q.query), g.created_at
+    FROM public.general_messages g, q, opts
+    WHERE g.search @@ q.query
+  )
+  SELECT * FROM hits
+  ORDER BY rank DESC, created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
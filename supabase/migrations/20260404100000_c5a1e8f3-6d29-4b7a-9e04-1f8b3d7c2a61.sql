@@ -0,0 +1,55 @@
+-- Case metadata for organising the sidebar: where the matter stands, whom it is for, where it is
+-- heard and when, plus free-form tags
+ALTER TABLE public.cases
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'filed', 'hearing', 'reserved', 'disposed')),
+  ADD COLUMN client_name TEXT,
+  ADD COLUMN court TEXT,
+  ADD COLUMN next_hearing_date DATE,
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_cases_user_status ON public.cases (user_id, status);
+CREATE INDEX idx_cases_tags ON public.cases USING GIN (tags);
+
+-- Start from the court named in the intake, without touching updated_at
+ALTER TABLE public.cases DISABLE TRIGGER update_cases_updated_at;
+UPDATE public.cases SET court = NULLIF(trim(intake #>> '{court,name}'), '') WHERE intake IS NOT NULL;
+ALTER TABLE public.cases ENABLE TRIGGER update_cases_updated_at;
+
+-- Audit trail of status changes. Rows are written only by the trigger below, so every change made
+-- through any client is recorded and users cannot add or alter entries themselves.
+CREATE TABLE public.case_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID REFERENCES public.cases(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_status_history_case ON public.case_status_history (case_id, changed_at DESC);
+
+ALTER TABLE public.case_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own case status history" ON public.case_status_history FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_status_history.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Admins view case status history" ON public.case_status_history FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.record_case_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.case_status_history (case_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END, NEW.status, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_case_status
+  AFTER INSERT OR UPDATE OF status ON public.cases
+  FOR EACH ROW EXECUTE FUNCTION public.record_case_status_change();
+
+-- Existing cases start their trail at their current (default) status
+INSERT INTO public.case_status_history (case_id, from_status, to_status, changed_by, changed_at)
+SELECT id, NULL, status, user_id, created_at FROM public.cases;
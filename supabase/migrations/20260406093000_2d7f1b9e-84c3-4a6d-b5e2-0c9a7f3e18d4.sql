@@ -0,0 +1,65 @@
+-- Filing deadlines per case (limitation dates from the calculator, compliance dates, manual
+-- reminders). Hearing dates stay on cases.next_hearing_date.
+CREATE TABLE public.case_deadlines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID REFERENCES public.cases(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  due_date DATE NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'filing' CHECK (kind IN ('filing', 'limitation', 'compliance', 'other')),
+  -- For limitation deadlines: the proceeding type and the order date the period ran from
+  proceeding TEXT,
+  order_date DATE,
+  notes TEXT,
+  completed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_deadlines_case ON public.case_deadlines (case_id, due_date);
+CREATE INDEX idx_case_deadlines_open ON public.case_deadlines (due_date) WHERE completed_at IS NULL;
+
+ALTER TABLE public.case_deadlines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own case deadlines" ON public.case_deadlines FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_deadlines.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users add own case deadlines" ON public.case_deadlines FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_deadlines.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users update own case deadlines" ON public.case_deadlines FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_deadlines.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Users delete own case deadlines" ON public.case_deadlines FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_deadlines.case_id AND cases.user_id = auth.uid()));
+
+CREATE TRIGGER update_case_deadlines_updated_at
+  BEFORE UPDATE ON public.case_deadlines
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Days the courts are closed, used to carry a limitation period that ends on a holiday over to the
+-- next working day. Maintained by administrators from the courts' published calendars.
+CREATE TABLE public.court_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date DATE NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.court_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users read court holidays" ON public.court_holidays FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins manage court holidays" ON public.court_holidays FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- National holidays that fall on a fixed date; festival holidays and vacations vary by year and by
+-- court, so they are added from the admin dashboard
+INSERT INTO public.court_holidays (holiday_date, name) VALUES
+  ('2026-01-26', 'Republic Day'),
+  ('2026-04-14', 'Dr. Ambedkar Jayanti'),
+  ('2026-08-15', 'Independence Day'),
+  ('2026-10-02', 'Gandhi Jayanti'),
+  ('2026-12-25', 'Christmas'),
+  ('2027-01-26', 'Republic Day'),
+  ('2027-04-14', 'Dr. Ambedkar Jayanti'),
+  ('2027-08-15', 'Independence Day'),
+  ('2027-10-02', 'Gandhi Jayanti'),
+  ('2027-12-25', 'Christmas');
@@ -0,0 +1,256 @@
+-- Case sharing: the owner (cases.user_id) invites colleagues as viewers, commenters or editors.
+-- Viewers read the case and everything attached to it, commenters can also post to the case chat,
+-- and editors can change the case, its documents and deadlines. Deleting the case and managing
+-- members stay with the owner.
+CREATE TABLE public.case_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID REFERENCES public.cases(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'commenter', 'editor')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (case_id, user_id)
+);
+
+CREATE INDEX idx_case_members_user ON public.case_members (user_id);
+
+CREATE TRIGGER update_case_members_updated_at
+  BEFORE UPDATE ON public.case_members
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether a user holds at least _role on a case, the owner holding every role. SECURITY DEFINER
+-- so policies on cases and case_members can call it without recursing into each other.
+CREATE OR REPLACE FUNCTION public.has_case_role(_user_id UUID, _case_id UUID, _role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.cases WHERE id = _case_id AND user_id = _user_id)
+    OR EXISTS (
+      SELECT 1 FROM public.case_members
+      WHERE case_id = _case_id
+        AND user_id = _user_id
+        AND array_position(ARRAY['viewer', 'commenter', 'editor'], role)
+          >= array_position(ARRAY['viewer', 'commenter', 'editor'], _role)
+    )
+$$;
+
+ALTER TABLE public.case_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members view case members" ON public.case_members FOR SELECT
+  USING (public.has_case_role(auth.uid(), case_id, 'viewer'));
+CREATE POLICY "Owners add case members" ON public.case_members FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_members.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Owners change case members" ON public.case_members FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_members.case_id AND cases.user_id = auth.uid()));
+CREATE POLICY "Owners remove members and members leave" ON public.case_members FOR DELETE
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.cases WHERE cases.id = case_members.case_id AND cases.user_id = auth.uid())
+  );
+
+-- Cases
+DROP POLICY "Users CRUD own cases" ON public.cases;
+CREATE POLICY "Members view cases" ON public.cases FOR SELECT
+  USING (auth.uid() = user_id OR public.has_case_role(auth.uid(), id, 'viewer'));
+CREATE POLICY "Users create own cases" ON public.cases FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Editors update cases" ON public.cases FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_case_role(auth.uid(), id, 'editor'));
+CREATE POLICY "Owners delete cases" ON public.cases FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- An editor's update must not hand the case to someone else
+CREATE OR REPLACE FUNCTION public.keep_case_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'The owner of a case cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER keep_case_owner
+  BEFORE UPDATE OF user_id ON public.cases
+  FOR EACH ROW EXECUTE FUNCTION public.keep_case_owner();
+
+-- Case chat
+DROP POLICY "Users CRUD own messages" ON public.messages;
+CREATE POLICY "Members view case messages" ON public.messages FOR SELECT
+  USING (public.has_case_role(auth.uid(), case_id, 'viewer'));
+-- Commenters add their own questions only; AI replies are saved by the owner's or an editor's chat
+CREATE POLICY "Commenters add case messages" ON public.messages FOR INSERT
+  WITH CHECK (
+    (role = 'user' AND public.has_case_role(auth.uid(), case_id, 'commenter'))
+    OR public.has_case_role(auth.uid(), case_id, 'editor')
+  );
+CREATE POLICY "Editors update case messages" ON public.messages FOR UPDATE
+  USING (public.has_case_role(auth.uid(), case_id, 'editor'))
+  WITH CHECK (public.has_case_role(auth.uid(), case_id, 'editor'));
+CREATE POLICY "Editors delete case messages" ON public.messages FOR DELETE
+  USING (public.has_case_role(auth.uid(), case_id, 'editor'));
+
+-- Analysis versions
+DROP POLICY "Users view own analysis versions" ON public.analysis_versions;
+DROP POLICY "Users add own analysis versions" ON public.analysis_versions;
+CREATE POLICY "Members view analysis versions" ON public.analysis_versions FOR SELECT
+  USING (public.has_case_role(auth.uid(), case_id, 'viewer'));
+CREATE POLICY "Editors add analysis versions" ON public.analysis_versions FOR INSERT
+  WITH CHECK (public.has_case_role(auth.uid(), case_id, 'editor'));
+
+-- Uploaded documents
+DROP POLICY "Users view own case documents" ON public.case_documents;
+DROP POLICY "Users add own case documents" ON public.case_documents;
+DROP POLICY "Users update own case documents" ON public.case_documents;
+DROP POLICY "Users delete own case documents" ON public.case_documents;
+CREATE POLICY "Members view case documents" ON public.case_documents FOR SELECT
+  USING (public.has_case_role(auth.uid(), case_id, 'viewer'));
+-- A new row must point at a file in the uploader's own folder, as the storage policies below grant
+-- access to whatever file a row names
+CREATE POLICY "Editors add case documents" ON public.case_documents FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND split_part(storage_path, '/', 1) = auth.uid()::text
+    AND public.has_case_role(auth.uid(), case_id, 'editor')
+  );
+CREATE POLICY "Editors update case documents" ON public.case_documents FOR UPDATE
+  USING (public.has_case_role(auth.uid(), case_id, 'editor'))
+  WITH CHECK (public.has_case_role(auth.uid(), case_id, 'editor'));
+
+-- Nor may an update repoint a row at another file or move it to another case
+CREATE OR REPLACE FUNCTION public.keep_document_location()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.storage_path IS DISTINCT FROM OLD.storage_path OR NEW.case_id IS DISTINCT FROM OLD.case_id THEN
+    RAISE EXCEPTION 'The file and case of a document cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER keep_document_location
+  BEFORE UPDATE OF storage_path, case_id ON public.case_documents
+  FOR EACH ROW EXECUTE FUNCTION public.keep_document_location();
+CREATE POLICY "Editors delete case documents" ON public.case_documents FOR DELETE
+  USING (public.has_case_role(auth.uid(), case_id, 'editor'));
+
+-- Files stay under their uploader's folder; members reach them through the case_documents row
+CREATE POLICY "Members read shared case documents" ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'case-documents'
+    AND EXISTS (
+      SELECT 1 FROM public.case_documents d
+      WHERE d.storage_path = storage.objects.name AND public.has_case_role(auth.uid(), d.case_id, 'viewer')
+    )
+  );
+CREATE POLICY "Editors delete shared case documents" ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'case-documents'
+    AND EXISTS (
+      SELECT 1 FROM public.case_documents d
+      WHERE d.storage_path = storage.objects.name AND public.has_case_role(auth.uid(), d.case_id, 'editor')
+    )
+  );
+
+-- Court document drafts
+DROP POLICY "Users view own drafts" ON public.case_documents_drafts;
+DROP POLICY "Users add own drafts" ON public.case_documents_drafts;
+DROP POLICY "Users update own drafts" ON public.case_documents_drafts;
+CREATE POLICY "Members view drafts" ON public.case_documents_drafts FOR SELECT
+  USING (public.has_case_role(auth.uid(), case_id, 'viewer'));
+CREATE POLICY "Editors add drafts" ON public.case_documents_drafts FOR INSERT
+  WITH CHECK (public.has_case_role(auth.uid(), case_id, 'editor'));
+CREATE POLICY "Editors update drafts" ON public.case_documents_drafts FOR UPDATE
+  USING (public.has_case_role(auth.uid(), case_id, 'editor'));
+
+-- Generated documents
+DROP POLICY "Users view own generated documents" ON public.generated_documents;
+DROP POLICY "Users add own generated documents" ON public.generated_documents;
+DROP POLICY "Users update own generated documents" ON public.generated_documents;
+DROP POLICY "Users delete own generated documents" ON public.generated_documents;
+CREATE POLICY "Members view generated documents" ON public.generated_documents FOR SELECT
+  USING (public.has_case_role(auth.uid(), case_id, 'viewer'));
+CREATE POLICY "Editors add generated documents" ON public.generated_documents FOR INSERT
+  WITH CHECK (public.has_case_role(auth.uid(), case_id, 'editor'));
+CREATE POLICY "Editors update generated documents" ON public.generated_documents FOR UPDATE
+  USING (public.has_case_role(auth.uid(), case_id, 'editor'));
+CREATE POLICY "Editors delete generated documents" ON public.generated_documents FOR DELETE
+  USING (public.has_case_role(auth.uid(), case_id, 'editor'));
+
+-- Status history
+DROP POLICY "Users view own case status history" ON public.case_status_history;
+CREATE POLICY "Members view case status history" ON public.case_status_history FOR SELECT
+  USING (public.has_case_role(auth.uid(), case_id, 'viewer'));
+
+-- Deadlines
+DROP POLICY "Users view own case deadlines" ON public.case_deadlines;
+DROP POLICY "Users add own case deadlines" ON public.case_deadlines;
+DROP POLICY "Users update own case deadlines" ON public.case_deadlines;
+DROP POLICY "Users delete own case deadlines" ON public.case_deadlines;
+CREATE POLICY "Members view case deadlines" ON public.case_deadlines FOR SELECT
+  USING (public.has_case_role(auth.uid(), case_id, 'viewer'));
+CREATE POLICY "Editors add case deadlines" ON public.case_deadlines FOR INSERT
+  WITH CHECK (public.has_case_role(auth.uid(), case_id, 'editor'));
+CREATE POLICY "Editors update case deadlines" ON public.case_deadlines FOR UPDATE
+  USING (public.has_case_role(auth.uid(), case_id, 'editor'));
+CREATE POLICY "Editors delete case deadlines" ON public.case_deadlines FOR DELETE
+  USING (public.has_case_role(auth.uid(), case_id, 'editor'));
+
+-- Invites by username (the sign-in email). Profiles are private to their owner, so the lookup runs
+-- here; an existing member's role is updated rather than duplicated.
+CREATE OR REPLACE FUNCTION public.invite_case_member(_case_id UUID, _username TEXT, _role TEXT)
+RETURNS public.case_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitee UUID;
+  _member public.case_members;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.cases WHERE id = _case_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the owner can share this case' USING ERRCODE = '42501';
+  END IF;
+  IF _role NOT IN ('viewer', 'commenter', 'editor') THEN
+    RAISE EXCEPTION 'Unknown role %', _role USING ERRCODE = '22023';
+  END IF;
+
+  SELECT user_id INTO _invitee FROM public.profiles WHERE lower(username) = lower(trim(_username));
+  IF _invitee IS NULL THEN
+    RAISE EXCEPTION 'No user with that username' USING ERRCODE = 'P0002';
+  END IF;
+  IF _invitee = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this case' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.case_members (case_id, user_id, role, invited_by)
+  VALUES (_case_id, _invitee, _role, auth.uid())
+  ON CONFLICT (case_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO _member;
+  RETURN _member;
+END;
+$$;
+
+-- The owner and members of a case with their names, for the sharing dialog
+CREATE OR REPLACE FUNCTION public.list_case_members(_case_id UUID)
+RETURNS TABLE (user_id UUID, name TEXT, username TEXT, role TEXT, created_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.user_id, p.name, p.username, 'owner', c.created_at
+  FROM public.cases c
+  LEFT JOIN public.profiles p ON p.user_id = c.user_id
+  WHERE c.id = _case_id AND public.has_case_role(auth.uid(), _case_id, 'viewer')
+  UNION ALL
+  SELECT m.user_id, p.name, p.username, m.role, m.created_at
+  FROM public.case_members m
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.case_id = _case_id AND public.has_case_role(auth.uid(), _case_id, 'viewer')
+  ORDER BY 5
+$$;
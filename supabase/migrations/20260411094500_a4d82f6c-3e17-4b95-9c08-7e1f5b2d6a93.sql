@@ -0,0 +1,328 @@
+-- Firms (chambers): users belong to at most one firm. Firm admins manage access, subscriptions and
+-- quotas of their own members only; global admins (app_role 'admin') create firms and keep
+-- oversight of all of them. case_visibility opens members' cases to the rest of the firm.
+CREATE TABLE public.firms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  case_visibility TEXT NOT NULL DEFAULT 'private' CHECK (case_visibility IN ('private', 'firm_read', 'firm_edit')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.firm_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id UUID REFERENCES public.firms(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_firm_members_firm ON public.firm_members (firm_id);
+
+CREATE TRIGGER update_firms_updated_at
+  BEFORE UPDATE ON public.firms
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Helpers for the policies below; SECURITY DEFINER so firm_members policies can consult
+-- firm_members without recursing. They only answer for the caller, so they cannot be used to
+-- look up other users' firms.
+CREATE OR REPLACE FUNCTION public.firm_of(_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT firm_id FROM public.firm_members WHERE user_id = _user_id AND _user_id = auth.uid()
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_firm_admin(_user_id UUID, _firm_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.firm_members WHERE user_id = _user_id AND firm_id = _firm_id AND role = 'admin')
+$$;
+
+-- Whether _manager (the caller) may manage _user's account: global admins manage everyone, firm
+-- admins manage the other members of their firm but never themselves or a global admin
+CREATE OR REPLACE FUNCTION public.manages_user(_manager UUID, _user UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _manager = auth.uid()
+    AND (
+      public.has_role(_manager, 'admin')
+      OR (
+        _manager <> _user
+        AND NOT public.has_role(_user, 'admin')
+        AND EXISTS (
+          SELECT 1
+          FROM public.firm_members me
+          JOIN public.firm_members them ON them.firm_id = me.firm_id
+          WHERE me.user_id = _manager AND me.role = 'admin' AND them.user_id = _user
+        )
+      )
+    )
+$$;
+
+ALTER TABLE public.firms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members view own firm" ON public.firms FOR SELECT
+  USING (id = public.firm_of(auth.uid()) OR public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins create firms" ON public.firms FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Firm admins update own firm" ON public.firms FOR UPDATE
+  USING (public.is_firm_admin(auth.uid(), id) OR public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins delete firms" ON public.firms FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.firm_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members view own firm members" ON public.firm_members FOR SELECT
+  USING (firm_id = public.firm_of(auth.uid()) OR public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Firm admins change members" ON public.firm_members FOR UPDATE
+  USING (public.is_firm_admin(auth.uid(), firm_id) OR public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.is_firm_admin(auth.uid(), firm_id) OR public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Firm admins remove members" ON public.firm_members FOR DELETE
+  USING (public.is_firm_admin(auth.uid(), firm_id) OR public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Members leave own firm" ON public.firm_members FOR DELETE
+  USING (user_id = auth.uid());
+-- Only the role can be changed in place; moving a row to another user or firm would bypass the
+-- invitation. Members join through accept_firm_invitation() or, for global admins,
+-- add_firm_member().
+REVOKE UPDATE ON public.firm_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.firm_members TO authenticated;
+
+-- A firm always keeps an admin: its last admin cannot be demoted, removed or leave. Deleting the
+-- firm or the admin's account still takes the membership with it.
+CREATE OR REPLACE FUNCTION public.keep_firm_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'admin'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'admin')
+    AND EXISTS (SELECT 1 FROM public.firms WHERE id = OLD.firm_id)
+    AND EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.firm_members
+      WHERE firm_id = OLD.firm_id AND role = 'admin' AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'A firm needs at least one admin. Make another member a firm admin first.' USING ERRCODE = '22023';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER keep_firm_admin
+  BEFORE UPDATE OF role OR DELETE ON public.firm_members
+  FOR EACH ROW EXECUTE FUNCTION public.keep_firm_admin();
+
+-- Firm admins manage their members' accounts alongside the global admins
+CREATE POLICY "Firm admins view member profiles" ON public.profiles FOR SELECT
+  USING (public.manages_user(auth.uid(), user_id));
+CREATE POLICY "Firm admins update member profiles" ON public.profiles FOR UPDATE
+  USING (public.manages_user(auth.uid(), user_id));
+CREATE POLICY "Firm admins manage member quotas" ON public.user_quotas FOR ALL
+  USING (public.manages_user(auth.uid(), user_id))
+  WITH CHECK (public.manages_user(auth.uid(), user_id));
+CREATE POLICY "Firm admins view member usage" ON public.ai_usage FOR SELECT
+  USING (public.manages_user(auth.uid(), user_id));
+
+-- Firm admins may change their members' entitlements too
+CREATE OR REPLACE FUNCTION public.protect_profile_entitlements()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() <> 'service_role' AND NOT public.manages_user(auth.uid(), NEW.user_id) THEN
+    NEW.access_enabled := OLD.access_enabled;
+    NEW.subscription_active := OLD.subscription_active;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Case access now also follows the owner's firm: 'firm_read' makes fellow members viewers and
+-- 'firm_edit' makes them editors. Explicit case_members roles still apply on top.
+CREATE OR REPLACE FUNCTION public.has_case_role(_user_id UUID, _case_id UUID, _role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _user_id = auth.uid()
+    AND (
+      EXISTS (SELECT 1 FROM public.cases WHERE id = _case_id AND user_id = _user_id)
+      OR EXISTS (
+        SELECT 1 FROM public.case_members
+        WHERE case_id = _case_id
+          AND user_id = _user_id
+          AND array_position(ARRAY['viewer', 'commenter', 'editor'], role)
+            >= array_position(ARRAY['viewer', 'commenter', 'editor'], _role)
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM public.cases c
+        JOIN public.firm_members owner ON owner.user_id = c.user_id
+        JOIN public.firm_members me ON me.firm_id = owner.firm_id AND me.user_id = _user_id
+        JOIN public.firms f ON f.id = owner.firm_id
+        WHERE c.id = _case_id
+          AND (f.case_visibility = 'firm_edit' OR (f.case_visibility = 'firm_read' AND _role = 'viewer'))
+      )
+    )
+$$;
+
+-- The helpers are only needed by RLS policies, which run as the signed-in user
+REVOKE EXECUTE ON FUNCTION public.firm_of(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.is_firm_admin(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.manages_user(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.has_case_role(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.firm_of(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_firm_admin(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.manages_user(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_case_role(UUID, UUID, TEXT) TO authenticated;
+
+-- Firm admins invite users by username and the invited user joins by accepting, so nobody is
+-- put under a firm admin's management without agreeing to it. The username is kept for display,
+-- as firm admins cannot read the profiles of users outside their firm.
+CREATE TABLE public.firm_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id UUID REFERENCES public.firms(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  username TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (firm_id, user_id)
+);
+
+CREATE INDEX idx_firm_invitations_user ON public.firm_invitations (user_id);
+
+ALTER TABLE public.firm_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Invitations are created by invite_firm_member(); the invited user declines, or a firm admin
+-- withdraws, by deleting the row
+CREATE POLICY "Invitees and firm admins view invitations" ON public.firm_invitations FOR SELECT
+  USING (user_id = auth.uid() OR public.is_firm_admin(auth.uid(), firm_id) OR public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Invitees and firm admins delete invitations" ON public.firm_invitations FOR DELETE
+  USING (user_id = auth.uid() OR public.is_firm_admin(auth.uid(), firm_id) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Invitees view inviting firm" ON public.firms FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.firm_invitations i WHERE i.firm_id = firms.id AND i.user_id = auth.uid()));
+
+-- Invites a user by username, or changes the role offered if they are already invited. Users in
+-- another firm have to leave it first.
+CREATE OR REPLACE FUNCTION public.invite_firm_member(_firm_id UUID, _username TEXT, _role TEXT)
+RETURNS public.firm_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user UUID;
+  _name TEXT;
+  _invitation public.firm_invitations;
+BEGIN
+  IF NOT (public.is_firm_admin(auth.uid(), _firm_id) OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only firm admins can invite members' USING ERRCODE = '42501';
+  END IF;
+  IF _role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Unknown role %', _role USING ERRCODE = '22023';
+  END IF;
+
+  SELECT user_id, username INTO _user, _name FROM public.profiles WHERE lower(username) = lower(trim(_username));
+  IF _user IS NULL THEN
+    RAISE EXCEPTION 'No user with that username' USING ERRCODE = 'P0002';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.firm_members WHERE user_id = _user AND firm_id = _firm_id) THEN
+    RAISE EXCEPTION 'That user is already a member of this firm' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.firm_members WHERE user_id = _user) THEN
+    RAISE EXCEPTION 'That user already belongs to another firm' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.firm_invitations (firm_id, user_id, username, role, invited_by)
+  VALUES (_firm_id, _user, _name, _role, auth.uid())
+  ON CONFLICT (firm_id, user_id) DO UPDATE SET role = EXCLUDED.role, invited_by = EXCLUDED.invited_by, created_at = now()
+  RETURNING * INTO _invitation;
+  RETURN _invitation;
+END;
+$$;
+
+-- Joins the firm named in one of the caller's own invitations; any other invitations they hold
+-- are dropped, as a user belongs to at most one firm
+CREATE OR REPLACE FUNCTION public.accept_firm_invitation(_invitation_id UUID)
+RETURNS public.firm_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.firm_invitations;
+  _member public.firm_members;
+BEGIN
+  SELECT * INTO _invitation FROM public.firm_invitations WHERE id = _invitation_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.firm_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You already belong to a firm' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.firm_members (firm_id, user_id, role, added_by)
+  VALUES (_invitation.firm_id, _invitation.user_id, _invitation.role, _invitation.invited_by)
+  RETURNING * INTO _member;
+  DELETE FROM public.firm_invitations WHERE user_id = auth.uid();
+  RETURN _member;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invite_firm_member(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_firm_invitation(UUID) FROM PUBLIC, anon;
+
+-- Adds a user to a firm by username without an invitation, or changes their role if they are
+-- already a member. Global admins only, such as when setting up a firm and its first admin; a
+-- user in another firm has to be removed from it first.
+CREATE OR REPLACE FUNCTION public.add_firm_member(_firm_id UUID, _username TEXT, _role TEXT)
+RETURNS public.firm_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user UUID;
+  _member public.firm_members;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can add members directly' USING ERRCODE = '42501';
+  END IF;
+  IF _role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Unknown role %', _role USING ERRCODE = '22023';
+  END IF;
+
+  SELECT user_id INTO _user FROM public.profiles WHERE lower(username) = lower(trim(_username));
+  IF _user IS NULL THEN
+    RAISE EXCEPTION 'No user with that username' USING ERRCODE = 'P0002';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.firm_members WHERE user_id = _user AND firm_id <> _firm_id) THEN
+    RAISE EXCEPTION 'That user already belongs to another firm' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.firm_members (firm_id, user_id, role, added_by)
+  VALUES (_firm_id, _user, _role, auth.uid())
+  ON CONFLICT (user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO _member;
+  DELETE FROM public.firm_invitations WHERE user_id = _user;
+  RETURN _member;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_firm_member(UUID, TEXT, TEXT) FROM PUBLIC, anon;
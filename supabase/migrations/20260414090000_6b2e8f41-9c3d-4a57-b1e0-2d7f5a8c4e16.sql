@@ -0,0 +1,115 @@
+-- Outcome of each metered AI request, completed by analyze-case once the request ends. Requests
+-- metered before this migration are counted as successful; new ones stay 'pending' until finished.
+ALTER TABLE public.ai_usage
+  ADD COLUMN request_type TEXT CHECK (request_type IN ('analyze', 'chat', 'rewrite', 'document', 'translate')),
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'ok' CHECK (status IN ('pending', 'ok', 'error')),
+  ADD COLUMN error TEXT,
+  ADD COLUMN model TEXT,
+  ADD COLUMN prompt_tokens INTEGER CHECK (prompt_tokens >= 0),
+  ADD COLUMN completion_tokens INTEGER CHECK (completion_tokens >= 0),
+  ADD COLUMN finished_at TIMESTAMPTZ;
+
+ALTER TABLE public.ai_usage ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX ai_usage_created_idx ON public.ai_usage (created_at);
+
+-- record_ai_usage() now returns the new row's id (NULL when the quota is used up), so the function
+-- can record the request's outcome on it
+DROP FUNCTION public.record_ai_usage(UUID, TEXT, INTEGER);
+
+CREATE FUNCTION public.record_ai_usage(_user_id UUID, _kind TEXT, _limit INTEGER)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  used INTEGER;
+  usage_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::text || ':' || _kind));
+
+  SELECT count(*) INTO used
+  FROM public.ai_usage
+  WHERE user_id = _user_id
+    AND kind = _kind
+    AND created_at >= (date_trunc('day', now() AT TIME ZONE 'Asia/Kolkata') AT TIME ZONE 'Asia/Kolkata');
+
+  IF used >= _limit THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.ai_usage (user_id, kind) VALUES (_user_id, _kind) RETURNING id INTO usage_id;
+  RETURN usage_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_ai_usage(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Aggregates for the admin analytics, one row per IST day and user so the dashboard can filter by
+-- date range and user. The views run as their owner to see every user's rows and return nothing
+-- unless the caller is an admin; firm admins are not included.
+CREATE VIEW public.admin_ai_usage_daily AS
+SELECT
+  (u.created_at AT TIME ZONE 'Asia/Kolkata')::date AS day,
+  u.user_id,
+  u.kind,
+  u.request_type,
+  count(*)::integer AS requests,
+  count(*) FILTER (WHERE u.status = 'error')::integer AS errors,
+  count(*) FILTER (WHERE u.status = 'pending')::integer AS pending,
+  coalesce(sum(u.prompt_tokens), 0)::bigint AS prompt_tokens,
+  coalesce(sum(u.completion_tokens), 0)::bigint AS completion_tokens
+FROM public.ai_usage u
+WHERE public.has_role(auth.uid(), 'admin')
+GROUP BY 1, 2, 3, 4;
+
+-- Stored analyses and the questions asked in case and general chat. Case messages carry no author,
+-- so they are attributed to the case owner.
+CREATE VIEW public.admin_activity_daily AS
+SELECT day, user_id, sum(analyses)::integer AS analyses, sum(chat_messages)::integer AS chat_messages
+FROM (
+  SELECT (v.created_at AT TIME ZONE 'Asia/Kolkata')::date AS day, v.created_by AS user_id, count(*) AS analyses, 0 AS chat_messages
+  FROM public.analysis_versions v
+  WHERE v.created_by IS NOT NULL
+  GROUP BY 1, 2
+  UNION ALL
+  SELECT (m.created_at AT TIME ZONE 'Asia/Kolkata')::date, c.user_id, 0, count(*)
+  FROM public.messages m
+  JOIN public.cases c ON c.id = m.case_id
+  WHERE m.role = 'user'
+  GROUP BY 1, 2
+  UNION ALL
+  SELECT (g.created_at AT TIME ZONE 'Asia/Kolkata')::date, g.user_id, 0, count(*)
+  FROM public.general_messages g
+  WHERE g.role = 'user'
+  GROUP BY 1, 2
+) activity
+WHERE public.has_role(auth.uid(), 'admin')
+GROUP BY day, user_id;
+
+-- Cases opened per category, and per offence; a case listing several offences ("A; B") counts
+-- once under each of them
+CREATE VIEW public.admin_case_categories_daily AS
+SELECT
+  (c.created_at AT TIME ZONE 'Asia/Kolkata')::date AS day,
+  c.user_id,
+  nullif(trim(c.category), '') AS category,
+  count(*)::integer AS cases
+FROM public.cases c
+WHERE public.has_role(auth.uid(), 'admin')
+GROUP BY 1, 2, 3;
+
+CREATE VIEW public.admin_case_offences_daily AS
+SELECT
+  (c.created_at AT TIME ZONE 'Asia/Kolkata')::date AS day,
+  c.user_id,
+  trim(o.offence) AS offence,
+  count(*)::integer AS cases
+FROM public.cases c
+CROSS JOIN LATERAL unnest(string_to_array(c.offence, ';')) AS o(offence)
+WHERE trim(o.offence) <> '' AND public.has_role(auth.uid(), 'admin')
+GROUP BY 1, 2, 3;
+
+REVOKE ALL ON public.admin_ai_usage_daily, public.admin_activity_daily, public.admin_case_categories_daily, public.admin_case_offences_daily FROM PUBLIC, anon;
+GRANT SELECT ON public.admin_ai_usage_daily, public.admin_activity_daily, public.admin_case_categories_daily, public.admin_case_offences_daily TO authenticated;
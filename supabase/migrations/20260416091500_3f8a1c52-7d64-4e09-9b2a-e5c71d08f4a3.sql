@@ -0,0 +1,177 @@
+-- Subscription plans with per-plan daily limits. A user's plan runs from starts_on to ends_on
+-- (inclusive IST calendar days); profiles.subscription_active is derived from those dates.
+CREATE TABLE public.subscription_plans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  duration_days INTEGER NOT NULL CHECK (duration_days > 0),
+  daily_analysis_limit INTEGER NOT NULL CHECK (daily_analysis_limit >= 0),
+  daily_chat_limit INTEGER NOT NULL CHECK (daily_chat_limit >= 0),
+  daily_upload_limit INTEGER NOT NULL CHECK (daily_upload_limit >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.subscription_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users read plans" ON public.subscription_plans FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins manage plans" ON public.subscription_plans FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_subscription_plans_updated_at
+  BEFORE UPDATE ON public.subscription_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.subscription_plans (id, name, duration_days, daily_analysis_limit, daily_chat_limit, daily_upload_limit, sort_order) VALUES
+  ('trial', 'Trial', 14, 5, 50, 5, 1),
+  ('monthly', 'Monthly', 30, 20, 200, 30, 2),
+  ('annual', 'Annual', 365, 20, 200, 30, 3);
+
+CREATE TABLE public.user_subscriptions (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id TEXT NOT NULL REFERENCES public.subscription_plans(id),
+  starts_on DATE NOT NULL DEFAULT (now() AT TIME ZONE 'Asia/Kolkata')::date,
+  ends_on DATE NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX idx_user_subscriptions_ends_on ON public.user_subscriptions (ends_on);
+
+ALTER TABLE public.user_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own subscription" ON public.user_subscriptions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins manage subscriptions" ON public.user_subscriptions FOR ALL
+  USING (public.manages_user(auth.uid(), user_id))
+  WITH CHECK (public.manages_user(auth.uid(), user_id));
+
+CREATE TRIGGER update_user_subscriptions_updated_at
+  BEFORE UPDATE ON public.user_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Jobs without a JWT (the expiry job) may change entitlements as well
+CREATE OR REPLACE FUNCTION public.protect_profile_entitlements()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF coalesce(auth.role(), 'service_role') <> 'service_role' AND NOT public.manages_user(auth.uid(), NEW.user_id) THEN
+    NEW.access_enabled := OLD.access_enabled;
+    NEW.subscription_active := OLD.subscription_active;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keeps the profile flag in step whenever a plan is assigned or its dates change
+CREATE OR REPLACE FUNCTION public.sync_subscription_flag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today DATE := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+BEGIN
+  UPDATE public.profiles
+  SET subscription_active = (today BETWEEN NEW.starts_on AND NEW.ends_on)
+  WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_user_subscription_flag
+  AFTER INSERT OR UPDATE OF starts_on, ends_on ON public.user_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.sync_subscription_flag();
+
+-- Run daily just after midnight IST: lapses plans whose end date has passed and starts plans
+-- scheduled to begin today. Returns the number of profiles changed.
+CREATE OR REPLACE FUNCTION public.expire_subscriptions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today DATE := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  changed INTEGER;
+BEGIN
+  UPDATE public.profiles p
+  SET subscription_active = (today BETWEEN s.starts_on AND s.ends_on)
+  FROM public.user_subscriptions s
+  WHERE s.user_id = p.user_id
+    AND p.subscription_active IS DISTINCT FROM (today BETWEEN s.starts_on AND s.ends_on);
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_subscriptions() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- 18:35 UTC is 00:05 IST
+SELECT cron.schedule('expire-subscriptions', '35 18 * * *', 'SELECT public.expire_subscriptions()');
+
+-- New accounts start on the trial plan
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, name, username, phone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'name', ''),
+    COALESCE(NEW.raw_user_meta_data->>'username', ''),
+    COALESCE(NEW.raw_user_meta_data->>'phone', '')
+  );
+  INSERT INTO public.user_roles (user_id, role) VALUES (NEW.id, 'user');
+  INSERT INTO public.user_subscriptions (user_id, plan_id, ends_on)
+  SELECT NEW.id, id, (now() AT TIME ZONE 'Asia/Kolkata')::date + duration_days - 1
+  FROM public.subscription_plans WHERE id = 'trial';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Uploads count against the uploader's plan. The error DETAIL carries the limit that was hit, as
+-- JSON, for the client's subscription dialog. Accounts without a plan are not limited.
+CREATE OR REPLACE FUNCTION public.enforce_upload_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today DATE := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  sub RECORD;
+  used INTEGER;
+BEGIN
+  SELECT s.starts_on, s.ends_on, p.name, p.daily_upload_limit INTO sub
+  FROM public.user_subscriptions s
+  JOIN public.subscription_plans p ON p.id = s.plan_id
+  WHERE s.user_id = NEW.user_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF today NOT BETWEEN sub.starts_on AND sub.ends_on THEN
+    RAISE EXCEPTION 'Your subscription has expired'
+      USING ERRCODE = '54000', DETAIL = json_build_object('reason', 'expired', 'plan', sub.name, 'endsOn', sub.ends_on)::text;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::text || ':upload'));
+  SELECT count(*) INTO used
+  FROM public.case_documents
+  WHERE user_id = NEW.user_id
+    AND created_at >= (date_trunc('day', now() AT TIME ZONE 'Asia/Kolkata') AT TIME ZONE 'Asia/Kolkata');
+
+  IF used >= sub.daily_upload_limit THEN
+    RAISE EXCEPTION 'Daily upload limit of % reached', sub.daily_upload_limit
+      USING ERRCODE = '54000', DETAIL = json_build_object('reason', 'upload', 'plan', sub.name, 'limit', sub.daily_upload_limit)::text;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_case_document_upload_limit
+  BEFORE INSERT ON public.case_documents
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_upload_limit();
@@ -0,0 +1,279 @@
+-- Append-only log of admin actions. Triggers on the tables admins manage record who changed what,
+-- with the row before and after; each entry's hash covers the previous entry's hash, so editing or
+-- removing an entry breaks the chain from that point on (see verify_admin_audit_log()).
+CREATE TABLE public.admin_audit_log (
+  id BIGINT PRIMARY KEY,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- No foreign keys: entries outlive the accounts they mention
+  actor_id UUID,
+  actor_role TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_table TEXT NOT NULL,
+  target_id TEXT,
+  target_user_id UUID,
+  before JSONB,
+  after JSONB,
+  prev_hash TEXT NOT NULL,
+  hash TEXT NOT NULL
+);
+
+CREATE SEQUENCE public.admin_audit_log_id_seq OWNED BY public.admin_audit_log.id;
+
+CREATE INDEX idx_admin_audit_log_occurred_at ON public.admin_audit_log (occurred_at DESC);
+CREATE INDEX idx_admin_audit_log_actor ON public.admin_audit_log (actor_id, occurred_at DESC);
+CREATE INDEX idx_admin_audit_log_target_user ON public.admin_audit_log (target_user_id, occurred_at DESC);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins view audit log" ON public.admin_audit_log FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Entries are only ever written by the SECURITY DEFINER functions below
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.admin_audit_log FROM PUBLIC, anon, authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.reject_audit_log_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The admin audit log is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER admin_audit_log_no_update
+  BEFORE UPDATE OR DELETE ON public.admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.reject_audit_log_change();
+
+CREATE TRIGGER admin_audit_log_no_truncate
+  BEFORE TRUNCATE ON public.admin_audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION public.reject_audit_log_change();
+
+-- The hash of an entry: every field, in a fixed order and text form, after the previous hash.
+-- Empty fields stay in place so that moving a value between fields changes the hash.
+CREATE OR REPLACE FUNCTION public.audit_entry_hash(entry public.admin_audit_log)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(concat_ws('|',
+    entry.prev_hash,
+    entry.id::text,
+    to_char(entry.occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    coalesce(entry.actor_id::text, ''),
+    entry.actor_role,
+    entry.action,
+    entry.target_table,
+    coalesce(entry.target_id, ''),
+    coalesce(entry.target_user_id::text, ''),
+    coalesce(entry.before::text, ''),
+    coalesce(entry.after::text, '')
+  ), 'UTF8')), 'hex')
+$$;
+
+-- Chains each new entry onto the last one. The advisory lock serialises writers, and the id is
+-- taken under it, so id order is chain order even with concurrent admins.
+CREATE OR REPLACE FUNCTION public.chain_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('admin_audit_log'));
+  NEW.id := nextval('public.admin_audit_log_id_seq');
+  NEW.occurred_at := now();
+  SELECT hash INTO NEW.prev_hash FROM public.admin_audit_log ORDER BY id DESC LIMIT 1;
+  NEW.prev_hash := coalesce(NEW.prev_hash, repeat('0', 64));
+  NEW.hash := public.audit_entry_hash(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_admin_audit_entry
+  BEFORE INSERT ON public.admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.chain_audit_entry();
+
+-- How the current caller acted: as a global admin, a firm admin, a service (edge functions) or the
+-- system (scheduled jobs, which run without a JWT)
+CREATE OR REPLACE FUNCTION public.audit_actor_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN CASE WHEN auth.role() = 'service_role' THEN 'service' ELSE 'system' END
+    WHEN public.has_role(auth.uid(), 'admin') THEN 'admin'
+    WHEN EXISTS (SELECT 1 FROM public.firm_members WHERE user_id = auth.uid() AND role = 'admin') THEN 'firm_admin'
+    ELSE 'user'
+  END
+$$;
+
+-- Records an action the triggers cannot see, such as deleting an account from the delete-user
+-- function, which acts with the service role on behalf of _actor
+CREATE OR REPLACE FUNCTION public.record_admin_action(
+  _actor UUID,
+  _action TEXT,
+  _target_table TEXT,
+  _target_id TEXT,
+  _target_user UUID,
+  _before JSONB DEFAULT NULL,
+  _after JSONB DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry_id BIGINT;
+BEGIN
+  INSERT INTO public.admin_audit_log (actor_id, actor_role, action, target_table, target_id, target_user_id, before, after, prev_hash, hash)
+  VALUES (
+    _actor,
+    CASE WHEN public.has_role(_actor, 'admin') THEN 'admin' ELSE public.audit_actor_role() END,
+    _action, _target_table, _target_id, _target_user, _before, _after, '', ''
+  )
+  RETURNING id INTO entry_id;
+  RETURN entry_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_admin_action(UUID, TEXT, TEXT, TEXT, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Writes an entry for each change to an admin-managed row. Trigger arguments, when given, name the
+-- only columns worth recording (profiles carries much the user edits themselves); updates that
+-- touch none of the recorded columns, or only updated_at, are skipped. Rows created by
+-- handle_new_user() at sign-up are not admin actions and are skipped too.
+CREATE OR REPLACE FUNCTION public.audit_admin_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  row_data JSONB := coalesce(new_row, old_row);
+  before_data JSONB := old_row;
+  after_data JSONB := new_row;
+  col TEXT;
+BEGIN
+  IF current_setting('app.audit_context', true) = 'signup' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_NARGS > 0 THEN
+    before_data := CASE WHEN old_row IS NOT NULL THEN '{}'::jsonb END;
+    after_data := CASE WHEN new_row IS NOT NULL THEN '{}'::jsonb END;
+    FOREACH col IN ARRAY TG_ARGV LOOP
+      before_data := before_data || jsonb_build_object(col, old_row -> col);
+      after_data := after_data || jsonb_build_object(col, new_row -> col);
+    END LOOP;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (before_data - 'updated_at') = (after_data - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.admin_audit_log (actor_id, actor_role, action, target_table, target_id, target_user_id, before, after, prev_hash, hash)
+  VALUES (
+    auth.uid(),
+    public.audit_actor_role(),
+    TG_TABLE_NAME || '.' || lower(TG_OP),
+    TG_TABLE_NAME,
+    coalesce(row_data ->> 'id', row_data ->> 'user_id'),
+    (row_data ->> 'user_id')::uuid,
+    before_data,
+    after_data,
+    '', ''
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_profiles_entitlements
+  AFTER UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.audit_admin_change('access_enabled', 'subscription_active');
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.audit_admin_change();
+
+CREATE TRIGGER audit_user_quotas
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_quotas
+  FOR EACH ROW EXECUTE FUNCTION public.audit_admin_change();
+
+CREATE TRIGGER audit_user_subscriptions
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_admin_change();
+
+CREATE TRIGGER audit_subscription_plans
+  AFTER INSERT OR UPDATE OR DELETE ON public.subscription_plans
+  FOR EACH ROW EXECUTE FUNCTION public.audit_admin_change();
+
+CREATE TRIGGER audit_firms
+  AFTER INSERT OR UPDATE OR DELETE ON public.firms
+  FOR EACH ROW EXECUTE FUNCTION public.audit_admin_change();
+
+CREATE TRIGGER audit_firm_members
+  AFTER INSERT OR UPDATE OR DELETE ON public.firm_members
+  FOR EACH ROW EXECUTE FUNCTION public.audit_admin_change();
+
+CREATE TRIGGER audit_court_holidays
+  AFTER INSERT OR UPDATE OR DELETE ON public.court_holidays
+  FOR EACH ROW EXECUTE FUNCTION public.audit_admin_change();
+
+-- Marks the sign-up transaction so the audit triggers skip the rows it creates
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM set_config('app.audit_context', 'signup', true);
+  INSERT INTO public.profiles (user_id, name, username, phone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'name', ''),
+    COALESCE(NEW.raw_user_meta_data->>'username', ''),
+    COALESCE(NEW.raw_user_meta_data->>'phone', '')
+  );
+  INSERT INTO public.user_roles (user_id, role) VALUES (NEW.id, 'user');
+  INSERT INTO public.user_subscriptions (user_id, plan_id, ends_on)
+  SELECT NEW.id, id, (now() AT TIME ZONE 'Asia/Kolkata')::date + duration_days - 1
+  FROM public.subscription_plans WHERE id = 'trial';
+  PERFORM set_config('app.audit_context', '', true);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Walks the chain in id order. Returns how many entries were checked and the first one whose
+-- hash or link to its predecessor does not match, or NULL when the whole chain is intact.
+CREATE OR REPLACE FUNCTION public.verify_admin_audit_log()
+RETURNS TABLE (checked BIGINT, first_invalid_id BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry public.admin_audit_log;
+  expected_prev TEXT := repeat('0', 64);
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can verify the audit log' USING ERRCODE = '42501';
+  END IF;
+
+  checked := 0;
+  FOR entry IN SELECT * FROM public.admin_audit_log ORDER BY id LOOP
+    checked := checked + 1;
+    IF entry.prev_hash <> expected_prev OR entry.hash <> public.audit_entry_hash(entry) THEN
+      first_invalid_id := entry.id;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+    expected_prev := entry.hash;
+  END LOOP;
+  first_invalid_id := NULL;
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,187 @@
+-- Account deletion, done by the delete-user function with the service role. Deleting the auth user
+-- cascades to everything the account owns in one transaction; an admin may instead schedule the
+-- deletion, which disables the account for a grace period during which it can be restored.
+--
+-- A row here outlives the account: once purged it keeps the storage paths of the account's
+-- uploads until the files are removed, which SQL cannot do. delete-user removes them right after
+-- an immediate deletion, and the purge-account-files function sweeps up nightly after the purge.
+CREATE TABLE public.account_deletions (
+  user_id UUID PRIMARY KEY,
+  requested_by UUID,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  purge_after TIMESTAMPTZ NOT NULL,
+  -- Restored to the profile if the deletion is cancelled
+  previous_access BOOLEAN NOT NULL DEFAULT true,
+  purged_at TIMESTAMPTZ,
+  pending_files TEXT[] NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX idx_account_deletions_due ON public.account_deletions (purge_after) WHERE purged_at IS NULL;
+
+ALTER TABLE public.account_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins view account deletions" ON public.account_deletions FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.account_deletions FROM anon, authenticated;
+
+-- Uploads that go with the account: everyone's on the cases it owns. What it uploaded to other
+-- people's cases stays with those cases.
+CREATE OR REPLACE FUNCTION public.account_document_paths(_user UUID)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(d.storage_path), '{}')
+  FROM public.case_documents d
+  WHERE d.case_id IN (SELECT id FROM public.cases WHERE user_id = _user)
+$$;
+
+-- Deletes the account and all its data at once. general_messages has no foreign key to the user,
+-- so it is cleared by hand; everything else cascades from auth.users, apart from the account's
+-- uploads on other people's cases, which are handed to the case owner first. Returns the storage
+-- paths the caller should remove.
+CREATE OR REPLACE FUNCTION public.delete_user_account(_actor UUID, _user UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  snapshot JSONB;
+  paths TEXT[];
+BEGIN
+  IF _actor = _user THEN
+    RAISE EXCEPTION 'You cannot delete your own account' USING ERRCODE = '22023';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = _user) THEN
+    RAISE EXCEPTION 'No such user' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT jsonb_build_object('name', name, 'username', username, 'phone', phone, 'access_enabled', access_enabled, 'subscription_active', subscription_active)
+  INTO snapshot
+  FROM public.profiles WHERE user_id = _user;
+  paths := public.account_document_paths(_user);
+
+  PERFORM public.record_admin_action(_actor, 'user.delete', 'auth.users', _user::text, _user, snapshot, NULL);
+  UPDATE public.case_documents d
+  SET user_id = c.user_id
+  FROM public.cases c
+  WHERE c.id = d.case_id AND d.user_id = _user AND c.user_id <> _user;
+  DELETE FROM public.general_messages WHERE user_id = _user;
+  DELETE FROM auth.users WHERE id = _user;
+
+  INSERT INTO public.account_deletions (user_id, requested_by, purge_after, previous_access, purged_at, pending_files)
+  VALUES (_user, _actor, now(), coalesce((snapshot ->> 'access_enabled')::boolean, true), now(), paths)
+  ON CONFLICT (user_id) DO UPDATE SET purged_at = now(), pending_files = EXCLUDED.pending_files;
+  RETURN paths;
+END;
+$$;
+
+-- Disables the account now and deletes it once the grace period has passed
+CREATE OR REPLACE FUNCTION public.schedule_user_deletion(_actor UUID, _user UUID, _grace_days INTEGER)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  access BOOLEAN;
+  due TIMESTAMPTZ := now() + make_interval(days => _grace_days);
+BEGIN
+  IF _actor = _user THEN
+    RAISE EXCEPTION 'You cannot delete your own account' USING ERRCODE = '22023';
+  END IF;
+  IF _grace_days IS NULL OR _grace_days NOT BETWEEN 1 AND 90 THEN
+    RAISE EXCEPTION 'The grace period must be between 1 and 90 days' USING ERRCODE = '22023';
+  END IF;
+  SELECT access_enabled INTO access FROM public.profiles WHERE user_id = _user;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No such user' USING ERRCODE = 'P0002';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.account_deletions WHERE user_id = _user AND purged_at IS NULL) THEN
+    RAISE EXCEPTION 'This account is already scheduled for deletion' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.account_deletions (user_id, requested_by, purge_after, previous_access)
+  VALUES (_user, _actor, due, access)
+  ON CONFLICT (user_id) DO UPDATE
+  SET requested_by = EXCLUDED.requested_by, requested_at = now(), purge_after = EXCLUDED.purge_after,
+      previous_access = EXCLUDED.previous_access, purged_at = NULL, pending_files = '{}';
+  UPDATE public.profiles SET access_enabled = false WHERE user_id = _user;
+
+  PERFORM public.record_admin_action(_actor, 'user.schedule_delete', 'auth.users', _user::text, _user,
+    jsonb_build_object('access_enabled', access), jsonb_build_object('access_enabled', false, 'purge_after', due));
+  RETURN due;
+END;
+$$;
+
+-- Cancels a scheduled deletion and gives the account back the access it had
+CREATE OR REPLACE FUNCTION public.restore_user_account(_actor UUID, _user UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pending public.account_deletions;
+BEGIN
+  DELETE FROM public.account_deletions WHERE user_id = _user AND purged_at IS NULL RETURNING * INTO pending;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This account is not scheduled for deletion' USING ERRCODE = 'P0002';
+  END IF;
+  UPDATE public.profiles SET access_enabled = pending.previous_access WHERE user_id = _user;
+
+  PERFORM public.record_admin_action(_actor, 'user.restore', 'auth.users', _user::text, _user,
+    jsonb_build_object('purge_after', pending.purge_after), jsonb_build_object('access_enabled', pending.previous_access));
+END;
+$$;
+
+-- Run nightly: deletes the accounts whose grace period has passed, each in its own subtransaction
+-- so one failure does not hold back the rest. Returns the number deleted.
+CREATE OR REPLACE FUNCTION public.purge_deleted_accounts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due RECORD;
+  purged INTEGER := 0;
+BEGIN
+  FOR due IN SELECT user_id FROM public.account_deletions WHERE purged_at IS NULL AND purge_after <= now() LOOP
+    BEGIN
+      PERFORM public.delete_user_account(NULL, due.user_id);
+      purged := purged + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not delete account %: %', due.user_id, SQLERRM;
+    END;
+  END LOOP;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.account_document_paths(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.delete_user_account(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.schedule_user_deletion(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_user_account(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_accounts() FROM PUBLIC, anon, authenticated;
+
+-- 18:50 UTC is 00:20 IST, after the subscription expiry job
+SELECT cron.schedule('purge-deleted-accounts', '50 18 * * *', 'SELECT public.purge_deleted_accounts()');
+
+-- 19:05 UTC is 00:35 IST: removes the files of the accounts purged above. The project URL and
+-- service role key are read from Vault secrets 'project_url' and 'service_role_key', which have
+-- to be created once per project.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule('remove-deleted-account-files', '5 19 * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-account-files',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )
+  )
+$$);
@@ -0,0 +1,170 @@
+-- Admin user management: the user table is searched, sorted and paged in the database, and each
+-- user has a detail page built from admin_user_overview() and admin_login_history().
+
+-- One page of the users the caller manages, matching _search against name, username or phone.
+-- Runs as the caller, so profile RLS applies on top of manages_user(); admins and the caller are
+-- left out as the table never listed them. total_count is the number of matches before paging.
+CREATE OR REPLACE FUNCTION public.admin_list_users(
+  _search TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'created_at',
+  _ascending BOOLEAN DEFAULT false,
+  _limit INTEGER DEFAULT 25,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  username TEXT,
+  phone TEXT,
+  access_enabled BOOLEAN,
+  subscription_active BOOLEAN,
+  created_at TIMESTAMPTZ,
+  firm_name TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH pattern AS (
+    SELECT '%' || replace(replace(replace(trim(coalesce(_search, '')), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  ),
+  matches AS (
+    SELECT p.*
+    FROM public.profiles p, pattern
+    WHERE p.user_id <> auth.uid()
+      AND NOT public.has_role(p.user_id, 'admin')
+      AND public.manages_user(auth.uid(), p.user_id)
+      AND (
+        trim(coalesce(_search, '')) = ''
+        OR p.name ILIKE pattern.value
+        OR p.username ILIKE pattern.value
+        OR p.phone ILIKE pattern.value
+      )
+  )
+  SELECT m.user_id, m.name, m.username, m.phone, m.access_enabled, m.subscription_active, m.created_at, f.name, count(*) OVER ()
+  FROM matches m
+  LEFT JOIN public.firm_members fm ON fm.user_id = m.user_id
+  LEFT JOIN public.firms f ON f.id = fm.firm_id
+  ORDER BY
+    CASE WHEN _sort = 'name' AND _ascending THEN lower(m.name) END ASC,
+    CASE WHEN _sort = 'name' AND NOT _ascending THEN lower(m.name) END DESC,
+    CASE WHEN _sort = 'username' AND _ascending THEN lower(m.username) END ASC,
+    CASE WHEN _sort = 'username' AND NOT _ascending THEN lower(m.username) END DESC,
+    CASE WHEN _sort = 'created_at' AND _ascending THEN m.created_at END ASC,
+    m.created_at DESC,
+    m.user_id
+  LIMIT least(greatest(_limit, 1), 100)
+  OFFSET greatest(_offset, 0)
+$$;
+
+-- Accounts whose name or username matches _search, for the analytics and audit log filters that
+-- pick one user. Global admins only; unlike admin_list_users() it includes admins, who are the
+-- actors in the audit log.
+CREATE OR REPLACE FUNCTION public.admin_find_users(_search TEXT, _limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  username TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH pattern AS (
+    SELECT '%' || replace(replace(replace(trim(coalesce(_search, '')), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  )
+  SELECT p.user_id, p.name, p.username
+  FROM public.profiles p, pattern
+  WHERE public.has_role(auth.uid(), 'admin')
+    AND (p.name ILIKE pattern.value OR p.username ILIKE pattern.value)
+  ORDER BY lower(p.name), p.user_id
+  LIMIT least(greatest(_limit, 1), 50)
+$$;
+
+-- Figures for the user detail page: cases, recent activity, and today's usage against the limits
+-- that apply. A NULL analysis or chat limit means the AI function's configured default; a NULL
+-- upload limit means uploads are not limited (no plan).
+CREATE OR REPLACE FUNCTION public.admin_user_overview(_user UUID)
+RETURNS TABLE (
+  case_count BIGINT,
+  shared_case_count BIGINT,
+  document_count BIGINT,
+  last_sign_in_at TIMESTAMPTZ,
+  last_activity_at TIMESTAMPTZ,
+  analyses_today BIGINT,
+  chats_today BIGINT,
+  uploads_today BIGINT,
+  analysis_limit INTEGER,
+  chat_limit INTEGER,
+  upload_limit INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  day_start TIMESTAMPTZ := ((now() AT TIME ZONE 'Asia/Kolkata')::date)::timestamp AT TIME ZONE 'Asia/Kolkata';
+BEGIN
+  IF NOT public.manages_user(auth.uid(), _user) THEN
+    RAISE EXCEPTION 'You do not manage this user' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (SELECT count(*) FROM public.cases WHERE cases.user_id = _user),
+    (SELECT count(*) FROM public.case_members WHERE case_members.user_id = _user),
+    (SELECT count(*) FROM public.case_documents WHERE case_documents.user_id = _user),
+    u.last_sign_in_at,
+    greatest(
+      (SELECT max(updated_at) FROM public.cases WHERE cases.user_id = _user),
+      (SELECT max(ai_usage.created_at) FROM public.ai_usage WHERE ai_usage.user_id = _user),
+      (SELECT max(general_messages.created_at) FROM public.general_messages WHERE general_messages.user_id = _user),
+      (SELECT max(case_documents.created_at) FROM public.case_documents WHERE case_documents.user_id = _user)
+    ),
+    (SELECT count(*) FROM public.ai_usage WHERE ai_usage.user_id = _user AND kind = 'analysis' AND ai_usage.created_at >= day_start),
+    (SELECT count(*) FROM public.ai_usage WHERE ai_usage.user_id = _user AND kind = 'chat' AND ai_usage.created_at >= day_start),
+    (SELECT count(*) FROM public.case_documents WHERE case_documents.user_id = _user AND case_documents.created_at >= day_start),
+    coalesce(q.daily_analysis_limit, p.daily_analysis_limit),
+    coalesce(q.daily_chat_limit, p.daily_chat_limit),
+    p.daily_upload_limit
+  FROM auth.users u
+  LEFT JOIN public.user_quotas q ON q.user_id = u.id
+  LEFT JOIN public.user_subscriptions s ON s.user_id = u.id
+  LEFT JOIN public.subscription_plans p ON p.id = s.plan_id
+  WHERE u.id = _user;
+END;
+$$;
+
+-- Sign-ins and other account events from the auth audit trail, newest first. Supabase keeps that
+-- trail for a limited time, so older history is not available.
+CREATE OR REPLACE FUNCTION public.admin_login_history(_user UUID, _limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  occurred_at TIMESTAMPTZ,
+  action TEXT,
+  ip_address TEXT,
+  provider TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.manages_user(auth.uid(), _user) THEN
+    RAISE EXCEPTION 'You do not manage this user' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.created_at, e.payload ->> 'action', e.ip_address::text, e.payload -> 'traits' ->> 'provider'
+  FROM auth.audit_log_entries e
+  WHERE e.payload ->> 'actor_id' = _user::text
+    AND e.payload ->> 'action' IN ('login', 'logout', 'user_signedup', 'user_recovery_requested', 'user_updated_password')
+  ORDER BY e.created_at DESC
+  LIMIT least(greatest(_limit, 1), 200);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_user_overview(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_login_history(UUID, INTEGER) FROM PUBLIC, anon;